@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import type { BasinEpisodesResponse } from '@/types';
+
+import type * as BasinEpisodesRoute from '../basins/[basinName]/episodes/route';
+import { TEST_DATABASE_URL, useTestDatabase } from './testDatabase';
+
+describe.skipIf(!TEST_DATABASE_URL)('GET /api/basins/[basinName]/episodes', () => {
+  useTestDatabase();
+
+  let GET: typeof BasinEpisodesRoute.GET;
+  beforeAll(async () => {
+    ({ GET } = await import('../basins/[basinName]/episodes/route'));
+  });
+
+  const fetchEpisodes = async (query: string, basinName = '淀川') => {
+    const encoded = encodeURIComponent(basinName);
+    const res = await GET(
+      new NextRequest(`http://localhost/api/basins/${encoded}/episodes?${query}`),
+      { params: Promise.resolve({ basinName: encoded }) },
+    );
+    expect(res.status).toBe(200);
+    return (await res.json()) as BasinEpisodesResponse;
+  };
+
+  const summarize = (body: BasinEpisodesResponse) =>
+    body.episodes.map((episode) =>
+      episode.members.map((member) => [member.station_id, member.peak_time, member.lagHours]),
+    );
+
+  it('clusters peaks of different stations in the basin', async () => {
+    const body = await fetchEpisodes('');
+    expect(body).toMatchObject({
+      basinName: '淀川',
+      windowHours: 6,
+      minStations: 2,
+      totalEvents: 7,
+      truncated: false,
+    });
+    // The two S001 peaks on 2020-07-31/08-01 are one station and never form an episode
+    expect(summarize(body)).toEqual([
+      [
+        ['S001', '2019-09-30 20:00:00', 0],
+        ['S002', '2019-09-30 22:00:00', 2],
+      ],
+      [
+        ['S001', '2020-07-04 03:00:00', 0],
+        ['S002', '2020-07-04 06:00:00', 3],
+      ],
+    ]);
+  });
+
+  it('only groups stations of the same basin', async () => {
+    // S003 (利根川) peaks 9 h after S001 on 2020-07-04 but must not join the 淀川 episode
+    const wide = await fetchEpisodes('windowHours=12');
+    expect(wide.episodes.map((episode) => episode.stationCount)).toEqual([2, 2]);
+
+    const tone = await fetchEpisodes('windowHours=72', '利根川');
+    expect(tone.totalEvents).toBe(1);
+    expect(tone.episodes).toEqual([]);
+  });
+
+  it('keeps a peak that touches the window and drops one beyond it', async () => {
+    // The 2019 pair is exactly 2 h apart, the 2020 pair 3 h
+    expect(summarize(await fetchEpisodes('windowHours=2'))).toEqual([
+      [
+        ['S001', '2019-09-30 20:00:00', 0],
+        ['S002', '2019-09-30 22:00:00', 2],
+      ],
+    ]);
+    expect((await fetchEpisodes('windowHours=1')).episodes).toEqual([]);
+  });
+
+  it('applies the date range and the station filter', async () => {
+    const ranged = await fetchEpisodes('peakStart=2020-01-01&peakEnd=2020-12-31');
+    expect(ranged.totalEvents).toBe(4);
+    expect(ranged.episodes.map((episode) => episode.startPeakTime)).toEqual([
+      '2020-07-04 03:00:00',
+    ]);
+
+    expect((await fetchEpisodes('station=S004')).episodes).toEqual([]);
+    expect((await fetchEpisodes('station=S002')).episodes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,173 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import type * as BasinEventsRoute from '../basins/[basinName]/events/route';
+import { collectPages, type Endpoint, readCount, readEvents } from './contracts';
+import {
+  BULK_EVENT_COUNT,
+  BULK_TEST_OPTIONS,
+  TEST_DATABASE_URL,
+  useTestDatabase,
+} from './testDatabase';
+
+describe.skipIf(!TEST_DATABASE_URL)('GET /api/basins/[basinName]/events', () => {
+  useTestDatabase();
+
+  let GET: typeof BasinEventsRoute.GET;
+  beforeAll(async () => {
+    ({ GET } = await import('../basins/[basinName]/events/route'));
+  });
+
+  // Next passes the path segment still percent-encoded
+  const request =
+    (basinName: string): Endpoint =>
+    (query) => {
+      const encoded = encodeURIComponent(basinName);
+      return GET(new NextRequest(`http://localhost/api/basins/${encoded}/events?${query}`), {
+        params: Promise.resolve({ basinName: encoded }),
+      });
+    };
+  const fetchEvents = async (query: string, basinName = '淀川') =>
+    readEvents(await request(basinName)(query), 'basinName');
+
+  const RANGE = 'peakStart=2019-09-30&peakEnd=2020-07-04';
+
+  it('summarizes the events of every station in the basin', async () => {
+    const body = await fetchEvents('');
+    expect(body.basinName).toBe('淀川');
+    expect(body.summary).toMatchObject({
+      totalEvents: 7,
+      matchedEvents: 7,
+      firstStartTime: '2018-07-05 00:00:00',
+      lastEndTime: '2020-08-01 19:30:00',
+      minPeakTime: '2018-07-05 10:00:00',
+      maxPeakTime: '2020-08-01 00:30:00',
+      maxPeakValue: 6.75,
+    });
+    // Basins have no recent-events list
+    expect(body.recentEvents).toEqual([]);
+    expect(Object.keys(body).sort()).toEqual([
+      'basinName',
+      'nextCursor',
+      'recentEvents',
+      'summary',
+    ]);
+  });
+
+  it('swaps a reversed date range', async () => {
+    const forward = await fetchEvents(RANGE);
+    const reversed = await fetchEvents('peakStart=2020-07-04&peakEnd=2019-09-30');
+    expect(reversed.summary).toEqual(forward.summary);
+    expect(forward.summary).toMatchObject({
+      totalEvents: 7,
+      matchedEvents: 4,
+      maxPeakValue: 6.75,
+      avgPeakValue: expect.closeTo(3.90625, 9),
+      avgRiseTime: expect.closeTo(7, 9),
+      avgFallTime: expect.closeTo(24.5, 9),
+    });
+  });
+
+  it('returns only the count with countOnly', async () => {
+    expect(
+      await readCount(await request('淀川')('countOnly=1&peakStart=2020-07-04&peakEnd=2019-09-30')),
+    ).toEqual({ basinName: '淀川', matchedEvents: 4 });
+    expect(await readCount(await request('利根川')('countOnly=1'))).toEqual({
+      basinName: '利根川',
+      matchedEvents: 1,
+    });
+  });
+
+  it('includes matched series, events and yearly stats only when asked', async () => {
+    const body = await fetchEvents(
+      `${RANGE}&includeMatchedSeries=1&includeMatchedEvents=1&includeYearlyStats=1`,
+    );
+    expect(body.matchedSeries?.map((e) => [e.id, e.station_id])).toEqual([
+      [2, 'S001'],
+      [6, 'S002'],
+      [3, 'S001'],
+      [7, 'S002'],
+    ]);
+    expect(body.matchedEventsDetail?.map((e) => [e.id, e.station_id, e.basin_name])).toEqual([
+      [2, 'S001', '淀川'],
+      [6, 'S002', '淀川'],
+      [3, 'S001', '淀川'],
+      [7, 'S002', '淀川'],
+    ]);
+    expect(body.yearlyStats).toEqual([
+      {
+        year: 2019,
+        eventCount: 2,
+        maxPeakValue: 3.125,
+        maxPeakTime: '2019-09-30 20:00:00',
+        avgRiseTime: expect.closeTo(5.5, 9),
+        avgFallTime: expect.closeTo(16.5, 9),
+      },
+      {
+        year: 2020,
+        eventCount: 2,
+        maxPeakValue: 6.75,
+        maxPeakTime: '2020-07-04 03:00:00',
+        avgRiseTime: expect.closeTo(8.5, 9),
+        avgFallTime: expect.closeTo(32.5, 9),
+      },
+    ]);
+
+    const off = await fetchEvents(`${RANGE}&includeMatchedSeries=false`);
+    expect(off.matchedSeries).toBeUndefined();
+    expect(off.matchedEventsDetail).toBeUndefined();
+    expect(off.yearlyStats).toBeUndefined();
+  });
+
+  it('pages matched events with nextCursor', async () => {
+    expect(
+      await collectPages(fetchEvents, `${RANGE}&includeMatchedEvents=1&matchedLimit=3`),
+    ).toEqual([[2, 6, 3], [7]]);
+  });
+
+  it('caps matchedLimit at 5000', BULK_TEST_OPTIONS, async () => {
+    const bulk = (query: string) => fetchEvents(query, '信濃川');
+    expect((await bulk('includeMatchedSeries=1')).matchedSeries).toHaveLength(2000);
+    expect((await bulk('includeMatchedSeries=1&matchedLimit=abc')).matchedSeries).toHaveLength(
+      2000,
+    );
+    expect((await bulk('includeMatchedSeries=1&matchedLimit=99999')).matchedSeries).toHaveLength(
+      5000,
+    );
+    const pages = await collectPages(bulk, 'includeMatchedEvents=1&matchedLimit=5001');
+    expect(pages.map((page) => page.length)).toEqual([5000, BULK_EVENT_COUNT - 5000]);
+  });
+
+  it('returns an empty summary for an unknown basin', async () => {
+    const body = await fetchEvents('includeYearlyStats=1', '存在しない川');
+    expect(body.summary).toMatchObject({
+      totalEvents: 0,
+      matchedEvents: 0,
+      minPeakTime: null,
+      maxPeakValue: null,
+      avgPeakValue: null,
+    });
+    expect(body.yearlyStats).toEqual([]);
+  });
+
+  it('rejects a blank basin name and an invalid cursor', async () => {
+    const blank = await request(' ')('');
+    expect(blank.status).toBe(400);
+    expect(await blank.json()).toEqual({ error: 'basinName is required.' });
+
+    const badCursor = await request('淀川')('includeMatchedEvents=1&cursor=W10');
+    expect(badCursor.status).toBe(400);
+    expect(await badCursor.json()).toEqual({ error: 'cursor is invalid.' });
+
+    // /api/events cursors for other sorts, and numeric values, cannot page by peak_time
+    for (const cursor of [
+      [12.25, 1, 'peak_value', 'desc'],
+      [12.25, 1],
+    ]) {
+      const token = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+      const res = await request('淀川')(`includeMatchedEvents=1&cursor=${token}`);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'cursor is invalid.' });
+    }
+  });
+});
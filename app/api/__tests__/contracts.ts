@@ -0,0 +1,165 @@
+import { expect } from 'vitest';
+
+import type {
+  Station,
+  StationEventsApiResponse,
+  StationEventsCountResponse,
+  StationEventSummary,
+  StationMatchedPoint,
+  StationRecentEvent,
+  YearlyEventStats,
+} from '@/types';
+
+/**
+ * Runtime check of a JSON value against a types/api.ts contract. Contracts are typed
+ * as Record<keyof T, ...>, so adding a field to a type fails tsc until the test lists it.
+ *   timestamp — "YYYY-MM-DD HH:MM:SS", how timestamp columns are sent
+ *   optional  — may be absent; not checked
+ */
+type FieldKind =
+  | 'number'
+  | 'number|null'
+  | 'string'
+  | 'string|null'
+  | 'timestamp'
+  | 'timestamp|null'
+  | 'optional';
+
+export type Contract<T> = Record<keyof T, FieldKind>;
+
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  const [base, nullable] = kind.split('|');
+  if (value === null) return nullable === 'null';
+  if (base === 'timestamp') return typeof value === 'string' && TIMESTAMP_RE.test(value);
+  return typeof value === base;
+}
+
+export function expectContract<T>(value: unknown, contract: Contract<T>): void {
+  expect(value).toBeTypeOf('object');
+  const record = value as Record<string, unknown>;
+  const fields = contract as Record<string, FieldKind>;
+
+  for (const key of Object.keys(record)) {
+    expect(Object.keys(fields), `unexpected field "${key}"`).toContain(key);
+  }
+  for (const [key, kind] of Object.entries(fields)) {
+    if (kind === 'optional') continue;
+    expect(record, `missing field "${key}"`).toHaveProperty(key);
+    expect(matchesKind(record[key], kind), `"${key}" should be ${kind}: ${record[key]}`).toBe(true);
+  }
+}
+
+export function expectEach<T>(values: unknown, contract: Contract<T>): void {
+  expect(Array.isArray(values)).toBe(true);
+  for (const value of values as unknown[]) expectContract(value, contract);
+}
+
+export const STATION: Contract<Station> = {
+  station_id: 'string',
+  latitude: 'number|null',
+  longitude: 'number|null',
+  basin_name: 'string|null',
+  river_name: 'string|null',
+  station_name: 'string|null',
+  station_name2: 'string|null',
+  station_name3: 'string|null',
+  description: 'string|null',
+  has_data: 'number|null',
+};
+
+export const EVENT_SUMMARY: Contract<StationEventSummary> = {
+  totalEvents: 'number',
+  matchedEvents: 'number',
+  firstStartTime: 'timestamp|null',
+  lastEndTime: 'timestamp|null',
+  minPeakTime: 'timestamp|null',
+  maxPeakTime: 'timestamp|null',
+  maxPeakValue: 'number|null',
+  avgPeakValue: 'number|null',
+  avgRiseTime: 'number|null',
+  avgFallTime: 'number|null',
+};
+
+/** station_id / basin_name are only sent where the endpoint selects them */
+export const RECENT_EVENT: Contract<StationRecentEvent> = {
+  id: 'number',
+  station_id: 'optional',
+  basin_name: 'optional',
+  start_time: 'timestamp|null',
+  peak_time: 'timestamp|null',
+  end_time: 'timestamp|null',
+  start_value: 'number|null',
+  peak_value: 'number|null',
+  end_value: 'number|null',
+  rise_time: 'number|null',
+  fall_time: 'number|null',
+};
+
+export const MATCHED_POINT: Contract<StationMatchedPoint> = {
+  id: 'number',
+  station_id: 'string',
+  start_time: 'timestamp|null',
+  peak_time: 'timestamp',
+  end_time: 'timestamp|null',
+  peak_value: 'number',
+};
+
+export const YEARLY_STATS: Contract<YearlyEventStats> = {
+  year: 'number',
+  eventCount: 'number',
+  maxPeakValue: 'number|null',
+  maxPeakTime: 'timestamp|null',
+  avgRiseTime: 'number|null',
+  avgFallTime: 'number|null',
+};
+
+const RESPONSE_KEYS = [
+  'matchedEventsDetail',
+  'matchedSeries',
+  'nextCursor',
+  'recentEvents',
+  'summary',
+  'yearlyStats',
+];
+
+export type Endpoint = (query: string) => Promise<Response>;
+
+/** Parses a full (non-countOnly) response and checks it against StationEventsApiResponse */
+export async function readEvents(res: Response, idKey: 'stationId' | 'basinName') {
+  expect(res.status).toBe(200);
+  expect(res.headers.get('Cache-Control')).toContain('max-age=300');
+  const body = (await res.json()) as StationEventsApiResponse;
+
+  // Flags that are off leave their fields out of the JSON entirely
+  for (const key of Object.keys(body)) expect([idKey, ...RESPONSE_KEYS]).toContain(key);
+  expectContract(body.summary, EVENT_SUMMARY);
+  expectEach(body.recentEvents, RECENT_EVENT);
+  if (body.matchedSeries) expectEach(body.matchedSeries, MATCHED_POINT);
+  if (body.matchedEventsDetail) expectEach(body.matchedEventsDetail, RECENT_EVENT);
+  if (body.yearlyStats) expectEach(body.yearlyStats, YEARLY_STATS);
+  expect(body.nextCursor === null || typeof body.nextCursor === 'string').toBe(true);
+  return body;
+}
+
+export async function readCount(res: Response) {
+  expect(res.status).toBe(200);
+  return (await res.json()) as StationEventsCountResponse;
+}
+
+/** Follows nextCursor until the last page and returns the ids of every page */
+export async function collectPages(
+  fetchEvents: (query: string) => Promise<StationEventsApiResponse>,
+  query: string,
+) {
+  const pages: number[][] = [];
+  let cursor: string | null = null;
+  do {
+    const cursorParam: string = cursor ? `&cursor=${cursor}` : '';
+    const body = await fetchEvents(`${query}${cursorParam}`);
+    pages.push(body.matchedEventsDetail!.map((e) => e.id));
+    cursor = body.nextCursor ?? null;
+  } while (cursor);
+  return pages;
+}
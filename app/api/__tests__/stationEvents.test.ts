@@ -0,0 +1,246 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import type * as StationEventsRoute from '../stations/[stationId]/events/route';
+import { collectPages, type Endpoint, readCount, readEvents } from './contracts';
+import {
+  BULK_EVENT_COUNT,
+  BULK_STATION_ID,
+  BULK_TEST_OPTIONS,
+  TEST_DATABASE_URL,
+  useTestDatabase,
+} from './testDatabase';
+
+describe.skipIf(!TEST_DATABASE_URL)('GET /api/stations/[stationId]/events', () => {
+  useTestDatabase();
+
+  let GET: typeof StationEventsRoute.GET;
+  beforeAll(async () => {
+    ({ GET } = await import('../stations/[stationId]/events/route'));
+  });
+
+  const request =
+    (stationId: string): Endpoint =>
+    (query) =>
+      GET(new NextRequest(`http://localhost/api/stations/${stationId}/events?${query}`), {
+        params: Promise.resolve({ stationId }),
+      });
+  const fetchEvents = async (query: string, stationId = 'S001') =>
+    readEvents(await request(stationId)(query), 'stationId');
+
+  it('summarizes all events and lists the recent ones by default', async () => {
+    const body = await fetchEvents('');
+    expect(body.stationId).toBe('S001');
+    expect(body.summary).toEqual({
+      totalEvents: 5,
+      matchedEvents: 5,
+      firstStartTime: '2018-07-05 00:00:00',
+      lastEndTime: '2020-08-01 19:30:00',
+      minPeakTime: '2018-07-05 10:00:00',
+      maxPeakTime: '2020-08-01 00:30:00',
+      maxPeakValue: 6.75,
+      avgPeakValue: expect.closeTo(4.325, 9),
+      avgRiseTime: expect.closeTo(8, 9),
+      avgFallTime: expect.closeTo(23.6, 9),
+    });
+    expect(body.recentEvents.map((e) => e.id)).toEqual([5, 4, 3, 2, 1]);
+    expect(body.recentEvents[0]).toEqual({
+      id: 5,
+      start_time: '2020-07-31 20:30:00',
+      peak_time: '2020-08-01 00:30:00',
+      end_time: '2020-08-01 10:30:00',
+      start_value: 1,
+      peak_value: 2.5,
+      end_value: 1.5,
+      rise_time: 4,
+      fall_time: 10,
+    });
+    expect(body.nextCursor).toBeNull();
+    expect(Object.keys(body).sort()).toEqual([
+      'nextCursor',
+      'recentEvents',
+      'stationId',
+      'summary',
+    ]);
+  });
+
+  it('filters on whole peak dates, both ends inclusive', async () => {
+    const body = await fetchEvents('peakStart=2020-07-01&peakEnd=2020-07-31');
+    expect(body.summary).toMatchObject({
+      totalEvents: 5,
+      matchedEvents: 2,
+      minPeakTime: '2018-07-05 10:00:00',
+      maxPeakValue: 6.75,
+      avgPeakValue: expect.closeTo(5.375, 9),
+    });
+
+    const sameDay = await fetchEvents('peakStart=2020-07-31&peakEnd=2020-07-31');
+    expect(sameDay.summary.matchedEvents).toBe(1);
+  });
+
+  it('swaps a reversed date range', async () => {
+    const forward = await fetchEvents('peakStart=2020-07-01&peakEnd=2020-07-31');
+    const reversed = await fetchEvents('peakStart=2020-07-31&peakEnd=2020-07-01');
+    expect(reversed.summary).toEqual(forward.summary);
+  });
+
+  it('ignores malformed dates and accepts a single bound', async () => {
+    expect((await fetchEvents('peakStart=2020/07/01')).summary.matchedEvents).toBe(5);
+    expect((await fetchEvents('peakStart=2020-01-01')).summary.matchedEvents).toBe(3);
+    expect((await fetchEvents('peakEnd=2019-12-31')).summary.matchedEvents).toBe(2);
+  });
+
+  it('returns only the count with countOnly', async () => {
+    const range = 'peakStart=2020-07-31&peakEnd=2020-07-01';
+    expect(await readCount(await request('S001')(`countOnly=1&${range}`))).toEqual({
+      stationId: 'S001',
+      matchedEvents: 2,
+    });
+    expect(await readCount(await request('S001')('countOnly=true'))).toEqual({
+      stationId: 'S001',
+      matchedEvents: 5,
+    });
+  });
+
+  it('includes matched series, events and yearly stats only when asked', async () => {
+    const range = 'peakStart=2020-07-01&peakEnd=2020-07-31';
+    const body = await fetchEvents(
+      `${range}&includeRecent=0&includeMatchedSeries=1&includeMatchedEvents=TRUE&includeYearlyStats=true`,
+    );
+    expect(body.recentEvents).toEqual([]);
+    expect(body.matchedSeries).toEqual([
+      {
+        id: 3,
+        station_id: 'S001',
+        start_time: '2020-07-03 17:00:00',
+        peak_time: '2020-07-04 03:00:00',
+        end_time: '2020-07-05 19:00:00',
+        peak_value: 6.75,
+      },
+      {
+        id: 4,
+        station_id: 'S001',
+        start_time: '2020-07-31 15:30:00',
+        peak_time: '2020-07-31 23:30:00',
+        end_time: '2020-08-01 19:30:00',
+        peak_value: 4,
+      },
+    ]);
+    expect(body.matchedEventsDetail?.map((e) => [e.id, e.station_id])).toEqual([
+      [3, 'S001'],
+      [4, 'S001'],
+    ]);
+    expect(body.yearlyStats).toEqual([
+      {
+        year: 2020,
+        eventCount: 2,
+        maxPeakValue: 6.75,
+        maxPeakTime: '2020-07-04 03:00:00',
+        avgRiseTime: expect.closeTo(9, 9),
+        avgFallTime: expect.closeTo(30, 9),
+      },
+    ]);
+
+    const off = await fetchEvents('includeMatchedSeries=yes&includeMatchedEvents=0');
+    expect(off.matchedSeries).toBeUndefined();
+    expect(off.matchedEventsDetail).toBeUndefined();
+    expect(off.yearlyStats).toBeUndefined();
+  });
+
+  it('groups yearly stats by peak year', async () => {
+    const body = await fetchEvents('includeYearlyStats=1');
+    expect(body.yearlyStats).toEqual([
+      {
+        year: 2018,
+        eventCount: 1,
+        maxPeakValue: 5.25,
+        maxPeakTime: '2018-07-05 10:00:00',
+        avgRiseTime: 12,
+        avgFallTime: 30,
+      },
+      {
+        year: 2019,
+        eventCount: 1,
+        maxPeakValue: 3.125,
+        maxPeakTime: '2019-09-30 20:00:00',
+        avgRiseTime: 6,
+        avgFallTime: 18,
+      },
+      {
+        year: 2020,
+        eventCount: 3,
+        maxPeakValue: 6.75,
+        maxPeakTime: '2020-07-04 03:00:00',
+        avgRiseTime: expect.closeTo(22 / 3, 9),
+        avgFallTime: expect.closeTo(70 / 3, 9),
+      },
+    ]);
+  });
+
+  it('pages matched events with nextCursor', async () => {
+    expect(await collectPages(fetchEvents, 'includeMatchedEvents=1&matchedLimit=2')).toEqual([
+      [1, 2],
+      [3, 4],
+      [5],
+    ]);
+  });
+
+  it('caps matchedLimit at 5000 and the recent list at 100', BULK_TEST_OPTIONS, async () => {
+    const bulk = (query: string) => fetchEvents(query, BULK_STATION_ID);
+
+    expect((await bulk('includeMatchedSeries=1')).matchedSeries).toHaveLength(2000);
+    expect((await bulk('includeMatchedSeries=1&matchedLimit=0')).matchedSeries).toHaveLength(2000);
+    expect((await bulk('includeMatchedSeries=1&matchedLimit=99999')).matchedSeries).toHaveLength(
+      5000,
+    );
+
+    const pages = await collectPages(bulk, 'includeMatchedEvents=1&matchedLimit=99999');
+    expect(pages.map((page) => page.length)).toEqual([5000, BULK_EVENT_COUNT - 5000]);
+
+    const capped = await bulk('limit=500&matchedLimit=10');
+    expect(capped.recentEvents).toHaveLength(100);
+    // The limits do not apply to the counts
+    expect(capped.summary.matchedEvents).toBe(BULK_EVENT_COUNT);
+  });
+
+  it('returns an empty summary for a station without events', async () => {
+    const body = await fetchEvents('includeMatchedSeries=1&includeYearlyStats=1', 'S004');
+    expect(body.summary).toEqual({
+      totalEvents: 0,
+      matchedEvents: 0,
+      firstStartTime: null,
+      lastEndTime: null,
+      minPeakTime: null,
+      maxPeakTime: null,
+      maxPeakValue: null,
+      avgPeakValue: null,
+      avgRiseTime: null,
+      avgFallTime: null,
+    });
+    expect(body.recentEvents).toEqual([]);
+    expect(body.matchedSeries).toEqual([]);
+    expect(body.yearlyStats).toEqual([]);
+  });
+
+  it('rejects a blank station id and an invalid cursor', async () => {
+    const blank = await request('  ')('');
+    expect(blank.status).toBe(400);
+    expect(await blank.json()).toEqual({ error: 'stationId is required.' });
+
+    const badCursor = await request('S001')('includeMatchedEvents=1&cursor=not-a-cursor');
+    expect(badCursor.status).toBe(400);
+    expect(await badCursor.json()).toEqual({ error: 'cursor is invalid.' });
+
+    // /api/events cursors for other sorts, and numeric values, cannot page by peak_time
+    for (const cursor of [
+      [12.25, 1, 'peak_value', 'desc'],
+      ['2020-07-04 03:00:00', 3, 'peak_time', 'asc'],
+      [12.25, 1],
+    ]) {
+      const token = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+      const res = await request('S001')(`includeMatchedEvents=1&cursor=${token}`);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'cursor is invalid.' });
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { sql } from 'drizzle-orm';
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { applyDetrend } from '@/lib/hydro/detrend/rollingMedian';
+import { extractEvents } from '@/lib/hydro/extract/eventExtractor';
+import type { DetrendStrategy } from '@/lib/hydro/types';
+import { toUploadRows } from '@/lib/hydro/upload/recordUploader';
+import { seriesToRecords } from '@/lib/reextract';
+import type { ReextractResponse } from '@/types';
+
+import type * as ReextractRoute from '../stations/[stationId]/reextract/route';
+import { TEST_DATABASE_URL, useTestDatabase } from './testDatabase';
+
+const STATION_ID = 'S004';
+const FIRST = '2008-01-01 00:00:00';
+// 12 years of hourly readings: more than the route's 100 000-row limit
+const HOURS = 105_192;
+
+describe.skipIf(!TEST_DATABASE_URL)('GET /api/stations/[stationId]/reextract', () => {
+  useTestDatabase();
+
+  let GET: typeof ReextractRoute.GET;
+  let wholeSeries: ReturnType<typeof seriesToRecords>;
+  beforeAll(async () => {
+    ({ GET } = await import('../stations/[stationId]/reextract/route'));
+    const { db } = await import('@/lib/db');
+    const { queryStationSeriesRows } = await import('@/lib/queries/series');
+
+    // A 97-hour sawtooth in 1 cm steps on a level that rises every year, with a missing
+    // reading every 1000 hours. Quantized levels put many readings exactly on the thresholds.
+    await db.execute(sql`
+      insert into station_series (station_id, observed_at, water_level)
+      select ${STATION_ID}, ts,
+             case when n % 1000 = 999 then null
+                  else round(((n % 97) * 0.01 + (extract(year from ts) - 2008) * 0.1 + 1)::numeric, 2)::real
+             end
+      from generate_series(0, ${HOURS - 1}) as n,
+           lateral (select ${FIRST}::timestamp + n * interval '1 hour' as ts) as t
+    `);
+    const rows = await queryStationSeriesRows({
+      stationId: STATION_ID,
+      startTs: FIRST,
+      endTs: '2099-12-31 23:59:59',
+    });
+    wholeSeries = seriesToRecords(rows);
+  }, 60_000);
+
+  const reextract = async (query: string) => {
+    const res = await GET(
+      new NextRequest(`http://localhost/api/stations/${STATION_ID}/reextract?${query}`),
+      { params: Promise.resolve({ stationId: STATION_ID }) },
+    );
+    return { status: res.status, body: await res.json() };
+  };
+
+  /** What extraction over the whole stored series gives for peaks inside the range */
+  const expected = (detrend: DetrendStrategy, startTs: string, endTs: string) => {
+    const { events, stats } = extractEvents(applyDetrend(wholeSeries, detrend).records);
+    const candidates = toUploadRows(events).filter(
+      (row) => row.peak_time >= startTs && row.peak_time <= endTs,
+    );
+    return { candidates, p50: stats.p50, p75: stats.p75 };
+  };
+
+  it('rejects a range whose readings exceed the limit', async () => {
+    const { status, body } = await reextract('');
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/Narrow peakStart \/ peakEnd/);
+  });
+
+  it.each(['yearly-mean', 'skip'] as const)(
+    'matches whole-series extraction for a narrowed range (%s)',
+    async (detrend) => {
+      // Spans a year boundary, so both years are only partly loaded
+      const query = `peakStart=2014-12-20&peakEnd=2015-01-10&detrend=${detrend}`;
+      const { status, body } = await reextract(query);
+      expect(status).toBe(200);
+
+      const response = body as ReextractResponse;
+      const want = expected(detrend, '2014-12-20 00:00:00', '2015-01-10 23:59:59');
+      expect(response.params.detrend).toBe(detrend);
+      expect(response.stats.boundaryThreshold).toBe(want.p50);
+      expect(response.stats.peakThreshold).toBe(want.p75);
+      expect(want.candidates.length).toBeGreaterThan(3);
+      expect(response.candidates).toEqual(want.candidates);
+      // 22 days plus a 30-day margin on each side
+      expect(response.readings).toBe(82 * 24);
+    },
+  );
+
+  it('defaults to the yearly-mean detrend', async () => {
+    const { body } = await reextract('peakStart=2015-01-01&peakEnd=2015-01-02');
+    expect((body as ReextractResponse).params.detrend).toBe('yearly-mean');
+  });
+});
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import type { StationSeriesUploadRow } from '@/types';
+
+import type * as StationSeriesRoute from '../stations/[stationId]/series/route';
+import { TEST_DATABASE_URL, useTestDatabase } from './testDatabase';
+
+const SECRET = 'series-test-secret';
+
+describe.skipIf(!TEST_DATABASE_URL)('/api/stations/[stationId]/series percentiles', () => {
+  useTestDatabase();
+
+  let route: typeof StationSeriesRoute;
+  beforeAll(async () => {
+    process.env.RECORDS_UPLOAD_SECRET = SECRET;
+    route = await import('../stations/[stationId]/series/route');
+  });
+
+  const params = { params: Promise.resolve({ stationId: 'S003' }) };
+
+  const upload = async (levels: (number | null)[], replace: boolean, firstHour = 0) => {
+    const rows: StationSeriesUploadRow[] = levels.map((water_level, i) => ({
+      observed_at: `2021-01-01 ${String(firstHour + i).padStart(2, '0')}:00:00`,
+      water_level,
+      quality_flag: '',
+    }));
+    const res = await route.POST(
+      new NextRequest('http://localhost/api/stations/S003/series', {
+        method: 'POST',
+        headers: { authorization: `Bearer ${SECRET}` },
+        body: JSON.stringify({ range: { start: '2021-01-01', end: '2021-01-01' }, rows, replace }),
+      }),
+      params,
+    );
+    expect(res.status).toBe(200);
+  };
+
+  const percentiles = async () => {
+    const res = await route.GET(
+      new NextRequest('http://localhost/api/stations/S003/series?from=2021-01-01&to=2021-01-01'),
+      params,
+    );
+    expect(res.status).toBe(200);
+    const { p50, p75 } = await res.json();
+    return { p50, p75 };
+  };
+
+  it('has no percentiles before any series is uploaded', async () => {
+    expect(await percentiles()).toEqual({ p50: null, p75: null });
+  });
+
+  it('refreshes the stored percentiles on every upload', async () => {
+    await upload([1, 2, 3, 4], true);
+    expect(await percentiles()).toEqual({ p50: 2.5, p75: 3.25 });
+
+    // A follow-up chunk adds to the record; missing readings are ignored
+    await upload([10, null], false, 4);
+    expect(await percentiles()).toEqual({ p50: 3, p75: 4 });
+
+    // Replacing the range drops the earlier readings
+    await upload([5], true);
+    expect(await percentiles()).toEqual({ p50: 5, p75: 5 });
+  });
+});
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import type { StationsApiResponse } from '@/types';
+
+import type * as StationsRoute from '../stations/route';
+import { expectEach, STATION } from './contracts';
+import { TEST_DATABASE_URL, useTestDatabase } from './testDatabase';
+
+describe.skipIf(!TEST_DATABASE_URL)('GET /api/stations', () => {
+  useTestDatabase();
+
+  let GET: typeof StationsRoute.GET;
+  beforeAll(async () => {
+    ({ GET } = await import('../stations/route'));
+  });
+
+  async function getStations(query = '') {
+    const res = await GET(new NextRequest(`http://localhost/api/stations${query}`));
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as StationsApiResponse;
+    expect(Object.keys(body).sort()).toEqual(['items', 'pagination']);
+    expectEach(body.items, STATION);
+    return { ids: body.items.map((s) => s.station_id), pagination: body.pagination };
+  }
+
+  it('lists stations with data first, then by id', async () => {
+    expect(await getStations()).toEqual({
+      ids: ['S001', 'S002', 'S003', 'S005', 'S004'],
+      pagination: { page: 1, pageSize: 200, total: 5, totalPages: 1 },
+    });
+  });
+
+  it('searches ids, names, rivers and basins', async () => {
+    expect((await getStations(`?q=${encodeURIComponent('淀川')}`)).ids).toEqual([
+      'S001',
+      'S002',
+      'S004',
+    ]);
+    expect((await getStations(`?q=${encodeURIComponent('向島')}`)).ids).toEqual(['S002']);
+    expect((await getStations('?q=S00')).pagination.total).toBe(5);
+  });
+
+  it('treats LIKE wildcards in q literally', async () => {
+    expect(await getStations('?q=%25')).toEqual({
+      ids: [],
+      pagination: { page: 1, pageSize: 200, total: 0, totalPages: 0 },
+    });
+    expect((await getStations('?q=S_01')).ids).toEqual([]);
+  });
+
+  it('filters on hasData', async () => {
+    expect((await getStations('?hasData=0')).ids).toEqual(['S004']);
+    expect((await getStations('?hasData=1')).pagination.total).toBe(4);
+    // Anything else is ignored
+    expect((await getStations('?hasData=yes')).pagination.total).toBe(5);
+  });
+
+  it('pages through the list', async () => {
+    expect(await getStations('?pageSize=2&page=2')).toEqual({
+      ids: ['S003', 'S005'],
+      pagination: { page: 2, pageSize: 2, total: 5, totalPages: 3 },
+    });
+  });
+
+  it('still reports the total past the last page', async () => {
+    expect(await getStations('?pageSize=2&page=9')).toEqual({
+      ids: [],
+      pagination: { page: 9, pageSize: 2, total: 5, totalPages: 3 },
+    });
+  });
+
+  it('caps pageSize and falls back on invalid paging parameters', async () => {
+    expect((await getStations('?pageSize=99999')).pagination.pageSize).toBe(2500);
+    expect((await getStations('?pageSize=0&page=-1')).pagination).toMatchObject({
+      page: 1,
+      pageSize: 200,
+    });
+  });
+});
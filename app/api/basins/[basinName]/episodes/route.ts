@@ -0,0 +1,66 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseDateOnly, parsePositiveInt } from '../../../../../lib/apiUtils';
+import { clusterEpisodes } from '../../../../../lib/cooccurrence';
+import { queryBasinEpisodeEvents } from '../../../../../lib/queries/episodes';
+
+export const runtime = 'nodejs';
+
+const EPISODE_ROW_LIMIT = 200_000;
+
+// 作用：流域内多站同时发生的洪水过程（episode）检索。
+// 输入：basinName；可选 peakStart / peakEnd（YYYY-MM-DD），windowHours（峰现时间窗口，默认 6，最大 72），
+//   minStations（最少测站数，默认 2），station（只保留包含该测站的过程）。
+// 输出：{ basinName, windowHours, minStations, totalEvents, episodes, truncated }。
+// 为什么这样写：聚类依赖整段时间序列的先后关系，没法在 SQL 里分页；这里整体扫描后一次返回，
+//   扫描行数设上限并通过 truncated 告知前端缩小日期范围。
+export async function GET(req: NextRequest, context: { params: Promise<{ basinName: string }> }) {
+  try {
+    const { basinName } = await context.params;
+    const cleanBasin = decodeURIComponent(basinName).trim();
+    if (!cleanBasin) {
+      return NextResponse.json({ error: 'basinName is required.' }, { status: 400 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    let peakStart = parseDateOnly(sp.get('peakStart'));
+    let peakEnd = parseDateOnly(sp.get('peakEnd'));
+    if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+    const windowHours = parsePositiveInt(sp.get('windowHours'), 6, 72);
+    const minStations = Math.max(2, parsePositiveInt(sp.get('minStations'), 2, 50));
+    const stationId = sp.get('station')?.trim() || null;
+
+    const rows = await queryBasinEpisodeEvents({
+      basinName: cleanBasin,
+      startTs: peakStart ? `${peakStart} 00:00:00` : null,
+      endTs: peakEnd ? `${peakEnd} 23:59:59` : null,
+      limit: EPISODE_ROW_LIMIT,
+    });
+    const truncated = rows.length > EPISODE_ROW_LIMIT;
+    const events = rows.slice(0, EPISODE_ROW_LIMIT);
+
+    const episodes = clusterEpisodes(events, windowHours, minStations).filter(
+      (episode) => !stationId || episode.members.some((member) => member.station_id === stationId),
+    );
+
+    return NextResponse.json(
+      {
+        basinName: cleanBasin,
+        windowHours,
+        minStations,
+        totalEvents: events.length,
+        episodes,
+        truncated,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/basins/[basinName]/episodes]', error);
+    return NextResponse.json({ error: 'Failed to detect basin episodes.' }, { status: 500 });
+  }
+}
@@ -3,10 +3,13 @@ import { NextResponse } from 'next/server';
 
 import { parseBoolean, parseDateOnly, parsePositiveInt } from '../../../../../lib/apiUtils';
 import {
+  decodeEventCursor,
+  isPeakTimeCursor,
   queryBasinSummary,
   queryFilteredSummary,
   queryMatchedEvents,
   queryMatchedSeries,
+  queryYearlyStats,
 } from '../../../../../lib/queries/events';
 
 export async function GET(req: NextRequest, context: { params: Promise<{ basinName: string }> }) {
@@ -20,6 +23,7 @@ export async function GET(req: NextRequest, context: { params: Promise<{ basinNa
     const sp = req.nextUrl.searchParams;
     const includeMatchedSeries = parseBoolean(sp.get('includeMatchedSeries'), false);
     const includeMatchedEvents = parseBoolean(sp.get('includeMatchedEvents'), false);
+    const includeYearlyStats = parseBoolean(sp.get('includeYearlyStats'), false);
     const countOnly = parseBoolean(sp.get('countOnly'), false);
 
     let peakStart = parseDateOnly(sp.get('peakStart'));
@@ -29,7 +33,12 @@ export async function GET(req: NextRequest, context: { params: Promise<{ basinNa
     const startTs = peakStart ? `${peakStart} 00:00:00` : null;
     const endTs = peakEnd ? `${peakEnd} 23:59:59` : null;
     const matchedLimit = parsePositiveInt(sp.get('matchedLimit'), 2000, 5000);
-    const filter = { basinName: cleanBasin, startTs, endTs, limit: matchedLimit };
+    const cursorRaw = sp.get('cursor');
+    const cursor = cursorRaw ? decodeEventCursor(cursorRaw) : null;
+    if ((cursorRaw && !cursor) || (cursor && !isPeakTimeCursor(cursor))) {
+      return NextResponse.json({ error: 'cursor is invalid.' }, { status: 400 });
+    }
+    const filter = { basinName: cleanBasin, startTs, endTs, limit: matchedLimit, cursor };
 
     const filteredSummary = await queryFilteredSummary(filter);
     const matchedEvents = filteredSummary.matchedEvents ?? 0;
@@ -38,10 +47,11 @@ export async function GET(req: NextRequest, context: { params: Promise<{ basinNa
       return NextResponse.json({ basinName: cleanBasin, matchedEvents });
     }
 
-    const [summary, matchedSeriesData, matchedEventsData] = await Promise.all([
+    const [summary, matchedSeriesData, matchedEventsPage, yearlyStats] = await Promise.all([
       queryBasinSummary(cleanBasin),
       includeMatchedSeries ? queryMatchedSeries(filter) : Promise.resolve(undefined),
       includeMatchedEvents ? queryMatchedEvents(filter) : Promise.resolve(undefined),
+      includeYearlyStats ? queryYearlyStats(filter) : Promise.resolve(undefined),
     ]);
     const totalEvents = summary.totalEvents ?? 0;
 
@@ -61,7 +71,9 @@ export async function GET(req: NextRequest, context: { params: Promise<{ basinNa
       },
       recentEvents: [],
       matchedSeries: matchedSeriesData,
-      matchedEventsDetail: matchedEventsData,
+      matchedEventsDetail: matchedEventsPage?.items,
+      nextCursor: matchedEventsPage?.nextCursor ?? null,
+      yearlyStats,
     }, {
       headers: { 'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400' },
     });
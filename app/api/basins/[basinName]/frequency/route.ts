@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseDateOnly, parsePositiveInt } from '../../../../../lib/apiUtils';
+import { analyzeFrequency } from '../../../../../lib/frequencyAnalysis';
+import { queryBasinAnnualMaxima } from '../../../../../lib/queries/frequency';
+
+export const runtime = 'nodejs';
+
+// 作用：流域的洪水频率分析接口，年最大值取流域内所有测站当年的最高峰值。
+// 输入：basinName；可选 peakStart / peakEnd（YYYY-MM-DD），confidence（百分比，50–99，默认 90）。
+// 输出：与测站版本相同的结构，只是标识字段为 basinName。
+// 为什么这样写：与 /api/basins/[basinName]/events 保持同样的参数约定，前端切换测站/流域时只换路径。
+export async function GET(req: NextRequest, context: { params: Promise<{ basinName: string }> }) {
+  try {
+    const { basinName } = await context.params;
+    const cleanBasin = decodeURIComponent(basinName).trim();
+    if (!cleanBasin) {
+      return NextResponse.json({ error: 'basinName is required.' }, { status: 400 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    let peakStart = parseDateOnly(sp.get('peakStart'));
+    let peakEnd = parseDateOnly(sp.get('peakEnd'));
+    if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+    const confidence = Math.max(50, parsePositiveInt(sp.get('confidence'), 90, 99)) / 100;
+
+    const annualMaxima = await queryBasinAnnualMaxima(cleanBasin, {
+      startTs: peakStart ? `${peakStart} 00:00:00` : null,
+      endTs: peakEnd ? `${peakEnd} 23:59:59` : null,
+    });
+    const { plottingPositions, fits } = analyzeFrequency(annualMaxima, confidence);
+
+    return NextResponse.json(
+      {
+        basinName: cleanBasin,
+        years: annualMaxima.length,
+        confidence,
+        annualMaxima,
+        plottingPositions,
+        fits,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/basins/[basinName]/frequency]', error);
+    return NextResponse.json({ error: 'Failed to run frequency analysis.' }, { status: 500 });
+  }
+}
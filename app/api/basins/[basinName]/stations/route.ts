@@ -0,0 +1,42 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseDateOnly } from '../../../../../lib/apiUtils';
+import { queryBasinStationBreakdown } from '../../../../../lib/queries/events';
+
+// 作用：GET /api/basins/[basinName]/stations —— 返回流域内逐站的事件汇总，供侧栏“Stations”表格使用。
+// 输入：basinName；可选 peakStart / peakEnd（YYYY-MM-DD），与 events 路由的日期参数一致。
+// 输出：{ basinName, items }，items 每项为一个测站的 eventCount / maxPeakValue / avgRiseTime / avgFallTime / firstPeakTime / lastPeakTime。
+// 为什么这样写：流域汇总只有一个总数，看不出是哪些测站在主导；按站拆开后前端可以直接排序并跳转到对应测站。
+export async function GET(req: NextRequest, context: { params: Promise<{ basinName: string }> }) {
+  try {
+    const { basinName } = await context.params;
+    const cleanBasin = decodeURIComponent(basinName).trim();
+    if (!cleanBasin) {
+      return NextResponse.json({ error: 'basinName is required.' }, { status: 400 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    let peakStart = parseDateOnly(sp.get('peakStart'));
+    let peakEnd = parseDateOnly(sp.get('peakEnd'));
+    if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+
+    const items = await queryBasinStationBreakdown({
+      basinName: cleanBasin,
+      startTs: peakStart ? `${peakStart} 00:00:00` : null,
+      endTs: peakEnd ? `${peakEnd} 23:59:59` : null,
+    });
+
+    return NextResponse.json(
+      { basinName: cleanBasin, items },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/basins/[basinName]/stations]', error);
+    return NextResponse.json({ error: 'Failed to query basin stations.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,145 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import {
+  parseDateOnly,
+  parseFiniteNumber,
+  parseList,
+  parsePositiveInt,
+} from '../../../lib/apiUtils';
+import { decodeEventCursor } from '../../../lib/queries/events';
+import {
+  EVENT_SORT_COLUMNS,
+  type EventSearchFilter,
+  type EventSortColumn,
+  searchEvents,
+} from '../../../lib/queries/eventSearch';
+
+export const runtime = 'nodejs';
+
+// Meteorological seasons by peak month (DJF winter wraps the year boundary).
+const SEASON_MONTHS: Record<string, number[]> = {
+  spring: [3, 4, 5],
+  summer: [6, 7, 8],
+  autumn: [9, 10, 11],
+  winter: [12, 1, 2],
+};
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+// 作用：GET /api/events —— 跨测站、跨流域的事件检索，例如“7 月、峰值 5 m 以上、涨水时间 3 h 以内的全部事件”。
+// 输入：peakStart / peakEnd（YYYY-MM-DD）；minPeak / maxPeak、minRise / maxRise、minFall / maxFall；
+//   months（1–12，逗号分隔）或 season（spring / summer / autumn / winter）；
+//   bbox=minLon,minLat,maxLon,maxLat；basin、station（可重复或逗号分隔）；
+//   sort（station_records 任一列，默认 peak_time）、order（asc / desc，默认 desc）、limit（默认 100，最大 1000）、cursor。
+// 输出：{ items, nextCursor, limit }；把 nextCursor 原样作为 cursor 传回即可取下一页，参数错误返回 400。
+// 为什么这样写：过滤条件全部下推到 SQL，keyset 分页保证深翻页的稳定性能；
+//   cursor 内记录了签发时的 sort/order，与本次请求不一致时返回 400；其余过滤参数翻页时也需保持不变。
+export async function GET(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+
+    const limit = parsePositiveInt(sp.get('limit'), 100, 1000);
+    const sortRaw = sp.get('sort') ?? 'peak_time';
+    if (!Object.hasOwn(EVENT_SORT_COLUMNS, sortRaw)) {
+      return badRequest(`sort must be one of: ${Object.keys(EVENT_SORT_COLUMNS).join(', ')}.`);
+    }
+    const sort = sortRaw as EventSortColumn;
+
+    const orderRaw = (sp.get('order') ?? 'desc').toLowerCase();
+    if (orderRaw !== 'asc' && orderRaw !== 'desc') {
+      return badRequest('order must be asc or desc.');
+    }
+
+    const cursorRaw = sp.get('cursor');
+    const cursor = cursorRaw ? decodeEventCursor(cursorRaw) : null;
+    if (cursorRaw && !cursor) {
+      return badRequest('cursor is invalid.');
+    }
+    if (cursor && (cursor.sort !== sort || cursor.order !== orderRaw)) {
+      return badRequest('cursor was issued for a different sort or order.');
+    }
+
+    let months: number[] = [];
+    const monthsRaw = parseList(sp.getAll('months'));
+    if (monthsRaw.length > 0) {
+      months = monthsRaw.map(Number);
+      if (months.some((month) => !Number.isInteger(month) || month < 1 || month > 12)) {
+        return badRequest('months must be integers between 1 and 12.');
+      }
+    }
+    const season = sp.get('season')?.toLowerCase();
+    if (season) {
+      if (!Object.hasOwn(SEASON_MONTHS, season)) {
+        return badRequest(`season must be one of: ${Object.keys(SEASON_MONTHS).join(', ')}.`);
+      }
+      // months and season together narrow to their intersection.
+      months =
+        months.length > 0
+          ? months.filter((month) => SEASON_MONTHS[season].includes(month))
+          : SEASON_MONTHS[season];
+      if (months.length === 0) {
+        return NextResponse.json({ items: [], nextCursor: null, limit });
+      }
+    }
+
+    let bbox: EventSearchFilter['bbox'] = null;
+    const bboxRaw = sp.get('bbox');
+    if (bboxRaw) {
+      const parts = bboxRaw.split(',').map((part) => parseFiniteNumber(part));
+      if (parts.length !== 4 || parts.some((part) => part === null)) {
+        return badRequest('bbox must be minLon,minLat,maxLon,maxLat.');
+      }
+      const [lonA, latA, lonB, latB] = parts as number[];
+      bbox = {
+        minLon: Math.min(lonA, lonB),
+        minLat: Math.min(latA, latB),
+        maxLon: Math.max(lonA, lonB),
+        maxLat: Math.max(latA, latB),
+      };
+    }
+
+    let peakStart = parseDateOnly(sp.get('peakStart'));
+    let peakEnd = parseDateOnly(sp.get('peakEnd'));
+    if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+
+    const result = await searchEvents({
+      startTs: peakStart ? `${peakStart} 00:00:00` : null,
+      endTs: peakEnd ? `${peakEnd} 23:59:59` : null,
+      peakValue: {
+        min: parseFiniteNumber(sp.get('minPeak')),
+        max: parseFiniteNumber(sp.get('maxPeak')),
+      },
+      riseTime: {
+        min: parseFiniteNumber(sp.get('minRise')),
+        max: parseFiniteNumber(sp.get('maxRise')),
+      },
+      fallTime: {
+        min: parseFiniteNumber(sp.get('minFall')),
+        max: parseFiniteNumber(sp.get('maxFall')),
+      },
+      months,
+      bbox,
+      basins: parseList(sp.getAll('basin')),
+      stationIds: parseList(sp.getAll('station')),
+      sort,
+      order: orderRaw,
+      cursor,
+      limit,
+    });
+
+    return NextResponse.json(
+      { ...result, limit },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/events]', error);
+    return NextResponse.json({ error: 'Failed to query events.' }, { status: 500 });
+  }
+}
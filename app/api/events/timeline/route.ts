@@ -0,0 +1,83 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseBoolean, parseDateOnly } from '../../../../lib/apiUtils';
+import {
+  queryEventTimeline,
+  queryPeakTimeSpan,
+  type TimelinePeriod,
+} from '../../../../lib/queries/timeline';
+import type { EventTimelineBucket } from '../../../../types';
+
+export const runtime = 'nodejs';
+
+// Roughly 2000 stations x 100 periods; beyond this the window should be narrowed.
+const TIMELINE_ROW_LIMIT = 200000;
+
+// 作用：GET /api/events/timeline —— 地图时间轴回放的数据源，按月或年分桶返回每期出现峰值的测站。
+// 输入：spanOnly=1 时只返回全库 peak_time 范围；否则必须提供 start / end（YYYY-MM-DD），period=month|year（默认 month）。
+// 输出：{ period, buckets: [{ period, events: [{ station_id, peak_time, peak_value }] }], truncated }。
+// 为什么这样写：回放窗口由前端的 DateRangeBar 决定，需要先知道全库范围；分桶在 SQL 中完成，前端只按顺序逐帧播放。
+export async function GET(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    if (parseBoolean(sp.get('spanOnly'), false)) {
+      const span = await queryPeakTimeSpan();
+      return NextResponse.json(span, {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      });
+    }
+
+    let start = parseDateOnly(sp.get('start'));
+    let end = parseDateOnly(sp.get('end'));
+    if (!start || !end) {
+      return NextResponse.json(
+        { error: 'start and end (YYYY-MM-DD) are required.' },
+        { status: 400 },
+      );
+    }
+    if (start > end) [start, end] = [end, start];
+
+    const periodRaw = sp.get('period') ?? 'month';
+    if (periodRaw !== 'month' && periodRaw !== 'year') {
+      return NextResponse.json({ error: 'period must be month or year.' }, { status: 400 });
+    }
+    const period: TimelinePeriod = periodRaw;
+
+    const rows = await queryEventTimeline({
+      startTs: `${start} 00:00:00`,
+      endTs: `${end} 23:59:59`,
+      period,
+      limit: TIMELINE_ROW_LIMIT,
+    });
+    const truncated = rows.length > TIMELINE_ROW_LIMIT;
+
+    const buckets: EventTimelineBucket[] = [];
+    for (const row of rows.slice(0, TIMELINE_ROW_LIMIT)) {
+      let current = buckets[buckets.length - 1];
+      if (!current || current.period !== row.bucket) {
+        current = { period: row.bucket, events: [] };
+        buckets.push(current);
+      }
+      current.events.push({
+        station_id: row.station_id,
+        peak_time: row.peak_time,
+        peak_value: row.peak_value,
+      });
+    }
+
+    return NextResponse.json(
+      { period, buckets, truncated },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/events/timeline]', error);
+    return NextResponse.json({ error: 'Failed to query event timeline.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseDateOnly } from '../../../../lib/apiUtils';
+import {
+  type EventExportFormat,
+  type EventExportTarget,
+  streamEventExport,
+} from '../../../../lib/eventExport';
+import { queryStationById } from '../../../../lib/queries/stations';
+
+export const runtime = 'nodejs';
+
+const CONTENT_TYPES: Record<EventExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  columnar: 'application/x-ndjson; charset=utf-8',
+};
+
+const FILE_EXTENSIONS: Record<EventExportFormat, string> = {
+  csv: 'csv',
+  xlsx: 'xlsx',
+  columnar: 'ndjson',
+};
+
+function sanitizeFileNamePart(value: string): string {
+  return value.replace(/[\\/:*?"<>|\s]+/g, '_');
+}
+
+interface ExportPlan {
+  target: EventExportTarget;
+  format: EventExportFormat;
+  peakStart: string | null;
+  peakEnd: string | null;
+  headers: Record<string, string>;
+}
+
+// Validates the query and resolves the station; GET and HEAD share it so a HEAD request
+// reports the same 400 / 404 that the download would.
+async function planExport(req: NextRequest): Promise<ExportPlan | NextResponse> {
+  const sp = req.nextUrl.searchParams;
+  const stationId = sp.get('station')?.trim() || null;
+  const basinName = sp.get('basin')?.trim() || null;
+  if (Boolean(stationId) === Boolean(basinName)) {
+    return NextResponse.json(
+      { error: 'Exactly one of station or basin is required.' },
+      { status: 400 },
+    );
+  }
+
+  const format = (sp.get('format') ?? 'xlsx').toLowerCase();
+  if (!Object.hasOwn(CONTENT_TYPES, format)) {
+    return NextResponse.json(
+      { error: `format must be one of: ${Object.keys(CONTENT_TYPES).join(', ')}.` },
+      { status: 400 },
+    );
+  }
+
+  let peakStart = parseDateOnly(sp.get('peakStart'));
+  let peakEnd = parseDateOnly(sp.get('peakEnd'));
+  if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+
+  let target: EventExportTarget;
+  let filePrefix: string;
+  if (stationId) {
+    const station = await queryStationById(stationId);
+    if (!station) {
+      return NextResponse.json({ error: 'Station not found.' }, { status: 404 });
+    }
+    target = { kind: 'station', stationId, basinName: station.basin_name };
+    filePrefix = `station_${station.station_name ?? stationId}`;
+  } else {
+    target = { kind: 'basin', basinName: basinName! };
+    filePrefix = `basin_${basinName}`;
+  }
+
+  const exportFormat = format as EventExportFormat;
+  const fileName = `${sanitizeFileNamePart(filePrefix)}_${peakStart ?? 'start'}_to_${peakEnd ?? 'end'}.${FILE_EXTENSIONS[exportFormat]}`;
+  return {
+    target,
+    format: exportFormat,
+    peakStart,
+    peakEnd,
+    headers: {
+      'Content-Type': CONTENT_TYPES[exportFormat],
+      // ASCII fallback plus RFC 5987 form, since station/basin names are usually Japanese.
+      'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      'Cache-Control': 'no-store',
+    },
+  };
+}
+
+// 作用：GET /api/export/events —— 服务端流式导出某测站或流域的全部事件（CSV / XLSX / 列式 NDJSON）。
+// 输入：station 或 basin（二选一）；可选 peakStart / peakEnd（YYYY-MM-DD）；format=csv|xlsx|columnar（默认 xlsx）。
+// 输出：附件下载流；XLSX 额外带 metadata 表（过滤条件、生成时间、行数），列式格式在末行附同样的元数据。
+// 为什么这样写：原先在浏览器里用 JSON 拼工作簿，大流域会耗尽内存；改为服务端逐页读库、边读边写，数据量不再受限。
+export async function GET(req: NextRequest) {
+  try {
+    const plan = await planExport(req);
+    if (plan instanceof NextResponse) return plan;
+
+    const { target, format, peakStart, peakEnd } = plan;
+    const body = streamEventExport({ target, peakStart, peakEnd, signal: req.signal }, format);
+    return new Response(body, { headers: plan.headers });
+  } catch (error) {
+    console.error('[GET /api/export/events]', error);
+    return NextResponse.json({ error: 'Failed to export events.' }, { status: 500 });
+  }
+}
+
+// 作用：HEAD /api/export/events —— 只做 GET 的参数校验和测站查询，不读事件。
+// 输入：与 GET 相同。
+// 输出：GET 会返回的状态码和响应头，没有响应体。
+// 为什么这样写：浏览器通过链接下载时拿不到错误响应，前端先发 HEAD，确认 200 后再跳转下载，出错时能提示用户。
+export async function HEAD(req: NextRequest) {
+  try {
+    const plan = await planExport(req);
+    if (plan instanceof NextResponse) return new Response(null, { status: plan.status });
+    return new Response(null, { headers: plan.headers });
+  } catch (error) {
+    console.error('[HEAD /api/export/events]', error);
+    return new Response(null, { status: 500 });
+  }
+}
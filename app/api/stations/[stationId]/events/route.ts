@@ -3,11 +3,14 @@ import { NextResponse } from 'next/server';
 
 import { parseBoolean, parseDateOnly, parsePositiveInt } from '../../../../../lib/apiUtils';
 import {
+  decodeEventCursor,
+  isPeakTimeCursor,
   queryStationFilteredSummary,
   queryStationMatchedEvents,
   queryStationMatchedSeries,
   queryStationRecentEvents,
   queryStationSummary,
+  queryStationYearlyStats,
 } from '../../../../../lib/queries/events';
 
 export const runtime = 'nodejs';
@@ -32,6 +35,10 @@ export async function GET(req: NextRequest, context: { params: Promise<{ station
       req.nextUrl.searchParams.get('includeMatchedEvents'),
       false,
     );
+    const includeYearlyStats = parseBoolean(
+      req.nextUrl.searchParams.get('includeYearlyStats'),
+      false,
+    );
     const countOnly = parseBoolean(req.nextUrl.searchParams.get('countOnly'), false);
 
     const peakStartRaw = parseDateOnly(req.nextUrl.searchParams.get('peakStart'));
@@ -43,6 +50,12 @@ export async function GET(req: NextRequest, context: { params: Promise<{ station
       [peakStart, peakEnd] = [peakEnd, peakStart];
     }
 
+    const cursorRaw = req.nextUrl.searchParams.get('cursor');
+    const cursor = cursorRaw ? decodeEventCursor(cursorRaw) : null;
+    if ((cursorRaw && !cursor) || (cursor && !isPeakTimeCursor(cursor))) {
+      return NextResponse.json({ error: 'cursor is invalid.' }, { status: 400 });
+    }
+
     const startTs = peakStart ? `${peakStart} 00:00:00` : null;
     const endTs = peakEnd ? `${peakEnd} 23:59:59` : null;
     const filter = {
@@ -50,6 +63,7 @@ export async function GET(req: NextRequest, context: { params: Promise<{ station
       startTs,
       endTs,
       limit: matchedLimit,
+      cursor,
     };
 
     const filteredSummary = await queryStationFilteredSummary(filter);
@@ -62,12 +76,14 @@ export async function GET(req: NextRequest, context: { params: Promise<{ station
       });
     }
 
-    const [summary, recentEvents, matchedSeries, matchedEventsDetail] = await Promise.all([
-      queryStationSummary(cleanStationId),
-      includeRecent ? queryStationRecentEvents(cleanStationId, limit) : Promise.resolve([]),
-      includeMatchedSeries ? queryStationMatchedSeries(filter) : Promise.resolve(undefined),
-      includeMatchedEvents ? queryStationMatchedEvents(filter) : Promise.resolve(undefined),
-    ]);
+    const [summary, recentEvents, matchedSeries, matchedEventsPage, yearlyStats] =
+      await Promise.all([
+        queryStationSummary(cleanStationId),
+        includeRecent ? queryStationRecentEvents(cleanStationId, limit) : Promise.resolve([]),
+        includeMatchedSeries ? queryStationMatchedSeries(filter) : Promise.resolve(undefined),
+        includeMatchedEvents ? queryStationMatchedEvents(filter) : Promise.resolve(undefined),
+        includeYearlyStats ? queryStationYearlyStats(filter) : Promise.resolve(undefined),
+      ]);
     const totalEvents = summary.totalEvents ?? 0;
 
     return NextResponse.json({
@@ -86,7 +102,9 @@ export async function GET(req: NextRequest, context: { params: Promise<{ station
       },
       recentEvents,
       matchedSeries,
-      matchedEventsDetail,
+      matchedEventsDetail: matchedEventsPage?.items,
+      nextCursor: matchedEventsPage?.nextCursor ?? null,
+      yearlyStats,
     }, {
       headers: { 'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400' },
     });
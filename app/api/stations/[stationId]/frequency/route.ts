@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseDateOnly, parsePositiveInt } from '../../../../../lib/apiUtils';
+import { analyzeFrequency } from '../../../../../lib/frequencyAnalysis';
+import { queryStationAnnualMaxima } from '../../../../../lib/queries/frequency';
+
+export const runtime = 'nodejs';
+
+// 作用：测站的洪水频率分析接口，基于 station_records 的年最大值序列拟合 Gumbel / GEV / LP3。
+// 输入：stationId；可选 peakStart / peakEnd（YYYY-MM-DD）限定年份范围，confidence（百分比，50–99，默认 90）。
+// 输出：年最大值、Weibull 经验点位、各分布的 2/5/10/50/100 年一遇估计及置信区间。
+// 为什么这样写：只在数据库里聚合出年最大值，拟合和 bootstrap 在 Node 里完成，数据量小且结果可缓存。
+export async function GET(req: NextRequest, context: { params: Promise<{ stationId: string }> }) {
+  try {
+    const { stationId } = await context.params;
+    const cleanStationId = stationId?.trim();
+    if (!cleanStationId) {
+      return NextResponse.json({ error: 'stationId is required.' }, { status: 400 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    let peakStart = parseDateOnly(sp.get('peakStart'));
+    let peakEnd = parseDateOnly(sp.get('peakEnd'));
+    if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+    const confidence = Math.max(50, parsePositiveInt(sp.get('confidence'), 90, 99)) / 100;
+
+    const annualMaxima = await queryStationAnnualMaxima(cleanStationId, {
+      startTs: peakStart ? `${peakStart} 00:00:00` : null,
+      endTs: peakEnd ? `${peakEnd} 23:59:59` : null,
+    });
+    const { plottingPositions, fits } = analyzeFrequency(annualMaxima, confidence);
+
+    return NextResponse.json(
+      {
+        stationId: cleanStationId,
+        years: annualMaxima.length,
+        confidence,
+        annualMaxima,
+        plottingPositions,
+        fits,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/stations/[stationId]/frequency]', error);
+    return NextResponse.json({ error: 'Failed to run frequency analysis.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { isAuthorizedWriter } from '../../../../../lib/apiUtils';
+import { parseQualityBatch } from '../../../../../lib/qualityValidation';
+import { queryStationQuality, upsertStationQuality } from '../../../../../lib/queries/quality';
+import { queryStationExists } from '../../../../../lib/queries/records';
+
+export const runtime = 'nodejs';
+
+// 作用：对外暴露 GET /api/stations/[stationId]/quality，返回测站逐年的数据覆盖率与缺测情况。
+// 输入：stationId。
+// 输出：{ stationId, items }；每年包含有效率、最长缺测、各质量标记计数以及当年库中的事件数。
+// 为什么这样写：统计在 prep 向导清洗时已算好并随上传入库，这里只读一张小表，可长时间缓存。
+export async function GET(_req: NextRequest, context: { params: Promise<{ stationId: string }> }) {
+  try {
+    const { stationId } = await context.params;
+    const cleanStationId = stationId?.trim();
+    if (!cleanStationId) {
+      return NextResponse.json({ error: 'stationId is required.' }, { status: 400 });
+    }
+
+    const items = await queryStationQuality(cleanStationId);
+    return NextResponse.json(
+      { stationId: cleanStationId, items },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/stations/[stationId]/quality]', error);
+    return NextResponse.json({ error: 'Failed to load station quality.' }, { status: 500 });
+  }
+}
+
+// 作用：对外暴露 POST /api/stations/[stationId]/quality，接收 prep 向导算出的逐年清洗统计。
+// 输入：Authorization: Bearer <RECORDS_UPLOAD_SECRET>；请求体 { years }。
+// 输出：写入的年份数。
+// 为什么这样写：与事件、序列上传共用密钥；按年份 upsert，重复上传同一年份结果不变。
+export async function POST(req: NextRequest, context: { params: Promise<{ stationId: string }> }) {
+  try {
+    if (!isAuthorizedWriter(req.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+    }
+
+    const { stationId } = await context.params;
+    const cleanStationId = stationId?.trim();
+    if (!cleanStationId) {
+      return NextResponse.json({ error: 'stationId is required.' }, { status: 400 });
+    }
+
+    let body: { years?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+    }
+
+    const batch = parseQualityBatch(body?.years);
+    if (!batch.ok) {
+      return NextResponse.json({ error: batch.error }, { status: 400 });
+    }
+
+    if (!(await queryStationExists(cleanStationId))) {
+      return NextResponse.json({ error: 'Station not found.' }, { status: 404 });
+    }
+
+    const years = await upsertStationQuality(cleanStationId, batch.rows);
+    return NextResponse.json({ stationId: cleanStationId, years });
+  } catch (error) {
+    console.error('[POST /api/stations/[stationId]/quality]', error);
+    return NextResponse.json({ error: 'Failed to upload station quality.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { isAuthorizedWriter, parseBoolean, parseDateOnly } from '../../../../../lib/apiUtils';
+import {
+  batchRange,
+  diffStationRecords,
+  queryStationExists,
+  replaceStationRecords,
+} from '../../../../../lib/queries/records';
+import { parseRecordBatch } from '../../../../../lib/recordValidation';
+
+export const runtime = 'nodejs';
+
+// 作用：对外暴露 POST /api/stations/[stationId]/records，接收 prep 向导提取出的事件批次并写入 station_records。
+// 输入：Authorization: Bearer <RECORDS_UPLOAD_SECRET>；URL 参数 dryRun；请求体 { range?: { start, end }, records }。
+// 输出：dryRun 时返回与库中同区间事件的 diff；否则在事务中替换区间内事件，返回 deleted / inserted 行数。
+// 为什么这样写：以站点 + peak_time 区间为替换单位，重复上传同一区间结果不变（幂等）；
+//   写操作只开放给持有共享密钥的分析人员，未配置密钥时一律拒绝。
+export async function POST(req: NextRequest, context: { params: Promise<{ stationId: string }> }) {
+  try {
+    if (!isAuthorizedWriter(req.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+    }
+
+    const { stationId } = await context.params;
+    const cleanStationId = stationId?.trim();
+    if (!cleanStationId) {
+      return NextResponse.json({ error: 'stationId is required.' }, { status: 400 });
+    }
+
+    let body: { range?: { start?: unknown; end?: unknown }; records?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+    }
+
+    const batch = parseRecordBatch(body?.records);
+    if (!batch.ok) {
+      return NextResponse.json({ error: batch.error }, { status: 400 });
+    }
+
+    let range = batchRange(cleanStationId, batch.records);
+    if (body.range) {
+      const { start: rawStart, end: rawEnd } = body.range;
+      let start = typeof rawStart === 'string' ? parseDateOnly(rawStart) : null;
+      let end = typeof rawEnd === 'string' ? parseDateOnly(rawEnd) : null;
+      if (!start || !end) {
+        return NextResponse.json(
+          { error: 'range.start and range.end must be YYYY-MM-DD.' },
+          { status: 400 },
+        );
+      }
+      if (start > end) [start, end] = [end, start];
+      range = { stationId: cleanStationId, startTs: `${start} 00:00:00`, endTs: `${end} 23:59:59` };
+
+      const outside = batch.records.find(
+        (record) => record.peak_time < range.startTs || record.peak_time > range.endTs,
+      );
+      if (outside) {
+        return NextResponse.json(
+          { error: `peak_time ${outside.peak_time} is outside the upload range.` },
+          { status: 400 },
+        );
+      }
+    }
+
+    if (!(await queryStationExists(cleanStationId))) {
+      return NextResponse.json({ error: 'Station not found.' }, { status: 404 });
+    }
+
+    const dryRun = parseBoolean(req.nextUrl.searchParams.get('dryRun'), false);
+    const responseRange = { startTs: range.startTs, endTs: range.endTs };
+
+    if (dryRun) {
+      const diff = await diffStationRecords(range, batch.records);
+      return NextResponse.json({ stationId: cleanStationId, dryRun, range: responseRange, diff });
+    }
+
+    const { deleted, inserted } = await replaceStationRecords(range, batch.records);
+    return NextResponse.json({
+      stationId: cleanStationId,
+      dryRun,
+      range: responseRange,
+      deleted,
+      inserted,
+    });
+  } catch (error) {
+    console.error('[POST /api/stations/[stationId]/records]', error);
+    return NextResponse.json({ error: 'Failed to upload station records.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseDateOnly, parseFiniteNumber, parsePositiveInt } from '../../../../../lib/apiUtils';
+import { queryRecordsInRange } from '../../../../../lib/queries/records';
+import {
+  queryStationSeriesBounds,
+  queryStationSeriesCount,
+  queryStationSeriesRows,
+  queryStationSeriesThresholds,
+  queryStationSeriesYearlyMeans,
+} from '../../../../../lib/queries/series';
+import {
+  DEFAULT_EXTRACTION_PARAMS,
+  diffExtraction,
+  extractionSpan,
+  runExtraction,
+} from '../../../../../lib/reextract';
+import type { ExtractionDetrend, ExtractionParams } from '../../../../../types';
+
+export const runtime = 'nodejs';
+
+const DETREND_STRATEGIES = new Set<ExtractionDetrend>(['skip', 'local', 'full', 'yearly-mean']);
+// ~11 years of hourly readings; keeps the rolling-median detrend within a request's time budget.
+// Bounds the loaded rows (the peak range plus margins), not the station's whole record.
+const REEXTRACT_ROW_LIMIT = 100_000;
+
+function parseParams(sp: URLSearchParams): ExtractionParams | string {
+  const peakPercentile = parseFiniteNumber(sp.get('peakPct')) ?? 75;
+  const boundaryPercentile = parseFiniteNumber(sp.get('boundaryPct')) ?? 50;
+  if (boundaryPercentile <= 0 || peakPercentile >= 100 || boundaryPercentile >= peakPercentile) {
+    return 'Percentiles must satisfy 0 < boundaryPct < peakPct < 100.';
+  }
+
+  const minRise = parseFiniteNumber(sp.get('minRise')) ?? 0;
+  if (minRise < 0) {
+    return 'minRise must be zero or positive.';
+  }
+
+  const detrend = (sp.get('detrend') ?? DEFAULT_EXTRACTION_PARAMS.detrend) as ExtractionDetrend;
+  if (!DETREND_STRATEGIES.has(detrend)) {
+    return 'detrend must be one of skip, local, full, yearly-mean.';
+  }
+
+  const maxPlateau = sp.get('maxPlateau') ? parsePositiveInt(sp.get('maxPlateau'), 0, 720) : null;
+  if (maxPlateau === 0) {
+    return 'maxPlateau must be a positive integer.';
+  }
+
+  return { peakPercentile, boundaryPercentile, maxPlateau, minRise, detrend };
+}
+
+// 作用：对外暴露 GET /api/stations/[stationId]/reextract，用给定参数在服务端重新提取事件，不写库。
+// 输入：stationId；可选 peakStart / peakEnd（YYYY-MM-DD，限定比较哪些峰值，默认为该站全部逐时数据）；
+//   peakPct / boundaryPct（峰值与起止阈值的百分位，默认 75 / 50）、maxPlateau（平顶最长读数数）、
+//   minRise（米）、detrend（skip / local / full / yearly-mean）、tolerance（配对容差小时数，默认 6）。
+// 输出：峰值落在区间内的候选事件、提取统计，以及与 station_records 中同区间事件的 diff（added / removed / shifted）。
+// 为什么这样写：分析人员调参时只读 station_series 和 station_records，生产事件表不受影响；
+//   skip / yearly-mean 的阈值（及逐年均值）由数据库在该站完整序列上用 percentile_cont 求出，日期筛选不会改变阈值；
+//   找峰只载入区间前后各 EXTRACTION_MARGIN_HOURS 的读数，跨越区间边界的事件不会被截断，长序列也不必整段读进 Node。
+//   local / full 的基线依赖滑动窗口，阈值只能在载入的读数上计算，可能与整段序列的结果略有不同。
+//   提取算法与 prep 向导共用同一份代码，默认参数（detrend yearly-mean、minRise 0）与生产设置一致，结果应与库中事件相同。
+export async function GET(req: NextRequest, context: { params: Promise<{ stationId: string }> }) {
+  try {
+    const { stationId } = await context.params;
+    const cleanStationId = stationId?.trim();
+    if (!cleanStationId) {
+      return NextResponse.json({ error: 'stationId is required.' }, { status: 400 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    const params = parseParams(sp);
+    if (typeof params === 'string') {
+      return NextResponse.json({ error: params }, { status: 400 });
+    }
+    const toleranceHours = parsePositiveInt(sp.get('tolerance'), 6, 72);
+
+    let peakStart = parseDateOnly(sp.get('peakStart'));
+    let peakEnd = parseDateOnly(sp.get('peakEnd'));
+    if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+
+    const bounds = await queryStationSeriesBounds(cleanStationId);
+    if (!bounds.first || !bounds.last) {
+      return NextResponse.json(
+        { error: 'No stored series for this station; upload it from the prep wizard first.' },
+        { status: 404 },
+      );
+    }
+    const range = {
+      stationId: cleanStationId,
+      startTs: peakStart ? `${peakStart} 00:00:00` : bounds.first,
+      endTs: peakEnd ? `${peakEnd} 23:59:59` : bounds.last,
+    };
+    const span = extractionSpan(range);
+
+    const readings = await queryStationSeriesCount(span);
+    if (readings > REEXTRACT_ROW_LIMIT) {
+      return NextResponse.json(
+        {
+          error: `The peak range needs ${readings} readings; re-extraction supports at most ${REEXTRACT_ROW_LIMIT}. Narrow peakStart / peakEnd.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const yearlyMeans =
+      params.detrend === 'yearly-mean' ? await queryStationSeriesYearlyMeans(cleanStationId) : null;
+    const [thresholds, rows, stored] = await Promise.all([
+      params.detrend === 'skip' || yearlyMeans
+        ? queryStationSeriesThresholds(
+            cleanStationId,
+            { boundary: params.boundaryPercentile, peak: params.peakPercentile },
+            yearlyMeans,
+          )
+        : null,
+      queryStationSeriesRows(span),
+      queryRecordsInRange(range),
+    ]);
+    const { candidates, stats } = runExtraction(rows, params, range, { thresholds, yearlyMeans });
+    const diff = diffExtraction(stored, candidates, toleranceHours);
+
+    return NextResponse.json(
+      {
+        stationId: cleanStationId,
+        range: { startTs: range.startTs, endTs: range.endTs },
+        params,
+        readings,
+        toleranceHours,
+        stats,
+        candidates,
+        diff,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/stations/[stationId]/reextract]', error);
+    return NextResponse.json({ error: 'Failed to re-extract events.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,177 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { isAuthorizedWriter, parseDateOnly, parsePositiveInt } from '../../../../../lib/apiUtils';
+import { queryStationExists } from '../../../../../lib/queries/records';
+import {
+  queryStationSeries,
+  queryStationSeriesCount,
+  queryStationSeriesPercentiles,
+  writeStationSeries,
+} from '../../../../../lib/queries/series';
+import { parseTimestamp } from '../../../../../lib/recordValidation';
+import { parseSeriesBatch } from '../../../../../lib/seriesValidation';
+import type { SeriesDownsampleMethod } from '../../../../../types';
+
+export const runtime = 'nodejs';
+
+const MAX_POINTS_LIMIT = 5000;
+const DOWNSAMPLE_METHODS = new Set<SeriesDownsampleMethod>(['lttb', 'minmax', 'avg']);
+
+// Accepts "YYYY-MM-DD" (expanded to the start or end of that day) or a full timestamp.
+function parseBoundary(value: string | null, edge: 'start' | 'end'): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const timestamp = parseTimestamp(trimmed);
+  if (timestamp) return timestamp;
+  const date = parseDateOnly(trimmed);
+  if (!date) return null;
+  return edge === 'start' ? `${date} 00:00:00` : `${date} 23:59:59`;
+}
+
+// 作用：对外暴露 GET /api/stations/[stationId]/series，返回测站在某时间窗口内的逐时水位，用于事件过程线查看。
+// 输入：stationId；from / to（YYYY-MM-DD 或 "YYYY-MM-DD HH:MM:SS"，必填）；maxPoints（默认 1000，最大 5000）；
+//   method（lttb 默认 / minmax / avg），仅在读数超过 maxPoints 时生效。
+// 输出：窗口内的水位点、实际使用的降采样方法、原始行数、桶宽（仅 avg），以及该站全部原始读数的 P50 / P75（未去趋势，仅作参考线）。
+// 为什么这样写：事件窗口一般只有几十到几百个点，直接返回原始读数；长窗口在服务端降采样，避免把整年数据传给浏览器。
+export async function GET(req: NextRequest, context: { params: Promise<{ stationId: string }> }) {
+  try {
+    const { stationId } = await context.params;
+    const cleanStationId = stationId?.trim();
+    if (!cleanStationId) {
+      return NextResponse.json({ error: 'stationId is required.' }, { status: 400 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    let from = parseBoundary(sp.get('from'), 'start');
+    let to = parseBoundary(sp.get('to'), 'end');
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'from and to must be YYYY-MM-DD or YYYY-MM-DD HH:MM:SS.' },
+        { status: 400 },
+      );
+    }
+    if (from > to) [from, to] = [to, from];
+    const maxPoints = parsePositiveInt(sp.get('maxPoints'), 1000, MAX_POINTS_LIMIT);
+    const methodParam = sp.get('method') ?? 'lttb';
+    if (!DOWNSAMPLE_METHODS.has(methodParam as SeriesDownsampleMethod)) {
+      return NextResponse.json(
+        { error: 'method must be one of lttb, minmax, avg.' },
+        { status: 400 },
+      );
+    }
+
+    const range = { stationId: cleanStationId, startTs: from, endTs: to };
+    const [rawCount, percentiles] = await Promise.all([
+      queryStationSeriesCount(range),
+      queryStationSeriesPercentiles(cleanStationId),
+    ]);
+    const { method, bucketSeconds, points } = await queryStationSeries(
+      range,
+      rawCount,
+      maxPoints,
+      methodParam as SeriesDownsampleMethod,
+    );
+
+    return NextResponse.json(
+      {
+        stationId: cleanStationId,
+        from,
+        to,
+        rawCount,
+        method,
+        bucketSeconds,
+        points,
+        p50: percentiles.p50,
+        p75: percentiles.p75,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/stations/[stationId]/series]', error);
+    return NextResponse.json({ error: 'Failed to load station series.' }, { status: 500 });
+  }
+}
+
+// 作用：对外暴露 POST /api/stations/[stationId]/series，接收 prep 向导清洗后的逐时水位并写入 station_series。
+// 输入：Authorization: Bearer <RECORDS_UPLOAD_SECRET>；请求体 { range: { start, end }, rows, replace? }。
+// 输出：在事务中写入读数，返回 deleted / inserted 行数。
+// 为什么这样写：与事件上传共用密钥和“按区间替换”的语义，重新清洗同一时段后再次上传不会留下旧读数；
+//   replace 默认 true，分块上传时后续块传 false，只 upsert 本块的读数。
+export async function POST(req: NextRequest, context: { params: Promise<{ stationId: string }> }) {
+  try {
+    if (!isAuthorizedWriter(req.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+    }
+
+    const { stationId } = await context.params;
+    const cleanStationId = stationId?.trim();
+    if (!cleanStationId) {
+      return NextResponse.json({ error: 'stationId is required.' }, { status: 400 });
+    }
+
+    let body: { range?: { start?: unknown; end?: unknown }; rows?: unknown; replace?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+    }
+
+    const rawStart = body?.range?.start;
+    const rawEnd = body?.range?.end;
+    let start = typeof rawStart === 'string' ? parseDateOnly(rawStart) : null;
+    let end = typeof rawEnd === 'string' ? parseDateOnly(rawEnd) : null;
+    if (!start || !end) {
+      return NextResponse.json(
+        { error: 'range.start and range.end must be YYYY-MM-DD.' },
+        { status: 400 },
+      );
+    }
+    if (start > end) [start, end] = [end, start];
+
+    if (body.replace !== undefined && typeof body.replace !== 'boolean') {
+      return NextResponse.json({ error: 'replace must be a boolean.' }, { status: 400 });
+    }
+
+    const batch = parseSeriesBatch(body.rows);
+    if (!batch.ok) {
+      return NextResponse.json({ error: batch.error }, { status: 400 });
+    }
+
+    const range = {
+      stationId: cleanStationId,
+      startTs: `${start} 00:00:00`,
+      endTs: `${end} 23:59:59`,
+    };
+    const outside = batch.rows.find(
+      (row) => row.observed_at < range.startTs || row.observed_at > range.endTs,
+    );
+    if (outside) {
+      return NextResponse.json(
+        { error: `observed_at ${outside.observed_at} is outside the upload range.` },
+        { status: 400 },
+      );
+    }
+
+    if (!(await queryStationExists(cleanStationId))) {
+      return NextResponse.json({ error: 'Station not found.' }, { status: 404 });
+    }
+
+    const { deleted, inserted } = await writeStationSeries(range, batch.rows, {
+      replace: body.replace ?? true,
+    });
+    return NextResponse.json({
+      stationId: cleanStationId,
+      range: { startTs: range.startTs, endTs: range.endTs },
+      deleted,
+      inserted,
+    });
+  } catch (error) {
+    console.error('[POST /api/stations/[stationId]/series]', error);
+    return NextResponse.json({ error: 'Failed to upload station series.' }, { status: 500 });
+  }
+}
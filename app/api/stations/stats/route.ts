@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parseDateOnly } from '../../../../lib/apiUtils';
+import { queryStationStats } from '../../../../lib/queries/stations';
+
+export const runtime = 'nodejs';
+
+// 作用：GET /api/stations/stats —— 全国测站的事件统计，驱动地图的分级着色图层。
+// 输入：可选 peakStart / peakEnd（YYYY-MM-DD）。
+// 输出：{ items }，每项为 { station_id, eventCount, maxPeakValue, avgRiseTime, eventsPerYear }。
+// 为什么这样写：一次聚合返回所有指标，前端切换指标时只换着色字段，不需要再次请求。
+export async function GET(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    let peakStart = parseDateOnly(sp.get('peakStart'));
+    let peakEnd = parseDateOnly(sp.get('peakEnd'));
+    if (peakStart && peakEnd && peakStart > peakEnd) [peakStart, peakEnd] = [peakEnd, peakStart];
+
+    const items = await queryStationStats({
+      startTs: peakStart ? `${peakStart} 00:00:00` : null,
+      endTs: peakEnd ? `${peakEnd} 23:59:59` : null,
+    });
+
+    return NextResponse.json(
+      { items },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('[GET /api/stations/stats]', error);
+    return NextResponse.json({ error: 'Failed to query station stats.' }, { status: 500 });
+  }
+}
@@ -5,21 +5,30 @@ import './LeafletMap.css';
 
 import type { Map as LeafletMapInstance } from 'leaflet';
 import { latLngBounds } from 'leaflet';
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { AttributionControl, MapContainer, TileLayer, ZoomControl } from 'react-leaflet';
 import useSWR from 'swr';
 
+import { useEventPlayback } from '@/hooks/useEventPlayback';
 import { useMapState } from '@/hooks/useMapState';
+import { MIN_COMPARE_STATIONS, usePinnedStations } from '@/hooks/usePinnedStations';
 import { useStationSearch } from '@/hooks/useStationSearch';
+import { useStationStats } from '@/hooks/useStationStats';
 import type { Station, StationsApiResponse } from '@/types';
 
 import { MapInstanceWatcher, MapSizeWatcher, ZoomWatcher } from './components/MapEventWatchers';
+import MapLayerControl from './components/MapLayerControl';
 import MapSearchbar from './components/MapSearchbar';
+import PlaybackControl from './components/PlaybackControl';
+import PlaybackMarkers from './components/PlaybackMarkers';
 import StationMarkers from './components/StationMarkers';
 import StationSidePanel from './components/StationSidePanel';
 import { normalizeText, stationDisplayName } from './mapUtils';
+import type { ActiveTab, StationMetric } from './types';
+import { readMapUrlState, URL_PARAMS, writeUrlParams } from './urlState';
 
 const center: [number, number] = [38.5, 138.2529];
+const defaultZoom = 5.4;
 const japanBounds: [[number, number], [number, number]] = [
   [20.0, 122.0],
   [46.5, 154.0],
@@ -56,13 +65,26 @@ export default function LeafletMap() {
   });
   const error = stationsError ? 'Failed to load stations.' : null;
 
+  const [initialUrlState] = useState(readMapUrlState);
+  const [isUrlRestored, setIsUrlRestored] = useState(false);
   const [basinTab, setBasinTab] = useState<{
     basinName: string;
     stationCount: number;
   } | null>(null);
   const [stationTab, setStationTab] = useState<Station | null>(null);
-  const [activeTab, setActiveTab] = useState<'basin' | 'station' | null>(null);
+  const { pinnedIds, togglePin, unpinStation, clearPins } = usePinnedStations();
+  // A shared comparison link opens straight into the compare tab; other tabs are restored once stations load.
+  const [activeTab, setActiveTab] = useState<ActiveTab>(() => {
+    const wantsCompare =
+      initialUrlState.tab === 'compare' ||
+      (!initialUrlState.tab && pinnedIds.length >= MIN_COMPARE_STATIONS);
+    return wantsCompare && pinnedIds.length > 0 ? 'compare' : null;
+  });
   const [mapInstance, setMapInstance] = useState<LeafletMapInstance | null>(null);
+  const [layerMetric, setLayerMetric] = useState<StationMetric | null>(null);
+  const { styleByStation, legend, statsError, isLoadingStats } = useStationStats(layerMetric);
+  const [isPlaybackOpen, setIsPlaybackOpen] = useState(false);
+  const playback = useEventPlayback(isPlaybackOpen);
 
   //一个"站点数组"按流域分组成"流域 → 站点列表"的索引，方便 O(1) 查找。
   const basinGroups = useMemo(() => {
@@ -118,6 +140,8 @@ export default function LeafletMap() {
     handleCloseBasinTab,
   } = useMapState({
     mapInstance,
+    initialZoom: initialUrlState.view?.zoom ?? defaultZoom,
+    initialSelectedStationId: initialUrlState.station,
     basinTab,
     stationTab,
     activeTab,
@@ -126,6 +150,54 @@ export default function LeafletMap() {
     setActiveTab,
   });
 
+  // 作用：页面首次拿到站点数据后，按链接里的 basin/station/tab 参数恢复右侧面板。
+  // 输入：首屏解析的 `initialUrlState` 与已加载的 `stations`、`basinGroups`。
+  // 输出：无返回值；在渲染期间直接更新 tab 状态，只执行一次。
+  // 为什么这样写：tab 需要完整的 Station 对象，必须等站点列表加载完成；放在渲染期间按 isUrlRestored 判断一次，
+  //   比在 effect 里 setState 少一轮渲染。恢复完成前不回写 URL，避免把链接参数清掉。
+  if (!isUrlRestored && stations.length > 0) {
+    const { basin, station, tab } = initialUrlState;
+    const basinStations = basin ? basinGroups.get(basin) : undefined;
+    const restoredStation = station
+      ? stations.find((item) => item.station_id === station)
+      : undefined;
+
+    setIsUrlRestored(true);
+    if (restoredStation) {
+      setStationTab(restoredStation);
+    }
+    if (basin && basinStations) {
+      setBasinTab({ basinName: basin, stationCount: basinStations.length });
+    }
+    if (activeTab !== 'compare') {
+      setActiveTab(
+        tab === 'basin' && basinStations
+          ? 'basin'
+          : restoredStation
+            ? 'station'
+            : basinStations
+              ? 'basin'
+              : null,
+      );
+    }
+  }
+
+  useEffect(() => {
+    if (!isUrlRestored) {
+      return;
+    }
+    const hasAnalysisTab = activeTab === 'basin' || activeTab === 'station';
+    writeUrlParams({
+      [URL_PARAMS.basin]: basinTab?.basinName ?? null,
+      [URL_PARAMS.station]: stationTab?.station_id ?? null,
+      [URL_PARAMS.tab]: activeTab,
+      // Preset and date range are written by useStationEvents for the active tab.
+      ...(hasAnalysisTab
+        ? {}
+        : { [URL_PARAMS.preset]: null, [URL_PARAMS.start]: null, [URL_PARAMS.end]: null }),
+    });
+  }, [activeTab, basinTab, isUrlRestored, stationTab]);
+
   const markerRadius = useMemo(() => {
     const radius = 1.2 * Math.pow(1.35, zoom - 4);
     return Math.min(10, Math.max(1.2, radius));
@@ -226,6 +298,65 @@ export default function LeafletMap() {
     [basinGroups, clearPreview, mapInstance],
   );
 
+  // 作用：从流域逐站表格等入口按 station_id 打开测站 tab，并把地图飞到该测站。
+  // 输入：`stationId: string`，来自 /api/basins/[basinName]/stations 的行。
+  // 输出：无返回值；副作用与点击 marker 相同（选中、打开测站 tab），外加地图视角移动。
+  // 为什么这样写：表格行只有 id，这里统一从已加载的 stations 中找回完整对象，复用 commitStationSelection 的选中逻辑。
+  const handleOpenStationTab = useCallback(
+    (stationId: string) => {
+      const station = stations.find((item) => item.station_id === stationId);
+      if (!station) {
+        return;
+      }
+      commitStationSelection(station);
+      zoomToStations([station]);
+    },
+    [commitStationSelection, stations, zoomToStations],
+  );
+
+  // 作用：固定测站的完整对象列表，顺序与 URL 中的 compare 参数一致（决定对比图的配色）。
+  // 输入：`pinnedIds`（来自 usePinnedStations）与全量 `stations`。
+  // 输出：`Station[]`；站点数据尚未加载或 id 已失效时对应项被跳过。
+  // 为什么这样写：URL 里只存 id，完整对象统一从已加载的 stations 中找回，和 handleOpenStationTab 的做法一致。
+  const pinnedStations = useMemo(() => {
+    const byId = new Map(stations.map((station) => [station.station_id, station]));
+    return pinnedIds
+      .map((stationId) => byId.get(stationId))
+      .filter((station): station is Station => Boolean(station));
+  }, [pinnedIds, stations]);
+
+  const fallbackTab = useCallback(
+    (): ActiveTab => (stationTab ? 'station' : basinTab ? 'basin' : null),
+    [basinTab, stationTab],
+  );
+
+  const handleActivateCompareTab = useCallback(() => {
+    setActiveTab('compare');
+    clearPreview();
+    mapInstance?.closePopup();
+  }, [clearPreview, mapInstance]);
+
+  // 作用：取消固定某个测站；对比 tab 中最后一个测站被移除时，面板退回到测站或流域 tab。
+  // 输入：`stationId: string`。
+  // 输出：无返回值；副作用是更新固定列表（同步到 URL），必要时切换 `activeTab`。
+  // 为什么这样写：对比 tab 没有测站时无内容可显示，直接回退比留下一个空 tab 更自然。
+  const handleUnpinStation = useCallback(
+    (stationId: string) => {
+      unpinStation(stationId);
+      if (activeTab === 'compare' && pinnedIds.every((id) => id === stationId)) {
+        setActiveTab(fallbackTab());
+      }
+    },
+    [activeTab, fallbackTab, pinnedIds, unpinStation],
+  );
+
+  const handleCloseCompareTab = useCallback(() => {
+    clearPins();
+    if (activeTab === 'compare') {
+      setActiveTab(fallbackTab());
+    }
+  }, [activeTab, clearPins, fallbackTab]);
+
   // 作用：当流域 tab 已存在时，把右侧面板焦点切回流域视图。
   // 输入：无显式参数；依赖当前 `basinTab` 是否存在。
   // 输出：无返回值；副作用是更新 `activeTab` 为 `'basin'`。
@@ -252,10 +383,10 @@ export default function LeafletMap() {
         onSuggestionSelect={handleSuggestionSelect}
       />
       <MapContainer
-        center={center}
-        zoom={5.4}
+        center={initialUrlState.view?.center ?? center}
+        zoom={initialUrlState.view?.zoom ?? defaultZoom}
         zoomControl={false}
-        minZoom={5.4}
+        minZoom={defaultZoom}
         maxZoom={12}
         maxBounds={japanBounds}
         maxBoundsViscosity={1}
@@ -281,20 +412,65 @@ export default function LeafletMap() {
           selectedStationId={selectedStationId}
           previewStationId={previewStationId}
           basinHighlightedStationIds={basinHighlightedStationIds}
+          choroplethStyles={styleByStation}
           onPreviewChange={handlePreviewChange}
           onCommitSelection={commitStationSelection}
           getDisplayName={stationDisplayName}
         />
+        {isPlaybackOpen && (
+          <PlaybackMarkers
+            stations={stations}
+            frameKey={playback.currentPeriod}
+            events={playback.currentEvents}
+            markerRadius={markerRadius}
+            getDisplayName={stationDisplayName}
+          />
+        )}
       </MapContainer>
+      <MapLayerControl
+        metric={layerMetric}
+        onMetricChange={setLayerMetric}
+        legend={legend}
+        isLoading={isLoadingStats}
+        hasError={Boolean(statsError)}
+      />
+      <PlaybackControl
+        isOpen={isPlaybackOpen}
+        onToggleOpen={() => setIsPlaybackOpen((prev) => !prev)}
+        period={playback.period}
+        setPeriod={playback.setPeriod}
+        minDate={playback.minDate}
+        maxDate={playback.maxDate}
+        rangeStart={playback.rangeStart}
+        rangeEnd={playback.rangeEnd}
+        setStartDate={playback.setStartDate}
+        setEndDate={playback.setEndDate}
+        frames={playback.frames}
+        frameIndex={playback.frameIndex}
+        setFrameIndex={playback.setFrameIndex}
+        currentPeriod={playback.currentPeriod}
+        stationCount={playback.currentEvents.length}
+        isPlaying={playback.isPlaying}
+        togglePlay={playback.togglePlay}
+        isLoading={playback.isLoadingTimeline}
+        hasError={Boolean(playback.timelineError)}
+        isTruncated={playback.isTruncated}
+      />
       <StationSidePanel
         activeTab={activeTab}
         basinTab={basinTab}
         stationTab={stationTab}
+        pinnedStations={pinnedStations}
         onActivateBasinTab={handleActivateBasinTab}
         onOpenBasinTab={handleOpenBasinTab}
+        onOpenStationTab={handleOpenStationTab}
         onActivateStationTab={handleActivateStationTab}
         onCloseStationTab={handleCloseStationTab}
         onCloseBasinTab={handleCloseBasinTab}
+        onTogglePin={togglePin}
+        onUnpinStation={handleUnpinStation}
+        onActivateCompareTab={handleActivateCompareTab}
+        onCloseCompareTab={handleCloseCompareTab}
         getDisplayName={stationDisplayName}
       />
     </div>
@@ -0,0 +1,141 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+import { cn } from '@/lib/utils';
+import type { BasinStationSummary } from '@/types';
+
+import SearchLoadingIcon from './SearchLoadingIcon';
+
+type SortKey = keyof Pick<
+  BasinStationSummary,
+  'station_name' | 'eventCount' | 'maxPeakValue' | 'avgRiseTime' | 'avgFallTime' | 'lastPeakTime'
+>;
+
+type BasinStationTableProps = {
+  items: BasinStationSummary[];
+  isLoading: boolean;
+  hasError: boolean;
+  onSelectStation: (stationId: string) => void;
+};
+
+const columns: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: 'station_name', label: 'Station', numeric: false },
+  { key: 'eventCount', label: 'Events', numeric: true },
+  { key: 'maxPeakValue', label: 'Max', numeric: true },
+  { key: 'avgRiseTime', label: 'Rise', numeric: true },
+  { key: 'avgFallTime', label: 'Fall', numeric: true },
+  { key: 'lastPeakTime', label: 'Last peak', numeric: false },
+];
+
+function formatNumber(value: number | null): string {
+  if (value === null || Number.isNaN(value)) {
+    return '-';
+  }
+  return value.toFixed(2);
+}
+
+// 作用：流域 tab 下的逐站汇总表，可按任一列排序，点击行打开该测站的 tab。
+// 输入：`items` 为 /api/basins/[basinName]/stations 的结果；`onSelectStation` 由地图页提供。
+// 输出：表格节点；加载中和出错时分别显示加载图标和提示。
+// 为什么这样写：排序只在前端做（流域内测站数量有限），切换排序不需要重新请求。
+export default function BasinStationTable({
+  items,
+  isLoading,
+  hasError,
+  onSelectStation,
+}: BasinStationTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('eventCount');
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const sortedItems = useMemo(() => {
+    const direction = sortDesc ? -1 : 1;
+    return [...items].sort((a, b) => {
+      const left = a[sortKey];
+      const right = b[sortKey];
+      // Missing values always sink to the bottom regardless of direction.
+      if (left === null || left === undefined) return right === null ? 0 : 1;
+      if (right === null || right === undefined) return -1;
+      if (typeof left === 'number' && typeof right === 'number') {
+        return (left - right) * direction;
+      }
+      return String(left).localeCompare(String(right), 'ja') * direction;
+    });
+  }, [items, sortDesc, sortKey]);
+
+  function handleSort(key: SortKey) {
+    if (key === sortKey) {
+      setSortDesc((prev) => !prev);
+      return;
+    }
+    setSortKey(key);
+    setSortDesc(columns.find((column) => column.key === key)?.numeric ?? false);
+  }
+
+  if (isLoading) {
+    return (
+      <div className="mt-[0.25rem] flex min-h-[181px] items-center justify-center">
+        <SearchLoadingIcon className="h-12 w-12 text-slate-400" />
+      </div>
+    );
+  }
+
+  if (hasError) {
+    return <p>Failed to load basin stations.</p>;
+  }
+
+  return (
+    <section className="mt-[0.25rem] max-h-[320px] overflow-auto rounded-[10px] border border-black/8">
+      <table className="w-full border-collapse text-[0.74rem]">
+        <thead className="sticky top-0 bg-[oklch(0.97_0_0)]">
+          <tr>
+            {columns.map((column) => (
+              <th
+                key={column.key}
+                className={cn(
+                  'px-2 py-[0.35rem] font-semibold whitespace-nowrap text-slate-700',
+                  column.numeric ? 'text-right' : 'text-left',
+                )}
+                aria-sort={
+                  sortKey === column.key ? (sortDesc ? 'descending' : 'ascending') : undefined
+                }
+              >
+                <button
+                  type="button"
+                  className="font-inherit cursor-pointer border-0 bg-transparent p-0 hover:text-[#4288c9]"
+                  onClick={() => handleSort(column.key)}
+                >
+                  {column.label}
+                  {sortKey === column.key ? (sortDesc ? ' ↓' : ' ↑') : ''}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedItems.map((item) => (
+            <tr
+              key={item.station_id}
+              className="cursor-pointer border-t border-black/5 hover:bg-[oklch(0.9214_0.0248_257.65)]"
+              onClick={() => onSelectStation(item.station_id)}
+            >
+              <td className="max-w-[110px] truncate px-2 py-[0.3rem] text-slate-900">
+                {item.station_name ?? item.station_id}
+              </td>
+              <td className="px-2 py-[0.3rem] text-right">{item.eventCount}</td>
+              <td className="px-2 py-[0.3rem] text-right">{formatNumber(item.maxPeakValue)}</td>
+              <td className="px-2 py-[0.3rem] text-right">{formatNumber(item.avgRiseTime)}</td>
+              <td className="px-2 py-[0.3rem] text-right">{formatNumber(item.avgFallTime)}</td>
+              <td
+                className="px-2 py-[0.3rem] whitespace-nowrap text-slate-600"
+                title={item.firstPeakTime ? `first: ${item.firstPeakTime.slice(0, 10)}` : undefined}
+              >
+                {item.lastPeakTime?.slice(0, 10) ?? '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -3,16 +3,30 @@
 import type { Dispatch, RefObject, SetStateAction } from 'react';
 import { useState } from 'react';
 
+import { useEventSeries } from '@/hooks/useEventSeries';
 import type { ChartPresetId } from '@/hooks/useStationEvents';
-import { chartPresets } from '@/hooks/useStationEvents';
+import { chartPresets, episodeWindowOptions } from '@/hooks/useStationEvents';
 import { cn } from '@/lib/utils';
-import type { StationMatchedPoint } from '@/types';
+import type {
+  BasinEpisodesResponse,
+  ExtractionParams,
+  FrequencyAnalysisResponse,
+  ReextractResponse,
+  StationMatchedPoint,
+  StationQualityYear,
+} from '@/types';
 
 import type { MonthlyFrequencyPoint, PeakDistributionPoint } from '../types';
+import ReextractControls from './ReextractControls';
 import SearchLoadingIcon from './SearchLoadingIcon';
+import StationCoverageChart from './StationCoverageChart';
+import StationEpisodesChart from './StationEpisodesChart';
 import StationEventTimelineChart from './StationEventTimelineChart';
+import StationHydrographChart from './StationHydrographChart';
 import StationMonthlyFrequencyChart from './StationMonthlyFrequencyChart';
 import StationPeakDistributionChart from './StationPeakDistributionChart';
+import StationReextractDiffChart from './StationReextractDiffChart';
+import StationReturnPeriodChart from './StationReturnPeriodChart';
 
 const HOVER_DOWNLOAD_BUTTON_SIZE = 32;
 const HOVER_DOWNLOAD_BUTTON_OFFSET = 12;
@@ -25,6 +39,17 @@ type ChartSectionProps = {
   chartPoints: StationMatchedPoint[];
   monthlyFrequency: MonthlyFrequencyPoint[];
   peakDistribution: PeakDistributionPoint[];
+  frequencyData: FrequencyAnalysisResponse | null;
+  episodesData: BasinEpisodesResponse | null;
+  episodeWindowHours: number;
+  setEpisodeWindowHours: (hours: number) => void;
+  highlightStationId: string | null;
+  reextractData: ReextractResponse | null;
+  reextractError: string | null;
+  reextractParams: ExtractionParams;
+  setReextractParams: (params: ExtractionParams) => void;
+  coverageYears: StationQualityYear[];
+  isStationTab: boolean;
   chartTitle: string;
   chartSvgRef: RefObject<SVGSVGElement | null>;
   downloadChartPng: () => Promise<void>;
@@ -38,17 +63,41 @@ export default function ChartSection({
   chartPoints,
   monthlyFrequency,
   peakDistribution,
+  frequencyData,
+  episodesData,
+  episodeWindowHours,
+  setEpisodeWindowHours,
+  highlightStationId,
+  reextractData,
+  reextractError,
+  reextractParams,
+  setReextractParams,
+  coverageYears,
+  isStationTab,
   chartTitle,
   chartSvgRef,
   downloadChartPng,
   isLoadingRangeCount,
 }: ChartSectionProps) {
   const [chartHoverPos, setChartHoverPos] = useState<{ x: number; y: number } | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<{
+    tabKey: string;
+    point: StationMatchedPoint;
+  } | null>(null);
+
+  // The hydrograph belongs to the tab and timeline it was opened from; switching either closes it.
+  const openEvent =
+    selectedEvent && selectedEvent.tabKey === activeTabKey && selectedPreset === 'timeline_all'
+      ? selectedEvent.point
+      : null;
+  const { seriesData, seriesWindow, isLoadingSeries } = useEventSeries(openEvent);
 
   if (!selectedPreset) {
     return null;
   }
 
+  const visiblePresets = chartPresets.filter((preset) => isStationTab || !preset.stationOnly);
+
   return (
     <section
       className={
@@ -60,7 +109,7 @@ export default function ChartSection({
           'mb-1 flex justify-center gap-2 overflow-x-auto pb-1 [scrollbar-width:none] [&::-webkit-scrollbar]:hidden'
         }
       >
-        {chartPresets.map((preset) => {
+        {visiblePresets.map((preset) => {
           const isActive = selectedPreset === preset.id;
           return (
             <button
@@ -90,7 +139,48 @@ export default function ChartSection({
           'relative rounded-[10px] bg-white p-[0.55rem] min-[901px]:h-full min-[901px]:min-h-0 min-[901px]:w-full'
         }
       >
-        {isLoadingRangeCount ? (
+        {selectedPreset === 'episodes' && (
+          <label className="mb-1 flex items-center justify-end gap-1 text-[0.74rem] text-slate-600">
+            Peak window
+            <select
+              className="rounded-md border border-gray-200 bg-white px-1 py-[0.1rem] text-[0.74rem] text-slate-900"
+              value={episodeWindowHours}
+              onChange={(event) => setEpisodeWindowHours(Number(event.target.value))}
+            >
+              {episodeWindowOptions.map((hours) => (
+                <option
+                  key={hours}
+                  value={hours}
+                >
+                  {hours} h
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {selectedPreset === 'reextract' && (
+          <ReextractControls
+            params={reextractParams}
+            onRun={setReextractParams}
+            data={reextractData}
+            error={reextractError}
+          />
+        )}
+        {openEvent && (
+          <div className="mb-1 flex items-center justify-between gap-2 text-[0.74rem] text-slate-600">
+            <button
+              type="button"
+              className="cursor-pointer rounded-md border border-gray-200 bg-white px-2 py-[0.1rem] text-slate-900 hover:bg-slate-50"
+              onClick={() => setSelectedEvent(null)}
+            >
+              ← Timeline
+            </button>
+            <span className="truncate">
+              {`${openEvent.station_id} · peak ${openEvent.peak_time} (${openEvent.peak_value.toFixed(2)})`}
+            </span>
+          </div>
+        )}
+        {isLoadingRangeCount || (openEvent && isLoadingSeries) ? (
           <div className="mx-auto flex h-[440px] w-full max-w-[760px] items-center justify-center max-[900px]:h-[320px] min-[901px]:h-full">
             <SearchLoadingIcon className="h-10 w-10 text-slate-400" />
           </div>
@@ -152,10 +242,46 @@ export default function ChartSection({
                   points={peakDistribution}
                   title={chartTitle}
                 />
+              ) : selectedPreset === 'episodes' ? (
+                <StationEpisodesChart
+                  ref={chartSvgRef}
+                  data={episodesData}
+                  highlightStationId={highlightStationId}
+                  title={chartTitle}
+                />
+              ) : selectedPreset === 'return_period' ? (
+                <StationReturnPeriodChart
+                  ref={chartSvgRef}
+                  data={frequencyData}
+                  title={chartTitle}
+                />
+              ) : selectedPreset === 'coverage' ? (
+                <StationCoverageChart
+                  ref={chartSvgRef}
+                  items={coverageYears}
+                  title={chartTitle}
+                />
+              ) : selectedPreset === 'reextract' ? (
+                <StationReextractDiffChart
+                  ref={chartSvgRef}
+                  data={reextractData}
+                  title={chartTitle}
+                />
+              ) : openEvent ? (
+                <StationHydrographChart
+                  ref={chartSvgRef}
+                  event={openEvent}
+                  data={seriesData}
+                  window={seriesWindow}
+                  title={chartTitle}
+                />
               ) : (
                 <StationEventTimelineChart
                   ref={chartSvgRef}
                   points={chartPoints}
+                  onSelectPoint={(point) => {
+                    if (activeTabKey) setSelectedEvent({ tabKey: activeTabKey, point });
+                  }}
                   title={chartTitle}
                 />
               )}
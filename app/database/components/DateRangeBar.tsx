@@ -5,6 +5,8 @@ type DateRangeBarProps = {
   rangeEndDate: string | null;
   setStartDate: (value: string) => void;
   setEndDate: (value: string) => void;
+  /** Keeps input ids unique when more than one bar is on the page */
+  idPrefix?: string;
 };
 
 export default function DateRangeBar({
@@ -14,6 +16,7 @@ export default function DateRangeBar({
   rangeEndDate,
   setStartDate,
   setEndDate,
+  idPrefix = 'peak',
 }: DateRangeBarProps) {
   if (!minPeakDate || !maxPeakDate) {
     return null;
@@ -28,11 +31,11 @@ export default function DateRangeBar({
       <span>Select range within</span>
       <div className="flex flex-wrap items-center">
         <label
-          htmlFor="peak-start-date"
+          htmlFor={`${idPrefix}-start-date`}
           className="mx-[0.22rem] flex items-center"
         >
           <input
-            id="peak-start-date"
+            id={`${idPrefix}-start-date`}
             className={
               'w-[5.5rem] max-w-full appearance-none rounded-lg border-0 bg-transparent px-[0.25rem] py-[0.25rem] text-[0.82rem] font-semibold text-white outline-none focus:ring-0 focus:outline-none [&::-webkit-calendar-picker-indicator]:hidden'
             }
@@ -48,11 +51,11 @@ export default function DateRangeBar({
         </label>
         <span className="text-white/80">-</span>
         <label
-          htmlFor="peak-end-date"
+          htmlFor={`${idPrefix}-end-date`}
           className="mx-[0.22rem] flex items-center"
         >
           <input
-            id="peak-end-date"
+            id={`${idPrefix}-end-date`}
             className={
               'w-[5.5rem] max-w-full appearance-none rounded-lg border-0 bg-transparent px-[0.25rem] py-[0.25rem] text-[0.82rem] font-semibold text-white outline-none focus:ring-0 focus:outline-none [&::-webkit-calendar-picker-indicator]:hidden'
             }
@@ -0,0 +1,79 @@
+'use client';
+
+import { stationMetrics } from '@/hooks/useStationStats';
+
+import type { ChoroplethLegendItem, StationMetric } from '../types';
+
+type MapLayerControlProps = {
+  metric: StationMetric | null;
+  onMetricChange: (metric: StationMetric | null) => void;
+  legend: ChoroplethLegendItem[];
+  isLoading: boolean;
+  hasError: boolean;
+};
+
+// 作用：地图左下角的图层控件：选择分级着色指标，并显示对应图例。
+// 输入：当前指标、切换回调、由 useStationStats 生成的图例和加载/错误状态。
+// 输出：悬浮在地图上的控件节点。
+// 为什么这样写：控件只负责展示和回传选择，分级计算留在 hook 里，StationMarkers 和图例共用同一份分级结果。
+export default function MapLayerControl({
+  metric,
+  onMetricChange,
+  legend,
+  isLoading,
+  hasError,
+}: MapLayerControlProps) {
+  return (
+    <div className="absolute bottom-8 left-3 z-1000 w-[180px] rounded-[10px] border border-gray-200 bg-white/95 p-2 text-[0.74rem] text-slate-700 shadow-[0_4px_12px_rgba(15,23,42,0.08)]">
+      <label className="flex flex-col gap-1">
+        <span className="font-semibold tracking-[0.06em] text-slate-600 uppercase">Layer</span>
+        <select
+          className="rounded-md border border-gray-200 bg-white px-1.5 py-1 text-[0.78rem] text-slate-900 focus-visible:outline-2 focus-visible:outline-[#7fb1d1]"
+          value={metric ?? ''}
+          onChange={(event) =>
+            onMetricChange(event.target.value ? (event.target.value as StationMetric) : null)
+          }
+        >
+          <option value="">Stations</option>
+          {stationMetrics.map((item) => (
+            <option
+              key={item.id}
+              value={item.id}
+            >
+              {item.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {metric && (
+        <div className="mt-2">
+          {isLoading ? (
+            <span className="text-slate-500">Loading…</span>
+          ) : hasError ? (
+            <span className="text-[#dc2626]">Failed to load stats.</span>
+          ) : (
+            <ul className="m-0 flex list-none flex-col gap-[0.2rem] p-0">
+              {legend.map((item) => (
+                <li
+                  key={item.label}
+                  className="flex items-center gap-2"
+                >
+                  <span
+                    className="inline-block h-3 w-3 flex-none rounded-full border border-black/15"
+                    style={{ backgroundColor: item.color }}
+                  />
+                  {item.label}
+                </li>
+              ))}
+              <li className="flex items-center gap-2 text-slate-500">
+                <span className="inline-block h-2 w-2 flex-none rounded-full bg-[#cbd5e1]" />
+                no events
+              </li>
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -32,6 +32,23 @@ export function StationBadgeIcon() {
   );
 }
 
+export function CompareBadgeIcon() {
+  return (
+    <svg
+      aria-hidden="true"
+      className="h-4 w-4 shrink-0 text-[#4288C9]"
+      viewBox="0 0 24 24"
+      fill="none"
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <path
+        d="M9 3h2v18H9v-2H4a1 1 0 0 1-1-1V6a1 1 0 0 1 1-1h5V3Zm0 4H5v10h4V7Zm4-2h7a1 1 0 0 1 1 1v12a1 1 0 0 1-1 1h-7v-2h6V7h-6V5Z"
+        fill="currentColor"
+      />
+    </svg>
+  );
+}
+
 export function ChartsIcon() {
   return (
     <svg
@@ -2,16 +2,19 @@ import { cn } from '@/lib/utils';
 import type { Station } from '@/types';
 
 import type { ActiveTab, BasinTabData } from '../types';
-import { BasinBadgeIcon, StationBadgeIcon } from './PanelIcons';
+import { BasinBadgeIcon, CompareBadgeIcon, StationBadgeIcon } from './PanelIcons';
 
 type PanelTabBarProps = {
   activeTab: ActiveTab;
   basinTab: BasinTabData | null;
   stationTab: Station | null;
+  compareCount: number;
   onActivateBasinTab: () => void;
   onActivateStationTab: () => void;
   onCloseBasinTab: () => void;
   onCloseStationTab: () => void;
+  onActivateCompareTab: () => void;
+  onCloseCompareTab: () => void;
   getDisplayName: (station: Station) => string;
 };
 
@@ -19,10 +22,13 @@ export default function PanelTabBar({
   activeTab,
   basinTab,
   stationTab,
+  compareCount,
   onActivateBasinTab,
   onActivateStationTab,
   onCloseBasinTab,
   onCloseStationTab,
+  onActivateCompareTab,
+  onCloseCompareTab,
   getDisplayName,
 }: PanelTabBarProps) {
   return (
@@ -113,6 +119,45 @@ export default function PanelTabBar({
               </div>
             </div>
           )}
+          {compareCount > 0 && (
+            <div
+              className={cn(
+                'relative z-10 inline-flex max-w-[min(270px,58vw)] min-w-0 flex-none translate-y-[1px] snap-start items-center rounded-t-xl max-[900px]:max-w-[min(230px,64vw)]',
+                activeTab === 'compare' && 'z-30 translate-y-0 bg-white',
+              )}
+            >
+              <button
+                type="button"
+                id="tab-compare"
+                className={cn(
+                  'flex max-w-full min-w-0 flex-1 items-center gap-2 overflow-hidden border-0 bg-transparent py-[0.42rem] pr-[0.4rem] pl-[0.66rem] text-left text-[0.84rem] leading-[1.2] text-ellipsis whitespace-nowrap text-slate-900',
+                  'max-[900px]:pl-[0.56rem] max-[900px]:text-[0.82rem]',
+                  activeTab !== 'compare' && 'cursor-pointer',
+                  'focus-visible:outline-2 focus-visible:outline-offset-1 focus-visible:outline-[#7fb1d1]',
+                )}
+                role="tab"
+                aria-selected={activeTab === 'compare'}
+                aria-controls="tabpanel-compare"
+                tabIndex={activeTab === 'compare' ? 0 : -1}
+                onClick={onActivateCompareTab}
+              >
+                <CompareBadgeIcon />
+                <span className="truncate">Compare ({compareCount})</span>
+              </button>
+              <div className={'flex flex-none items-center pr-[0.22rem]'}>
+                <button
+                  type="button"
+                  className={
+                    'h-6 w-6 cursor-pointer rounded-lg border-0 bg-transparent p-0 text-[0.96rem] leading-none font-bold text-slate-700 transition-transform active:scale-90 focus-visible:outline-2 focus-visible:outline-offset-1 focus-visible:outline-[#7fb1d1]'
+                  }
+                  aria-label="Close compare tab"
+                  onClick={onCloseCompareTab}
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
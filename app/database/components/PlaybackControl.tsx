@@ -0,0 +1,160 @@
+'use client';
+
+import type { PlaybackPeriod } from '@/hooks/useEventPlayback';
+import { cn } from '@/lib/utils';
+
+import DateRangeBar from './DateRangeBar';
+
+type PlaybackControlProps = {
+  isOpen: boolean;
+  onToggleOpen: () => void;
+  period: PlaybackPeriod;
+  setPeriod: (period: PlaybackPeriod) => void;
+  minDate: string | null;
+  maxDate: string | null;
+  rangeStart: string | null;
+  rangeEnd: string | null;
+  setStartDate: (value: string) => void;
+  setEndDate: (value: string) => void;
+  frames: string[];
+  frameIndex: number;
+  setFrameIndex: (index: number) => void;
+  currentPeriod: string | null;
+  stationCount: number;
+  isPlaying: boolean;
+  togglePlay: () => void;
+  isLoading: boolean;
+  hasError: boolean;
+  isTruncated: boolean;
+};
+
+const buttonClassName =
+  'flex h-7 min-w-7 cursor-pointer items-center justify-center rounded-full border-0 bg-[oklch(0.9851_0_0)] px-2 text-[0.78rem] text-slate-900 shadow-sm transition-colors hover:bg-[oklch(0.9214_0.0248_257.65)] disabled:cursor-default disabled:opacity-50';
+
+// 作用：地图底部的时间轴回放控件：选择粒度（月/年）与回放窗口，播放、暂停、逐帧前后移动。
+// 输入：useEventPlayback 返回的状态与回调；isOpen 控制是否展开（收起时只显示一个按钮）。
+// 输出：悬浮在地图上的控件节点。
+// 为什么这样写：回放窗口直接复用 DateRangeBar，和侧栏选择日期范围的交互保持一致。
+export default function PlaybackControl({
+  isOpen,
+  onToggleOpen,
+  period,
+  setPeriod,
+  minDate,
+  maxDate,
+  rangeStart,
+  rangeEnd,
+  setStartDate,
+  setEndDate,
+  frames,
+  frameIndex,
+  setFrameIndex,
+  currentPeriod,
+  stationCount,
+  isPlaying,
+  togglePlay,
+  isLoading,
+  hasError,
+  isTruncated,
+}: PlaybackControlProps) {
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        className={cn(
+          buttonClassName,
+          'absolute bottom-8 left-1/2 z-1000 -translate-x-1/2 px-4 py-1 shadow-[0_4px_12px_rgba(15,23,42,0.12)]',
+        )}
+        onClick={onToggleOpen}
+      >
+        ▶ Playback
+      </button>
+    );
+  }
+
+  const hasFrames = frames.length > 0;
+
+  return (
+    <div className="absolute bottom-8 left-1/2 z-1000 w-[min(460px,calc(100vw-2rem))] -translate-x-1/2 rounded-[10px] border border-gray-200 bg-white/95 p-2 text-[0.78rem] text-slate-700 shadow-[0_4px_12px_rgba(15,23,42,0.12)]">
+      <DateRangeBar
+        idPrefix="playback"
+        minPeakDate={minDate}
+        maxPeakDate={maxDate}
+        rangeStartDate={rangeStart}
+        rangeEndDate={rangeEnd}
+        setStartDate={setStartDate}
+        setEndDate={setEndDate}
+      />
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className={buttonClassName}
+          aria-label="Previous step"
+          disabled={!hasFrames || frameIndex === 0}
+          onClick={() => setFrameIndex(frameIndex - 1)}
+        >
+          ‹
+        </button>
+        <button
+          type="button"
+          className={buttonClassName}
+          aria-label={isPlaying ? 'Pause playback' : 'Start playback'}
+          disabled={!hasFrames || isLoading}
+          onClick={togglePlay}
+        >
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        <button
+          type="button"
+          className={buttonClassName}
+          aria-label="Next step"
+          disabled={!hasFrames || frameIndex >= frames.length - 1}
+          onClick={() => setFrameIndex(frameIndex + 1)}
+        >
+          ›
+        </button>
+
+        <input
+          type="range"
+          className="min-w-0 flex-1 accent-[#4288c9]"
+          min={0}
+          max={Math.max(0, frames.length - 1)}
+          value={frameIndex}
+          disabled={!hasFrames}
+          aria-label="Playback position"
+          onChange={(event) => setFrameIndex(Number(event.target.value))}
+        />
+
+        <select
+          className="rounded-md border border-gray-200 bg-white px-1 py-[0.15rem] text-[0.78rem]"
+          value={period}
+          aria-label="Playback step"
+          onChange={(event) => setPeriod(event.target.value as PlaybackPeriod)}
+        >
+          <option value="month">Month</option>
+          <option value="year">Year</option>
+        </select>
+        <button
+          type="button"
+          className={buttonClassName}
+          aria-label="Close playback"
+          onClick={onToggleOpen}
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="mt-1 flex justify-between text-[0.74rem] text-slate-600">
+        <span className="font-semibold text-slate-900">{currentPeriod ?? '-'}</span>
+        <span>
+          {hasError
+            ? 'Failed to load timeline.'
+            : isLoading
+              ? 'Loading…'
+              : `${stationCount} stations peaked${isTruncated ? ' (window truncated)' : ''}`}
+        </span>
+      </div>
+    </div>
+  );
+}
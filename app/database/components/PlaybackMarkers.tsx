@@ -0,0 +1,69 @@
+'use client';
+
+import { memo, useMemo } from 'react';
+import { CircleMarker, Pane, Tooltip } from 'react-leaflet';
+
+import type { EventTimelinePoint, Station } from '@/types';
+
+type PlaybackMarkersProps = {
+  stations: Station[];
+  frameKey: string | null;
+  events: EventTimelinePoint[];
+  markerRadius: number;
+  getDisplayName: (station: Station) => string;
+};
+
+// 作用：时间轴回放的闪烁层，在当前帧出现峰值的测站上叠加一个会淡出的圆点。
+// 输入：全部测站（用于查坐标）、当前帧标识与该帧事件列表、基础 marker 半径。
+// 输出：独立 Pane 中的一组 CircleMarker。
+// 为什么这样写：key 中带上帧标识，每一帧都会重新创建 marker，CSS 动画因此每帧重新播放；不改动 StationMarkers 的选中/预览样式。
+function PlaybackMarkers({
+  stations,
+  frameKey,
+  events,
+  markerRadius,
+  getDisplayName,
+}: PlaybackMarkersProps) {
+  const stationById = useMemo(
+    () => new Map(stations.map((station) => [station.station_id, station])),
+    [stations],
+  );
+
+  return (
+    <>
+      <Pane
+        name="playback-flash"
+        style={{ zIndex: 625 }}
+      />
+      {events.map((event) => {
+        const station = stationById.get(event.station_id);
+        if (!station || station.latitude === null || station.longitude === null) {
+          return null;
+        }
+        return (
+          <CircleMarker
+            key={`${frameKey}-${event.station_id}`}
+            center={[station.latitude, station.longitude]}
+            radius={markerRadius * 1.6}
+            pane="playback-flash"
+            pathOptions={{
+              fillColor: '#F97316',
+              color: '#C2410C',
+              weight: 1,
+              fillOpacity: 0.85,
+              className: 'playback-flash',
+            }}
+          >
+            <Tooltip direction="top">
+              {`${getDisplayName(station)} · ${event.peak_time.slice(0, 16)} · ${
+                event.peak_value?.toFixed(2) ?? '-'
+              }`}
+            </Tooltip>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+}
+
+export default memo(PlaybackMarkers);
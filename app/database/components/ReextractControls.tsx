@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+
+import type { ExtractionDetrend, ExtractionParams, ReextractResponse } from '@/types';
+
+type ReextractControlsProps = {
+  params: ExtractionParams;
+  onRun: (params: ExtractionParams) => void;
+  data: ReextractResponse | null;
+  error: string | null;
+};
+
+const detrendOptions: { id: ExtractionDetrend; label: string }[] = [
+  { id: 'yearly-mean', label: 'Yearly mean' },
+  { id: 'local', label: 'Local (30 d)' },
+  { id: 'full', label: 'Full span' },
+  { id: 'skip', label: 'None' },
+];
+
+const inputClassName =
+  'w-[3.6rem] rounded-md border border-gray-200 bg-white px-1 py-[0.1rem] text-[0.74rem] text-slate-900';
+
+function formatThreshold(value: number | null): string {
+  return value === null ? '-' : value.toFixed(2);
+}
+
+// 作用：重新提取事件的参数表单：峰值/起止百分位、平顶上限、最小涨幅和去趋势方式。
+// 输入：当前已生效的参数、点击 Run 时的回调，以及最近一次结果/错误（用于状态行）。
+// 输出：表单 + 一行阈值与读数统计。
+// 为什么这样写：输入先存在本地草稿里，只有点 Run 才更新请求参数，避免每敲一个数字就触发一次服务端提取。
+export default function ReextractControls({ params, onRun, data, error }: ReextractControlsProps) {
+  const [draft, setDraft] = useState({
+    peakPercentile: `${params.peakPercentile}`,
+    boundaryPercentile: `${params.boundaryPercentile}`,
+    maxPlateau: params.maxPlateau === null ? '' : `${params.maxPlateau}`,
+    minRise: `${params.minRise}`,
+    detrend: params.detrend,
+  });
+
+  const peakPercentile = Number(draft.peakPercentile);
+  const boundaryPercentile = Number(draft.boundaryPercentile);
+  const maxPlateau = draft.maxPlateau.trim() === '' ? null : Number(draft.maxPlateau);
+  const minRise = Number(draft.minRise);
+  const isValid =
+    boundaryPercentile > 0 &&
+    peakPercentile < 100 &&
+    boundaryPercentile < peakPercentile &&
+    minRise >= 0 &&
+    (maxPlateau === null || (Number.isInteger(maxPlateau) && maxPlateau > 0));
+
+  const field = (key: keyof typeof draft, label: string, placeholder?: string) => (
+    <label className="flex items-center gap-1">
+      {label}
+      <input
+        type="number"
+        className={inputClassName}
+        value={draft[key]}
+        placeholder={placeholder}
+        onChange={(event) => setDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-1 flex flex-col gap-1 text-[0.74rem] text-slate-600">
+      <div className="flex flex-wrap items-center justify-end gap-x-3 gap-y-1">
+        {field('peakPercentile', 'Peak P')}
+        {field('boundaryPercentile', 'Bounds P')}
+        {field('maxPlateau', 'Max plateau', 'any')}
+        {field('minRise', 'Min rise')}
+        <label className="flex items-center gap-1">
+          Detrend
+          <select
+            className="rounded-md border border-gray-200 bg-white px-1 py-[0.1rem] text-[0.74rem] text-slate-900"
+            value={draft.detrend}
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, detrend: event.target.value as ExtractionDetrend }))
+            }
+          >
+            {detrendOptions.map((option) => (
+              <option
+                key={option.id}
+                value={option.id}
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          disabled={!isValid}
+          className="cursor-pointer rounded-md bg-[#4288c9] px-2 py-[0.1rem] text-white disabled:cursor-not-allowed disabled:opacity-40"
+          onClick={() =>
+            onRun({
+              peakPercentile,
+              boundaryPercentile,
+              maxPlateau,
+              minRise,
+              detrend: draft.detrend,
+            })
+          }
+        >
+          Run
+        </button>
+      </div>
+      {error ? (
+        <p className="text-right text-red-600">{error}</p>
+      ) : data ? (
+        <p className="text-right">
+          {`${data.readings.toLocaleString()} readings · peak threshold ${formatThreshold(data.stats.peakThreshold)} · bounds ${formatThreshold(data.stats.boundaryThreshold)} · ${data.candidates.length} candidates (±${data.toleranceHours} h matching)`}
+        </p>
+      ) : null}
+    </div>
+  );
+}
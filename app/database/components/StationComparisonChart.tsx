@@ -0,0 +1,350 @@
+'use client';
+
+import { forwardRef, useMemo } from 'react';
+
+import type { ComparisonSeries, ComparisonView } from '../types';
+
+type StationComparisonChartProps = {
+  series: ComparisonSeries[];
+  view: ComparisonView;
+  getDisplayName: (series: ComparisonSeries) => string;
+  title?: string;
+  width?: number;
+  height?: number;
+};
+
+type Tick = { position: number; label: string };
+
+const chartMargin = { top: 8, right: 24, bottom: 42, left: 52 };
+const exceedanceTicks = [0.01, 0.1, 0.25, 0.5, 0.75, 1];
+
+function safeMin(arr: number[]): number {
+  let min = Infinity;
+  for (const v of arr) if (v < min) min = v;
+  return min;
+}
+
+function safeMax(arr: number[]): number {
+  let max = -Infinity;
+  for (const v of arr) if (v > max) max = v;
+  return max;
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(2) : '-';
+}
+
+function formatDateTick(ts: number): string {
+  const date = new Date(ts);
+  const y = date.getFullYear();
+  const m = `${date.getMonth() + 1}`.padStart(2, '0');
+  return `${y}-${m}`;
+}
+
+const axisLabels: Record<ComparisonView, { x: string; y: string }> = {
+  timeline: { x: 'peak_time', y: 'peak_value' },
+  seasonal: { x: 'month(peak_time)', y: 'count' },
+  exceedance: { x: 'exceedance probability', y: 'peak_value' },
+};
+
+// 作用：对比模式下的叠加图，把 2–6 个测站的事件时间线、月频次或峰值超越曲线画在同一套坐标轴上。
+// 输入：series 为各测站已算好的序列（颜色由 useStationComparison 按固定顺序分配）；view 选择图型。
+// 输出：SVG 节点，可通过 ref 导出为 PNG。
+// 为什么这样写：超越曲线的横轴用经验超越概率 rank/(n+1) 而不是名次，事件数不同的测站才能放在同一横轴上比较。
+const StationComparisonChart = forwardRef<SVGSVGElement, StationComparisonChartProps>(
+  function StationComparisonChart(
+    { series, view, getDisplayName, title = 'Station comparison', width = 640, height = 260 },
+    ref,
+  ) {
+    const plotWidth = width - chartMargin.left - chartMargin.right;
+    const plotHeight = height - chartMargin.top - chartMargin.bottom;
+    const plotBottom = chartMargin.top + plotHeight;
+
+    const chartData = useMemo(() => {
+      const yTicksFor = (minValue: number, maxValue: number, format: (v: number) => string) => {
+        const span = Math.max(0.0001, maxValue - minValue);
+        return Array.from({ length: 5 }).map((_, idx) => {
+          const ratio = idx / 4;
+          return {
+            position: chartMargin.top + ratio * plotHeight,
+            label: format(maxValue - ratio * span),
+          };
+        });
+      };
+      const toY = (value: number, minValue: number, maxValue: number) =>
+        chartMargin.top +
+        (1 - (value - minValue) / Math.max(0.0001, maxValue - minValue)) * plotHeight;
+
+      if (view === 'seasonal') {
+        const maxCount = Math.max(
+          1,
+          safeMax(series.flatMap((item) => item.monthlyFrequency.map((point) => point.count))),
+        );
+        const groupGap = 6;
+        const groupWidth = (plotWidth - groupGap * 11) / 12;
+        const barWidth = groupWidth / Math.max(1, series.length);
+        const bars = series.flatMap((item, seriesIndex) =>
+          item.monthlyFrequency.map((point) => {
+            const barHeight = (point.count / maxCount) * plotHeight;
+            return {
+              key: `${item.station.station_id}-${point.month}`,
+              x:
+                chartMargin.left +
+                (point.month - 1) * (groupWidth + groupGap) +
+                seriesIndex * barWidth,
+              y: plotBottom - barHeight,
+              width: barWidth,
+              height: barHeight,
+              color: item.color,
+              title: `${getDisplayName(item)} | ${point.month} month: ${point.count}`,
+            };
+          }),
+        );
+        const xTicks: Tick[] = Array.from({ length: 12 }, (_, idx) => ({
+          position: chartMargin.left + idx * (groupWidth + groupGap) + groupWidth / 2,
+          label: `${idx + 1}`,
+        }));
+        const yTicks = yTicksFor(0, maxCount, (v) => `${Math.round(v)}`);
+        return { bars, lines: [], dots: [], xTicks, yTicks };
+      }
+
+      if (view === 'exceedance') {
+        const values = series.flatMap((item) => item.exceedance.map((point) => point.peak_value));
+        if (values.length === 0) return null;
+        const minValue = safeMin(values);
+        const maxValue = safeMax(values);
+        const toX = (probability: number) => chartMargin.left + probability * plotWidth;
+        const lines = series.map((item) => ({
+          key: item.station.station_id,
+          color: item.color,
+          path: item.exceedance
+            .map(
+              (point, idx) =>
+                `${idx === 0 ? 'M' : 'L'}${toX(point.probability)},${toY(point.peak_value, minValue, maxValue)}`,
+            )
+            .join(' '),
+        }));
+        const xTicks: Tick[] = exceedanceTicks.map((probability) => ({
+          position: toX(probability),
+          label: `${Math.round(probability * 100)}%`,
+        }));
+        const yTicks = yTicksFor(minValue, maxValue, formatValue);
+        return { bars: [], lines, dots: [], xTicks, yTicks };
+      }
+
+      const timed = series.flatMap((item) =>
+        item.points
+          .map((point) => ({ item, point, ts: Date.parse(point.peak_time) }))
+          .filter(({ ts, point }) => Number.isFinite(ts) && Number.isFinite(point.peak_value)),
+      );
+      if (timed.length === 0) return null;
+      const timestamps = timed.map(({ ts }) => ts);
+      const values = timed.map(({ point }) => point.peak_value);
+      const minTs = safeMin(timestamps);
+      const xSpan = Math.max(1, safeMax(timestamps) - minTs);
+      const minValue = safeMin(values);
+      const maxValue = safeMax(values);
+      const dots = timed.map(({ item, point, ts }, idx) => ({
+        key: `${item.station.station_id}-${point.id}-${idx}`,
+        x: chartMargin.left + ((ts - minTs) / xSpan) * plotWidth,
+        y: toY(point.peak_value, minValue, maxValue),
+        color: item.color,
+        title: `${getDisplayName(item)} | ${point.peak_time} | ${formatValue(point.peak_value)}`,
+      }));
+      const xTicks: Tick[] = Array.from({ length: 5 }).map((_, idx) => ({
+        position: chartMargin.left + (idx / 4) * plotWidth,
+        label: formatDateTick(minTs + (idx / 4) * xSpan),
+      }));
+      const yTicks = yTicksFor(minValue, maxValue, formatValue);
+      return { bars: [], lines: [], dots, xTicks, yTicks };
+    }, [getDisplayName, plotBottom, plotHeight, plotWidth, series, view]);
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        height="100%"
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        <rect
+          x="0"
+          y="0"
+          width={width}
+          height={height}
+          fill="#ffffff"
+        />
+        <rect
+          x={chartMargin.left}
+          y={chartMargin.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="#f8fafc"
+          stroke="#dbe3ea"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={plotBottom}
+          x2={width - chartMargin.right}
+          y2={plotBottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={chartMargin.top}
+          x2={chartMargin.left}
+          y2={plotBottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+
+        {!chartData ? (
+          <text
+            x={width / 2}
+            y={height / 2}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#64748b"
+          >
+            No matched events in selected range.
+          </text>
+        ) : (
+          <>
+            {chartData.yTicks.map((tick, idx) => (
+              <g key={`${tick.position}-${tick.label}`}>
+                <line
+                  x1={chartMargin.left}
+                  y1={tick.position}
+                  x2={width - chartMargin.right}
+                  y2={tick.position}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={chartMargin.left - 8}
+                  y={idx === chartData.yTicks.length - 1 ? tick.position - 3 : tick.position + 3}
+                  textAnchor="end"
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.xTicks.map((tick, idx) => (
+              <text
+                key={`${tick.position}-${tick.label}`}
+                x={tick.position}
+                y={plotBottom + 15}
+                textAnchor={
+                  view === 'seasonal'
+                    ? 'middle'
+                    : idx === 0
+                      ? 'start'
+                      : idx === chartData.xTicks.length - 1
+                        ? 'end'
+                        : 'middle'
+                }
+                fontSize="10"
+                fill="#475569"
+              >
+                {tick.label}
+              </text>
+            ))}
+
+            {chartData.bars.map((bar) => (
+              <rect
+                key={bar.key}
+                x={bar.x}
+                y={bar.y}
+                width={bar.width}
+                height={bar.height}
+                fill={bar.color}
+                opacity="0.9"
+              >
+                <title>{bar.title}</title>
+              </rect>
+            ))}
+
+            {chartData.lines.map((line) => (
+              <path
+                key={line.key}
+                d={line.path}
+                fill="none"
+                stroke={line.color}
+                strokeWidth="1.8"
+                strokeLinejoin="round"
+                strokeLinecap="round"
+              />
+            ))}
+
+            {chartData.dots.map((dot) => (
+              <circle
+                key={dot.key}
+                cx={dot.x}
+                cy={dot.y}
+                r="2.4"
+                fill={dot.color}
+                fillOpacity="0.75"
+              >
+                <title>{dot.title}</title>
+              </circle>
+            ))}
+          </>
+        )}
+
+        <g transform={`translate(${width - chartMargin.right - 8} ${chartMargin.top + 12})`}>
+          {series.map((item, idx) => (
+            <g
+              key={item.station.station_id}
+              transform={`translate(0 ${idx * 13})`}
+            >
+              <rect
+                x={-8}
+                y={-7}
+                width={8}
+                height={8}
+                rx="1.5"
+                fill={item.color}
+              />
+              <text
+                x={-12}
+                y={0}
+                textAnchor="end"
+                fontSize="9"
+                fill="#334155"
+              >
+                {getDisplayName(item)}
+              </text>
+            </g>
+          ))}
+        </g>
+
+        <text
+          x={width / 2}
+          y={height - 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+        >
+          {axisLabels[view].x}
+        </text>
+        <text
+          x={13}
+          y={height / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+          transform={`rotate(-90 13 ${height / 2})`}
+        >
+          {axisLabels[view].y}
+        </text>
+      </svg>
+    );
+  },
+);
+
+export default StationComparisonChart;
@@ -0,0 +1,206 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+
+import { MIN_COMPARE_STATIONS } from '@/hooks/usePinnedStations';
+import { useStationComparison } from '@/hooks/useStationComparison';
+import { cn } from '@/lib/utils';
+import type { Station } from '@/types';
+
+import type { ComparisonSeries, ComparisonView } from '../types';
+import DateRangeBar from './DateRangeBar';
+import SearchLoadingIcon from './SearchLoadingIcon';
+import StationComparisonChart from './StationComparisonChart';
+
+type StationComparisonViewProps = {
+  stations: Station[];
+  onUnpinStation: (stationId: string) => void;
+  onOpenStationTab: (stationId: string) => void;
+  getDisplayName: (station: Station) => string;
+};
+
+const comparisonViews: { id: ComparisonView; label: string }[] = [
+  { id: 'timeline', label: 'Timeline' },
+  { id: 'seasonal', label: 'Season' },
+  { id: 'exceedance', label: 'Peaks' },
+];
+
+function formatNumber(value: number | null | undefined): string {
+  if (value === null || value === undefined || Number.isNaN(value)) {
+    return '-';
+  }
+  return value.toFixed(2);
+}
+
+function eventsPerYear(item: ComparisonSeries): number | null {
+  const first = item.summary?.minPeakTime;
+  const last = item.summary?.maxPeakTime;
+  if (!item.summary || !first || !last) {
+    return null;
+  }
+  const years = Number.parseInt(last.slice(0, 4), 10) - Number.parseInt(first.slice(0, 4), 10) + 1;
+  return Number.isFinite(years) && years > 0 ? item.summary.totalEvents / years : null;
+}
+
+// 作用：对比 tab 的内容：共享日期窗口、逐站指标表和叠加图（时间线 / 月频次 / 峰值超越曲线）。
+// 输入：已固定的测站列表（顺序决定配色）；取消固定与打开测站 tab 的回调由地图页提供。
+// 输出：面板内容节点；少于两个测站时只显示列表和提示。
+// 为什么这样写：指标表直接用各测站 events 接口返回的 StationEventSummary，和单站 tab 的卡片口径一致。
+export default function StationComparisonView({
+  stations,
+  onUnpinStation,
+  onOpenStationTab,
+  getDisplayName,
+}: StationComparisonViewProps) {
+  const [view, setView] = useState<ComparisonView>('timeline');
+  const canCompare = stations.length >= MIN_COMPARE_STATIONS;
+
+  const {
+    series,
+    minPeakDate,
+    maxPeakDate,
+    rangeStartDate,
+    rangeEndDate,
+    setStartDate,
+    setEndDate,
+    comparisonError,
+    isLoadingComparison,
+  } = useStationComparison({ stations, enabled: canCompare });
+
+  const seriesDisplayName = useCallback(
+    (item: ComparisonSeries) => getDisplayName(item.station),
+    [getDisplayName],
+  );
+
+  return (
+    <div className="min-[901px]:grid min-[901px]:grid-cols-[340px_minmax(0,1fr)] min-[901px]:items-stretch min-[901px]:gap-3">
+      <section className="min-w-0">
+        <p>
+          {stations.length} pinned stations
+          {canCompare ? '' : ` • pin at least ${MIN_COMPARE_STATIONS} to compare`}
+        </p>
+        {comparisonError && <p>Failed to load comparison data.</p>}
+        {canCompare && (
+          <DateRangeBar
+            idPrefix="compare"
+            minPeakDate={minPeakDate}
+            maxPeakDate={maxPeakDate}
+            rangeStartDate={rangeStartDate}
+            rangeEndDate={rangeEndDate}
+            setStartDate={setStartDate}
+            setEndDate={setEndDate}
+          />
+        )}
+        <section className="mt-[0.25rem] max-h-[320px] overflow-auto rounded-[10px] border border-black/8">
+          <table className="w-full border-collapse text-[0.74rem]">
+            <thead className="sticky top-0 bg-[oklch(0.97_0_0)]">
+              <tr>
+                {['Station', 'Events', 'Max', 'Avg', 'Rise', 'Fall', '/yr', ''].map(
+                  (label, idx) => (
+                    <th
+                      key={label || 'actions'}
+                      className={cn(
+                        'px-2 py-[0.35rem] font-semibold whitespace-nowrap text-slate-700',
+                        idx === 0 ? 'text-left' : 'text-right',
+                      )}
+                    >
+                      {label}
+                    </th>
+                  ),
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {series.map((item) => (
+                <tr
+                  key={item.station.station_id}
+                  className="border-t border-black/5"
+                >
+                  <td className="max-w-[96px] px-2 py-[0.3rem] text-slate-900">
+                    <button
+                      type="button"
+                      className="font-inherit flex max-w-full cursor-pointer items-center gap-1 border-0 bg-transparent p-0 text-left hover:text-[#4288c9]"
+                      onClick={() => onOpenStationTab(item.station.station_id)}
+                    >
+                      <span
+                        className="h-2 w-2 flex-none rounded-[2px]"
+                        style={{ backgroundColor: item.color }}
+                        aria-hidden="true"
+                      />
+                      <span className="truncate">{getDisplayName(item.station)}</span>
+                    </button>
+                  </td>
+                  <td className="px-2 py-[0.3rem] text-right">
+                    {item.summary?.matchedEvents ?? '-'}
+                  </td>
+                  <td className="px-2 py-[0.3rem] text-right">
+                    {formatNumber(item.summary?.maxPeakValue)}
+                  </td>
+                  <td className="px-2 py-[0.3rem] text-right">
+                    {formatNumber(item.summary?.avgPeakValue)}
+                  </td>
+                  <td className="px-2 py-[0.3rem] text-right">
+                    {formatNumber(item.summary?.avgRiseTime)}
+                  </td>
+                  <td className="px-2 py-[0.3rem] text-right">
+                    {formatNumber(item.summary?.avgFallTime)}
+                  </td>
+                  <td className="px-2 py-[0.3rem] text-right">
+                    {formatNumber(eventsPerYear(item))}
+                  </td>
+                  <td className="py-[0.3rem] pr-1 text-right">
+                    <button
+                      type="button"
+                      className="h-5 w-5 cursor-pointer rounded border-0 bg-transparent p-0 leading-none font-bold text-slate-600 hover:text-[#dc2626]"
+                      aria-label={`Unpin ${getDisplayName(item.station)}`}
+                      onClick={() => onUnpinStation(item.station.station_id)}
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </section>
+
+      {canCompare && (
+        <section className="mt-[0.8rem] min-[901px]:mt-0 min-[901px]:flex min-[901px]:flex-col min-[901px]:justify-center">
+          <div className="mb-1 flex justify-center gap-2">
+            {comparisonViews.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                className={cn(
+                  'flex items-center justify-center rounded-full border-0 px-4 py-1 text-center text-[0.8rem] whitespace-nowrap shadow-sm transition-all duration-150 active:scale-95',
+                  view === item.id
+                    ? 'pointer-events-none cursor-default bg-[#4288c9] text-white shadow-[#4288c9]/20'
+                    : 'cursor-pointer bg-[oklch(0.9851_0_0)] text-slate-900 hover:bg-[oklch(0.9214_0.0248_257.65)] hover:shadow-md',
+                )}
+                onClick={() => setView(item.id)}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          <div className="relative rounded-[10px] bg-white p-[0.55rem] min-[901px]:h-full min-[901px]:min-h-0 min-[901px]:w-full">
+            {isLoadingComparison ? (
+              <div className="mx-auto flex h-[440px] w-full max-w-[760px] items-center justify-center max-[900px]:h-[320px] min-[901px]:h-full">
+                <SearchLoadingIcon className="h-10 w-10 text-slate-400" />
+              </div>
+            ) : (
+              <div className="mx-auto h-[440px] w-full max-w-[760px] max-[900px]:h-[320px] min-[901px]:h-full">
+                <StationComparisonChart
+                  series={series}
+                  view={view}
+                  getDisplayName={seriesDisplayName}
+                />
+              </div>
+            )}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
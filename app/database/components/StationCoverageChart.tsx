@@ -0,0 +1,228 @@
+'use client';
+
+import { forwardRef, useMemo } from 'react';
+
+import type { StationQualityYear } from '@/types';
+
+type StationCoverageChartProps = {
+  items: StationQualityYear[];
+  title?: string;
+  width?: number;
+  height?: number;
+};
+
+const chartMargin = { top: 18, right: 24, bottom: 42, left: 52 };
+
+/** Same bands as the prep wizard's coverage badge */
+function coverageColor(rate: number): string {
+  if (rate >= 0.9) return '#2f9e6b';
+  if (rate >= 0.7) return '#e0a030';
+  return '#d6336c';
+}
+
+/** A week without a valid reading is long enough to hide a flood */
+const LONG_GAP_HOURS = 168;
+
+function formatGap(hours: number): string {
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${Math.round(hours)} h`;
+}
+
+const StationCoverageChart = forwardRef<SVGSVGElement, StationCoverageChartProps>(
+  function StationCoverageChart(
+    { items, title = 'Data coverage', width = 640, height = 260 },
+    ref,
+  ) {
+    const plotWidth = width - chartMargin.left - chartMargin.right;
+    const plotHeight = height - chartMargin.top - chartMargin.bottom;
+
+    const chartData = useMemo(() => {
+      if (items.length === 0) {
+        return null;
+      }
+
+      const slot = plotWidth / items.length;
+      const barWidth = Math.max(2, Math.min(36, slot * 0.7));
+      const labelEvery = Math.ceil(items.length / 12);
+
+      const bars = items.map((item, index) => {
+        const rate = Math.min(1, Math.max(0, item.valid_rate));
+        const barHeight = rate * plotHeight;
+        const centerX = chartMargin.left + slot * (index + 0.5);
+        return {
+          year: item.year,
+          x: centerX - barWidth / 2,
+          y: chartMargin.top + plotHeight - barHeight,
+          width: barWidth,
+          height: barHeight,
+          centerX,
+          color: coverageColor(rate),
+          hasLongGap: item.longest_gap_hours >= LONG_GAP_HOURS,
+          showLabel: index % labelEvery === 0,
+          tooltip: [
+            `${item.year} | ${(rate * 100).toFixed(1)}% valid (${item.valid_rows}/${item.expected_rows} h)`,
+            `longest gap ${formatGap(item.longest_gap_hours)}${item.longest_gap_start ? ` from ${item.longest_gap_start}` : ''}`,
+            `missing ${item.missing_count} · closed ${item.closed_count} · tentative ${item.tentative_count}`,
+            `${item.eventCount} events`,
+          ].join('\n'),
+          eventCount: item.eventCount,
+        };
+      });
+
+      const yTicks = Array.from({ length: 5 }).map((_, idx) => {
+        const ratio = idx / 4;
+        return {
+          y: chartMargin.top + ratio * plotHeight,
+          label: `${Math.round((1 - ratio) * 100)}%`,
+        };
+      });
+
+      return { bars, yTicks };
+    }, [items, plotHeight, plotWidth]);
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        height="100%"
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        <rect
+          x="0"
+          y="0"
+          width={width}
+          height={height}
+          fill="#ffffff"
+        />
+        <rect
+          x={chartMargin.left}
+          y={chartMargin.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="#f8fafc"
+          stroke="#dbe3ea"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={height - chartMargin.bottom}
+          x2={width - chartMargin.right}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={chartMargin.top}
+          x2={chartMargin.left}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+
+        {!chartData ? (
+          <text
+            x={width / 2}
+            y={height / 2}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#64748b"
+          >
+            No coverage statistics uploaded for selected range.
+          </text>
+        ) : (
+          <>
+            {chartData.yTicks.map((tick, idx) => (
+              <g key={`${tick.y}-${tick.label}`}>
+                <line
+                  x1={chartMargin.left}
+                  y1={tick.y}
+                  x2={width - chartMargin.right}
+                  y2={tick.y}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={chartMargin.left - 8}
+                  y={idx === chartData.yTicks.length - 1 ? tick.y - 3 : tick.y + 3}
+                  textAnchor="end"
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.bars.map((bar) => (
+              <g key={bar.year}>
+                {bar.hasLongGap && (
+                  <rect
+                    x={bar.x - 2}
+                    y={chartMargin.top}
+                    width={bar.width + 4}
+                    height={plotHeight}
+                    fill="#d6336c"
+                    fillOpacity="0.08"
+                  />
+                )}
+                <rect
+                  x={bar.x}
+                  y={bar.y}
+                  width={bar.width}
+                  height={bar.height}
+                  fill={bar.color}
+                  rx={2}
+                >
+                  <title>{bar.tooltip}</title>
+                </rect>
+                <text
+                  x={bar.centerX}
+                  y={Math.max(chartMargin.top - 4, bar.y - 4)}
+                  textAnchor="middle"
+                  fontSize="9"
+                  fill="#334155"
+                >
+                  {bar.eventCount}
+                </text>
+                {bar.showLabel && (
+                  <text
+                    x={bar.centerX}
+                    y={height - chartMargin.bottom + 15}
+                    textAnchor="middle"
+                    fontSize="10"
+                    fill="#475569"
+                  >
+                    {bar.year}
+                  </text>
+                )}
+              </g>
+            ))}
+          </>
+        )}
+
+        <text
+          x={width / 2}
+          y={height - 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+        >
+          year (bar label = events; shaded = gap ≥ 7 days)
+        </text>
+        <text
+          x={13}
+          y={height / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+          transform={`rotate(-90 13 ${height / 2})`}
+        >
+          valid data
+        </text>
+      </svg>
+    );
+  },
+);
+
+export default StationCoverageChart;
@@ -0,0 +1,249 @@
+'use client';
+
+import { forwardRef, useMemo } from 'react';
+
+import type { BasinEpisodesResponse } from '@/types';
+
+type StationEpisodesChartProps = {
+  data: BasinEpisodesResponse | null;
+  /** Members from this station get an outline so they stand out in their episodes */
+  highlightStationId?: string | null;
+  title?: string;
+  width?: number;
+  height?: number;
+};
+
+const chartMargin = { top: 8, right: 24, bottom: 42, left: 76 };
+const MAX_ROWS = 20;
+const orderColors = ['#1d4f91', '#4288c9', '#6fb0d9', '#9fcfe3', '#c9e4ee'];
+
+function formatValue(value: number | null): string {
+  return value !== null && Number.isFinite(value) ? value.toFixed(2) : '-';
+}
+
+// 作用：多站洪水过程（episode）图：每行一个过程，横轴为相对首站峰现的滞后小时数，点的颜色表示峰现先后。
+// 输入：/api/basins/[basinName]/episodes 的返回；highlightStationId 用于测站 tab 下标出当前测站。
+// 输出：SVG 节点，可通过 ref 导出为 PNG。
+// 为什么这样写：过程可能有上百个，只画测站数最多（其次峰值最高）的前 MAX_ROWS 个，再按时间排列，
+//   保证最值得关注的多站过程一定在图上，同时行高不至于挤成一条线。
+const StationEpisodesChart = forwardRef<SVGSVGElement, StationEpisodesChartProps>(
+  function StationEpisodesChart(
+    {
+      data,
+      highlightStationId = null,
+      title = 'Multi-station episodes',
+      width = 640,
+      height = 260,
+    },
+    ref,
+  ) {
+    const plotWidth = width - chartMargin.left - chartMargin.right;
+    const plotHeight = height - chartMargin.top - chartMargin.bottom;
+
+    const chartData = useMemo(() => {
+      const episodes = data?.episodes ?? [];
+      if (!data || episodes.length === 0) {
+        return null;
+      }
+
+      const shown = [...episodes]
+        .sort(
+          (a, b) =>
+            b.stationCount - a.stationCount ||
+            (b.maxPeakValue ?? -Infinity) - (a.maxPeakValue ?? -Infinity),
+        )
+        .slice(0, MAX_ROWS)
+        .sort((a, b) => a.startPeakTime.localeCompare(b.startPeakTime));
+
+      const maxLag = Math.max(1, data.windowHours);
+      const rowHeight = plotHeight / shown.length;
+      const toX = (lagHours: number) => chartMargin.left + (lagHours / maxLag) * plotWidth;
+
+      const rows = shown.map((episode, rowIndex) => {
+        const y = chartMargin.top + rowHeight * (rowIndex + 0.5);
+        return {
+          key: episode.leadEventId,
+          y,
+          label: `${episode.startPeakTime.slice(0, 13)}h`,
+          lineEnd: toX(episode.durationHours),
+          points: episode.members.map((member) => ({
+            key: member.id,
+            x: toX(member.lagHours),
+            color: orderColors[Math.min(member.order - 1, orderColors.length - 1)],
+            isHighlighted: member.station_id === highlightStationId,
+            title: `${member.station_name ?? member.station_id} | #${member.order} | +${member.lagHours}h (step +${member.stepLagHours}h) | ${formatValue(member.peak_value)}`,
+          })),
+        };
+      });
+
+      const xTicks = Array.from({ length: 5 }).map((_, idx) => {
+        const lag = (maxLag * idx) / 4;
+        return { x: toX(lag), label: `${Math.round(lag * 10) / 10}` };
+      });
+
+      return {
+        rows,
+        xTicks,
+        showRowLabels: rowHeight >= 9,
+        hiddenCount: episodes.length - shown.length,
+      };
+    }, [data, highlightStationId, plotHeight, plotWidth]);
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        height="100%"
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        <rect
+          x="0"
+          y="0"
+          width={width}
+          height={height}
+          fill="#ffffff"
+        />
+        <rect
+          x={chartMargin.left}
+          y={chartMargin.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="#f8fafc"
+          stroke="#dbe3ea"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={height - chartMargin.bottom}
+          x2={width - chartMargin.right}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={chartMargin.top}
+          x2={chartMargin.left}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+
+        {!chartData ? (
+          <text
+            x={width / 2}
+            y={height / 2}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#64748b"
+          >
+            No multi-station episodes in selected range.
+          </text>
+        ) : (
+          <>
+            {chartData.xTicks.map((tick) => (
+              <g key={tick.label}>
+                <line
+                  x1={tick.x}
+                  y1={chartMargin.top}
+                  x2={tick.x}
+                  y2={height - chartMargin.bottom}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={tick.x}
+                  y={height - chartMargin.bottom + 15}
+                  textAnchor="middle"
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.rows.map((row) => (
+              <g key={row.key}>
+                {chartData.showRowLabels && (
+                  <text
+                    x={chartMargin.left - 6}
+                    y={row.y + 3}
+                    textAnchor="end"
+                    fontSize="8"
+                    fill="#475569"
+                  >
+                    {row.label}
+                  </text>
+                )}
+                <line
+                  x1={chartMargin.left}
+                  y1={row.y}
+                  x2={row.lineEnd}
+                  y2={row.y}
+                  stroke="#94a3b8"
+                  strokeWidth="1"
+                />
+                {row.points.map((point) => (
+                  <circle
+                    key={point.key}
+                    cx={point.x}
+                    cy={row.y}
+                    r="3"
+                    fill={point.color}
+                    stroke={point.isHighlighted ? '#dc2626' : '#ffffff'}
+                    strokeWidth={point.isHighlighted ? 1.6 : 0.8}
+                  >
+                    <title>{point.title}</title>
+                  </circle>
+                ))}
+              </g>
+            ))}
+
+            {(chartData.hiddenCount > 0 || data?.truncated) && (
+              <text
+                x={width - chartMargin.right - 6}
+                y={chartMargin.top + 12}
+                textAnchor="end"
+                fontSize="9"
+                fill="#b45309"
+              >
+                {[
+                  chartData.hiddenCount > 0
+                    ? `${chartData.hiddenCount} smaller episodes not shown`
+                    : null,
+                  data?.truncated ? 'scan truncated, narrow the date range' : null,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </text>
+            )}
+          </>
+        )}
+
+        <text
+          x={width / 2}
+          y={height - 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+        >
+          hours after leading peak
+        </text>
+        <text
+          x={13}
+          y={height / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+          transform={`rotate(-90 13 ${height / 2})`}
+        >
+          episode
+        </text>
+      </svg>
+    );
+  },
+);
+
+export default StationEpisodesChart;
@@ -6,6 +6,8 @@ import type { StationMatchedPoint } from '@/types';
 
 type StationEventTimelineChartProps = {
   points: StationMatchedPoint[];
+  /** Called with the clicked event; points are only clickable when this is set */
+  onSelectPoint?: (point: StationMatchedPoint) => void;
   title?: string;
   width?: number;
   height?: number;
@@ -17,6 +19,7 @@ type ChartPoint = {
   y: number;
   label: string;
   value: number;
+  source: StationMatchedPoint;
 };
 
 const chartMargin = { top: 8, right: 24, bottom: 42, left: 52 };
@@ -47,7 +50,7 @@ function formatDateTick(ts: number): string {
 
 const StationEventTimelineChart = forwardRef<SVGSVGElement, StationEventTimelineChartProps>(
   function StationEventTimelineChart(
-    { points, title = 'Event timeline', width = 640, height = 260 },
+    { points, onSelectPoint, title = 'Event timeline', width = 640, height = 260 },
     ref,
   ) {
     const plotWidth = width - chartMargin.left - chartMargin.right;
@@ -92,6 +95,7 @@ const StationEventTimelineChart = forwardRef<SVGSVGElement, StationEventTimeline
           y: chartMargin.top + (1 - normalizedY) * plotHeight,
           label: item.peak_time,
           value: item.peak_value,
+          source: item,
         };
       });
 
@@ -228,6 +232,16 @@ const StationEventTimelineChart = forwardRef<SVGSVGElement, StationEventTimeline
             r={3}
             fill="#4288c9"
             opacity="0.9"
+            className={onSelectPoint ? 'cursor-zoom-in' : undefined}
+            onClick={
+              onSelectPoint
+                ? (event) => {
+                    // The chart container downloads a PNG on click; opening an event must not.
+                    event.stopPropagation();
+                    onSelectPoint(point.source);
+                  }
+                : undefined
+            }
           >
             <title>{`${point.label} | ${point.value.toFixed(2)}`}</title>
           </circle>
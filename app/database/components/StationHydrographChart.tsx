@@ -0,0 +1,350 @@
+'use client';
+
+import { forwardRef, useMemo } from 'react';
+
+import type { StationMatchedPoint, StationSeriesResponse } from '@/types';
+
+type StationHydrographChartProps = {
+  event: StationMatchedPoint;
+  data: StationSeriesResponse | null;
+  window: { from: string; to: string } | null;
+  title?: string;
+  width?: number;
+  height?: number;
+};
+
+const chartMargin = { top: 8, right: 24, bottom: 42, left: 52 };
+
+const markerStyles = {
+  start: { label: 'Start', color: '#2f9e6b' },
+  peak: { label: 'Peak', color: '#d9480f' },
+  end: { label: 'End', color: '#7048e8' },
+} as const;
+
+const thresholdStyles = {
+  p75: { label: 'Raw P75', color: '#e07a2f' },
+  p50: { label: 'Raw P50', color: '#64748b' },
+} as const;
+
+/** Stored timestamps are naive local times; reading them as UTC keeps ticks independent of the browser zone */
+function parseNaive(value: string): number {
+  return Date.parse(`${value.replace(' ', 'T')}Z`);
+}
+
+function formatTick(ts: number): string {
+  const date = new Date(ts);
+  const m = `${date.getUTCMonth() + 1}`.padStart(2, '0');
+  const d = `${date.getUTCDate()}`.padStart(2, '0');
+  const h = `${date.getUTCHours()}`.padStart(2, '0');
+  return `${m}-${d} ${h}:00`;
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(2) : '-';
+}
+
+const StationHydrographChart = forwardRef<SVGSVGElement, StationHydrographChartProps>(
+  function StationHydrographChart(
+    { event, data, window, title = 'Event hydrograph', width = 640, height = 260 },
+    ref,
+  ) {
+    const plotWidth = width - chartMargin.left - chartMargin.right;
+    const plotHeight = height - chartMargin.top - chartMargin.bottom;
+
+    const chartData = useMemo(() => {
+      const readings = (data?.points ?? []).map((point) => ({
+        ts: parseNaive(point.observed_at),
+        value: point.water_level,
+      }));
+      const levels = readings.flatMap((item) => (item.value === null ? [] : [item.value]));
+      if (!window || levels.length === 0) {
+        return null;
+      }
+
+      const minTs = parseNaive(window.from);
+      const maxTs = parseNaive(window.to);
+      const thresholds = (['p75', 'p50'] as const).flatMap((key) =>
+        data?.[key] !== null && data?.[key] !== undefined ? [{ key, value: data[key] }] : [],
+      );
+
+      const values = [...levels, event.peak_value, ...thresholds.map((item) => item.value)];
+      const minValue = Math.min(...values);
+      const maxValue = Math.max(...values);
+      const xSpan = Math.max(1, maxTs - minTs);
+      const ySpan = Math.max(0.0001, maxValue - minValue);
+
+      const toX = (ts: number) => chartMargin.left + ((ts - minTs) / xSpan) * plotWidth;
+      const toY = (value: number) =>
+        chartMargin.top + (1 - (value - minValue) / ySpan) * plotHeight;
+
+      // Missing readings break the line instead of being bridged.
+      let linePath = '';
+      let penDown = false;
+      for (const item of readings) {
+        if (item.value === null) {
+          penDown = false;
+          continue;
+        }
+        linePath += `${penDown ? 'L' : 'M'}${toX(item.ts)},${toY(item.value)} `;
+        penDown = true;
+      }
+
+      const markers = (['start', 'peak', 'end'] as const).flatMap((key) => {
+        const time =
+          key === 'start' ? event.start_time : key === 'peak' ? event.peak_time : event.end_time;
+        if (!time) return [];
+        const ts = parseNaive(time);
+        return Number.isFinite(ts) ? [{ key, x: toX(ts), time }] : [];
+      });
+
+      const xTicks = Array.from({ length: 5 }).map((_, idx) => {
+        const ratio = idx / 4;
+        return {
+          x: chartMargin.left + ratio * plotWidth,
+          label: formatTick(minTs + ratio * xSpan),
+          align: (idx === 0 ? 'start' : idx === 4 ? 'end' : 'middle') as 'start' | 'middle' | 'end',
+        };
+      });
+
+      const yTicks = Array.from({ length: 5 }).map((_, idx) => {
+        const ratio = idx / 4;
+        return {
+          y: chartMargin.top + ratio * plotHeight,
+          label: formatValue(maxValue - ratio * ySpan),
+        };
+      });
+
+      return {
+        linePath: linePath.trim(),
+        markers,
+        peakPoint: { x: toX(parseNaive(event.peak_time)), y: toY(event.peak_value) },
+        thresholds: thresholds.map((item) => ({ ...item, y: toY(item.value) })),
+        xTicks,
+        yTicks,
+      };
+    }, [data, event, plotHeight, plotWidth, window]);
+
+    const bucketNote =
+      data?.method === 'avg' && data.bucketSeconds !== null
+        ? `${Math.round(data.bucketSeconds / 60)}-min averages of ${data.rawCount} readings`
+        : data?.method
+          ? `${data.points.length} of ${data.rawCount} readings (${data.method.toUpperCase()})`
+          : null;
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        height="100%"
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        <rect
+          x="0"
+          y="0"
+          width={width}
+          height={height}
+          fill="#ffffff"
+        />
+        <rect
+          x={chartMargin.left}
+          y={chartMargin.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="#f8fafc"
+          stroke="#dbe3ea"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={height - chartMargin.bottom}
+          x2={width - chartMargin.right}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={chartMargin.top}
+          x2={chartMargin.left}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+
+        {!chartData ? (
+          <text
+            x={width / 2}
+            y={height / 2}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#64748b"
+          >
+            No stored water levels around this event.
+          </text>
+        ) : (
+          <>
+            {chartData.xTicks.map((tick) => (
+              <g key={`${tick.x}-${tick.label}`}>
+                <line
+                  x1={tick.x}
+                  y1={chartMargin.top}
+                  x2={tick.x}
+                  y2={height - chartMargin.bottom}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={tick.x}
+                  y={height - chartMargin.bottom + 15}
+                  textAnchor={tick.align}
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.yTicks.map((tick, idx) => (
+              <g key={`${tick.y}-${tick.label}`}>
+                <line
+                  x1={chartMargin.left}
+                  y1={tick.y}
+                  x2={width - chartMargin.right}
+                  y2={tick.y}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={chartMargin.left - 8}
+                  y={idx === chartData.yTicks.length - 1 ? tick.y - 3 : tick.y + 3}
+                  textAnchor="end"
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.thresholds.map((item) => (
+              <g key={item.key}>
+                <line
+                  x1={chartMargin.left}
+                  y1={item.y}
+                  x2={width - chartMargin.right}
+                  y2={item.y}
+                  stroke={thresholdStyles[item.key].color}
+                  strokeWidth="1"
+                  strokeDasharray="5 3"
+                />
+                <text
+                  x={width - chartMargin.right - 4}
+                  y={item.y - 3}
+                  textAnchor="end"
+                  fontSize="9"
+                  fill={thresholdStyles[item.key].color}
+                >
+                  {`${thresholdStyles[item.key].label} ${formatValue(item.value)}`}
+                </text>
+              </g>
+            ))}
+
+            {chartData.markers.map((marker) => (
+              <line
+                key={marker.key}
+                x1={marker.x}
+                y1={chartMargin.top}
+                x2={marker.x}
+                y2={height - chartMargin.bottom}
+                stroke={markerStyles[marker.key].color}
+                strokeWidth="1"
+                strokeDasharray="2 2"
+              >
+                <title>{`${markerStyles[marker.key].label} | ${marker.time}`}</title>
+              </line>
+            ))}
+
+            <path
+              d={chartData.linePath}
+              fill="none"
+              stroke="#4288c9"
+              strokeWidth="1.6"
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+
+            <circle
+              cx={chartData.peakPoint.x}
+              cy={chartData.peakPoint.y}
+              r="3"
+              fill={markerStyles.peak.color}
+            >
+              <title>{`${event.peak_time} | ${formatValue(event.peak_value)}`}</title>
+            </circle>
+
+            <g transform={`translate(${chartMargin.left + 8} ${chartMargin.top + 12})`}>
+              {(['start', 'peak', 'end'] as const).map((key, idx) => (
+                <g
+                  key={key}
+                  transform={`translate(${idx * 52} 0)`}
+                >
+                  <line
+                    x1={0}
+                    y1={-3}
+                    x2={10}
+                    y2={-3}
+                    stroke={markerStyles[key].color}
+                    strokeWidth="1.6"
+                  />
+                  <text
+                    x={14}
+                    y={0}
+                    fontSize="9"
+                    fill="#334155"
+                  >
+                    {markerStyles[key].label}
+                  </text>
+                </g>
+              ))}
+            </g>
+
+            {bucketNote && (
+              <text
+                x={chartMargin.left + 8}
+                y={height - chartMargin.bottom - 6}
+                fontSize="9"
+                fill="#64748b"
+              >
+                {bucketNote}
+              </text>
+            )}
+          </>
+        )}
+
+        <text
+          x={width / 2}
+          y={height - 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+        >
+          observed_at
+        </text>
+        <text
+          x={13}
+          y={height / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+          transform={`rotate(-90 13 ${height / 2})`}
+        >
+          water_level
+        </text>
+      </svg>
+    );
+  },
+);
+
+export default StationHydrographChart;
@@ -7,15 +7,19 @@ import { CircleMarker, Pane, Polyline, Popup } from 'react-leaflet';
 
 import type { Station } from '@/types';
 
+import type { ActiveTab, ChoroplethStyle } from '../types';
+
 type MapPosition = [number, number];
 
 type StationMarkersProps = {
   stations: Station[];
   markerRadius: number;
-  activeTab: 'basin' | 'station' | null;
+  activeTab: ActiveTab;
   selectedStationId: string | null;
   previewStationId: string | null;
   basinHighlightedStationIds: string[];
+  /** When set, unselected markers are coloured and sized by the active metric layer */
+  choroplethStyles: Map<string, ChoroplethStyle> | null;
   onPreviewChange: (stationId: string | null) => void;
   onCommitSelection: (station: Station) => void;
   getDisplayName: (station: Station) => string;
@@ -32,6 +36,7 @@ function StationMarkers({
   selectedStationId,
   previewStationId,
   basinHighlightedStationIds,
+  choroplethStyles,
   onPreviewChange,
   onCommitSelection,
   getDisplayName,
@@ -139,13 +144,20 @@ function StationMarkers({
             ? 'station-preview'
             : 'station-base';
 
+        // Metric layer only restyles plain markers; selection/preview/basin states keep priority.
+        const isChoropleth =
+          Boolean(choroplethStyles) && !isSelected && !isPreview && !isBasinHighlighted;
+        const choropleth = isChoropleth ? choroplethStyles?.get(stationId) : undefined;
+
         const fillColor = isSelected
           ? '#EF4444'
           : isPreview
             ? '#EF4444'
             : isBasinHighlighted
               ? '#4288C9'
-              : '#3A94C5';
+              : isChoropleth
+                ? (choropleth?.color ?? '#CBD5E1')
+                : '#3A94C5';
 
         const strokeColor = isSelected
           ? '#B91C1C'
@@ -155,7 +167,17 @@ function StationMarkers({
               ? '#2F7EA8'
               : '#6B7B85';
 
-        const fillOpacity = isSelected ? 1 : isPreview ? 0.45 : isBasinHighlighted ? 0.9 : 0.4;
+        const fillOpacity = isSelected
+          ? 1
+          : isPreview
+            ? 0.45
+            : isBasinHighlighted
+              ? 0.9
+              : isChoropleth
+                ? choropleth
+                  ? 0.85
+                  : 0.3
+                : 0.4;
 
         const weight = isSelected ? 2 : isPreview ? 1.5 : isBasinHighlighted ? 1 : 0.6;
 
@@ -163,7 +185,7 @@ function StationMarkers({
           <CircleMarker
             key={stationId}
             center={[station.latitude as number, station.longitude as number]}
-            radius={markerRadius}
+            radius={isChoropleth ? markerRadius * (choropleth?.scale ?? 0.6) : markerRadius}
             pane={pane}
             pathOptions={{
               fillColor,
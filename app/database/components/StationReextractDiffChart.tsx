@@ -0,0 +1,351 @@
+'use client';
+
+import { forwardRef, useMemo } from 'react';
+
+import type { ReextractResponse } from '@/types';
+
+type StationReextractDiffChartProps = {
+  data: ReextractResponse | null;
+  title?: string;
+  width?: number;
+  height?: number;
+};
+
+type DiffKind = 'unchanged' | 'shifted' | 'added' | 'removed';
+
+const chartMargin = { top: 8, right: 24, bottom: 42, left: 52 };
+
+const kindStyles: Record<DiffKind, { label: string; color: string }> = {
+  unchanged: { label: 'Unchanged', color: '#94a3b8' },
+  shifted: { label: 'Shifted', color: '#e07a2f' },
+  added: { label: 'Added', color: '#2f9e6b' },
+  removed: { label: 'Removed', color: '#d6336c' },
+};
+
+/** Zone-less "YYYY-MM-DD HH:MM:SS"; only positions matter, so UTC is fine */
+function toMillis(value: string): number {
+  return Date.parse(`${value.replace(' ', 'T')}Z`);
+}
+
+function formatDateTick(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(2) : '-';
+}
+
+const StationReextractDiffChart = forwardRef<SVGSVGElement, StationReextractDiffChartProps>(
+  function StationReextractDiffChart(
+    { data, title = 'Re-extraction diff', width = 640, height = 260 },
+    ref,
+  ) {
+    const plotWidth = width - chartMargin.left - chartMargin.right;
+    const plotHeight = height - chartMargin.top - chartMargin.bottom;
+
+    const chartData = useMemo(() => {
+      if (!data) {
+        return null;
+      }
+
+      const addedPeaks = new Set(data.diff.added.map((event) => event.peak_time));
+      const shiftedPeaks = new Set(data.diff.shifted.map((item) => item.candidate.peak_time));
+      const marks: { kind: DiffKind; time: string; value: number }[] = [];
+      for (const candidate of data.candidates) {
+        if (candidate.peak_value === null || shiftedPeaks.has(candidate.peak_time)) continue;
+        marks.push({
+          kind: addedPeaks.has(candidate.peak_time) ? 'added' : 'unchanged',
+          time: candidate.peak_time,
+          value: candidate.peak_value,
+        });
+      }
+      for (const event of data.diff.removed) {
+        if (event.peak_time && event.peak_value !== null) {
+          marks.push({ kind: 'removed', time: event.peak_time, value: event.peak_value });
+        }
+      }
+      const shifts = data.diff.shifted.flatMap((item) =>
+        item.stored.peak_time &&
+        item.stored.peak_value !== null &&
+        item.candidate.peak_value !== null
+          ? [
+              {
+                from: { time: item.stored.peak_time, value: item.stored.peak_value },
+                to: { time: item.candidate.peak_time, value: item.candidate.peak_value },
+                hours: item.peakShiftHours,
+              },
+            ]
+          : [],
+      );
+      if (marks.length === 0 && shifts.length === 0) {
+        return null;
+      }
+
+      const timestamps = [toMillis(data.range.startTs), toMillis(data.range.endTs)];
+      const values = [
+        ...marks.map((mark) => mark.value),
+        ...shifts.flatMap((shift) => [shift.from.value, shift.to.value]),
+      ];
+      const minTs = Math.min(...timestamps);
+      const maxTs = Math.max(...timestamps);
+      const minValue = Math.min(...values);
+      const maxValue = Math.max(...values);
+      const xSpan = Math.max(1, maxTs - minTs);
+      const ySpan = Math.max(0.0001, maxValue - minValue);
+
+      const toX = (time: string) =>
+        chartMargin.left + ((toMillis(time) - minTs) / xSpan) * plotWidth;
+      const toY = (value: number) =>
+        chartMargin.top + (1 - (value - minValue) / ySpan) * plotHeight;
+
+      const xTicks = Array.from({ length: 5 }).map((_, idx) => {
+        const ratio = idx / 4;
+        return {
+          x: chartMargin.left + ratio * plotWidth,
+          label: formatDateTick(minTs + ratio * xSpan),
+          align: (idx === 0 ? 'start' : idx === 4 ? 'end' : 'middle') as 'start' | 'middle' | 'end',
+        };
+      });
+
+      const yTicks = Array.from({ length: 5 }).map((_, idx) => {
+        const ratio = idx / 4;
+        return {
+          y: chartMargin.top + ratio * plotHeight,
+          label: formatValue(maxValue - ratio * ySpan),
+        };
+      });
+
+      return {
+        // Unchanged first so the coloured marks are drawn on top.
+        marks: marks
+          .map((mark) => ({ ...mark, x: toX(mark.time), y: toY(mark.value) }))
+          .sort((a, b) => Number(b.kind === 'unchanged') - Number(a.kind === 'unchanged')),
+        shifts: shifts.map((shift) => ({
+          ...shift,
+          x1: toX(shift.from.time),
+          y1: toY(shift.from.value),
+          x2: toX(shift.to.time),
+          y2: toY(shift.to.value),
+        })),
+        xTicks,
+        yTicks,
+      };
+    }, [data, plotHeight, plotWidth]);
+
+    const counts: Record<DiffKind, number> = {
+      unchanged: data?.diff.unchanged ?? 0,
+      shifted: data?.diff.shifted.length ?? 0,
+      added: data?.diff.added.length ?? 0,
+      removed: data?.diff.removed.length ?? 0,
+    };
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        height="100%"
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        <rect
+          x="0"
+          y="0"
+          width={width}
+          height={height}
+          fill="#ffffff"
+        />
+        <rect
+          x={chartMargin.left}
+          y={chartMargin.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="#f8fafc"
+          stroke="#dbe3ea"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={height - chartMargin.bottom}
+          x2={width - chartMargin.right}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={chartMargin.top}
+          x2={chartMargin.left}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+
+        {!chartData ? (
+          <text
+            x={width / 2}
+            y={height / 2}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#64748b"
+          >
+            No events extracted or stored in selected range.
+          </text>
+        ) : (
+          <>
+            {chartData.xTicks.map((tick) => (
+              <g key={`${tick.x}-${tick.label}`}>
+                <line
+                  x1={tick.x}
+                  y1={chartMargin.top}
+                  x2={tick.x}
+                  y2={height - chartMargin.bottom}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={tick.x}
+                  y={height - chartMargin.bottom + 15}
+                  textAnchor={tick.align}
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.yTicks.map((tick, idx) => (
+              <g key={`${tick.y}-${tick.label}`}>
+                <line
+                  x1={chartMargin.left}
+                  y1={tick.y}
+                  x2={width - chartMargin.right}
+                  y2={tick.y}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={chartMargin.left - 8}
+                  y={idx === chartData.yTicks.length - 1 ? tick.y - 3 : tick.y + 3}
+                  textAnchor="end"
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.marks.map((mark) =>
+              mark.kind === 'removed' ? (
+                <circle
+                  key={`${mark.kind}-${mark.time}`}
+                  cx={mark.x}
+                  cy={mark.y}
+                  r={3.2}
+                  fill="#ffffff"
+                  stroke={kindStyles.removed.color}
+                  strokeWidth="1.4"
+                >
+                  <title>{`Removed | ${mark.time} | ${formatValue(mark.value)}`}</title>
+                </circle>
+              ) : (
+                <circle
+                  key={`${mark.kind}-${mark.time}`}
+                  cx={mark.x}
+                  cy={mark.y}
+                  r={mark.kind === 'unchanged' ? 2.2 : 3.2}
+                  fill={kindStyles[mark.kind].color}
+                  opacity={mark.kind === 'unchanged' ? 0.7 : 0.95}
+                >
+                  <title>
+                    {`${kindStyles[mark.kind].label} | ${mark.time} | ${formatValue(mark.value)}`}
+                  </title>
+                </circle>
+              ),
+            )}
+
+            {chartData.shifts.map((shift) => (
+              <g key={`shift-${shift.from.time}-${shift.to.time}`}>
+                <line
+                  x1={shift.x1}
+                  y1={shift.y1}
+                  x2={shift.x2}
+                  y2={shift.y2}
+                  stroke={kindStyles.shifted.color}
+                  strokeWidth="1.2"
+                />
+                <circle
+                  cx={shift.x1}
+                  cy={shift.y1}
+                  r={2.4}
+                  fill="#ffffff"
+                  stroke={kindStyles.shifted.color}
+                  strokeWidth="1.2"
+                />
+                <circle
+                  cx={shift.x2}
+                  cy={shift.y2}
+                  r={3.2}
+                  fill={kindStyles.shifted.color}
+                >
+                  <title>
+                    {`Shifted | ${shift.from.time} → ${shift.to.time} (${shift.hours > 0 ? '+' : ''}${shift.hours} h) | ${formatValue(shift.from.value)} → ${formatValue(shift.to.value)}`}
+                  </title>
+                </circle>
+              </g>
+            ))}
+
+            <g transform={`translate(${chartMargin.left + 8} ${chartMargin.top + 12})`}>
+              {(Object.keys(kindStyles) as DiffKind[]).map((kind, idx) => (
+                <g
+                  key={kind}
+                  transform={`translate(${idx * 92} 0)`}
+                >
+                  <circle
+                    cx={4}
+                    cy={-3}
+                    r={3}
+                    fill={kind === 'removed' ? '#ffffff' : kindStyles[kind].color}
+                    stroke={kindStyles[kind].color}
+                    strokeWidth="1.2"
+                  />
+                  <text
+                    x={11}
+                    y={0}
+                    fontSize="9"
+                    fill="#334155"
+                  >
+                    {`${kindStyles[kind].label} (${counts[kind]})`}
+                  </text>
+                </g>
+              ))}
+            </g>
+          </>
+        )}
+
+        <text
+          x={width / 2}
+          y={height - 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+        >
+          peak_time
+        </text>
+        <text
+          x={13}
+          y={height / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+          transform={`rotate(-90 13 ${height / 2})`}
+        >
+          peak_value
+        </text>
+      </svg>
+    );
+  },
+);
+
+export default StationReextractDiffChart;
@@ -0,0 +1,352 @@
+'use client';
+
+import { forwardRef, useMemo } from 'react';
+
+import type { FrequencyAnalysisResponse, FrequencyDistribution } from '@/types';
+
+type StationReturnPeriodChartProps = {
+  data: FrequencyAnalysisResponse | null;
+  title?: string;
+  width?: number;
+  height?: number;
+};
+
+type FitSeries = {
+  distribution: FrequencyDistribution;
+  linePath: string;
+  bandPath: string;
+  points: { x: number; y: number; returnPeriod: number; estimate: number }[];
+};
+
+const chartMargin = { top: 8, right: 24, bottom: 42, left: 52 };
+const axisReturnPeriods = [2, 5, 10, 25, 50, 100];
+
+const fitStyles: Record<FrequencyDistribution, { label: string; color: string }> = {
+  gumbel: { label: 'Gumbel', color: '#4288c9' },
+  gev: { label: 'GEV', color: '#e07a2f' },
+  lp3: { label: 'LP3', color: '#2f9e6b' },
+};
+
+/** Gumbel reduced variate; a straight line on this axis means a Gumbel-distributed series */
+function reducedVariate(returnPeriod: number): number {
+  return -Math.log(-Math.log(1 - 1 / returnPeriod));
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(2) : '-';
+}
+
+const StationReturnPeriodChart = forwardRef<SVGSVGElement, StationReturnPeriodChartProps>(
+  function StationReturnPeriodChart(
+    { data, title = 'Return period analysis', width = 640, height = 260 },
+    ref,
+  ) {
+    const plotWidth = width - chartMargin.left - chartMargin.right;
+    const plotHeight = height - chartMargin.top - chartMargin.bottom;
+
+    const chartData = useMemo(() => {
+      const observed = data?.plottingPositions ?? [];
+      const fits = (data?.fits ?? []).filter((fit) => fit.quantiles.length > 0);
+      if (observed.length === 0) {
+        return null;
+      }
+
+      const observedX = observed.map((item) => reducedVariate(item.returnPeriod));
+      const xMin = Math.min(...observedX, reducedVariate(2)) - 0.2;
+      const xMax = Math.max(...observedX, reducedVariate(100)) + 0.3;
+
+      const values = observed.map((item) => item.peak_value);
+      for (const fit of fits) {
+        for (const q of fit.quantiles) {
+          values.push(q.estimate);
+          if (q.lower !== null) values.push(q.lower);
+          if (q.upper !== null) values.push(q.upper);
+        }
+      }
+      const finiteValues = values.filter(Number.isFinite);
+      const minValue = Math.min(...finiteValues);
+      const maxValue = Math.max(...finiteValues);
+      const ySpan = Math.max(0.0001, maxValue - minValue);
+
+      const toX = (variate: number) =>
+        chartMargin.left + ((variate - xMin) / (xMax - xMin)) * plotWidth;
+      const toY = (value: number) =>
+        chartMargin.top + (1 - (value - minValue) / ySpan) * plotHeight;
+
+      const observedPoints = observed.map((item, idx) => ({
+        x: toX(observedX[idx]),
+        y: toY(item.peak_value),
+        year: item.year,
+        returnPeriod: item.returnPeriod,
+        peak_value: item.peak_value,
+      }));
+
+      const series: FitSeries[] = fits.map((fit) => {
+        const points = fit.quantiles.map((q) => ({
+          x: toX(reducedVariate(q.returnPeriod)),
+          y: toY(q.estimate),
+          returnPeriod: q.returnPeriod,
+          estimate: q.estimate,
+        }));
+        const linePath = points
+          .map((point, idx) => `${idx === 0 ? 'M' : 'L'}${point.x},${point.y}`)
+          .join(' ');
+
+        const bounded = fit.quantiles.filter((q) => q.lower !== null && q.upper !== null);
+        const bandPath =
+          bounded.length > 1
+            ? [
+                ...bounded.map((q) => `${toX(reducedVariate(q.returnPeriod))},${toY(q.upper!)}`),
+                ...[...bounded]
+                  .reverse()
+                  .map((q) => `${toX(reducedVariate(q.returnPeriod))},${toY(q.lower!)}`),
+              ]
+                .map((pair, idx) => `${idx === 0 ? 'M' : 'L'}${pair}`)
+                .join(' ') + ' Z'
+            : '';
+
+        return { distribution: fit.distribution, linePath, bandPath, points };
+      });
+
+      const xTicks = axisReturnPeriods
+        .map((period) => ({ x: toX(reducedVariate(period)), label: `${period}` }))
+        .filter((tick) => tick.x >= chartMargin.left && tick.x <= width - chartMargin.right);
+
+      const yTicks = Array.from({ length: 5 }).map((_, idx) => {
+        const ratio = idx / 4;
+        return {
+          y: chartMargin.top + ratio * plotHeight,
+          label: formatValue(maxValue - ratio * ySpan),
+        };
+      });
+
+      return { observedPoints, series, xTicks, yTicks };
+    }, [data, plotHeight, plotWidth, width]);
+
+    const fitErrors = (data?.fits ?? []).filter((fit) => fit.error);
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        height="100%"
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        <rect
+          x="0"
+          y="0"
+          width={width}
+          height={height}
+          fill="#ffffff"
+        />
+        <rect
+          x={chartMargin.left}
+          y={chartMargin.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="#f8fafc"
+          stroke="#dbe3ea"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={height - chartMargin.bottom}
+          x2={width - chartMargin.right}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+        <line
+          x1={chartMargin.left}
+          y1={chartMargin.top}
+          x2={chartMargin.left}
+          y2={height - chartMargin.bottom}
+          stroke="#64748b"
+          strokeWidth="1"
+        />
+
+        {!chartData ? (
+          <text
+            x={width / 2}
+            y={height / 2}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#64748b"
+          >
+            No annual maxima in selected range.
+          </text>
+        ) : (
+          <>
+            {chartData.xTicks.map((tick) => (
+              <g key={`${tick.x}-${tick.label}`}>
+                <line
+                  x1={tick.x}
+                  y1={chartMargin.top}
+                  x2={tick.x}
+                  y2={height - chartMargin.bottom}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={tick.x}
+                  y={height - chartMargin.bottom + 15}
+                  textAnchor="middle"
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.yTicks.map((tick, idx) => (
+              <g key={`${tick.y}-${tick.label}`}>
+                <line
+                  x1={chartMargin.left}
+                  y1={tick.y}
+                  x2={width - chartMargin.right}
+                  y2={tick.y}
+                  stroke="#e2e8f0"
+                  strokeWidth="1"
+                />
+                <text
+                  x={chartMargin.left - 8}
+                  y={idx === chartData.yTicks.length - 1 ? tick.y - 3 : tick.y + 3}
+                  textAnchor="end"
+                  fontSize="10"
+                  fill="#475569"
+                >
+                  {tick.label}
+                </text>
+              </g>
+            ))}
+
+            {chartData.series.map((item) =>
+              item.bandPath ? (
+                <path
+                  key={`band-${item.distribution}`}
+                  d={item.bandPath}
+                  fill={fitStyles[item.distribution].color}
+                  fillOpacity="0.08"
+                  stroke="none"
+                />
+              ) : null,
+            )}
+
+            {chartData.series.map((item) => (
+              <g key={item.distribution}>
+                <path
+                  d={item.linePath}
+                  fill="none"
+                  stroke={fitStyles[item.distribution].color}
+                  strokeWidth="1.8"
+                  strokeLinejoin="round"
+                  strokeLinecap="round"
+                />
+                {item.points.map((point) => (
+                  <circle
+                    key={point.returnPeriod}
+                    cx={point.x}
+                    cy={point.y}
+                    r="2.5"
+                    fill={fitStyles[item.distribution].color}
+                  >
+                    <title>
+                      {`${fitStyles[item.distribution].label} | T=${point.returnPeriod}y | ${formatValue(point.estimate)}`}
+                    </title>
+                  </circle>
+                ))}
+              </g>
+            ))}
+
+            {chartData.observedPoints.map((point) => (
+              <circle
+                key={point.year}
+                cx={point.x}
+                cy={point.y}
+                r="2.2"
+                fill="#ffffff"
+                stroke="#334155"
+                strokeWidth="1"
+              >
+                <title>
+                  {`${point.year} | T=${point.returnPeriod.toFixed(1)}y | ${formatValue(point.peak_value)}`}
+                </title>
+              </circle>
+            ))}
+
+            <g transform={`translate(${chartMargin.left + 8} ${chartMargin.top + 12})`}>
+              {[
+                ...chartData.series.map((item) => ({
+                  key: item.distribution,
+                  label: fitStyles[item.distribution].label,
+                  color: fitStyles[item.distribution].color,
+                })),
+                { key: 'observed', label: 'Observed (Weibull)', color: '#334155' },
+              ].map((entry, idx) => (
+                <g
+                  key={entry.key}
+                  transform={`translate(0 ${idx * 13})`}
+                >
+                  <line
+                    x1={0}
+                    y1={-3}
+                    x2={12}
+                    y2={-3}
+                    stroke={entry.color}
+                    strokeWidth="1.8"
+                  />
+                  <text
+                    x={16}
+                    y={0}
+                    fontSize="9"
+                    fill="#334155"
+                  >
+                    {entry.label}
+                  </text>
+                </g>
+              ))}
+            </g>
+
+            {fitErrors.length > 0 && (
+              <text
+                x={width - chartMargin.right - 6}
+                y={chartMargin.top + 12}
+                textAnchor="end"
+                fontSize="9"
+                fill="#b45309"
+              >
+                {fitErrors
+                  .map((fit) => `${fitStyles[fit.distribution].label}: ${fit.error}`)
+                  .join(' · ')}
+              </text>
+            )}
+          </>
+        )}
+
+        <text
+          x={width / 2}
+          y={height - 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+        >
+          return period (years)
+        </text>
+        <text
+          x={13}
+          y={height / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#334155"
+          transform={`rotate(-90 13 ${height / 2})`}
+        >
+          peak_value
+        </text>
+      </svg>
+    );
+  },
+);
+
+export default StationReturnPeriodChart;
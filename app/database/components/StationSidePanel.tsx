@@ -1,26 +1,38 @@
 'use client';
 
+import { useState } from 'react';
+
+import { useBasinStations } from '@/hooks/useBasinStations';
 import { useCsvExport } from '@/hooks/useCsvExport';
+import { MAX_COMPARE_STATIONS, MIN_COMPARE_STATIONS } from '@/hooks/usePinnedStations';
 import { chartPresets, useStationEvents } from '@/hooks/useStationEvents';
 import { cn } from '@/lib/utils';
 import type { Station } from '@/types';
 
 import type { ActiveTab, BasinTabData } from '../types';
+import BasinStationTable from './BasinStationTable';
 import ChartSection from './ChartSection';
 import DateRangeBar from './DateRangeBar';
 import MetricsCardGrid from './MetricsCardGrid';
 import PanelTabBar from './PanelTabBar';
 import SearchLoadingIcon from './SearchLoadingIcon';
+import StationComparisonView from './StationComparisonView';
 
 type StationSidePanelProps = {
   activeTab: ActiveTab;
   basinTab: BasinTabData | null;
   stationTab: Station | null;
+  pinnedStations: Station[];
   onActivateBasinTab: () => void;
   onOpenBasinTab: (basinName: string) => void;
+  onOpenStationTab: (stationId: string) => void;
   onActivateStationTab: () => void;
   onCloseBasinTab: () => void;
   onCloseStationTab: () => void;
+  onTogglePin: (stationId: string) => void;
+  onUnpinStation: (stationId: string) => void;
+  onActivateCompareTab: () => void;
+  onCloseCompareTab: () => void;
   getDisplayName: (station: Station) => string;
 };
 
@@ -28,13 +40,21 @@ export default function StationSidePanel({
   activeTab,
   basinTab,
   stationTab,
+  pinnedStations,
   onActivateBasinTab,
   onOpenBasinTab,
+  onOpenStationTab,
   onActivateStationTab,
   onCloseBasinTab,
   onCloseStationTab,
+  onTogglePin,
+  onUnpinStation,
+  onActivateCompareTab,
+  onCloseCompareTab,
   getDisplayName,
 }: StationSidePanelProps) {
+  const [basinView, setBasinView] = useState<'summary' | 'stations'>('summary');
+
   const {
     isOpen,
     currentStation,
@@ -64,6 +84,19 @@ export default function StationSidePanel({
     chartPoints,
     monthlyFrequency,
     peakDistribution,
+    frequencyData,
+    isLoadingFrequency,
+    episodesData,
+    isLoadingEpisodes,
+    episodeWindowHours,
+    setEpisodeWindowHours,
+    reextractData,
+    reextractError,
+    isLoadingReextract,
+    reextractParams,
+    setReextractParams,
+    coverageYears,
+    isLoadingQuality,
     isMetricsCopied,
     copyMetrics,
     chartTitle,
@@ -85,7 +118,20 @@ export default function StationSidePanel({
       getDisplayName,
     });
 
+  const isStationsView = Boolean(currentBasin) && basinView === 'stations';
+  const { basinStations, basinStationsError, isLoadingBasinStations } = useBasinStations({
+    basinName: currentBasin,
+    rangeStartDate,
+    rangeEndDate,
+    enabled: isStationsView,
+  });
+
   const isChartExpanded = Boolean(selectedPresetMeta);
+  const isCompareOpen = activeTab === 'compare' && pinnedStations.length > 0;
+  const isCurrentStationPinned = currentStation
+    ? pinnedStations.some((station) => station.station_id === currentStation.station_id)
+    : false;
+  const canPinMore = pinnedStations.length < MAX_COMPARE_STATIONS;
 
   function handleCloseBasinTab() {
     clearTabPreset(basinTab ? `b:${basinTab.basinName}` : null);
@@ -143,17 +189,26 @@ export default function StationSidePanel({
               setStartDate={setStartDate}
               setEndDate={setEndDate}
             />
-            <MetricsCardGrid
-              eventSummary={eventSummary}
-              isMetricsCopied={isMetricsCopied}
-              copyMetrics={copyMetrics}
-              rangeMatchedEvents={rangeMatchedEvents}
-              isLoadingRangeCount={isLoadingRangeCount}
-              isDownloadingEvents={isDownloadingEvents}
-              downloadEventsXlsx={downloadEventsXlsx}
-              isChartExpanded={isChartExpanded}
-              onToggleChart={handleToggleChart}
-            />
+            {isStationsView ? (
+              <BasinStationTable
+                items={basinStations}
+                isLoading={isLoadingBasinStations}
+                hasError={Boolean(basinStationsError)}
+                onSelectStation={onOpenStationTab}
+              />
+            ) : (
+              <MetricsCardGrid
+                eventSummary={eventSummary}
+                isMetricsCopied={isMetricsCopied}
+                copyMetrics={copyMetrics}
+                rangeMatchedEvents={rangeMatchedEvents}
+                isLoadingRangeCount={isLoadingRangeCount}
+                isDownloadingEvents={isDownloadingEvents}
+                downloadEventsXlsx={downloadEventsXlsx}
+                isChartExpanded={isChartExpanded}
+                onToggleChart={handleToggleChart}
+              />
+            )}
           </>
         )}
       </>
@@ -166,20 +221,24 @@ export default function StationSidePanel({
         'absolute right-3 z-[1000] hidden overflow-hidden rounded-2xl bg-white font-sans shadow-[0_12px_24px_rgba(0,0,0,0.2)]',
         'top-3 w-[min(370px,calc(100vw-2rem))]',
         'max-[900px]:top-auto max-[900px]:right-3 max-[900px]:bottom-3 max-[900px]:left-3 max-[900px]:max-h-[42%] max-[900px]:w-auto',
-        isOpen && 'block',
-        selectedPreset && 'w-[min(980px,calc(100vw-2rem))] max-[900px]:w-auto',
+        (isOpen || isCompareOpen) && 'block',
+        (isCompareOpen ? pinnedStations.length >= MIN_COMPARE_STATIONS : selectedPreset) &&
+          'w-[min(980px,calc(100vw-2rem))] max-[900px]:w-auto',
       )}
     >
-      {isOpen ? (
+      {isOpen || isCompareOpen ? (
         <>
           <PanelTabBar
             activeTab={activeTab}
             basinTab={basinTab}
             stationTab={stationTab}
+            compareCount={pinnedStations.length}
             onActivateBasinTab={onActivateBasinTab}
             onActivateStationTab={onActivateStationTab}
             onCloseBasinTab={handleCloseBasinTab}
             onCloseStationTab={handleCloseStationTab}
+            onActivateCompareTab={onActivateCompareTab}
+            onCloseCompareTab={onCloseCompareTab}
             getDisplayName={getDisplayName}
           />
 
@@ -188,65 +247,136 @@ export default function StationSidePanel({
               'overflow-x-hidden max-md:no-scrollbar max-md:overflow-y-auto md:overflow-y-hidden max-h-[calc(100%-60px)] px-4 py-[0.85rem] [&_p]:m-0 [&_p]:mb-[0.55rem] [&_p]:text-[0.95rem] [&_p]:leading-[1.35]'
             }
             role="tabpanel"
-            id={activeTab === 'basin' ? 'tabpanel-basin' : 'tabpanel-station'}
-            aria-labelledby={activeTab === 'basin' ? 'tab-basin' : 'tab-station'}
+            id={`tabpanel-${activeTab ?? 'station'}`}
+            aria-labelledby={`tab-${activeTab ?? 'station'}`}
           >
-            <div
-              className={cn(
-                'block',
-                selectedPreset &&
-                  'min-[901px]:grid min-[901px]:grid-cols-[340px_minmax(0,1fr)] min-[901px]:items-stretch min-[901px]:gap-3',
-              )}
-            >
-              <section
-                className={
-                  'min-w-0 min-[901px]:max-h-none min-[901px]:min-w-0 min-[901px]:overflow-visible min-[901px]:pr-[2px]'
-                }
-              >
-                {isLoadingEvents ? (
-                  <div
-                    className="mb-[0.55rem] h-[1.2825rem]"
-                    aria-hidden="true"
-                  />
-                ) : currentStation ? (
-                  <p>
-                    {basinName ? (
-                      <>
-                        <button
-                          type="button"
-                          className={
-                            'font-inherit cursor-pointer border-0 bg-transparent p-0 font-normal text-[#5E5A52] hover:text-[#dc2626] focus-visible:rounded focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[#7fb1d1]'
-                          }
-                          onClick={() => onOpenBasinTab(basinName)}
-                        >
-                          {basinName}
-                        </button>{' '}
-                        basin
-                      </>
-                    ) : (
-                      '- basin'
-                    )}{' '}
-                    • {totalEvents ?? '-'} events • {coveredYearsCount ?? '-'} years
-                  </p>
-                ) : (
-                  <p>{summaryLine}</p>
+            {isCompareOpen ? (
+              <StationComparisonView
+                stations={pinnedStations}
+                onUnpinStation={onUnpinStation}
+                onOpenStationTab={onOpenStationTab}
+                getDisplayName={getDisplayName}
+              />
+            ) : (
+              <div
+                className={cn(
+                  'block',
+                  selectedPreset &&
+                    'min-[901px]:grid min-[901px]:grid-cols-[340px_minmax(0,1fr)] min-[901px]:items-stretch min-[901px]:gap-3',
                 )}
-                {renderEventsAnalysis()}
-              </section>
+              >
+                <section
+                  className={
+                    'min-w-0 min-[901px]:max-h-none min-[901px]:min-w-0 min-[901px]:overflow-visible min-[901px]:pr-[2px]'
+                  }
+                >
+                  {isLoadingEvents ? (
+                    <div
+                      className="mb-[0.55rem] h-[1.2825rem]"
+                      aria-hidden="true"
+                    />
+                  ) : currentStation ? (
+                    <div className="mb-[0.55rem] flex items-center justify-between gap-2">
+                      <p className="mb-0!">
+                        {basinName ? (
+                          <>
+                            <button
+                              type="button"
+                              className={
+                                'font-inherit cursor-pointer border-0 bg-transparent p-0 font-normal text-[#5E5A52] hover:text-[#dc2626] focus-visible:rounded focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[#7fb1d1]'
+                              }
+                              onClick={() => onOpenBasinTab(basinName)}
+                            >
+                              {basinName}
+                            </button>{' '}
+                            basin
+                          </>
+                        ) : (
+                          '- basin'
+                        )}{' '}
+                        • {totalEvents ?? '-'} events • {coveredYearsCount ?? '-'} years
+                      </p>
+                      <button
+                        type="button"
+                        className={cn(
+                          'flex-none rounded-full border-0 px-[0.6rem] py-[0.15rem] text-[0.72rem] transition-colors disabled:cursor-default disabled:opacity-50',
+                          isCurrentStationPinned
+                            ? 'cursor-pointer bg-[#4288c9] text-white'
+                            : 'cursor-pointer bg-[oklch(0.9851_0_0)] text-slate-900 hover:bg-[oklch(0.9214_0.0248_257.65)]',
+                        )}
+                        aria-pressed={isCurrentStationPinned}
+                        disabled={!isCurrentStationPinned && !canPinMore}
+                        title={
+                          !isCurrentStationPinned && !canPinMore
+                            ? `At most ${MAX_COMPARE_STATIONS} stations can be compared.`
+                            : undefined
+                        }
+                        onClick={() => onTogglePin(currentStation.station_id)}
+                      >
+                        {isCurrentStationPinned ? 'Pinned' : 'Pin'}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="mb-[0.55rem] flex items-center justify-between gap-2">
+                      <p className="mb-0!">{summaryLine}</p>
+                      <div
+                        className="flex flex-none gap-1"
+                        role="group"
+                        aria-label="Basin view"
+                      >
+                        {(['summary', 'stations'] as const).map((view) => (
+                          <button
+                            key={view}
+                            type="button"
+                            className={cn(
+                              'rounded-full border-0 px-[0.6rem] py-[0.15rem] text-[0.72rem] capitalize transition-colors',
+                              basinView === view
+                                ? 'pointer-events-none bg-[#4288c9] text-white'
+                                : 'cursor-pointer bg-[oklch(0.9851_0_0)] text-slate-900 hover:bg-[oklch(0.9214_0.0248_257.65)]',
+                            )}
+                            aria-pressed={basinView === view}
+                            onClick={() => setBasinView(view)}
+                          >
+                            {view}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {renderEventsAnalysis()}
+                </section>
 
-              <ChartSection
-                selectedPreset={selectedPreset}
-                activeTabKey={activeTabKey}
-                setSelectedPresetByTab={setSelectedPresetByTab}
-                chartPoints={chartPoints}
-                monthlyFrequency={monthlyFrequency}
-                peakDistribution={peakDistribution}
-                chartTitle={chartTitle}
-                chartSvgRef={chartSvgRef}
-                downloadChartPng={downloadChartPng}
-                isLoadingRangeCount={isLoadingRangeCount}
-              />
-            </div>
+                <ChartSection
+                  selectedPreset={selectedPreset}
+                  activeTabKey={activeTabKey}
+                  setSelectedPresetByTab={setSelectedPresetByTab}
+                  chartPoints={chartPoints}
+                  monthlyFrequency={monthlyFrequency}
+                  peakDistribution={peakDistribution}
+                  frequencyData={frequencyData}
+                  episodesData={episodesData}
+                  episodeWindowHours={episodeWindowHours}
+                  setEpisodeWindowHours={setEpisodeWindowHours}
+                  highlightStationId={currentStation?.station_id ?? null}
+                  reextractData={reextractData}
+                  reextractError={reextractError}
+                  reextractParams={reextractParams}
+                  setReextractParams={setReextractParams}
+                  coverageYears={coverageYears}
+                  isStationTab={Boolean(currentStation)}
+                  chartTitle={chartTitle}
+                  chartSvgRef={chartSvgRef}
+                  downloadChartPng={downloadChartPng}
+                  isLoadingRangeCount={
+                    isLoadingRangeCount ||
+                    isLoadingFrequency ||
+                    isLoadingEpisodes ||
+                    isLoadingReextract ||
+                    isLoadingQuality
+                  }
+                />
+              </div>
+            )}
           </div>
         </>
       ) : (
@@ -1,4 +1,6 @@
-import type { Station } from '@/types';
+import type { Station, StationMatchedPoint } from '@/types';
+
+import type { MonthlyFrequencyPoint, PeakDistributionPoint } from './types';
 
 export function normalizeText(value: string | null | undefined): string {
   return (value ?? "").trim().toLowerCase();
@@ -13,4 +15,30 @@ export function stationDisplayName(station: Station): string {
   );
 }
 
+export function buildMonthlyFrequency(points: StationMatchedPoint[]): MonthlyFrequencyPoint[] {
+  const monthCounts = Array.from({ length: 12 }, (_, monthIndex) => ({
+    month: monthIndex + 1,
+    count: 0,
+  }));
+
+  for (const item of points) {
+    const timestamp = Date.parse(item.peak_time);
+    if (!Number.isFinite(timestamp)) {
+      continue;
+    }
+    const month = new Date(timestamp).getMonth();
+    monthCounts[month].count += 1;
+  }
 
+  return monthCounts;
+}
+
+export function buildPeakDistribution(points: StationMatchedPoint[]): PeakDistributionPoint[] {
+  return points
+    .filter((item) => Number.isFinite(item.peak_value))
+    .sort((a, b) => b.peak_value - a.peak_value)
+    .map((item, index) => ({
+      rank: index + 1,
+      peak_value: item.peak_value,
+    }));
+}
@@ -1,4 +1,6 @@
-export type ActiveTab = 'basin' | 'station' | null;
+import type { Station, StationEventSummary, StationMatchedPoint } from '@/types';
+
+export type ActiveTab = 'basin' | 'station' | 'compare' | null;
 
 export type BasinTabData = {
   basinName: string;
@@ -24,3 +26,33 @@ export type PeakDistributionPoint = {
   rank: number;
   peak_value: number;
 };
+
+export type ComparisonView = 'timeline' | 'seasonal' | 'exceedance';
+
+export type ExceedancePoint = {
+  /** Empirical exceedance probability rank / (n + 1), so stations with different event counts share an axis */
+  probability: number;
+  peak_value: number;
+};
+
+export type ComparisonSeries = {
+  station: Station;
+  color: string;
+  summary: StationEventSummary | null;
+  points: StationMatchedPoint[];
+  monthlyFrequency: MonthlyFrequencyPoint[];
+  exceedance: ExceedancePoint[];
+};
+
+export type StationMetric = 'eventCount' | 'maxPeakValue' | 'avgRiseTime' | 'eventsPerYear';
+
+export type ChoroplethStyle = {
+  color: string;
+  /** Multiplier applied to the zoom-dependent marker radius */
+  scale: number;
+};
+
+export type ChoroplethLegendItem = {
+  color: string;
+  label: string;
+};
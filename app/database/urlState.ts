@@ -0,0 +1,84 @@
+import type { ActiveTab } from './types';
+
+// 作用：/database 页面的 URL 查询参数读写，让选中的流域/测站、当前 tab、图表预设、日期范围和地图视角可以通过链接分享。
+// 输入：window.location.search；写入时传入要更新的参数（null 表示删除）。
+// 输出：readMapUrlState 返回解析并校验过的状态；writeUrlParams 无返回值，副作用是 history.replaceState。
+// 为什么这样写：用 replaceState 而不是 router.push，地图拖动和切换 tab 不会堆出一长串浏览历史，也不会触发页面重新渲染。
+export const URL_PARAMS = {
+  basin: 'basin',
+  station: 'station',
+  tab: 'tab',
+  preset: 'preset',
+  start: 'start',
+  end: 'end',
+  lat: 'lat',
+  lng: 'lng',
+  zoom: 'z',
+  compare: 'compare',
+} as const;
+
+export type UrlParamName = (typeof URL_PARAMS)[keyof typeof URL_PARAMS];
+
+export type MapUrlState = {
+  basin: string | null;
+  station: string | null;
+  tab: ActiveTab;
+  /** Raw value; validated against chartPresets by useStationEvents */
+  preset: string | null;
+  start: string | null;
+  end: string | null;
+  view: { center: [number, number]; zoom: number } | null;
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const TABS: Exclude<ActiveTab, null>[] = ['basin', 'station', 'compare'];
+
+export function readUrlParams(): URLSearchParams {
+  if (typeof window === 'undefined') {
+    return new URLSearchParams();
+  }
+  return new URLSearchParams(window.location.search);
+}
+
+function readDate(params: URLSearchParams, name: UrlParamName): string | null {
+  const value = params.get(name);
+  return value && DATE_ONLY.test(value) ? value : null;
+}
+
+export function readMapUrlState(): MapUrlState {
+  const params = readUrlParams();
+  const tab = params.get(URL_PARAMS.tab);
+  const lat = Number.parseFloat(params.get(URL_PARAMS.lat) ?? '');
+  const lng = Number.parseFloat(params.get(URL_PARAMS.lng) ?? '');
+  const zoom = Number.parseFloat(params.get(URL_PARAMS.zoom) ?? '');
+
+  return {
+    basin: params.get(URL_PARAMS.basin)?.trim() || null,
+    station: params.get(URL_PARAMS.station)?.trim() || null,
+    tab: TABS.find((item) => item === tab) ?? null,
+    preset: params.get(URL_PARAMS.preset),
+    start: readDate(params, URL_PARAMS.start),
+    end: readDate(params, URL_PARAMS.end),
+    view:
+      Number.isFinite(lat) && Number.isFinite(lng) && Number.isFinite(zoom)
+        ? { center: [lat, lng], zoom }
+        : null,
+  };
+}
+
+export function writeUrlParams(updates: Partial<Record<UrlParamName, string | null>>) {
+  const params = readUrlParams();
+  for (const [name, value] of Object.entries(updates)) {
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+  }
+
+  const query = params.toString();
+  const next = `${window.location.pathname}${query ? `?${query}` : ''}`;
+  if (next !== `${window.location.pathname}${window.location.search}`) {
+    window.history.replaceState(null, '', next);
+  }
+}
@@ -1,8 +1,10 @@
 'use client';
 
+import ExportTimeFormatSelect from '@/components/hydro/ui/ExportTimeFormatSelect';
 import StepCleanResult from '@/components/hydro/wizard/StepCleanResult';
 import StepConfirm from '@/components/hydro/wizard/StepConfirm';
 import StepDetrend from '@/components/hydro/wizard/StepDetrend';
+import StepExtract from '@/components/hydro/wizard/StepExtract';
 import StepUpload from '@/components/hydro/wizard/StepUpload';
 import { useWizardStore } from '@/lib/hydro/context';
 
@@ -14,8 +16,9 @@ export default function PrepPage() {
       <div className="mx-auto flex w-full max-w-4xl flex-col">
         {/* 顶部进度条 */}
         <div className="pt-4 pb-8">
-          <div className="mb-4">
+          <div className="mb-4 flex items-center justify-between">
             <h1 className="text-2xl font-bold text-slate-800">Data Prep for Extraction</h1>
+            {currentStep >= 3 && <ExportTimeFormatSelect />}
           </div>
           <div className="h-2 w-full overflow-hidden rounded-full bg-slate-200">
             <div
@@ -26,10 +29,12 @@ export default function PrepPage() {
                     ? 'bg-blue-400'
                     : currentStep === 3
                       ? 'bg-blue-500'
-                      : 'bg-blue-600'
+                      : currentStep === 4
+                        ? 'bg-blue-600'
+                        : 'bg-blue-700'
               }`}
               style={{
-                width: `${currentStep <= 1 ? 1 : ((currentStep - 1) / 3) * 100}%`,
+                width: `${currentStep <= 1 ? 1 : ((currentStep - 1) / 4) * 100}%`,
               }}
             />
           </div>
@@ -40,6 +45,7 @@ export default function PrepPage() {
           {currentStep === 2 && <StepConfirm />}
           {currentStep === 3 && <StepCleanResult />}
           {currentStep === 4 && <StepDetrend />}
+          {currentStep === 5 && <StepExtract />}
         </div>
       </div>
     </div>
@@ -0,0 +1,29 @@
+'use client';
+
+import { useWizardDispatch, useWizardStore } from '@/lib/hydro/context';
+import type { TimestampFormat } from '@/lib/hydro/types';
+
+export default function ExportTimeFormatSelect() {
+  const dispatch = useWizardDispatch();
+  const exportTimeFormat = useWizardStore((state) => state.exportTimeFormat);
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-500">
+      CSV timestamps
+      <select
+        value={exportTimeFormat}
+        onChange={(event) =>
+          dispatch({
+            type: 'SET_EXPORT_TIME_FORMAT',
+            payload: event.target.value as TimestampFormat,
+          })
+        }
+        className="rounded-md border border-gray-300 bg-white px-2 py-1 text-xs text-gray-700"
+      >
+        <option value="jst">JST (YYYY-MM-DD HH:MM)</option>
+        <option value="utc">UTC (ISO-8601, Z)</option>
+        <option value="iso">ISO-8601 with +09:00</option>
+      </select>
+    </label>
+  );
+}
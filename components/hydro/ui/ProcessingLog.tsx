@@ -0,0 +1,18 @@
+'use client';
+
+interface ProcessingLogProps {
+  lines: string[];
+}
+
+export default function ProcessingLog({ lines }: ProcessingLogProps) {
+  return (
+    <details className="mx-5 mt-4 rounded-lg border border-gray-200 bg-gray-50 text-xs text-gray-600">
+      <summary className="cursor-pointer px-3 py-2 font-medium select-none">
+        Processing log ({lines.length.toLocaleString()} lines)
+      </summary>
+      <pre className="max-h-48 overflow-auto border-t border-gray-200 px-3 py-2 font-mono whitespace-pre-wrap">
+        {lines.join('\n')}
+      </pre>
+    </details>
+  );
+}
@@ -3,14 +3,16 @@
 import { useState } from 'react';
 
 import { useWizardDispatch, useWizardStore } from '@/lib/hydro/context';
+import { jstDate, jstParts } from '@/lib/hydro/utils/jst';
 
 function toMonthValue(d: Date): string {
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+  const { year, month } = jstParts(d);
+  return `${year}-${String(month).padStart(2, '0')}`;
 }
 
 function fromMonthValue(s: string): Date {
   const [y, m] = s.split('-').map(Number);
-  return new Date(y, m - 1, 1);
+  return jstDate(y, m, 1);
 }
 
 export default function TimeRangePicker() {
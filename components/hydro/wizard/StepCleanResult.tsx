@@ -3,11 +3,25 @@
 import { Check, Download, Loader2 } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
+import ProcessingLog from '@/components/hydro/ui/ProcessingLog';
 import StationHeader from '@/components/hydro/ui/StationHeader';
-import { cleanFiles } from '@/lib/hydro/cleaner/cleanPipeline';
+import {
+  MAX_INTERPOLATION_GAP_HOURS,
+  MIN_INTERPOLATION_GAP_HOURS,
+} from '@/lib/hydro/cleaner/interpolate';
+import { preprocessRecords } from '@/lib/hydro/cleaner/preprocess';
+import { formatResolution, RESAMPLE_TARGETS } from '@/lib/hydro/cleaner/resolution';
 import { useWizardDispatch, useWizardStore } from '@/lib/hydro/context';
 import { downloadCleanedCsv } from '@/lib/hydro/export/csvExporter';
-import { formatYearMonth } from '@/lib/hydro/utils/formatDate';
+import { SUPPORTED_FILE_RE } from '@/lib/hydro/parser/registry';
+import type {
+  HydroRecord,
+  InterpolationConfig,
+  ResampleConfig,
+  ResampleMethod,
+} from '@/lib/hydro/types';
+import { formatDateTime, formatYearMonth } from '@/lib/hydro/utils/formatDate';
+import { cleanFilesInWorker, PipelineCancelledError } from '@/lib/hydro/worker/pipelineClient';
 
 function StatCard({
   label,
@@ -40,18 +54,181 @@ function ProgressBar({ value }: { value: number }) {
   );
 }
 
+function formatGapHours(hours: number): string {
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${Math.round(hours)} hrs`;
+}
+
+function PreprocessPanel({
+  cleanedData,
+  resolutionMinutes,
+  onApply,
+}: {
+  cleanedData: HydroRecord[];
+  resolutionMinutes: number;
+  onApply: (resample: ResampleConfig, interpolation: InterpolationConfig) => void;
+}) {
+  const resample = useWizardStore((state) => state.resample);
+  const interpolation = useWizardStore((state) => state.interpolation);
+  const interpolationStats = useWizardStore((state) => state.interpolationStats);
+  const [targetMinutes, setTargetMinutes] = useState(resample.targetMinutes);
+  const [method, setMethod] = useState<ResampleMethod>(resample.method);
+  const [enabled, setEnabled] = useState(interpolation.enabled);
+  const [maxGapHours, setMaxGapHours] = useState(interpolation.maxGapHours);
+
+  const targets = RESAMPLE_TARGETS.filter(
+    (minutes) => minutes > resolutionMinutes && minutes % resolutionMinutes === 0,
+  );
+  const clampedHours = Math.min(
+    MAX_INTERPOLATION_GAP_HOURS,
+    Math.max(MIN_INTERPOLATION_GAP_HOURS, Math.round(maxGapHours) || MIN_INTERPOLATION_GAP_HOURS),
+  );
+  const isChanged =
+    targetMinutes !== resample.targetMinutes ||
+    (targetMinutes !== null && method !== resample.method) ||
+    enabled !== interpolation.enabled ||
+    (enabled && clampedHours !== interpolation.maxGapHours);
+  const longestGaps = interpolationStats
+    ? [...interpolationStats.gaps].sort((a, b) => b.hours - a.hours).slice(0, 5)
+    : [];
+
+  return (
+    <div className="mx-5 mt-4 space-y-3 rounded-lg border border-gray-200 bg-white p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 font-medium text-gray-700">
+          Resample
+          <select
+            value={targetMinutes ?? ''}
+            onChange={(event) =>
+              setTargetMinutes(event.target.value === '' ? null : Number(event.target.value))
+            }
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm font-normal"
+          >
+            <option value="">Native ({formatResolution(resolutionMinutes)})</option>
+            {targets.map((minutes) => (
+              <option
+                key={minutes}
+                value={minutes}
+              >
+                {formatResolution(minutes)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          using
+          <select
+            value={method}
+            disabled={targetMinutes === null}
+            onChange={(event) => setMethod(event.target.value as ResampleMethod)}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm disabled:opacity-50"
+          >
+            <option value="mean">mean</option>
+            <option value="max">max</option>
+            <option value="last">last</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          Fill short gaps by linear interpolation
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          up to
+          <input
+            type="number"
+            min={MIN_INTERPOLATION_GAP_HOURS}
+            max={MAX_INTERPOLATION_GAP_HOURS}
+            value={maxGapHours}
+            disabled={!enabled}
+            onChange={(event) => setMaxGapHours(Number(event.target.value))}
+            className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm disabled:opacity-50"
+          />
+          hrs
+        </label>
+        <button
+          onClick={() => {
+            setMaxGapHours(clampedHours);
+            onApply({ targetMinutes, method }, { enabled, maxGapHours: clampedHours });
+          }}
+          disabled={!isChanged || cleanedData.length === 0}
+          className="ml-auto rounded-md bg-blue-600 px-4 py-1.5 text-xs font-medium text-white shadow transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Apply
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Buckets are labelled by their end time. Gaps are measured between the valid readings around
+        them and filled after resampling; longer gaps stay empty and are skipped by detrending and
+        event extraction.
+      </p>
+
+      {interpolationStats && (
+        <div className="border-t border-gray-100 pt-3 text-xs text-gray-600">
+          <p>
+            Filled{' '}
+            <strong className="text-gray-900">
+              {interpolationStats.filledGaps.toLocaleString()}
+            </strong>{' '}
+            gaps ({interpolationStats.filledRows.toLocaleString()} rows) ·{' '}
+            <strong className="text-gray-900">
+              {interpolationStats.gaps.length.toLocaleString()}
+            </strong>{' '}
+            gaps left unfilled
+          </p>
+          {longestGaps.length > 0 && (
+            <ul className="mt-2 space-y-0.5 font-mono text-gray-500">
+              {longestGaps.map((gap) => (
+                <li key={gap.start.getTime()}>
+                  {formatDateTime(gap.start)} → {formatDateTime(gap.end)} (
+                  {formatGapHours(gap.hours)}, {gap.missingRows.toLocaleString()} rows)
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function StepCleanResult() {
   const dispatch = useWizardDispatch();
   const stationId = useWizardStore((state) => state.stationId);
   const uploadedFiles = useWizardStore((state) => state.uploadedFiles);
+  const rawFormat = useWizardStore((state) => state.rawFormat);
   const selectedRange = useWizardStore((state) => state.selectedRange);
   const cleanedData = useWizardStore((state) => state.cleanedData);
   const cleanStats = useWizardStore((state) => state.cleanStats);
+  const resample = useWizardStore((state) => state.resample);
+  const interpolation = useWizardStore((state) => state.interpolation);
+  const preparedData = useWizardStore((state) => state.preparedData);
+  const exportTimeFormat = useWizardStore((state) => state.exportTimeFormat);
+  const progress = useWizardStore((state) => state.processingProgress);
+  const processingLog = useWizardStore((state) => state.processingLog);
 
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [isCancelled, setIsCancelled] = useState(false);
   const hasRun = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const applyPreprocessing = useCallback(
+    (records: HydroRecord[], resampleConfig: ResampleConfig, config: InterpolationConfig) => {
+      const result = preprocessRecords(records, resampleConfig, config);
+      dispatch({
+        type: 'SET_PREPROCESSING',
+        payload: { resample: resampleConfig, interpolation: config, ...result },
+      });
+    },
+    [dispatch],
+  );
 
   const runClean = useCallback(async () => {
     if (hasRun.current) return;
@@ -63,24 +240,47 @@ export default function StepCleanResult() {
     }
 
     setIsProcessing(true);
-    setProgress(0);
+    setIsCancelled(false);
     setError(null);
+    dispatch({ type: 'CLEAR_PROCESSING_LOG' });
 
-    const targetFiles = uploadedFiles.filter((f) => /\.(txt|tst)$/i.test(f.name));
+    const targetFiles = uploadedFiles.filter((f) => SUPPORTED_FILE_RE.test(f.name));
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const result = await cleanFiles(targetFiles, selectedRange, (pct) => {
-        setProgress(pct);
+      const result = await cleanFilesInWorker(targetFiles, selectedRange, rawFormat, {
+        signal: controller.signal,
+        onProgress: (pct) => dispatch({ type: 'SET_PROCESSING_PROGRESS', payload: pct }),
+        onLog: (lines) => dispatch({ type: 'APPEND_PROCESSING_LOG', payload: lines }),
       });
 
       dispatch({ type: 'SET_CLEANED_DATA', payload: result.records });
       dispatch({ type: 'SET_CLEAN_STATS', payload: result.stats });
+      if (resample.targetMinutes !== null || interpolation.enabled) {
+        applyPreprocessing(result.records, resample, interpolation);
+      }
     } catch (e) {
-      setError(`Cleaning failed: ${String(e)}`);
+      if (e instanceof PipelineCancelledError) {
+        setIsCancelled(true);
+        // Allow a manual restart after cancelling
+        hasRun.current = false;
+      } else {
+        setError(`Cleaning failed: ${String(e)}`);
+      }
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
     }
-  }, [selectedRange, uploadedFiles, dispatch]);
+  }, [
+    selectedRange,
+    uploadedFiles,
+    rawFormat,
+    resample,
+    interpolation,
+    applyPreprocessing,
+    dispatch,
+  ]);
 
   useEffect(() => {
     if (cleanStats === null) {
@@ -106,9 +306,17 @@ export default function StepCleanResult() {
           <div className="space-y-3 bg-linear-to-b from-blue-50 to-white p-5">
             {isProcessing ? (
               <>
-                <div className="flex items-center gap-2 text-sm font-medium text-blue-700">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Cleaning data...
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm font-medium text-blue-700">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Cleaning data...
+                  </div>
+                  <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="rounded-md border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-600 transition hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
                 </div>
                 <ProgressBar value={progress} />
                 <p className="text-right text-xs text-blue-500">{progress}%</p>
@@ -134,6 +342,7 @@ export default function StepCleanResult() {
                 <StatCard
                   label="Total Rows"
                   value={cleanStats.totalRows.toLocaleString()}
+                  sub={`${formatResolution(cleanStats.resolutionMinutes)} steps`}
                   color="text-gray-900"
                 />
                 <StatCard
@@ -179,6 +388,30 @@ export default function StepCleanResult() {
         </div>
       )}
 
+      {isCancelled && !isProcessing && (
+        <div className="flex items-center justify-between rounded-xl border border-amber-100 bg-amber-50 p-4 text-sm text-amber-700">
+          Cleaning was cancelled.
+          <button
+            onClick={() => void runClean()}
+            className="rounded-md bg-blue-600 px-4 py-1.5 text-xs font-medium text-white shadow transition hover:bg-blue-700"
+          >
+            Restart
+          </button>
+        </div>
+      )}
+
+      {!isProcessing && cleanStats && (
+        <PreprocessPanel
+          cleanedData={cleanedData}
+          resolutionMinutes={cleanStats.resolutionMinutes}
+          onApply={(resampleConfig, config) =>
+            applyPreprocessing(cleanedData, resampleConfig, config)
+          }
+        />
+      )}
+
+      {processingLog.length > 0 && <ProcessingLog lines={processingLog} />}
+
       {/* Detrend explanation */}
       <div className="px-5 pt-5">
         <h4 className="mb-2 text-sm font-bold text-slate-700">Why detrend?</h4>
@@ -196,7 +429,12 @@ export default function StepCleanResult() {
               <button
                 onClick={() => {
                   if (cleanedData.length > 0 && selectedRange) {
-                    downloadCleanedCsv(cleanedData, stationId, selectedRange);
+                    downloadCleanedCsv(
+                      preparedData ?? cleanedData,
+                      stationId,
+                      selectedRange,
+                      exportTimeFormat,
+                    );
                   }
                 }}
                 disabled={cleanedData.length === 0}
@@ -221,7 +459,7 @@ export default function StepCleanResult() {
         </div>
       )}
 
-      {!isProcessing && !cleanStats && !error && (
+      {!isProcessing && !cleanStats && !error && !isCancelled && (
         <div className="flex h-64 items-center justify-center text-sm text-gray-400">
           Initializing...
         </div>
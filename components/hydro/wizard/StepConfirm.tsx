@@ -5,6 +5,7 @@ import { useState } from 'react';
 import StationHeader from '@/components/hydro/ui/StationHeader';
 import TimeRangePicker from '@/components/hydro/ui/TimeRangePicker';
 import { useWizardDispatch, useWizardStore } from '@/lib/hydro/context';
+import { getRawFormatParser } from '@/lib/hydro/parser/registry';
 
 const formatter = new Intl.DateTimeFormat('en-US', { month: 'short', year: 'numeric' });
 function formatMonthEN(d: Date) {
@@ -21,6 +22,9 @@ export default function StepConfirm() {
 
   const validFiles = scannedFiles.filter((f) => f.parseError === null);
   const errorFiles = scannedFiles.filter((f) => f.parseError !== null);
+  const formatLabels = [
+    ...new Set(validFiles.flatMap((f) => (f.format ? [getRawFormatParser(f.format).label] : []))),
+  ];
 
   const targetRange = selectedRange || dateRange;
   const rangeText = targetRange
@@ -42,6 +46,13 @@ export default function StepConfirm() {
             <strong className="font-semibold">{validFiles.length}</strong> available
           </span>
 
+          {formatLabels.length > 0 && (
+            <>
+              <span className="text-gray-300">·</span>
+              <span className="text-gray-600">{formatLabels.join(', ')}</span>
+            </>
+          )}
+
           {errorFiles.length > 0 && (
             <>
               <span className="text-gray-300">·</span>
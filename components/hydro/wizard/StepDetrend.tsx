@@ -1,19 +1,25 @@
 'use client';
 
-import { CheckCircle2, Download, Loader2 } from 'lucide-react';
-import { useState } from 'react';
+import { CheckCircle2, Download, FileText, Loader2 } from 'lucide-react';
+import { useMemo, useRef, useState } from 'react';
 
+import ProcessingLog from '@/components/hydro/ui/ProcessingLog';
 import StationHeader from '@/components/hydro/ui/StationHeader';
+import { detectResolutionMinutes, formatResolution } from '@/lib/hydro/cleaner/resolution';
 import { useWizardDispatch, useWizardStore } from '@/lib/hydro/context';
-import { applyDetrend, getDetrendWindowSize } from '@/lib/hydro/detrend/rollingMedian';
+import { getDetrendWindowSize } from '@/lib/hydro/detrend/rollingMedian';
 import { getDataSpanMonths, suggestDetrendStrategy } from '@/lib/hydro/detrend/strategy';
 import { downloadDetrendedCsv } from '@/lib/hydro/export/csvExporter';
+import { downloadProcessingLog } from '@/lib/hydro/export/logExporter';
+import type { DetrendStrategy } from '@/lib/hydro/types';
 import { formatYearMonth } from '@/lib/hydro/utils/formatDate';
+import { detrendInWorker, PipelineCancelledError } from '@/lib/hydro/worker/pipelineClient';
 
-const STRATEGY_LABEL: Record<'skip' | 'local' | 'full', string> = {
+const STRATEGY_LABEL: Record<DetrendStrategy, string> = {
   skip: 'Skip',
   local: 'Local',
   full: 'Full',
+  'yearly-mean': 'Yearly Mean',
 };
 
 export default function StepDetrend() {
@@ -21,38 +27,73 @@ export default function StepDetrend() {
   const stationId = useWizardStore((state) => state.stationId);
   const selectedRange = useWizardStore((state) => state.selectedRange);
   const cleanedData = useWizardStore((state) => state.cleanedData);
+  const cleanStats = useWizardStore((state) => state.cleanStats);
+  const resample = useWizardStore((state) => state.resample);
+  const interpolation = useWizardStore((state) => state.interpolation);
+  const preparedData = useWizardStore((state) => state.preparedData);
+  const interpolationStats = useWizardStore((state) => state.interpolationStats);
   const detrendStrategy = useWizardStore((state) => state.detrendStrategy);
   const detrendedData = useWizardStore((state) => state.detrendedData);
+  const exportTimeFormat = useWizardStore((state) => state.exportTimeFormat);
+  const progress = useWizardStore((state) => state.processingProgress);
+  const processingLog = useWizardStore((state) => state.processingLog);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [lastProcessedStrategy, setLastProcessedStrategy] = useState<
-    'skip' | 'local' | 'full' | null
-  >(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [lastProcessedStrategy, setLastProcessedStrategy] = useState<DetrendStrategy | null>(null);
+  // Resampled / gap-filled series when those stages were applied in step 3, else the cleaned one
+  const sourceData = preparedData ?? cleanedData;
+  const resolutionMinutes = useMemo(() => detectResolutionMinutes(sourceData), [sourceData]);
 
-  const dataSpanMonths = getDataSpanMonths(cleanedData);
+  const dataSpanMonths = getDataSpanMonths(sourceData);
   const suggestion = suggestDetrendStrategy(dataSpanMonths);
 
-  const [dropdownStrategy, setDropdownStrategy] = useState<'skip' | 'local' | 'full'>(
-    suggestion.strategy,
-  );
+  const [dropdownStrategy, setDropdownStrategy] = useState<DetrendStrategy>(suggestion.strategy);
 
-  const appliedWindowSize = getDetrendWindowSize(cleanedData, detrendStrategy);
+  const appliedWindowSize = useMemo(
+    () => getDetrendWindowSize(sourceData, detrendStrategy),
+    [sourceData, detrendStrategy],
+  );
+  const windowLabel =
+    `${formatResolution(appliedWindowSize * resolutionMinutes)} ` +
+    `(${appliedWindowSize.toLocaleString()} samples)`;
+  const alignedYears = useMemo(() => {
+    if (detrendStrategy !== 'yearly-mean') return 0;
+    const years = new Set<number>();
+    for (const record of detrendedData) {
+      if (record.baseline !== null) years.add(record.year);
+    }
+    return years.size;
+  }, [detrendStrategy, detrendedData]);
   const detrendedCount = detrendedData.filter((record) => record.detrended !== null).length;
 
   const isStrategyChanged =
     lastProcessedStrategy === null || lastProcessedStrategy !== dropdownStrategy;
 
   const handleStartProcess = async () => {
-    if (cleanedData.length === 0) return;
+    if (sourceData.length === 0) return;
     setIsProcessing(true);
+    dispatch({ type: 'CLEAR_PROCESSING_LOG' });
 
-    // Yield to let React paint the loading state before heavy computation
-    await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    dispatch({ type: 'SET_DETREND_STRATEGY', payload: dropdownStrategy });
-    const result = applyDetrend(cleanedData, dropdownStrategy);
-    dispatch({ type: 'SET_DETRENDED_DATA', payload: result.records });
-    setLastProcessedStrategy(dropdownStrategy);
-    setIsProcessing(false);
+    try {
+      const result = await detrendInWorker(sourceData, dropdownStrategy, {
+        signal: controller.signal,
+        onProgress: (pct) => dispatch({ type: 'SET_PROCESSING_PROGRESS', payload: pct }),
+        onLog: (lines) => dispatch({ type: 'APPEND_PROCESSING_LOG', payload: lines }),
+      });
+      dispatch({ type: 'SET_DETREND_STRATEGY', payload: dropdownStrategy });
+      dispatch({ type: 'SET_DETRENDED_DATA', payload: result.records });
+      setLastProcessedStrategy(dropdownStrategy);
+    } catch (e) {
+      const line =
+        e instanceof PipelineCancelledError ? 'Detrend cancelled' : `Detrend failed: ${String(e)}`;
+      dispatch({ type: 'APPEND_PROCESSING_LOG', payload: [line] });
+    } finally {
+      abortRef.current = null;
+      setIsProcessing(false);
+    }
   };
 
   return (
@@ -99,13 +140,16 @@ export default function StepDetrend() {
                 id="detrend-strategy"
                 value={dropdownStrategy}
                 onChange={(event) => {
-                  setDropdownStrategy(event.target.value as 'skip' | 'local' | 'full');
+                  setDropdownStrategy(event.target.value as DetrendStrategy);
                 }}
                 className="mt-2 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 transition outline-none focus:border-blue-500"
               >
                 <option value="skip">Skip — no baseline correction applied</option>
                 <option value="local">Local — removes seasonal background variation</option>
                 <option value="full">Full — removes multi-year background drift</option>
+                <option value="yearly-mean">
+                  Yearly Mean — aligns each calendar year to a common reference
+                </option>
               </select>
             </div>
 
@@ -119,8 +163,17 @@ export default function StepDetrend() {
               }`}
             >
               {isProcessing && <Loader2 className="h-4 w-4 animate-spin text-white" />}
-              {isProcessing ? 'Processing...' : isStrategyChanged ? 'Run' : 'Rerun'}
+              {isProcessing ? `Processing... ${progress}%` : isStrategyChanged ? 'Run' : 'Rerun'}
             </button>
+
+            {isProcessing && (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="flex h-[42px] w-full items-center justify-center rounded-lg border border-gray-300 bg-white px-6 font-medium text-gray-700 transition hover:bg-gray-50 sm:w-auto"
+              >
+                Cancel
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -135,12 +188,18 @@ export default function StepDetrend() {
             </strong>
           </span>
           <span className="h-4 w-px bg-gray-300"></span>
-          <span>
-            Baseline window:{' '}
-            <strong className="font-semibold text-gray-900">
-              {appliedWindowSize > 0 ? appliedWindowSize.toLocaleString() : 'SKIP'}
-            </strong>
-          </span>
+          {detrendStrategy === 'yearly-mean' ? (
+            <span>
+              Aligned years: <strong className="font-semibold text-gray-900">{alignedYears}</strong>
+            </span>
+          ) : (
+            <span>
+              Baseline window:{' '}
+              <strong className="font-semibold text-gray-900">
+                {appliedWindowSize > 0 ? windowLabel : 'SKIP'}
+              </strong>
+            </span>
+          )}
           <span className="h-4 w-px bg-gray-300"></span>
           <span>
             Processed points:{' '}
@@ -151,6 +210,8 @@ export default function StepDetrend() {
         </div>
       )}
 
+      {processingLog.length > 0 && <ProcessingLog lines={processingLog} />}
+
       <div className="mt-8 flex justify-center pb-5">
         <div className="flex gap-3 text-sm font-medium">
           <button
@@ -163,14 +224,45 @@ export default function StepDetrend() {
           <button
             onClick={() => {
               if (selectedRange && detrendedData.length > 0) {
-                downloadDetrendedCsv(detrendedData, stationId, selectedRange);
+                downloadDetrendedCsv(detrendedData, stationId, selectedRange, exportTimeFormat);
               }
             }}
             disabled={!selectedRange || detrendedData.length === 0}
-            className="flex h-10 items-center justify-center gap-2 rounded-md bg-blue-600 px-5 font-medium text-white shadow-md transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-40"
+            className="flex h-10 w-12 items-center justify-center rounded-md border border-gray-300 bg-white text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-40"
           >
             <Download className="h-4 w-4" />
           </button>
+
+          <button
+            onClick={() =>
+              downloadProcessingLog({
+                stationId,
+                selectedRange,
+                cleanStats,
+                resample,
+                interpolation,
+                interpolationStats,
+                strategy: detrendStrategy,
+                windowSize: appliedWindowSize,
+                alignedYears,
+                sourceCount: sourceData.length,
+                detrendedData,
+              })
+            }
+            disabled={detrendedData.length === 0}
+            aria-label="Download processing log"
+            className="flex h-10 w-12 items-center justify-center rounded-md border border-gray-300 bg-white text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            <FileText className="h-4 w-4" />
+          </button>
+
+          <button
+            onClick={() => dispatch({ type: 'SET_STEP', payload: 5 })}
+            disabled={detrendedData.length === 0}
+            className="flex h-10 items-center justify-center rounded-md bg-blue-600 px-8 font-medium text-white shadow-md transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Extract
+          </button>
         </div>
       </div>
     </div>
@@ -0,0 +1,419 @@
+'use client';
+
+import { CheckCircle2, Download, Loader2, Upload } from 'lucide-react';
+import { useState } from 'react';
+
+import StationHeader from '@/components/hydro/ui/StationHeader';
+import { useWizardDispatch, useWizardStore } from '@/lib/hydro/context';
+import { downloadEventsCsv } from '@/lib/hydro/export/csvExporter';
+import { extractEvents } from '@/lib/hydro/extract/eventExtractor';
+import type { FloodEvent, HydroRecord } from '@/lib/hydro/types';
+import { uploadStationQuality } from '@/lib/hydro/upload/qualityUploader';
+import { uploadStationRecords } from '@/lib/hydro/upload/recordUploader';
+import { uploadStationSeries } from '@/lib/hydro/upload/seriesUploader';
+import { formatTimestamp, formatYearMonth } from '@/lib/hydro/utils/formatDate';
+import type {
+  StationQualityUploadResponse,
+  StationRecordsUploadResponse,
+  StationSeriesUploadResponse,
+} from '@/types';
+
+const PREVIEW_ROWS = 50;
+
+/** Events, coverage and series are separate requests; each one can fail on its own */
+type UploadStage = 'records' | 'quality' | 'series';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatLevel(value: number | null): string {
+  return value !== null ? value.toFixed(2) : '-';
+}
+
+function formatHours(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function RecordUploadCard({
+  stationId,
+  events,
+  series,
+  range,
+}: {
+  stationId: string;
+  events: FloodEvent[];
+  series: HydroRecord[];
+  range: { start: Date; end: Date };
+}) {
+  const [secret, setSecret] = useState('');
+  const [includeSeries, setIncludeSeries] = useState(true);
+  const [pending, setPending] = useState<'preview' | 'upload' | null>(null);
+  const [result, setResult] = useState<StationRecordsUploadResponse | null>(null);
+  const [seriesResult, setSeriesResult] = useState<StationSeriesUploadResponse | null>(null);
+  const [seriesProgress, setSeriesProgress] = useState<number | null>(null);
+  const [qualityResult, setQualityResult] = useState<StationQualityUploadResponse | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<UploadStage, string>>>({});
+
+  // Events are written first; a later stage failing must not hide that they were saved.
+  const run = async (dryRun: boolean) => {
+    setPending(dryRun ? 'preview' : 'upload');
+    setErrors({});
+    setResult(null);
+    setSeriesResult(null);
+    setQualityResult(null);
+    const fail = (stage: UploadStage, e: unknown) =>
+      setErrors((prev) => ({ ...prev, [stage]: errorMessage(e) }));
+
+    try {
+      try {
+        setResult(await uploadStationRecords({ stationId, events, range, secret, dryRun }));
+      } catch (e) {
+        fail('records', e);
+        return;
+      }
+      if (dryRun || series.length === 0) return;
+
+      // Coverage goes up with every real upload so event counts can be read against it.
+      try {
+        setQualityResult(await uploadStationQuality({ stationId, records: series, range, secret }));
+      } catch (e) {
+        fail('quality', e);
+      }
+      if (includeSeries) {
+        setSeriesProgress(0);
+        try {
+          setSeriesResult(
+            await uploadStationSeries({
+              stationId,
+              records: series,
+              range,
+              secret,
+              onProgress: setSeriesProgress,
+            }),
+          );
+        } catch (e) {
+          fail('series', e);
+        }
+      }
+    } finally {
+      setPending(null);
+      setSeriesProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-xl border border-blue-100 bg-white p-5 shadow-sm">
+      <p className="text-xs font-semibold tracking-wider text-blue-700 uppercase">
+        Upload to Database
+      </p>
+      <p className="mt-2 text-sm text-gray-600">
+        Replaces this station&apos;s events whose peak falls in the selected range. Preview first to
+        see what changes.
+      </p>
+      <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+        <div className="flex-1">
+          <label
+            htmlFor="upload-secret"
+            className="text-sm font-medium text-gray-700"
+          >
+            Upload key
+          </label>
+          <input
+            id="upload-secret"
+            type="password"
+            autoComplete="off"
+            value={secret}
+            onChange={(event) => setSecret(event.target.value)}
+            className="mt-2 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 transition outline-none focus:border-blue-500"
+          />
+        </div>
+        <button
+          onClick={() => void run(true)}
+          disabled={!secret || pending !== null}
+          className="flex h-[42px] items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-6 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {pending === 'preview' && <Loader2 className="h-4 w-4 animate-spin" />}
+          Preview
+        </button>
+        <button
+          onClick={() => void run(false)}
+          disabled={!secret || pending !== null}
+          className="flex h-[42px] items-center justify-center gap-2 rounded-lg bg-blue-600 px-6 text-sm font-medium text-white shadow-md transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {pending === 'upload' ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4" />
+          )}
+          Upload
+        </button>
+      </div>
+      <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={includeSeries}
+          disabled={series.length === 0}
+          onChange={(event) => setIncludeSeries(event.target.checked)}
+          className="h-4 w-4 rounded border-gray-300 text-blue-600"
+        />
+        Also upload the cleaned series ({series.length.toLocaleString()} readings) for the
+        hydrograph viewer
+      </label>
+
+      {errors.records && <p className="mt-3 text-sm text-red-600">{errors.records}</p>}
+      {result?.diff && (
+        <p className="mt-3 text-sm text-gray-600">
+          {result.diff.added.length} added · {result.diff.changed.length} changed ·{' '}
+          {result.diff.removed.length} removed · {result.diff.unchanged} unchanged
+        </p>
+      )}
+      {result && !result.dryRun && (
+        <p className="mt-3 flex items-center gap-1.5 text-sm font-semibold text-emerald-600">
+          <CheckCircle2 className="h-4 w-4" />
+          Uploaded {result.inserted} events ({result.deleted} replaced)
+        </p>
+      )}
+      {qualityResult && (
+        <p className="mt-1 flex items-center gap-1.5 text-sm font-semibold text-emerald-600">
+          <CheckCircle2 className="h-4 w-4" />
+          Updated data coverage for {qualityResult.years} year{qualityResult.years === 1 ? '' : 's'}
+        </p>
+      )}
+      {errors.quality && (
+        <p className="mt-1 text-sm text-red-600">
+          Events were saved, but the coverage upload failed: {errors.quality}
+        </p>
+      )}
+      {seriesProgress !== null && (
+        <p className="mt-1 text-sm text-gray-600">Uploading series… {seriesProgress}%</p>
+      )}
+      {seriesResult && (
+        <p className="mt-1 flex items-center gap-1.5 text-sm font-semibold text-emerald-600">
+          <CheckCircle2 className="h-4 w-4" />
+          Uploaded {seriesResult.inserted.toLocaleString()} readings
+          {` (${seriesResult.deleted.toLocaleString()} replaced)`}
+        </p>
+      )}
+      {errors.series && (
+        <p className="mt-1 text-sm text-red-600">
+          Events were saved, but the series upload failed: {errors.series}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function StepExtract() {
+  const dispatch = useWizardDispatch();
+  const stationId = useWizardStore((state) => state.stationId);
+  const selectedRange = useWizardStore((state) => state.selectedRange);
+  const cleanedData = useWizardStore((state) => state.cleanedData);
+  const detrendedData = useWizardStore((state) => state.detrendedData);
+  const eventThreshold = useWizardStore((state) => state.eventThreshold);
+  const extractedEvents = useWizardStore((state) => state.extractedEvents);
+  const extractStats = useWizardStore((state) => state.extractStats);
+  const exportTimeFormat = useWizardStore((state) => state.exportTimeFormat);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleExtract = async () => {
+    if (detrendedData.length === 0) return;
+    setIsProcessing(true);
+
+    // Yield to let React paint the loading state before heavy computation
+    await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+    const result = extractEvents(detrendedData, { minRise: eventThreshold });
+    dispatch({ type: 'SET_EXTRACTED_EVENTS', payload: result });
+    setIsProcessing(false);
+  };
+
+  return (
+    <div>
+      <StationHeader stationId={stationId}>
+        {selectedRange && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <span>
+              {formatYearMonth(selectedRange.start)} - {formatYearMonth(selectedRange.end)}
+            </span>
+          </div>
+        )}
+      </StationHeader>
+
+      <div className="rounded-xl border border-blue-100 bg-white shadow-sm">
+        <div className="border-b border-blue-100 bg-linear-to-b from-blue-50 to-white p-5">
+          <p className="text-xs font-semibold tracking-wider text-blue-700 uppercase">
+            Extraction Method
+          </p>
+          <p className="mt-3 text-sm text-gray-600">
+            Peaks (plateau left edges included) above P75 of the detrended series; start and end are
+            the nearest P50 crossings on either side. Values are reported on the observed water
+            level.
+          </p>
+        </div>
+
+        <div className="space-y-5 p-5">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+            <div className="flex-1">
+              <label
+                htmlFor="event-threshold"
+                className="text-sm font-medium text-gray-700"
+              >
+                Minimum rise (m, optional)
+              </label>
+              <input
+                id="event-threshold"
+                type="number"
+                min={0}
+                step={0.05}
+                value={eventThreshold}
+                onChange={(event) => {
+                  const next = Number.parseFloat(event.target.value);
+                  dispatch({
+                    type: 'SET_EVENT_THRESHOLD',
+                    payload: Number.isFinite(next) && next >= 0 ? next : 0,
+                  });
+                }}
+                className="mt-2 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 transition outline-none focus:border-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                0 keeps every peak above P75, as the stored events were extracted. A positive value
+                also drops peaks that rise less than this above their start.
+              </p>
+            </div>
+
+            <button
+              onClick={handleExtract}
+              disabled={isProcessing || detrendedData.length === 0}
+              className="flex h-[42px] w-full items-center justify-center gap-2 rounded-lg bg-blue-600 px-8 font-medium text-white shadow-md transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto"
+            >
+              {isProcessing && <Loader2 className="h-4 w-4 animate-spin text-white" />}
+              {isProcessing ? 'Processing...' : extractStats ? 'Rerun' : 'Run'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {extractStats && (
+        <div className="flex flex-wrap items-center gap-4 px-2 pt-4 text-sm text-gray-600">
+          <span className="flex items-center gap-1.5 font-semibold text-emerald-600">
+            <CheckCircle2 className="h-5 w-5 fill-emerald-600 text-white" />
+            Done ·{' '}
+            <strong className="ml-1 text-emerald-700">
+              {extractedEvents.length.toLocaleString()} events
+            </strong>
+          </span>
+          <span className="h-4 w-px bg-gray-300"></span>
+          <span>
+            P75:{' '}
+            <strong className="font-semibold text-gray-900">{formatLevel(extractStats.p75)}</strong>
+          </span>
+          <span>
+            P50:{' '}
+            <strong className="font-semibold text-gray-900">{formatLevel(extractStats.p50)}</strong>
+          </span>
+          <span className="h-4 w-px bg-gray-300"></span>
+          <span>
+            Peaks above P75:{' '}
+            <strong className="font-semibold text-gray-900">
+              {extractStats.peaksAboveP75.toLocaleString()}
+            </strong>
+          </span>
+          <span>
+            Incomplete:{' '}
+            <strong className="font-semibold text-gray-900">
+              {extractStats.incompleteEvents.toLocaleString()}
+            </strong>
+          </span>
+          {extractStats.belowThreshold > 0 && (
+            <span>
+              Below min rise:{' '}
+              <strong className="font-semibold text-gray-900">
+                {extractStats.belowThreshold.toLocaleString()}
+              </strong>
+            </span>
+          )}
+        </div>
+      )}
+
+      {extractedEvents.length > 0 && (
+        <div className="mt-4 overflow-x-auto rounded-xl border border-blue-100 bg-white shadow-sm">
+          <table className="w-full text-left text-xs text-gray-700 tabular-nums">
+            <thead className="bg-blue-50 text-gray-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Start</th>
+                <th className="px-3 py-2 font-medium">Peak</th>
+                <th className="px-3 py-2 font-medium">End</th>
+                <th className="px-3 py-2 text-right font-medium">Peak (m)</th>
+                <th className="px-3 py-2 text-right font-medium">Rise (h)</th>
+                <th className="px-3 py-2 text-right font-medium">Fall (h)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {extractedEvents.slice(0, PREVIEW_ROWS).map((event) => (
+                <tr
+                  key={event.peak_time.getTime()}
+                  className="border-t border-gray-100"
+                >
+                  <td className="px-3 py-1.5">{formatTimestamp(event.start_time)}</td>
+                  <td className="px-3 py-1.5 font-semibold text-gray-900">
+                    {formatTimestamp(event.peak_time)}
+                  </td>
+                  <td className="px-3 py-1.5">{formatTimestamp(event.end_time)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatLevel(event.peak_value)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatHours(event.rise_time)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatHours(event.fall_time)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {extractedEvents.length > PREVIEW_ROWS && (
+            <p className="border-t border-gray-100 px-3 py-2 text-center text-xs text-gray-400">
+              Showing first {PREVIEW_ROWS} of {extractedEvents.length.toLocaleString()} events —
+              download the CSV for the full list
+            </p>
+          )}
+        </div>
+      )}
+
+      {selectedRange && extractedEvents.length > 0 && (
+        <RecordUploadCard
+          stationId={stationId}
+          events={extractedEvents}
+          series={cleanedData}
+          range={selectedRange}
+        />
+      )}
+
+      <div className="mt-8 flex justify-center pb-5">
+        <div className="flex gap-3 text-sm font-medium">
+          <button
+            onClick={() => dispatch({ type: 'SET_STEP', payload: 4 })}
+            className="flex h-10 items-center justify-center rounded-md border border-gray-300 bg-white px-6 text-gray-700 transition hover:bg-gray-50"
+          >
+            Back
+          </button>
+
+          <button
+            onClick={() => dispatch({ type: 'RESET' })}
+            className="flex h-10 items-center justify-center rounded-md border border-gray-300 bg-white px-6 text-gray-700 transition hover:bg-gray-50"
+          >
+            New Station
+          </button>
+
+          <button
+            onClick={() => {
+              if (selectedRange && extractedEvents.length > 0) {
+                downloadEventsCsv(extractedEvents, stationId, selectedRange, exportTimeFormat);
+              }
+            }}
+            disabled={!selectedRange || extractedEvents.length === 0}
+            className="flex h-10 items-center justify-center gap-2 rounded-md bg-blue-600 px-5 font-medium text-white shadow-md transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            <Download className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
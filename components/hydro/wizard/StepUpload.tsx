@@ -4,15 +4,19 @@ import React, { useCallback, useRef, useState } from 'react';
 
 import { useWizardDispatch, useWizardStore } from '@/lib/hydro/context';
 import { getDateRange, scanFiles } from '@/lib/hydro/parser/fileScanner';
+import { RAW_FORMAT_PARSERS, SUPPORTED_FILE_RE } from '@/lib/hydro/parser/registry';
+import type { RawFormatChoice } from '@/lib/hydro/types';
 
 export default function StepUpload() {
   const dispatch = useWizardDispatch();
   const stationId = useWizardStore((state) => state.stationId);
   const uploadedFiles = useWizardStore((state) => state.uploadedFiles);
+  const rawFormat = useWizardStore((state) => state.rawFormat);
   const canUpload = stationId.trim().length > 0;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
 
   /* ─── derived file counts ─── */
   const hasFiles = uploadedFiles.length > 0;
@@ -20,7 +24,7 @@ export default function StepUpload() {
   /* ─── file handling ─── */
   const processFiles = useCallback(
     (files: FileList | File[]) => {
-      const arr = Array.from(files).filter((f) => /\.txt$/i.test(f.name));
+      const arr = Array.from(files).filter((f) => SUPPORTED_FILE_RE.test(f.name));
       if (arr.length === 0) return;
       dispatch({ type: 'SET_UPLOADED_FILES', payload: arr });
     },
@@ -162,7 +166,7 @@ export default function StepUpload() {
         {hasFiles ? (
           <div>
             <p className="text-sm font-semibold text-emerald-700">
-              {uploadedFiles.length} TXT files selected
+              {uploadedFiles.length} data files selected
             </p>
             <p className="mt-2 text-xs text-gray-400">Click or drag to re-select</p>
           </div>
@@ -171,7 +175,9 @@ export default function StepUpload() {
             <p className="text-sm font-medium text-gray-600">
               {isDragOver ? 'Drop to upload folder' : 'Click to select folder or drag here'}
             </p>
-            <p className="mt-1 text-xs text-gray-400">Only .txt files are processed</p>
+            <p className="mt-1 text-xs text-gray-400">
+              .txt, .csv, .tsv and .dat files are processed
+            </p>
           </div>
         )}
 
@@ -204,17 +210,48 @@ export default function StepUpload() {
             placeholder="e.g. 30514200"
           />
         </div>
+        <div className="space-y-2">
+          <label
+            htmlFor="raw-format"
+            className="block text-sm font-medium text-gray-600"
+          >
+            Format :
+          </label>
+          <select
+            id="raw-format"
+            value={rawFormat}
+            onChange={(e) =>
+              dispatch({ type: 'SET_RAW_FORMAT', payload: e.target.value as RawFormatChoice })
+            }
+            className="h-[42px] rounded-md border border-gray-300 bg-white px-3 text-sm text-gray-900 focus:border-blue-400 focus:ring-2 focus:ring-blue-200 focus:outline-none"
+          >
+            <option value="auto">Auto-detect</option>
+            {RAW_FORMAT_PARSERS.map((parser) => (
+              <option
+                key={parser.id}
+                value={parser.id}
+              >
+                {parser.label}
+              </option>
+            ))}
+          </select>
+        </div>
         <button
-          disabled={!canUpload || !hasFiles}
-          onClick={() => {
-            const scanned = scanFiles(uploadedFiles);
-            dispatch({ type: 'SET_SCANNED_FILES', payload: scanned });
-            dispatch({ type: 'SET_DATE_RANGE', payload: getDateRange(scanned) });
-            dispatch({ type: 'SET_STEP', payload: 2 });
+          disabled={!canUpload || !hasFiles || isScanning}
+          onClick={async () => {
+            setIsScanning(true);
+            try {
+              const scanned = await scanFiles(uploadedFiles, rawFormat);
+              dispatch({ type: 'SET_SCANNED_FILES', payload: scanned });
+              dispatch({ type: 'SET_DATE_RANGE', payload: getDateRange(scanned) });
+              dispatch({ type: 'SET_STEP', payload: 2 });
+            } finally {
+              setIsScanning(false);
+            }
           }}
           className="h-[42px] rounded-md bg-blue-600 px-8 text-sm font-semibold text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-40"
         >
-          SCAN
+          {isScanning ? 'SCANNING...' : 'SCAN'}
         </button>
       </div>
     </div>
@@ -0,0 +1,9 @@
+CREATE TABLE "station_series" (
+	"station_id" text NOT NULL,
+	"observed_at" timestamp NOT NULL,
+	"water_level" real,
+	"quality_flag" text DEFAULT '' NOT NULL,
+	CONSTRAINT "station_series_pk" PRIMARY KEY("station_id","observed_at")
+);
+--> statement-breakpoint
+ALTER TABLE "station_series" ADD CONSTRAINT "station_series_station_id_stations_station_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."stations"("station_id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
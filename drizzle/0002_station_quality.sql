@@ -0,0 +1,18 @@
+CREATE TABLE "station_quality" (
+	"station_id" text NOT NULL,
+	"year" integer NOT NULL,
+	"expected_rows" integer NOT NULL,
+	"total_rows" integer NOT NULL,
+	"valid_rows" integer NOT NULL,
+	"tentative_count" integer NOT NULL,
+	"missing_count" integer NOT NULL,
+	"closed_count" integer NOT NULL,
+	"unregistered_count" integer NOT NULL,
+	"valid_rate" real NOT NULL,
+	"longest_gap_hours" real NOT NULL,
+	"longest_gap_start" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "station_quality_pk" PRIMARY KEY("station_id","year")
+);
+--> statement-breakpoint
+ALTER TABLE "station_quality" ADD CONSTRAINT "station_quality_station_id_stations_station_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."stations"("station_id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "station_series_stats" (
+	"station_id" text PRIMARY KEY NOT NULL,
+	"p50" double precision,
+	"p75" double precision,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "station_series_stats" ADD CONSTRAINT "station_series_stats_station_id_stations_station_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."stations"("station_id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+-- Backfill stations whose series were uploaded before this table existed
+INSERT INTO "station_series_stats" ("station_id", "p50", "p75")
+SELECT "station_id",
+	percentile_cont(0.5) WITHIN GROUP (ORDER BY "water_level"),
+	percentile_cont(0.75) WITHIN GROUP (ORDER BY "water_level")
+FROM "station_series"
+WHERE "water_level" IS NOT NULL
+GROUP BY "station_id";
@@ -0,0 +1,49 @@
+'use client';
+
+import { useMemo } from 'react';
+import useSWR from 'swr';
+
+import type { BasinStationBreakdownResponse } from '@/types';
+
+type UseBasinStationsParams = {
+  basinName: string | null;
+  rangeStartDate: string | null;
+  rangeEndDate: string | null;
+  enabled: boolean;
+};
+
+async function fetcher(url: string): Promise<BasinStationBreakdownResponse> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as BasinStationBreakdownResponse;
+}
+
+export function useBasinStations({
+  basinName,
+  rangeStartDate,
+  rangeEndDate,
+  enabled,
+}: UseBasinStationsParams) {
+  const requestUrl = useMemo(() => {
+    if (!enabled || !basinName) {
+      return null;
+    }
+
+    const query = new URLSearchParams();
+    if (rangeStartDate) query.set('peakStart', rangeStartDate);
+    if (rangeEndDate) query.set('peakEnd', rangeEndDate);
+    return `/api/basins/${encodeURIComponent(basinName)}/stations?${query.toString()}`;
+  }, [basinName, enabled, rangeEndDate, rangeStartDate]);
+
+  const { data, error, isLoading } = useSWR(requestUrl, fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    basinStations: data?.items ?? [],
+    basinStationsError: error,
+    isLoadingBasinStations: isLoading,
+  };
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useRef, useState } from 'react';
 
-import type { Station, StationEventsApiResponse, StationMatchedPoint } from '@/types';
+import type { Station, StationMatchedPoint } from '@/types';
 
 type UseCsvExportParams = {
   activeTabKey: string | null;
@@ -84,6 +84,8 @@ export function useCsvExport({
     }
   }
 
+  // The server streams the workbook page by page, so the browser only follows the link.
+  // A link download swallows error responses, so a HEAD request checks the query first.
   async function downloadEventsXlsx() {
     if ((!currentStation && !currentBasin) || !rangeStartDate || !rangeEndDate) {
       return;
@@ -94,107 +96,30 @@ export function useCsvExport({
       setDownloadError(null);
 
       const query = new URLSearchParams({
-        includeRecent: '0',
-        includeMatchedEvents: '1',
+        format: 'xlsx',
         peakStart: rangeStartDate,
         peakEnd: rangeEndDate,
       });
-
-      const url = currentStation
-        ? `/api/stations/${currentStation.station_id}/events?${query.toString()}`
-        : `/api/basins/${encodeURIComponent(currentBasin!)}/events?${query.toString()}`;
-
-      const res = await fetch(url);
-      if (!res.ok) {
-        throw new Error(`Request failed with status ${res.status}`);
+      if (currentStation) {
+        query.set('station', currentStation.station_id);
+      } else {
+        query.set('basin', currentBasin!);
       }
 
-      const data = (await res.json()) as StationEventsApiResponse;
-      const detailedRows = data.matchedEventsDetail ?? [];
-      const isBasinExport = Boolean(currentBasin) && !currentStation;
-      const isStationExport = Boolean(currentStation);
-      const stationNameForExport = currentStation ? getDisplayName(currentStation) : null;
-      const basinNameForExport = currentStation?.basin_name ?? currentBasin ?? null;
-      const rows = (
-        detailedRows.length > 0
-          ? detailedRows
-          : (data.matchedSeries ?? []).map((item) => ({
-              id: item.id,
-              station_id: currentStation?.station_id ?? null,
-              basin_name: currentBasin,
-              start_time: null,
-              peak_time: item.peak_time,
-              end_time: null,
-              start_value: null,
-              peak_value: item.peak_value,
-              end_value: null,
-              rise_time: null,
-              fall_time: null,
-            }))
-      ).map((item, index) => {
-        const baseRow = {
-          index: index + 1,
-          start_time: item.start_time,
-          peak_time: item.peak_time,
-          end_time: item.end_time,
-          start_value: item.start_value,
-          peak_value: item.peak_value,
-          end_value: item.end_value,
-          rise_time: item.rise_time,
-          fall_time: item.fall_time,
-        };
-
-        if (isStationExport) {
-          return {
-            ...baseRow,
-            station_name: stationNameForExport,
-            basin_name: basinNameForExport,
-          };
-        }
-
-        if (isBasinExport) {
-          return {
-            ...baseRow,
-            station_id: item.station_id,
-            basin_name: item.basin_name,
-          };
-        }
-
-        return {
-          ...baseRow,
-          station_id: item.station_id,
-          basin_name: item.basin_name,
-        };
-      });
-
-      const ExcelJS = await import('exceljs');
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet('events');
-
-      if (rows.length > 0) {
-        const headers = Object.keys(rows[0]);
-        worksheet.columns = headers.map((header) => ({
-          header,
-          key: header,
-        }));
-        rows.forEach((row) => {
-          worksheet.addRow(row);
-        });
+      const url = `/api/export/events?${query.toString()}`;
+      const check = await fetch(url, { method: 'HEAD' });
+      if (!check.ok) {
+        setDownloadError(
+          check.status === 404
+            ? 'Failed to download matched events file: station not found.'
+            : 'Failed to download matched events file.',
+        );
+        return;
       }
 
-      const workbookBuffer = await workbook.xlsx.writeBuffer();
-      const blob = new Blob([workbookBuffer], {
-        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      });
-
-      const blobUrl = URL.createObjectURL(blob);
       const anchor = document.createElement('a');
-      anchor.href = blobUrl;
-
-      const prefix = currentStation ? `station_${stationNameForExport}` : `basin_${currentBasin}`;
-      anchor.download = `${sanitizeFileNamePart(prefix)}_${rangeStartDate}_to_${rangeEndDate}.xlsx`;
+      anchor.href = url;
       anchor.click();
-      URL.revokeObjectURL(blobUrl);
     } catch {
       setDownloadError('Failed to download matched events file.');
     } finally {
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import useSWR from 'swr';
+
+import type { EventTimelinePoint, EventTimelineResponse, PeakTimeSpanResponse } from '@/types';
+
+export type PlaybackPeriod = 'month' | 'year';
+
+const STEP_INTERVAL_MS: Record<PlaybackPeriod, number> = {
+  month: 700,
+  year: 1200,
+};
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+/** Every period label between start and end, inclusive, so empty months still get a frame */
+function listPeriods(start: string, end: string, period: PlaybackPeriod): string[] {
+  const startYear = Number(start.slice(0, 4));
+  const endYear = Number(end.slice(0, 4));
+  if (period === 'year') {
+    return Array.from({ length: endYear - startYear + 1 }, (_, idx) => String(startYear + idx));
+  }
+
+  const first = startYear * 12 + Number(start.slice(5, 7)) - 1;
+  const last = endYear * 12 + Number(end.slice(5, 7)) - 1;
+  return Array.from({ length: last - first + 1 }, (_, idx) => {
+    const month = first + idx;
+    return `${Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, '0')}`;
+  });
+}
+
+// 作用：地图时间轴回放的状态与数据：回放窗口、分桶粒度、当前帧、播放/暂停，以及当前帧出现峰值的测站。
+// 输入：`enabled` 为回放控件是否展开；关闭时不发任何请求。
+// 输出：窗口（可直接喂给 DateRangeBar）、帧列表与当前帧的事件，以及播放控制函数。
+// 为什么这样写：窗口默认取全库 peak_time 范围，由用户在 DateRangeBar 中收窄；数据按窗口和粒度一次取回，逐帧播放不再请求。
+export function useEventPlayback(enabled: boolean) {
+  const [period, setPeriod] = useState<PlaybackPeriod>('month');
+  const [windowStart, setWindowStart] = useState('');
+  const [windowEnd, setWindowEnd] = useState('');
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const { data: span } = useSWR(
+    enabled ? '/api/events/timeline?spanOnly=1' : null,
+    fetchJson<PeakTimeSpanResponse>,
+    { revalidateOnFocus: false },
+  );
+  const minDate = span?.minPeakTime?.slice(0, 10) ?? null;
+  const maxDate = span?.maxPeakTime?.slice(0, 10) ?? null;
+  const rangeStart = windowStart || minDate;
+  const rangeEnd = windowEnd || maxDate;
+
+  const timelineUrl =
+    enabled && rangeStart && rangeEnd
+      ? `/api/events/timeline?${new URLSearchParams({ start: rangeStart, end: rangeEnd, period }).toString()}`
+      : null;
+  const {
+    data: timeline,
+    error: timelineError,
+    isLoading: isLoadingTimeline,
+  } = useSWR(timelineUrl, fetchJson<EventTimelineResponse>, { revalidateOnFocus: false });
+
+  const frames = useMemo(
+    () => (rangeStart && rangeEnd ? listPeriods(rangeStart, rangeEnd, period) : []),
+    [period, rangeEnd, rangeStart],
+  );
+  const eventsByPeriod = useMemo(() => {
+    const map = new Map<string, EventTimelinePoint[]>();
+    for (const bucket of timeline?.buckets ?? []) {
+      map.set(bucket.period, bucket.events);
+    }
+    return map;
+  }, [timeline]);
+
+  const safeIndex = Math.min(frameIndex, Math.max(0, frames.length - 1));
+  const currentPeriod = frames[safeIndex] ?? null;
+  const currentEvents = useMemo(
+    () => (currentPeriod ? (eventsByPeriod.get(currentPeriod) ?? []) : []),
+    [currentPeriod, eventsByPeriod],
+  );
+
+  useEffect(() => {
+    if (!isPlaying || frames.length === 0) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      setFrameIndex((prev) => {
+        if (prev >= frames.length - 1) {
+          setIsPlaying(false);
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, STEP_INTERVAL_MS[period]);
+    return () => window.clearInterval(timer);
+  }, [frames.length, isPlaying, period]);
+
+  function resetFrames() {
+    setFrameIndex(0);
+    setIsPlaying(false);
+  }
+
+  function togglePlay() {
+    if (!isPlaying && safeIndex >= frames.length - 1) {
+      setFrameIndex(0);
+    }
+    setIsPlaying((prev) => !prev);
+  }
+
+  return {
+    period,
+    setPeriod: (next: PlaybackPeriod) => {
+      setPeriod(next);
+      resetFrames();
+    },
+    minDate,
+    maxDate,
+    rangeStart,
+    rangeEnd,
+    setStartDate: (next: string) => {
+      setWindowStart(next);
+      if (rangeEnd && next > rangeEnd) setWindowEnd(next);
+      resetFrames();
+    },
+    setEndDate: (next: string) => {
+      setWindowEnd(next);
+      if (rangeStart && next < rangeStart) setWindowStart(next);
+      resetFrames();
+    },
+    frames,
+    frameIndex: safeIndex,
+    setFrameIndex: (next: number) => {
+      setIsPlaying(false);
+      setFrameIndex(next);
+    },
+    currentPeriod,
+    currentEvents,
+    isPlaying,
+    togglePlay,
+    isLoadingTimeline,
+    timelineError,
+    isTruncated: timeline?.truncated ?? false,
+  };
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useMemo } from 'react';
+import useSWR from 'swr';
+
+import type { StationMatchedPoint, StationSeriesResponse } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MIN_PADDING_HOURS = 24;
+const MAX_POINTS = 1000;
+
+async function fetcher(url: string): Promise<StationSeriesResponse> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as StationSeriesResponse;
+}
+
+// Timestamps are naive JST strings; parsing them as UTC keeps the arithmetic free of the browser's zone.
+function parseNaive(value: string): number {
+  return Date.parse(`${value.replace(' ', 'T')}Z`);
+}
+
+function formatNaive(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// 作用：为单个事件拉取其前后一段时间的逐时水位，供过程线图使用。
+// 输入：时间线上被点中的事件（需带 station_id / start_time / end_time），null 时不发请求。
+// 输出：series 接口的返回值、实际请求的窗口，以及加载/错误状态。
+// 为什么这样写：窗口在事件两侧各留出与事件等长（至少 24 小时）的余量，能看清起涨前的基流和退水尾段。
+export function useEventSeries(event: StationMatchedPoint | null) {
+  const seriesWindow = useMemo(() => {
+    if (!event?.start_time || !event.end_time) return null;
+    const start = parseNaive(event.start_time);
+    const end = parseNaive(event.end_time);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+    const padding = Math.max(MIN_PADDING_HOURS * HOUR_MS, end - start);
+    return { from: formatNaive(start - padding), to: formatNaive(end + padding) };
+  }, [event]);
+
+  const requestUrl =
+    event && seriesWindow
+      ? `/api/stations/${encodeURIComponent(event.station_id)}/series?${new URLSearchParams({
+          from: seriesWindow.from,
+          to: seriesWindow.to,
+          maxPoints: String(MAX_POINTS),
+        }).toString()}`
+      : null;
+
+  const { data, error, isLoading } = useSWR(requestUrl, fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    seriesData: data ?? null,
+    seriesWindow,
+    seriesError: error,
+    isLoadingSeries: isLoading,
+  };
+}
@@ -1,13 +1,16 @@
 'use client';
 
 import type { Map as LeafletMapInstance } from 'leaflet';
-import { type Dispatch, type SetStateAction, useCallback, useState } from 'react';
+import { type Dispatch, type SetStateAction, useCallback, useEffect, useState } from 'react';
 
 import type { ActiveTab, BasinTabData } from '@/app/database/types';
+import { URL_PARAMS, writeUrlParams } from '@/app/database/urlState';
 import type { Station } from '@/types';
 
 type UseMapStateParams = {
   mapInstance: LeafletMapInstance | null;
+  initialZoom: number;
+  initialSelectedStationId: string | null;
   basinTab: BasinTabData | null;
   stationTab: Station | null;
   activeTab: ActiveTab;
@@ -18,6 +21,8 @@ type UseMapStateParams = {
 
 export function useMapState({
   mapInstance,
+  initialZoom,
+  initialSelectedStationId,
   basinTab,
   stationTab,
   activeTab,
@@ -25,10 +30,31 @@ export function useMapState({
   setStationTab,
   setActiveTab,
 }: UseMapStateParams) {
-  const [zoom, setZoom] = useState(5.4);
-  const [selectedStationId, setSelectedStationId] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(initialZoom);
+  const [selectedStationId, setSelectedStationId] = useState<string | null>(
+    initialSelectedStationId,
+  );
   const [previewStationId, setPreviewStationId] = useState<string | null>(null);
 
+  // Keep the map view in the URL so a shared link opens on the same extent.
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+    const syncView = () => {
+      const center = mapInstance.getCenter();
+      writeUrlParams({
+        [URL_PARAMS.lat]: center.lat.toFixed(4),
+        [URL_PARAMS.lng]: center.lng.toFixed(4),
+        [URL_PARAMS.zoom]: `${Math.round(mapInstance.getZoom() * 100) / 100}`,
+      });
+    };
+    mapInstance.on('moveend', syncView);
+    return () => {
+      mapInstance.off('moveend', syncView);
+    };
+  }, [mapInstance]);
+
   const clearPreview = useCallback(() => {
     setPreviewStationId(null);
   }, []);
@@ -60,13 +86,12 @@ export function useMapState({
     setStationTab(null);
     setSelectedStationId(null);
     setPreviewStationId(null);
-    if (basinTab) {
-      setActiveTab('basin');
-    } else {
-      setActiveTab(null);
+    // Closing the station tab from the compare view keeps the comparison in focus.
+    if (activeTab !== 'compare') {
+      setActiveTab(basinTab ? 'basin' : null);
     }
     mapInstance?.closePopup();
-  }, [basinTab, mapInstance, setActiveTab, setStationTab]);
+  }, [activeTab, basinTab, mapInstance, setActiveTab, setStationTab]);
 
   const handleCloseBasinTab = useCallback(() => {
     const nextStationTab = stationTab;
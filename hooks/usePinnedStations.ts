@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { readUrlParams, URL_PARAMS, writeUrlParams } from '@/app/database/urlState';
+
+export const MIN_COMPARE_STATIONS = 2;
+export const MAX_COMPARE_STATIONS = 6;
+
+function readPinnedIds(): string[] {
+  const raw = readUrlParams().get(URL_PARAMS.compare) ?? '';
+  const ids = raw
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE_STATIONS);
+}
+
+export function usePinnedStations() {
+  const [pinnedIds, setPinnedIds] = useState<string[]>(readPinnedIds);
+
+  useEffect(() => {
+    writeUrlParams({ [URL_PARAMS.compare]: pinnedIds.join(',') || null });
+  }, [pinnedIds]);
+
+  const togglePin = useCallback((stationId: string) => {
+    setPinnedIds((prev) => {
+      if (prev.includes(stationId)) {
+        return prev.filter((id) => id !== stationId);
+      }
+      if (prev.length >= MAX_COMPARE_STATIONS) {
+        return prev;
+      }
+      return [...prev, stationId];
+    });
+  }, []);
+
+  const unpinStation = useCallback((stationId: string) => {
+    setPinnedIds((prev) => prev.filter((id) => id !== stationId));
+  }, []);
+
+  const clearPins = useCallback(() => {
+    setPinnedIds([]);
+  }, []);
+
+  return {
+    pinnedIds,
+    togglePin,
+    unpinStation,
+    clearPins,
+  };
+}
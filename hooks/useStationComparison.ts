@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import useSWR from 'swr';
+
+import { buildMonthlyFrequency } from '@/app/database/mapUtils';
+import type { ComparisonSeries, ExceedancePoint } from '@/app/database/types';
+import type { Station, StationEventsApiResponse } from '@/types';
+
+export const COMPARE_COLORS = ['#4288c9', '#e07a2f', '#2f9e6b', '#c2417a', '#7c5cc4', '#8a6d1f'];
+
+type UseStationComparisonParams = {
+  stations: Station[];
+  enabled: boolean;
+};
+
+async function fetchAll(urls: string[]): Promise<StationEventsApiResponse[]> {
+  return Promise.all(
+    urls.map(async (url) => {
+      const res = await fetch(url);
+      if (!res.ok) {
+        throw new Error(`Request failed with status ${res.status}`);
+      }
+      return (await res.json()) as StationEventsApiResponse;
+    }),
+  );
+}
+
+function toDateOnly(value: string | null | undefined): string | null {
+  return value ? value.slice(0, 10) : null;
+}
+
+function buildExceedance(points: StationEventsApiResponse['matchedSeries']): ExceedancePoint[] {
+  const values = (points ?? [])
+    .map((item) => item.peak_value)
+    .filter(Number.isFinite)
+    .sort((a, b) => b - a);
+  return values.map((peak_value, index) => ({
+    probability: (index + 1) / (values.length + 1),
+    peak_value,
+  }));
+}
+
+export function useStationComparison({ stations, enabled }: UseStationComparisonParams) {
+  const [peakStartDate, setPeakStartDate] = useState('');
+  const [peakEndDate, setPeakEndDate] = useState('');
+
+  const requestUrls = useMemo(() => {
+    if (!enabled || stations.length === 0) {
+      return null;
+    }
+
+    const query = new URLSearchParams({ includeRecent: '0', includeMatchedSeries: '1' });
+    if (peakStartDate) query.set('peakStart', peakStartDate);
+    if (peakEndDate) query.set('peakEnd', peakEndDate);
+    return stations.map((station) => `/api/stations/${station.station_id}/events?${query}`);
+  }, [enabled, peakEndDate, peakStartDate, stations]);
+
+  const { data, error, isLoading } = useSWR(requestUrls, fetchAll, {
+    revalidateOnFocus: false,
+    keepPreviousData: true,
+  });
+
+  const series = useMemo<ComparisonSeries[]>(
+    () =>
+      stations.map((station, index) => {
+        const response = data?.find((item) => item.stationId === station.station_id);
+        const points = response?.matchedSeries ?? [];
+        return {
+          station,
+          color: COMPARE_COLORS[index % COMPARE_COLORS.length],
+          summary: response?.summary ?? null,
+          points,
+          monthlyFrequency: buildMonthlyFrequency(points),
+          exceedance: buildExceedance(points),
+        };
+      }),
+    [data, stations],
+  );
+
+  // The shared window spans every pinned station, so no station is clipped by default.
+  const minPeakDate = useMemo(() => {
+    const dates = series
+      .map((item) => toDateOnly(item.summary?.minPeakTime))
+      .filter((value): value is string => Boolean(value));
+    return dates.length > 0 ? dates.reduce((a, b) => (a < b ? a : b)) : null;
+  }, [series]);
+  const maxPeakDate = useMemo(() => {
+    const dates = series
+      .map((item) => toDateOnly(item.summary?.maxPeakTime))
+      .filter((value): value is string => Boolean(value));
+    return dates.length > 0 ? dates.reduce((a, b) => (a > b ? a : b)) : null;
+  }, [series]);
+  const rangeStartDate = peakStartDate || minPeakDate;
+  const rangeEndDate = peakEndDate || maxPeakDate;
+
+  function setStartDate(next: string) {
+    setPeakStartDate(next);
+    if (rangeEndDate && next > rangeEndDate) {
+      setPeakEndDate(next);
+    }
+  }
+
+  function setEndDate(next: string) {
+    setPeakEndDate(next);
+    if (rangeStartDate && next < rangeStartDate) {
+      setPeakStartDate(next);
+    }
+  }
+
+  return {
+    series,
+    minPeakDate,
+    maxPeakDate,
+    rangeStartDate,
+    rangeEndDate,
+    setStartDate,
+    setEndDate,
+    comparisonError: error,
+    isLoadingComparison: isLoading,
+  };
+}
@@ -1,21 +1,42 @@
 'use client';
 
-import { type Dispatch, type SetStateAction, useMemo, useState } from 'react';
+import { type Dispatch, type SetStateAction, useEffect, useMemo, useState } from 'react';
 import useSWR from 'swr';
 
+import { buildMonthlyFrequency, buildPeakDistribution } from '@/app/database/mapUtils';
 import type {
   ActiveTab,
   BasinTabData,
   MonthlyFrequencyPoint,
   PeakDistributionPoint,
 } from '@/app/database/types';
-import type { Station, StationEventsApiResponse, StationMatchedPoint } from '@/types';
-
-export type ChartPresetId = 'timeline_all' | 'seasonal_frequency' | 'peak_distribution';
+import { readMapUrlState, URL_PARAMS, writeUrlParams } from '@/app/database/urlState';
+import { DEFAULT_EXTRACTION_PARAMS } from '@/lib/reextract';
+import type {
+  BasinEpisodesResponse,
+  ExtractionParams,
+  FrequencyAnalysisResponse,
+  ReextractResponse,
+  Station,
+  StationEventsApiResponse,
+  StationMatchedPoint,
+  StationQualityResponse,
+} from '@/types';
+
+export type ChartPresetId =
+  | 'timeline_all'
+  | 'seasonal_frequency'
+  | 'peak_distribution'
+  | 'return_period'
+  | 'episodes'
+  | 'reextract'
+  | 'coverage';
 
 type ChartPreset = {
   id: ChartPresetId;
   label: string;
+  /** Needs a single station's stored series, so it is hidden on basin tabs */
+  stationOnly?: boolean;
 };
 
 type UseStationEventsParams = {
@@ -29,6 +50,10 @@ export const chartPresets: ChartPreset[] = [
   { id: 'timeline_all', label: 'Timeline' },
   { id: 'seasonal_frequency', label: 'Season' },
   { id: 'peak_distribution', label: 'Peaks' },
+  { id: 'return_period', label: 'Return' },
+  { id: 'episodes', label: 'Episodes' },
+  { id: 'reextract', label: 'Re-extract', stationOnly: true },
+  { id: 'coverage', label: 'Coverage', stationOnly: true },
 ];
 
 function formatNumber(value: number | null): string {
@@ -45,6 +70,20 @@ function toDateOnly(value: string | null): string | null {
   return value.slice(0, 10);
 }
 
+// Preset and date range from a shared link, keyed by the tab they belong to.
+function readInitialTabState() {
+  const { basin, station, tab, preset, start, end } = readMapUrlState();
+  const tabKey =
+    tab === 'basin' && basin ? `b:${basin}` : tab === 'station' && station ? `s:${station}` : null;
+  const presetId = chartPresets.find((item) => item.id === preset)?.id ?? null;
+
+  return {
+    dateRanges:
+      tabKey && (start || end) ? { [tabKey]: { start: start ?? '', end: end ?? '' } } : {},
+    presets: tabKey && presetId ? { [tabKey]: presetId } : {},
+  };
+}
+
 async function fetcher(url: string): Promise<StationEventsApiResponse> {
   const res = await fetch(url);
   if (!res.ok) {
@@ -53,19 +92,59 @@ async function fetcher(url: string): Promise<StationEventsApiResponse> {
   return (await res.json()) as StationEventsApiResponse;
 }
 
+async function frequencyFetcher(url: string): Promise<FrequencyAnalysisResponse> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as FrequencyAnalysisResponse;
+}
+
+async function episodesFetcher(url: string): Promise<BasinEpisodesResponse> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as BasinEpisodesResponse;
+}
+
+async function qualityFetcher(url: string): Promise<StationQualityResponse> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as StationQualityResponse;
+}
+
+// The route answers 404/400 with a message worth showing (no stored series, range too long).
+async function reextractFetcher(url: string): Promise<ReextractResponse> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    const data = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as ReextractResponse;
+}
+
+export const episodeWindowOptions = [3, 6, 12, 24];
+
 export function useStationEvents({
   activeTab,
   basinTab,
   stationTab,
   getDisplayName,
 }: UseStationEventsParams) {
+  const [initialTabState] = useState(readInitialTabState);
   const [peakDateRangeByTab, setPeakDateRangeByTab] = useState<
     Record<string, { start: string; end: string }>
-  >({});
+  >(initialTabState.dateRanges);
   const [selectedPresetByTab, setSelectedPresetByTab] = useState<
     Record<string, ChartPresetId | null>
-  >({});
+  >(initialTabState.presets);
   const [isMetricsCopied, setIsMetricsCopied] = useState(false);
+  const [episodeWindowHours, setEpisodeWindowHours] = useState(6);
+  const [reextractParams, setReextractParams] =
+    useState<ExtractionParams>(DEFAULT_EXTRACTION_PARAMS);
 
   const currentStation = activeTab === 'station' ? stationTab : null;
   const currentBasin = activeTab === 'basin' ? (basinTab?.basinName ?? null) : null;
@@ -80,11 +159,12 @@ export function useStationEvents({
   const peakEndDate = currentTabDateRange?.end ?? '';
   const selectedPreset = activeTabKey ? (selectedPresetByTab[activeTabKey] ?? null) : null;
   const selectedPresetMeta = chartPresets.find((preset) => preset.id === selectedPreset) ?? null;
-  const eventsBasePath = currentStation
-    ? `/api/stations/${currentStation.station_id}/events`
+  const apiBasePath = currentStation
+    ? `/api/stations/${currentStation.station_id}`
     : currentBasin
-      ? `/api/basins/${encodeURIComponent(currentBasin)}/events`
+      ? `/api/basins/${encodeURIComponent(currentBasin)}`
       : null;
+  const eventsBasePath = apiBasePath ? `${apiBasePath}/events` : null;
   const summaryRequestUrl = eventsBasePath ? `${eventsBasePath}?includeRecent=0` : null;
   const {
     data: summaryData,
@@ -126,6 +206,98 @@ export function useStationEvents({
     revalidateOnFocus: false,
   });
 
+  const frequencyRequestUrl = useMemo(() => {
+    if (!apiBasePath || selectedPreset !== 'return_period') {
+      return null;
+    }
+
+    const query = new URLSearchParams();
+    if (rangeStartDate) query.set('peakStart', rangeStartDate);
+    if (rangeEndDate) query.set('peakEnd', rangeEndDate);
+    return `${apiBasePath}/frequency?${query.toString()}`;
+  }, [apiBasePath, rangeStartDate, rangeEndDate, selectedPreset]);
+  const { data: frequencyData, isLoading: isLoadingFrequency } = useSWR(
+    frequencyRequestUrl,
+    frequencyFetcher,
+    { revalidateOnFocus: false },
+  );
+
+  // A station tab shows the episodes of its own basin that the station took part in.
+  const episodeBasin = currentBasin ?? currentStation?.basin_name?.trim() ?? null;
+  const episodesRequestUrl = useMemo(() => {
+    if (!episodeBasin || selectedPreset !== 'episodes') {
+      return null;
+    }
+
+    const query = new URLSearchParams({ windowHours: `${episodeWindowHours}` });
+    if (rangeStartDate) query.set('peakStart', rangeStartDate);
+    if (rangeEndDate) query.set('peakEnd', rangeEndDate);
+    if (currentStation) query.set('station', currentStation.station_id);
+    return `/api/basins/${encodeURIComponent(episodeBasin)}/episodes?${query.toString()}`;
+  }, [
+    currentStation,
+    episodeBasin,
+    episodeWindowHours,
+    rangeEndDate,
+    rangeStartDate,
+    selectedPreset,
+  ]);
+  const { data: episodesData, isLoading: isLoadingEpisodes } = useSWR(
+    episodesRequestUrl,
+    episodesFetcher,
+    { revalidateOnFocus: false },
+  );
+
+  const reextractRequestUrl = useMemo(() => {
+    if (!currentStation || selectedPreset !== 'reextract') {
+      return null;
+    }
+
+    const query = new URLSearchParams({
+      peakPct: `${reextractParams.peakPercentile}`,
+      boundaryPct: `${reextractParams.boundaryPercentile}`,
+      minRise: `${reextractParams.minRise}`,
+      detrend: reextractParams.detrend,
+    });
+    if (reextractParams.maxPlateau !== null) {
+      query.set('maxPlateau', `${reextractParams.maxPlateau}`);
+    }
+    if (rangeStartDate) query.set('peakStart', rangeStartDate);
+    if (rangeEndDate) query.set('peakEnd', rangeEndDate);
+    return `/api/stations/${currentStation.station_id}/reextract?${query.toString()}`;
+  }, [currentStation, rangeEndDate, rangeStartDate, reextractParams, selectedPreset]);
+  const {
+    data: reextractData,
+    error: reextractError,
+    isLoading: isLoadingReextract,
+  } = useSWR(reextractRequestUrl, reextractFetcher, { revalidateOnFocus: false });
+
+  const { data: qualityData, isLoading: isLoadingQuality } = useSWR(
+    currentStation && selectedPreset === 'coverage'
+      ? `/api/stations/${currentStation.station_id}/quality`
+      : null,
+    qualityFetcher,
+    { revalidateOnFocus: false },
+  );
+  const coverageYears = useMemo(() => {
+    const startYear = rangeStartDate ? Number(rangeStartDate.slice(0, 4)) : -Infinity;
+    const endYear = rangeEndDate ? Number(rangeEndDate.slice(0, 4)) : Infinity;
+    return (qualityData?.items ?? []).filter(
+      (item) => item.year >= startYear && item.year <= endYear,
+    );
+  }, [qualityData, rangeEndDate, rangeStartDate]);
+
+  useEffect(() => {
+    if (!activeTabKey) {
+      return;
+    }
+    writeUrlParams({
+      [URL_PARAMS.preset]: selectedPreset,
+      [URL_PARAMS.start]: peakStartDate || null,
+      [URL_PARAMS.end]: peakEndDate || null,
+    });
+  }, [activeTabKey, peakEndDate, peakStartDate, selectedPreset]);
+
   const eventSummary = rangeData?.summary ?? summaryData?.summary ?? null;
   const totalEvents = summaryData?.summary.matchedEvents ?? null;
   const rangeMatchedEvents = rangeData?.summary.matchedEvents ?? totalEvents;
@@ -147,33 +319,15 @@ export function useStationEvents({
     [rangeData?.matchedSeries],
   );
   const chartPoints = matchedSeries;
-  const monthlyFrequency = useMemo<MonthlyFrequencyPoint[]>(() => {
-    const monthCounts = Array.from({ length: 12 }, (_, monthIndex) => ({
-      month: monthIndex + 1,
-      count: 0,
-    }));
-
-    for (const item of matchedSeries) {
-      const timestamp = Date.parse(item.peak_time);
-      if (!Number.isFinite(timestamp)) {
-        continue;
-      }
-      const month = new Date(timestamp).getMonth();
-      monthCounts[month].count += 1;
-    }
-
-    return monthCounts;
-  }, [matchedSeries]);
+  const monthlyFrequency = useMemo<MonthlyFrequencyPoint[]>(
+    () => buildMonthlyFrequency(matchedSeries),
+    [matchedSeries],
+  );
 
-  const peakDistribution = useMemo<PeakDistributionPoint[]>(() => {
-    return matchedSeries
-      .filter((item) => Number.isFinite(item.peak_value))
-      .sort((a, b) => b.peak_value - a.peak_value)
-      .map((item, index) => ({
-        rank: index + 1,
-        peak_value: item.peak_value,
-      }));
-  }, [matchedSeries]);
+  const peakDistribution = useMemo<PeakDistributionPoint[]>(
+    () => buildPeakDistribution(matchedSeries),
+    [matchedSeries],
+  );
 
   const isOpen =
     (activeTab === 'station' && Boolean(stationTab)) ||
@@ -189,7 +343,15 @@ export function useStationEvents({
       ? `${chartName} · Monthly Event Frequency · ${chartStart}–${chartEnd}`
       : selectedPreset === 'peak_distribution'
         ? `${chartName} · Peak Exceedance Curve · ${chartStart}–${chartEnd}`
-        : `${chartName} · Event Timeline · ${chartStart}–${chartEnd}`;
+        : selectedPreset === 'return_period'
+          ? `${chartName} · Return Period Analysis · ${chartStart}–${chartEnd}`
+          : selectedPreset === 'episodes'
+            ? `${chartName} · Multi-station Episodes · ${chartStart}–${chartEnd}`
+            : selectedPreset === 'reextract'
+              ? `${chartName} · Re-extraction Diff · ${chartStart}–${chartEnd}`
+              : selectedPreset === 'coverage'
+                ? `${chartName} · Data Coverage · ${chartStart}–${chartEnd}`
+                : `${chartName} · Event Timeline · ${chartStart}–${chartEnd}`;
 
   function clearTabPreset(tabKey: string | null) {
     if (!tabKey) {
@@ -312,6 +474,19 @@ export function useStationEvents({
     chartPoints,
     monthlyFrequency,
     peakDistribution,
+    frequencyData: frequencyData ?? null,
+    isLoadingFrequency,
+    episodesData: episodesData ?? null,
+    isLoadingEpisodes,
+    episodeWindowHours,
+    setEpisodeWindowHours,
+    reextractData: reextractData ?? null,
+    reextractError: reextractError instanceof Error ? reextractError.message : null,
+    isLoadingReextract,
+    reextractParams,
+    setReextractParams,
+    coverageYears,
+    isLoadingQuality,
     isMetricsCopied,
     copyMetrics,
     chartTitle,
@@ -0,0 +1,100 @@
+'use client';
+
+import { useMemo } from 'react';
+import useSWR from 'swr';
+
+import type { ChoroplethLegendItem, ChoroplethStyle, StationMetric } from '@/app/database/types';
+import type { StationStatsApiResponse } from '@/types';
+
+export const stationMetrics: { id: StationMetric; label: string }[] = [
+  { id: 'eventCount', label: 'Event count' },
+  { id: 'maxPeakValue', label: 'Max peak' },
+  { id: 'avgRiseTime', label: 'Mean rise time' },
+  { id: 'eventsPerYear', label: 'Events / year' },
+];
+
+// Sequential YlOrRd ramp, light = low.
+const palette = ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'];
+
+async function fetcher(url: string): Promise<StationStatsApiResponse> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as StationStatsApiResponse;
+}
+
+function formatBreak(metric: StationMetric, value: number): string {
+  return metric === 'eventCount' ? String(Math.round(value)) : value.toFixed(2);
+}
+
+/** Quintile class breaks; duplicates are dropped so skewed metrics get fewer, non-empty classes */
+function quantileBreaks(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const breaks = [0.2, 0.4, 0.6, 0.8].map(
+    (q) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))],
+  );
+  return Array.from(new Set(breaks));
+}
+
+// 作用：为地图分级着色图层准备数据：拉取 /api/stations/stats，按所选指标做五分位分级，生成每站的颜色/尺寸和图例。
+// 输入：`metric` 为当前指标，null 表示关闭图层（此时不发请求）。
+// 输出：`styleByStation`（station_id → 颜色与半径倍数）、`legend`，以及加载/错误状态。
+// 为什么这样写：分位数分级对长尾分布（如事件数）比等距分级更能拉开差异；统计接口一次返回全部指标，切换指标只在本地重新分级。
+export function useStationStats(metric: StationMetric | null) {
+  const { data, error, isLoading } = useSWR(metric ? '/api/stations/stats' : null, fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  const { styleByStation, legend } = useMemo(() => {
+    if (!metric || !data) {
+      return { styleByStation: null, legend: [] as ChoroplethLegendItem[] };
+    }
+
+    const entries = data.items.flatMap((item) => {
+      const value = item[metric];
+      return value === null || !Number.isFinite(value)
+        ? []
+        : [{ stationId: item.station_id, value }];
+    });
+    if (entries.length === 0) {
+      return { styleByStation: new Map<string, ChoroplethStyle>(), legend: [] };
+    }
+
+    const breaks = quantileBreaks(entries.map((entry) => entry.value));
+    const classCount = breaks.length + 1;
+    // breaks is never empty here, so there are at least two classes to spread over the ramp.
+    const colors = Array.from(
+      { length: classCount },
+      (_, idx) => palette[Math.round((idx * (palette.length - 1)) / (classCount - 1))],
+    );
+
+    const styles = new Map<string, ChoroplethStyle>();
+    for (const entry of entries) {
+      const classIndex = breaks.findIndex((limit) => entry.value <= limit);
+      const idx = classIndex === -1 ? classCount - 1 : classIndex;
+      styles.set(entry.stationId, { color: colors[idx], scale: 0.8 + 0.3 * idx });
+    }
+
+    const legendItems = colors.map((color, idx) => {
+      const lower = breaks[idx - 1];
+      const upper = breaks[idx];
+      const label =
+        idx === 0
+          ? `≤ ${formatBreak(metric, upper)}`
+          : upper === undefined
+            ? `> ${formatBreak(metric, lower)}`
+            : `${formatBreak(metric, lower)} – ${formatBreak(metric, upper)}`;
+      return { color, label };
+    });
+
+    return { styleByStation: styles, legend: legendItems };
+  }, [data, metric]);
+
+  return {
+    styleByStation,
+    legend,
+    statsError: error,
+    isLoadingStats: isLoading,
+  };
+}
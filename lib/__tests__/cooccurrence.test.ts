@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import type { EpisodeEventInput } from '../../types';
+import { clusterEpisodes } from '../cooccurrence';
+
+let nextId = 1;
+
+/** Event peaking `hours` after 2020-07-04 00:00 (fractions allowed) */
+function peak(station_id: string, hours: number, peak_value: number | null = 1): EpisodeEventInput {
+  const ms = Date.UTC(2020, 6, 4) + Math.round(hours * 3600) * 1000;
+  return {
+    id: nextId++,
+    station_id,
+    station_name: null,
+    peak_time: new Date(ms).toISOString().slice(0, 19).replace('T', ' '),
+    peak_value,
+  };
+}
+
+function stationsOf(episodes: ReturnType<typeof clusterEpisodes>) {
+  return episodes.map((episode) => episode.members.map((member) => member.station_id));
+}
+
+describe('clusterEpisodes', () => {
+  it('includes a peak exactly at the end of the window and nothing past it', () => {
+    expect(stationsOf(clusterEpisodes([peak('A', 0), peak('B', 6)], 6, 2))).toEqual([['A', 'B']]);
+    expect(clusterEpisodes([peak('A', 0), peak('B', 6 + 1 / 3600)], 6, 2)).toEqual([]);
+  });
+
+  it('anchors the window on the lead peak instead of chaining neighbours', () => {
+    // B is within 6 h of A and C within 6 h of B, but C is 10 h after A
+    const events = [peak('A', 0), peak('B', 5), peak('C', 10), peak('D', 14)];
+    expect(stationsOf(clusterEpisodes(events, 6, 2))).toEqual([
+      ['A', 'B'],
+      ['C', 'D'],
+    ]);
+    // With a 3-station minimum A cannot lead; the window then restarts at B
+    expect(stationsOf(clusterEpisodes(events, 6, 3))).toEqual([]);
+    expect(stationsOf(clusterEpisodes(events, 9, 3))).toEqual([['B', 'C', 'D']]);
+  });
+
+  it('keeps only the first peak of a station within the window', () => {
+    const events = [peak('A', 0), peak('A', 1), peak('B', 2), peak('A', 3)];
+    const [episode] = clusterEpisodes(events, 6, 2);
+    expect(episode.members.map((member) => member.id)).toEqual([events[0].id, events[2].id]);
+    // The skipped repeats are consumed by the episode rather than leading a new one
+    expect(clusterEpisodes(events, 6, 2)).toHaveLength(1);
+  });
+
+  it('numbers members and reports lags relative to the lead and the previous peak', () => {
+    const events = [peak('A', 0, 2.5), peak('B', 1.5, null), peak('C', 4.25, 4)];
+    const [episode] = clusterEpisodes(events, 6, 2);
+    expect(episode).toMatchObject({
+      leadEventId: events[0].id,
+      startPeakTime: '2020-07-04 00:00:00',
+      endPeakTime: '2020-07-04 04:15:00',
+      durationHours: 4.25,
+      stationCount: 3,
+      maxPeakValue: 4,
+    });
+    expect(episode.members.map((m) => [m.order, m.lagHours, m.stepLagHours])).toEqual([
+      [1, 0, 0],
+      [2, 1.5, 1.5],
+      [3, 4.25, 2.75],
+    ]);
+  });
+
+  it('skips events whose peak_time cannot be parsed', () => {
+    const events = [{ ...peak('A', 0), peak_time: 'not a time' }, peak('B', 1), peak('C', 2)];
+    expect(stationsOf(clusterEpisodes(events, 6, 2))).toEqual([['B', 'C']]);
+  });
+});
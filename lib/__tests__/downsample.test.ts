@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+
+import type { StationSeriesPoint } from '../../types';
+import { downsampleSeries, lttb, minMax } from '../downsample';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** One reading per hour from 2020-01-01 00:00; null levels are missing readings */
+function hourly(levels: (number | null)[]): StationSeriesPoint[] {
+  const start = Date.UTC(2020, 0, 1);
+  return levels.map((water_level, i) => ({
+    observed_at: new Date(start + i * HOUR_MS).toISOString().slice(0, 19).replace('T', ' '),
+    water_level,
+  }));
+}
+
+function readings(levels: number[]) {
+  return hourly(levels).map((point, i) => ({ x: i, y: point.water_level!, point }));
+}
+
+/** Runs of `runLength` readings, each followed by `gapLength` missing hours */
+function gappy(runs: number, runLength: number, gapLength: number): (number | null)[] {
+  const levels: (number | null)[] = [];
+  for (let r = 0; r < runs; r++) {
+    for (let i = 0; i < runLength; i++) levels.push(Math.sin(r + i / 3));
+    for (let i = 0; i < gapLength; i++) levels.push(null);
+  }
+  return levels;
+}
+
+function expectTimeOrder(points: StationSeriesPoint[]) {
+  const times = points.map((point) => point.observed_at);
+  expect(times).toEqual([...times].sort());
+  expect(new Set(times).size).toBe(times.length);
+}
+
+describe('lttb', () => {
+  it('returns exactly the budget and keeps both ends', () => {
+    const run = readings(Array.from({ length: 200 }, (_, i) => Math.sin(i / 10)));
+    const picked = lttb(run, 20);
+    expect(picked).toHaveLength(20);
+    expect(picked[0]).toBe(run[0]);
+    expect(picked[19]).toBe(run[199]);
+    expect(picked.map((r) => r.x)).toEqual([...picked.map((r) => r.x)].sort((a, b) => a - b));
+  });
+
+  it('keeps only the ends below a budget of three', () => {
+    const run = readings([1, 5, 2, 4]);
+    expect(lttb(run, 2)).toEqual([run[0], run[3]]);
+  });
+});
+
+describe('minMax', () => {
+  it('keeps the extremes of every bucket in time order', () => {
+    const levels = Array.from({ length: 100 }, (_, i) => (i === 37 ? 9 : i === 62 ? -9 : 0));
+    const picked = minMax(readings(levels), 10);
+    expect(picked.length).toBeLessThanOrEqual(10);
+    expect(picked.map((r) => r.y)).toContain(9);
+    expect(picked.map((r) => r.y)).toContain(-9);
+    expect(picked.map((r) => r.x)).toEqual([...picked.map((r) => r.x)].sort((a, b) => a - b));
+  });
+});
+
+describe('downsampleSeries', () => {
+  it('returns short series unchanged', () => {
+    const points = hourly([1, null, 2]);
+    expect(downsampleSeries(points, 3, 'lttb')).toBe(points);
+  });
+
+  it('marks each gap with its first missing reading', () => {
+    const points = hourly([...gappy(3, 50, 4)]);
+    const out = downsampleSeries(points, 60, 'lttb');
+    // Two inner gaps plus the trailing one
+    expect(out.filter((point) => point.water_level === null)).toEqual([
+      points[50],
+      points[104],
+      points[158],
+    ]);
+    expect(out.length).toBeLessThanOrEqual(60);
+    expectTimeOrder(out);
+  });
+
+  it.each(['lttb', 'minmax'] as const)(
+    'stays within maxPoints with many short runs (%s)',
+    (method) => {
+      // Gaps of varying length so the merge order matters
+      const levels = gappy(400, 3, 1).map((level, i) => (i % 97 === 0 ? null : level));
+      const points = hourly(levels);
+      for (const maxPoints of [2, 3, 4, 10, 100, 500, 1000]) {
+        const out = downsampleSeries(points, maxPoints, method);
+        expect(out.length, `maxPoints ${maxPoints}`).toBeLessThanOrEqual(maxPoints);
+        expect(out.some((point) => point.water_level !== null)).toBe(true);
+        expectTimeOrder(out);
+      }
+    },
+  );
+
+  it('drops the leading and trailing markers when a single run is over budget', () => {
+    const points = hourly([null, null, ...Array.from({ length: 20 }, (_, i) => i), null]);
+    for (const maxPoints of [2, 3]) {
+      const out = downsampleSeries(points, maxPoints, 'lttb');
+      expect(out.length).toBeLessThanOrEqual(maxPoints);
+      expect(out[0]).toBe(points[2]);
+      expect(out[out.length - 1]).toBe(points[21]);
+    }
+    // With room for them the markers stay
+    const roomy = downsampleSeries(points, 10, 'lttb');
+    expect(roomy[0]).toBe(points[0]);
+    expect(roomy[roomy.length - 1]).toBe(points[22]);
+    expect(roomy.length).toBeLessThanOrEqual(10);
+  });
+
+  it('keeps the peak with minmax even when runs are merged', () => {
+    const levels = gappy(200, 4, 2);
+    levels[401] = 25;
+    const points = hourly(levels);
+    for (const maxPoints of [3, 20, 150]) {
+      const out = downsampleSeries(points, maxPoints, 'minmax');
+      expect(out.length).toBeLessThanOrEqual(maxPoints);
+      expect(out).toContain(points[401]);
+    }
+  });
+
+  it('returns a single marker for a series with no readings', () => {
+    const points = hourly([null, null, null, null]);
+    expect(downsampleSeries(points, 2, 'lttb')).toEqual([points[0]]);
+  });
+});
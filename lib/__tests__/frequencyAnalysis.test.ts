@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AnnualMaximum, FrequencyDistribution } from '../../types';
+import { analyzeFrequency, RETURN_PERIODS, weibullPlottingPositions } from '../frequencyAnalysis';
+
+function annual(values: number[]): AnnualMaximum[] {
+  return values.map((peak_value, i) => ({ year: 2000 + i, peak_value }));
+}
+
+function fitOf(maxima: AnnualMaximum[], distribution: FrequencyDistribution, confidence = 0.9) {
+  const fit = analyzeFrequency(maxima, confidence).fits.find(
+    (item) => item.distribution === distribution,
+  )!;
+  expect(fit.error).toBeUndefined();
+  return fit;
+}
+
+/** Sample L-moments from their definition as averages over ordered pairs and triples (Hosking, 1990) */
+function directLMoments(values: number[]) {
+  const x = [...values].sort((a, b) => a - b);
+  const n = x.length;
+  let pairs = 0;
+  let triples = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      pairs += x[j] - x[i];
+      for (let k = j + 1; k < n; k++) triples += x[k] - 2 * x[j] + x[i];
+    }
+  }
+  const l1 = x.reduce((sum, value) => sum + value, 0) / n;
+  const l2 = pairs / 2 / ((n * (n - 1)) / 2);
+  const l3 = triples / 3 / ((n * (n - 1) * (n - 2)) / 6);
+  return { l1, l2, t3: l3 / l2 };
+}
+
+const LEVELS = [3.12, 4.05, 2.87, 5.41, 3.66, 3.94, 6.2, 3.3, 4.48, 3.05, 4.9, 3.78];
+
+describe('analyzeFrequency', () => {
+  it('fits Gumbel by L-moments and reproduces the tabulated reduced variates', () => {
+    const { l1, l2 } = directLMoments(LEVELS);
+    const fit = fitOf(annual(LEVELS), 'gumbel');
+    const { location, scale } = fit.parameters!;
+
+    // alpha = l2 / ln 2, xi = l1 - 0.5772 alpha
+    expect(scale).toBeCloseTo(l2 / Math.LN2, 10);
+    expect(location).toBeCloseTo(l1 - 0.5772156649 * scale, 10);
+
+    // Gumbel reduced variate y_T = -ln(-ln(1 - 1/T)) as tabulated for T = 2, 5, 10, 50, 100
+    const reduced = fit.quantiles.map((q) => (q.estimate - location) / scale);
+    [0.3665, 1.4999, 2.2504, 3.9019, 4.6001].forEach((y, i) =>
+      expect(reduced[i]).toBeCloseTo(y, 4),
+    );
+  });
+
+  it('fits GEV with a shape that matches the sample L-skewness', () => {
+    const { l1, l2, t3 } = directLMoments(LEVELS);
+    const { location, scale, shape: k } = fitOf(annual(LEVELS), 'gev').parameters!;
+
+    // Exact GEV relations (Hosking, Wallis & Wood, 1985); the rational approximation for k
+    // is within 9e-4 of the exact tau3 for |tau3| < 0.5.
+    expect(Math.abs((2 * (1 - 3 ** -k)) / (1 - 2 ** -k) - 3 - t3)).toBeLessThan(9e-4);
+    expect(location + scale / k - l2 / (1 - 2 ** -k)).toBeCloseTo(l1, 10);
+  });
+
+  it('matches the Bulletin 17B log-Pearson III frequency factors for a skew of 0.5', () => {
+    // log10 values with a sample skew of 0.49995
+    const logs = [2.31, 2.42, 2.48, 2.55, 2.6, 2.66, 2.71, 2.79, 2.86, 2.95, 3.175];
+    const fit = fitOf(annual(logs.map((value) => 10 ** value)), 'lp3');
+    const { mean, sd, skew } = fit.parameters!;
+    expect(skew).toBeCloseTo(0.5, 3);
+
+    // Bulletin 17B, Appendix 3, skew 0.5: K for T = 2, 5, 10, 50, 100.
+    // Wilson–Hilferty stays within 3e-3 of the table at this skew.
+    const factors = fit.quantiles.map((q) => (Math.log10(q.estimate) - mean) / sd);
+    [-0.08302, 0.80829, 1.32309, 2.31086, 2.68572].forEach((k, i) =>
+      expect(Math.abs(factors[i] - k)).toBeLessThan(3e-3),
+    );
+  });
+
+  it('gives identical bootstrap bounds for the same series', () => {
+    const first = analyzeFrequency(annual(LEVELS), 0.9);
+    const second = analyzeFrequency(annual(LEVELS), 0.9);
+    expect(second).toEqual(first);
+
+    for (const fit of first.fits) {
+      expect(fit.quantiles.map((q) => q.returnPeriod)).toEqual([...RETURN_PERIODS]);
+      for (const q of fit.quantiles) {
+        expect(q.lower).not.toBeNull();
+        expect(q.lower!).toBeLessThanOrEqual(q.upper!);
+      }
+    }
+
+    // A lower confidence level narrows the interval drawn from the same resamples
+    const narrow = fitOf(annual(LEVELS), 'gumbel', 0.5).quantiles[4];
+    const wide = fitOf(annual(LEVELS), 'gumbel', 0.9).quantiles[4];
+    expect(narrow.lower!).toBeGreaterThan(wide.lower!);
+    expect(narrow.upper!).toBeLessThan(wide.upper!);
+  });
+
+  it('reports an error per distribution when the record is too short or cannot be fitted', () => {
+    const short = analyzeFrequency(annual([3, 4, 5, 6]), 0.9);
+    expect(short.fits.every((fit) => fit.parameters === null && fit.error)).toBe(true);
+
+    const flat = analyzeFrequency(annual([2, 2, 2, 2, 2, 2]), 0.9);
+    expect(flat.fits.map((fit) => fit.error)).toEqual([
+      'Annual maxima have no spread.',
+      'Annual maxima have no spread.',
+      'Annual maxima have no spread.',
+    ]);
+
+    const negative = analyzeFrequency(annual([-1, 2, 3, 4, 5, 6]), 0.9);
+    expect(negative.fits.find((fit) => fit.distribution === 'lp3')!.error).toMatch(/positive/);
+  });
+});
+
+describe('weibullPlottingPositions', () => {
+  it('ranks maxima in descending order with T = (n + 1) / m', () => {
+    const positions = weibullPlottingPositions(annual([2, 5, 3]));
+    expect(positions.map((p) => [p.year, p.rank, p.returnPeriod])).toEqual([
+      [2001, 1, 4],
+      [2002, 2, 2],
+      [2000, 3, 4 / 3],
+    ]);
+    expect(positions[0].exceedanceProbability).toBe(0.25);
+  });
+});
@@ -1,3 +1,5 @@
+import { timingSafeEqual } from 'node:crypto';
+
 export function parsePositiveInt(value: string | null, fallback: number, max: number): number {
   if (!value) return fallback;
   const parsed = Number.parseInt(value, 10);
@@ -10,8 +12,57 @@ export function parseBoolean(value: string | null, fallback: boolean): boolean {
   return value === '1' || value.toLowerCase() === 'true';
 }
 
+/** False for values such as 2023-02-30 or 25:00 that Date.UTC would roll over into another day */
+export function isCalendarDateTime(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hour &&
+    date.getUTCMinutes() === minute &&
+    date.getUTCSeconds() === second
+  );
+}
+
 export function parseDateOnly(value: string | null): string | null {
   if (!value) return null;
   const trimmed = value.trim();
-  return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? trimmed : null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  if (!match) return null;
+  return isCalendarDateTime(Number(match[1]), Number(match[2]), Number(match[3])) ? trimmed : null;
+}
+
+export function parseFiniteNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Collects `?key=a,b&key=c` style list parameters into ['a', 'b', 'c'] */
+export function parseList(values: string[]): string[] {
+  return values
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Shared-secret guard for write routes. The secret is read from RECORDS_UPLOAD_SECRET and
+ * must be sent as `Authorization: Bearer <secret>`; writes are disabled when it is unset.
+ */
+export function isAuthorizedWriter(authorization: string | null): boolean {
+  const secret = process.env.RECORDS_UPLOAD_SECRET;
+  if (!secret || !authorization?.startsWith('Bearer ')) return false;
+
+  const provided = Buffer.from(authorization.slice('Bearer '.length));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
 }
@@ -0,0 +1,89 @@
+import type { BasinEpisode, EpisodeEventInput, EpisodeMember } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** peak_time comes back as a zone-less "YYYY-MM-DD HH:MM:SS"; only differences are used, so UTC is fine */
+function toMillis(peakTime: string): number {
+  return Date.parse(`${peakTime.replace(' ', 'T')}Z`);
+}
+
+function roundHours(ms: number): number {
+  return Math.round((ms / HOUR_MS) * 100) / 100;
+}
+
+function toEpisode(events: EpisodeEventInput[]): BasinEpisode {
+  const leadMs = toMillis(events[0].peak_time);
+  let previousMs = leadMs;
+  let maxPeakValue: number | null = null;
+
+  const members: EpisodeMember[] = events.map((event, index) => {
+    const peakMs = toMillis(event.peak_time);
+    const member = {
+      ...event,
+      order: index + 1,
+      lagHours: roundHours(peakMs - leadMs),
+      stepLagHours: roundHours(peakMs - previousMs),
+    };
+    previousMs = peakMs;
+    if (event.peak_value !== null && (maxPeakValue === null || event.peak_value > maxPeakValue)) {
+      maxPeakValue = event.peak_value;
+    }
+    return member;
+  });
+
+  const last = members[members.length - 1];
+  return {
+    leadEventId: events[0].id,
+    startPeakTime: events[0].peak_time,
+    endPeakTime: last.peak_time,
+    durationHours: last.lagHours,
+    stationCount: members.length,
+    maxPeakValue,
+    members,
+  };
+}
+
+// 作用：把一个流域内各测站的事件按峰现时间聚成“多站同时发生”的洪水过程（episode）。
+// 输入：按 peak_time 升序的事件；windowHours 为窗口长度；minStations 为成为 episode 所需的最少测站数。
+// 输出：episode 列表（按开始时间升序），成员按峰现先后编号，并给出相对首站和相对上一站的滞后小时数。
+// 为什么这样写：窗口锚定在首个峰值上（而不是相邻事件首尾相连），避免连续降雨把几天的事件串成一个过程；
+//   同一测站在窗口内只保留第一次峰值，传播顺序才有意义。库里没有河网拓扑，所以“上游→下游”以峰现先后近似。
+export function clusterEpisodes(
+  events: EpisodeEventInput[],
+  windowHours: number,
+  minStations: number,
+): BasinEpisode[] {
+  const windowMs = windowHours * HOUR_MS;
+  const episodes: BasinEpisode[] = [];
+
+  let index = 0;
+  while (index < events.length) {
+    const leadMs = toMillis(events[index].peak_time);
+    if (!Number.isFinite(leadMs)) {
+      index += 1;
+      continue;
+    }
+
+    const members: EpisodeEventInput[] = [];
+    const seenStations = new Set<string>();
+    let next = index;
+    while (next < events.length && toMillis(events[next].peak_time) - leadMs <= windowMs) {
+      const event = events[next];
+      if (!seenStations.has(event.station_id)) {
+        seenStations.add(event.station_id);
+        members.push(event);
+      }
+      next += 1;
+    }
+
+    if (members.length >= minStations) {
+      episodes.push(toEpisode(members));
+      index = next;
+    } else {
+      // Not enough stations joined this lead event; the next event may still start a valid window.
+      index += 1;
+    }
+  }
+
+  return episodes;
+}
@@ -0,0 +1,188 @@
+import type { SeriesDownsampleMethod, StationSeriesPoint } from '../types';
+
+type Reading = { x: number; y: number; point: StationSeriesPoint };
+type Picker = (run: Reading[], budget: number) => Reading[];
+
+/** observed_at is a zone-less "YYYY-MM-DD HH:MM:SS"; only distances matter, so UTC is fine */
+function toMillis(observedAt: string): number {
+  return Date.parse(`${observedAt.replace(' ', 'T')}Z`);
+}
+
+/** Largest-Triangle-Three-Buckets (Steinarsson, 2013); keeps the first and last reading */
+export function lttb(run: Reading[], budget: number): Reading[] {
+  if (budget >= run.length) return run;
+  if (budget < 3) return [run[0], run[run.length - 1]];
+
+  const picked = [run[0]];
+  const bucketSize = (run.length - 2) / (budget - 2);
+  let anchor = run[0];
+
+  for (let b = 0; b < budget - 2; b++) {
+    const start = Math.floor(b * bucketSize) + 1;
+    const end = Math.floor((b + 1) * bucketSize) + 1;
+
+    // Average of the next bucket is the third triangle vertex.
+    const nextStart = end;
+    const nextEnd = Math.min(run.length, Math.floor((b + 2) * bucketSize) + 1);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += run[i].x;
+      avgY += run[i].y;
+    }
+    const nextCount = Math.max(1, nextEnd - nextStart);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    let best = run[start];
+    let bestArea = -1;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (anchor.x - avgX) * (run[i].y - anchor.y) - (anchor.x - run[i].x) * (avgY - anchor.y),
+      );
+      if (area > bestArea) {
+        bestArea = area;
+        best = run[i];
+      }
+    }
+    picked.push(best);
+    anchor = best;
+  }
+
+  picked.push(run[run.length - 1]);
+  return picked;
+}
+
+/** Per bucket, the minimum and maximum reading in time order; never clips a peak */
+export function minMax(run: Reading[], budget: number): Reading[] {
+  if (budget >= run.length) return run;
+
+  const bucketCount = Math.max(1, Math.floor(budget / 2));
+  const bucketSize = run.length / bucketCount;
+  const picked: Reading[] = [];
+  for (let b = 0; b < bucketCount; b++) {
+    const bucket = run.slice(Math.floor(b * bucketSize), Math.floor((b + 1) * bucketSize));
+    if (bucket.length === 0) continue;
+    let low = bucket[0];
+    let high = bucket[0];
+    for (const reading of bucket) {
+      if (reading.y < low.y) low = reading;
+      if (reading.y > high.y) high = reading;
+    }
+    if (low === high) picked.push(low);
+    else picked.push(...(low.x < high.x ? [low, high] : [high, low]));
+  }
+  return picked;
+}
+
+const PICKERS: Record<Exclude<SeriesDownsampleMethod, 'avg'>, Picker> = { lttb, minmax: minMax };
+
+type Run = { gap: StationSeriesPoint | null; readings: Reading[] };
+
+/** Fewest points a run can be drawn with: its two ends, or its only reading */
+function minShare(readingCount: number): number {
+  return Math.min(2, readingCount);
+}
+
+/**
+ * Joins runs across their shortest gaps until every run plus its gap marker fits in maxPoints.
+ * A joined gap is bridged by the line, which is least visible where the gap is short.
+ */
+function mergeRuns(runs: Run[], maxPoints: number, trailingGap: boolean): Run[] {
+  const markers = (run: Run) => (run.gap ? 1 : 0);
+  let need = runs.reduce((sum, run) => sum + markers(run) + minShare(run.readings.length), 0);
+  if (trailingGap) need += 1;
+  if (need <= maxPoints) return runs;
+
+  // Union-find over run indices; a group is always a contiguous stretch of runs.
+  const parent = runs.map((_, i) => i);
+  const size = runs.map((run) => run.readings.length);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const gapOrder = runs
+    .slice(1)
+    .map((run, i) => ({
+      i,
+      span: run.readings[0].x - runs[i].readings[runs[i].readings.length - 1].x,
+    }))
+    .sort((a, b) => a.span - b.span);
+
+  const joined = new Set<number>();
+  for (const { i } of gapOrder) {
+    if (need <= maxPoints) break;
+    const left = find(i);
+    const right = find(i + 1);
+    need += minShare(size[left] + size[right]) - minShare(size[left]) - minShare(size[right]) - 1;
+    parent[right] = left;
+    size[left] += size[right];
+    joined.add(i + 1);
+  }
+
+  const merged: Run[] = [];
+  runs.forEach((run, i) => {
+    if (joined.has(i)) merged[merged.length - 1].readings.push(...run.readings);
+    else merged.push({ gap: run.gap, readings: [...run.readings] });
+  });
+  return merged;
+}
+
+// 作用：把时间顺序的水位读数压缩到不超过 maxPoints 个点，供过程线绘图。
+// 输入：原始读数（water_level 为 null 表示缺测）、目标点数、方法（lttb / minmax）。
+// 输出：降采样后的读数；缺测处保留一个 null 点，折线在那里断开。maxPoints ≥ 2 时输出点数一定不超过 maxPoints。
+// 为什么这样写：两种方法都只挑选真实读数、不做平均，洪峰不会被削平；按缺测切成连续段分别处理，
+//   每段按长度分配点数，避免把缺测两侧的读数连成一条假线。缺测段太多、每段两个点加一个缺测标记已放不下时，
+//   先合并间隔最短的相邻段，仍放不下再去掉首尾的缺测标记。
+export function downsampleSeries(
+  points: StationSeriesPoint[],
+  maxPoints: number,
+  method: Exclude<SeriesDownsampleMethod, 'avg'>,
+): StationSeriesPoint[] {
+  if (points.length <= maxPoints) return points;
+
+  // Each run is preceded by the first missing reading of the gap before it (if any).
+  let runs: Run[] = [];
+  let gap: StationSeriesPoint | null = null;
+  for (const point of points) {
+    if (point.water_level === null) {
+      gap ??= point;
+      continue;
+    }
+    if (gap || runs.length === 0) {
+      runs.push({ gap, readings: [] });
+      gap = null;
+    }
+    runs[runs.length - 1].readings.push({
+      x: toMillis(point.observed_at),
+      y: point.water_level,
+      point,
+    });
+  }
+  if (runs.length === 0) return gap ? [gap] : [];
+
+  runs = mergeRuns(runs, maxPoints, gap !== null);
+  let trailingGap = gap;
+  const markerCount = () =>
+    runs.reduce((sum, run) => sum + (run.gap ? 1 : 0), 0) + (trailingGap ? 1 : 0);
+  // A single run left over budget: the leading and trailing markers go last.
+  if (runs.length === 1 && minShare(runs[0].readings.length) + markerCount() > maxPoints) {
+    runs[0].gap = null;
+    trailingGap = null;
+  }
+
+  // Every run keeps its minimum; what is left is shared by length, rounded down.
+  const readingCount = runs.reduce((sum, run) => sum + run.readings.length, 0);
+  const minimum = runs.reduce((sum, run) => sum + minShare(run.readings.length), 0);
+  const spare = Math.max(0, maxPoints - markerCount() - minimum);
+  const picker = PICKERS[method];
+
+  const result: StationSeriesPoint[] = [];
+  for (const run of runs) {
+    // A single marker stands in for the whole gap of missing hours.
+    if (run.gap) result.push(run.gap);
+    const share =
+      minShare(run.readings.length) + Math.floor((run.readings.length / readingCount) * spare);
+    for (const reading of picker(run.readings, share)) result.push(reading.point);
+  }
+  if (trailingGap) result.push(trailingGap);
+  return result;
+}
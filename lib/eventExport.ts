@@ -0,0 +1,216 @@
+import { PassThrough, Readable, type Writable } from 'node:stream';
+
+import type { StationRecentEvent } from '../types';
+import {
+  decodeEventCursor,
+  type EventCursor,
+  queryMatchedEvents,
+  queryStationMatchedEvents,
+} from './queries/events';
+
+export type EventExportFormat = 'csv' | 'xlsx' | 'columnar';
+
+export type EventExportTarget =
+  | { kind: 'station'; stationId: string; basinName: string | null }
+  | { kind: 'basin'; basinName: string };
+
+export interface EventExportRequest {
+  target: EventExportTarget;
+  peakStart: string | null;
+  peakEnd: string | null;
+  /** Aborted when the client goes away; paging stops at the next page boundary */
+  signal?: AbortSignal;
+}
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | number | null>;
+
+export const EXPORT_COLUMNS = [
+  'index',
+  'station_id',
+  'basin_name',
+  'start_time',
+  'peak_time',
+  'end_time',
+  'start_value',
+  'peak_value',
+  'end_value',
+  'rise_time',
+  'fall_time',
+] as const;
+
+// Pages are pulled from Postgres one at a time, and the next one only once the client has taken
+// the previous one, so memory stays bounded by about one page.
+const EXPORT_PAGE_SIZE = 5000;
+
+function queryPage(
+  target: EventExportTarget,
+  range: { startTs: string | null; endTs: string | null; limit: number },
+  cursor: EventCursor | null,
+): Promise<{ items: StationRecentEvent[]; nextCursor: string | null }> {
+  return target.kind === 'station'
+    ? queryStationMatchedEvents({ ...range, stationId: target.stationId, cursor })
+    : queryMatchedEvents({ ...range, basinName: target.basinName, cursor });
+}
+
+async function* iteratePages({ target, peakStart, peakEnd, signal }: EventExportRequest) {
+  const range = {
+    startTs: peakStart ? `${peakStart} 00:00:00` : null,
+    endTs: peakEnd ? `${peakEnd} 23:59:59` : null,
+    limit: EXPORT_PAGE_SIZE,
+  };
+  // Station rows carry no basin column; every row shares the station's basin.
+  const fallbackBasin = target.basinName;
+
+  let index = 0;
+  let cursor: EventCursor | null = null;
+  do {
+    if (signal?.aborted) return;
+    const page = await queryPage(target, range, cursor);
+    yield page.items.map(
+      (item): ExportRow => ({
+        index: ++index,
+        station_id: item.station_id ?? (target.kind === 'station' ? target.stationId : null),
+        basin_name: item.basin_name ?? fallbackBasin,
+        start_time: item.start_time,
+        peak_time: item.peak_time,
+        end_time: item.end_time,
+        start_value: item.start_value,
+        peak_value: item.peak_value,
+        end_value: item.end_value,
+        rise_time: item.rise_time,
+        fall_time: item.fall_time,
+      }),
+    );
+    cursor = page.nextCursor ? decodeEventCursor(page.nextCursor) : null;
+  } while (cursor);
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function exportMetadata(request: EventExportRequest, rowCount: number, generatedAt: Date) {
+  const { target } = request;
+  return [
+    ['scope', target.kind],
+    ['station_id', target.kind === 'station' ? target.stationId : ''],
+    ['basin_name', target.basinName ?? ''],
+    ['peak_start', request.peakStart ?? ''],
+    ['peak_end', request.peakEnd ?? ''],
+    ['generated_at', generatedAt.toISOString()],
+    ['row_count', rowCount],
+  ] as const;
+}
+
+async function* csvChunks(request: EventExportRequest) {
+  // BOM so Excel opens Japanese station/basin names as UTF-8.
+  yield `\uFEFF${EXPORT_COLUMNS.join(',')}\r\n`;
+  for await (const rows of iteratePages(request)) {
+    if (rows.length === 0) continue;
+    yield rows
+      .map((row) => EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(',') + '\r\n')
+      .join('');
+  }
+}
+
+// One JSON line per page, each holding column arrays (a row group), followed by a metadata line.
+async function* columnarChunks(request: EventExportRequest) {
+  const generatedAt = new Date();
+  let rowCount = 0;
+  for await (const rows of iteratePages(request)) {
+    if (rows.length === 0) continue;
+    const columns = Object.fromEntries(
+      EXPORT_COLUMNS.map((column) => [column, rows.map((row) => row[column])]),
+    );
+    rowCount += rows.length;
+    yield `${JSON.stringify({ type: 'rowGroup', rows: rows.length, columns })}\n`;
+  }
+  yield `${JSON.stringify({ type: 'metadata', ...Object.fromEntries(exportMetadata(request, rowCount, generatedAt)) })}\n`;
+}
+
+async function* utf8(chunks: AsyncGenerator<string>) {
+  for await (const chunk of chunks) yield Buffer.from(chunk, 'utf8');
+}
+
+/**
+ * exceljs writes through archiver into `output` without looking at write()'s return value, so
+ * the loop waits here instead: first for archiver to flush what the last page produced, then
+ * for `output` to drain. Resolves early once the stream is closed.
+ */
+async function waitForConsumer(output: Writable): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+  if (output.destroyed || !output.writableNeedDrain) return;
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+  });
+}
+
+function xlsxStream(request: EventExportRequest): Readable {
+  const output = new PassThrough();
+  // Closing the output (client cancelled the body) or aborting the request stops the paging.
+  const stop = new AbortController();
+  output.once('close', () => stop.abort());
+  request.signal?.addEventListener('abort', () => output.destroy(), { once: true });
+
+  void (async () => {
+    const ExcelJS = await import('exceljs');
+    const generatedAt = new Date();
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useSharedStrings: false,
+      useStyles: false,
+    });
+
+    const events = workbook.addWorksheet('events');
+    events.columns = EXPORT_COLUMNS.map((column) => ({ header: column, key: column }));
+    let rowCount = 0;
+    for await (const rows of iteratePages({ ...request, signal: stop.signal })) {
+      for (const row of rows) events.addRow(row).commit();
+      rowCount += rows.length;
+      await waitForConsumer(output);
+    }
+    if (stop.signal.aborted) return;
+    events.commit();
+
+    const metadata = workbook.addWorksheet('metadata');
+    metadata.columns = [
+      { header: 'key', key: 'key' },
+      { header: 'value', key: 'value' },
+    ];
+    for (const [key, value] of exportMetadata(request, rowCount, generatedAt)) {
+      metadata.addRow({ key, value }).commit();
+    }
+    metadata.commit();
+
+    await workbook.commit();
+  })().catch((error: unknown) => {
+    output.destroy(error instanceof Error ? error : new Error(String(error)));
+  });
+
+  return output;
+}
+
+// 作用：把某测站或流域在日期范围内的全部事件流式导出为 CSV、XLSX 或按页分块的列式 JSON。
+// 输入：导出目标（测站/流域）与 peak_time 日期范围；format 决定输出格式。
+// 输出：Web ReadableStream，可直接作为 Response body。
+// 为什么这样写：按 (peak_time, id) keyset 逐页读库、边读边写，客户端读走上一页后才取下一页，内存约为一页；
+//   CSV / 列式由 Readable.from 按需拉取，XLSX 每页后等待输出流 drain；客户端断开（signal 中止或流被关闭）后停止读库。
+//   XLSX 用 exceljs 的流式 WorkbookWriter，事件写完后再追加 metadata 表，此时行数已知。
+export function streamEventExport(
+  request: EventExportRequest,
+  format: EventExportFormat,
+): ReadableStream<Uint8Array> {
+  const nodeStream =
+    format === 'xlsx'
+      ? xlsxStream(request)
+      : Readable.from(utf8(format === 'csv' ? csvChunks(request) : columnarChunks(request)));
+  return Readable.toWeb(nodeStream) as ReadableStream<Uint8Array>;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import { cleanFiles } from '../cleaner/cleanPipeline';
+import { formatTimestamp } from '../utils/formatDate';
+import { jstDate } from '../utils/jst';
+import { fixtureFile } from './fixtures';
+
+const FULL_RANGE = { start: jstDate(1998, 1, 1), end: jstDate(1998, 1, 4) };
+
+function files() {
+  return {
+    sjis: fixtureFile('shift_jis', '19980101_19980101.txt'),
+    euc: fixtureFile('euc_jp', '19980102_19980102.txt'),
+    utf8: fixtureFile('utf8_bom', 'hirakata.txt'),
+  };
+}
+
+function levelAt(records: { dateTime: Date; waterLevel: number | null }[], timestamp: string) {
+  return records.find((r) => formatTimestamp(r.dateTime) === timestamp)?.waterLevel;
+}
+
+describe('cleanFiles', () => {
+  it('merges the three encodings into one sorted series', async () => {
+    const { sjis, euc, utf8 } = files();
+    const { records, stats } = await cleanFiles([utf8, sjis, euc], FULL_RANGE, 'auto');
+
+    const times = records.map((r) => r.dateTime.getTime());
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(new Set(times).size).toBe(times.length);
+    expect(formatTimestamp(records[0].dateTime)).toBe('1998-01-01 01:00');
+    expect(formatTimestamp(records[records.length - 1].dateTime)).toBe('1998-01-04 00:00');
+
+    // 24 + 24 + 25 parsed rows; the two rows utf8_bom shares with euc_jp are merged
+    expect(records).toHaveLength(71);
+    expect(stats).toEqual({
+      totalRows: 73,
+      validRows: 69,
+      tentativeCount: 1,
+      missingCount: 2,
+      closedCount: 1,
+      unregisteredCount: 1,
+      errorRows: 1,
+      validRate: 69 / 73,
+      longestGapHours: 4,
+      resolutionMinutes: 60,
+    });
+  });
+
+  it('maps flags to labels and 24:00 rows to the next day', async () => {
+    const { records } = await cleanFiles([files().sjis], FULL_RANGE, 'auto');
+    expect(records.slice(4, 8).map((r) => [r.waterLevel, r.qualityFlag])).toEqual([
+      [null, '欠測'],
+      [null, '閉局'],
+      [null, '未登録'],
+      [3.48, '暫定値'],
+    ]);
+    expect(records[23]).toMatchObject({ waterLevel: 3.64, year: 1998, month: 1, day: 2 });
+  });
+
+  it('keeps the last occurrence of a duplicated timestamp', async () => {
+    const { sjis, euc, utf8 } = files();
+
+    const eucLast = await cleanFiles([utf8, euc], FULL_RANGE, 'auto');
+    expect(levelAt(eucLast.records, '1998-01-02 23:00')).toBe(2.23);
+    expect(levelAt(eucLast.records, '1998-01-03 00:00')).toBe(2.24);
+    expect(eucLast.log).toContain('Dedup: removed 2 duplicate timestamps (kept last)');
+
+    const utf8Last = await cleanFiles([sjis, euc, utf8], FULL_RANGE, 'auto');
+    expect(levelAt(utf8Last.records, '1998-01-02 23:00')).toBe(5.23);
+    expect(levelAt(utf8Last.records, '1998-01-03 00:00')).toBe(5.24);
+  });
+
+  it('keeps only rows inside the selected range, both ends inclusive', async () => {
+    const { sjis, euc } = files();
+    const range = { start: jstDate(1998, 1, 1, 12), end: jstDate(1998, 1, 2, 12) };
+    const { records, stats } = await cleanFiles([sjis, euc], range, 'auto');
+    expect(formatTimestamp(records[0].dateTime)).toBe('1998-01-01 12:00');
+    expect(formatTimestamp(records[records.length - 1].dateTime)).toBe('1998-01-02 12:00');
+    expect(stats.totalRows).toBe(25);
+    expect(stats.missingCount).toBe(1);
+  });
+
+  it('logs parse errors and reports progress', async () => {
+    const progress: number[] = [];
+    const streamed: string[] = [];
+    const { log } = await cleanFiles(
+      [files().utf8],
+      FULL_RANGE,
+      'river-txt',
+      (percent) => progress.push(percent),
+      (line) => streamed.push(line),
+    );
+    expect(streamed).toEqual(log);
+    expect(log[0]).toBe(
+      '[hirakata.txt] Read OK (Water Info TXT (hourly)): ' +
+        '25 data lines, 8 non-data lines skipped, 1 parse errors',
+    );
+    expect(log[1]).toMatch(/^ {2}! Line 22: 数值解析失败: "abc"/);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  it('returns an empty series when nothing is in range', async () => {
+    const range = { start: jstDate(2000, 1, 1), end: jstDate(2000, 12, 31) };
+    const { records, stats } = await cleanFiles([files().sjis], range, 'auto');
+    expect(records).toEqual([]);
+    expect(stats.totalRows).toBe(0);
+    expect(stats.validRate).toBe(0);
+  });
+});
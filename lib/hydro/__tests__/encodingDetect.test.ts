@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectEncoding, readFileAsText } from '../parser/encodingDetect';
+import { fixtureBytes, type FixtureName } from './fixtures';
+
+const HEADER = '水位月表検索結果\r\n水系名,淀川\r\n河川名,宇治川\r\n観測所名,枚方（ひらかた）';
+
+function toArrayBuffer(bytes: Uint8Array<ArrayBuffer>): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+describe('detectEncoding', () => {
+  it.each<[FixtureName, string]>([
+    ['shift_jis', 'Shift_JIS'],
+    ['euc_jp', 'EUC-JP'],
+    ['utf8_bom', 'UTF-8'],
+  ])('detects %s', (name, encoding) => {
+    expect(detectEncoding(toArrayBuffer(fixtureBytes(name)))).toBe(encoding);
+  });
+
+  it('detects UTF-8 without a BOM', () => {
+    const bytes = new TextEncoder().encode(HEADER);
+    expect(detectEncoding(toArrayBuffer(bytes))).toBe('UTF-8');
+  });
+
+  it('falls back to UTF-8 for plain ASCII and empty input', () => {
+    expect(detectEncoding(toArrayBuffer(new TextEncoder().encode('1998/01/01,01:00,3.41,')))).toBe(
+      'UTF-8',
+    );
+    expect(detectEncoding(new ArrayBuffer(0))).toBe('UTF-8');
+  });
+});
+
+describe('readFileAsText', () => {
+  it.each<FixtureName>(['shift_jis', 'euc_jp', 'utf8_bom'])('decodes %s', async (name) => {
+    const text = await readFileAsText(new Blob([fixtureBytes(name)]));
+    expect(text.startsWith(HEADER)).toBe(true);
+    expect(text).toContain('\r\n1998/01/0');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+
+import { cleanFiles } from '../cleaner/cleanPipeline';
+import { applyDetrend } from '../detrend/rollingMedian';
+import { extractEvents, findPeaks, percentile } from '../extract/eventExtractor';
+import type { DetrendedRecord } from '../types';
+import { formatTimestamp } from '../utils/formatDate';
+import { jstDate, jstParts } from '../utils/jst';
+import { fixtureFile } from './fixtures';
+
+const START = jstDate(2020, 7, 1, 1);
+
+/** Hourly records whose detrended values are `values`; observed levels sit 100 m above them */
+function series(values: (number | null)[]): DetrendedRecord[] {
+  return values.map((detrended, i) => {
+    const dateTime = new Date(START.getTime() + i * 60 * 60 * 1000);
+    const { year, month, day } = jstParts(dateTime);
+    return {
+      dateTime,
+      waterLevel: detrended === null ? null : detrended + 100,
+      qualityFlag: '',
+      year,
+      month,
+      day,
+      detrended,
+      baseline: detrended === null ? null : 100,
+    };
+  });
+}
+
+function hour(i: number): string {
+  return formatTimestamp(new Date(START.getTime() + i * 60 * 60 * 1000));
+}
+
+// Alternating 1/2 background: P50 and P75 are both 2, so only the bumps count as peaks
+const BACKGROUND = [1, 2, 1, 2, 1, 2, 1, 2];
+
+describe('percentile', () => {
+  it('interpolates between closest ranks like numpy', () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([1, 2, 3, 4], 75)).toBe(3.25);
+    expect(percentile([7], 75)).toBe(7);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('findPeaks', () => {
+  it('takes the left edge of a plateau and skips flanks at gaps', () => {
+    expect(findPeaks([0, 3, 3, 3, 1, 0])).toEqual([1]);
+    expect(findPeaks([0, 2, 0, 4, null, 5, 1])).toEqual([1]);
+    // A rising edge into the end of the series is not a peak
+    expect(findPeaks([0, 1, 2, 3])).toEqual([]);
+  });
+
+  it('drops plateaus longer than maxPlateau', () => {
+    expect(findPeaks([0, 3, 3, 3, 1, 5, 0], 2)).toEqual([5]);
+    expect(findPeaks([0, 3, 3, 3, 1, 5, 0], 3)).toEqual([1, 5]);
+  });
+});
+
+describe('extractEvents', () => {
+  it('bounds a peak above P75 by the nearest P50 crossings', () => {
+    const { events, stats } = extractEvents(series([...BACKGROUND, 5, 9, 5, 2, 1, 2, 1, 2]));
+
+    expect(stats).toEqual({
+      p50: 2,
+      p75: 2,
+      peakCandidates: 5,
+      peaksAboveP75: 1,
+      incompleteEvents: 0,
+      belowThreshold: 0,
+      mergedPeaks: 0,
+    });
+    expect(events).toHaveLength(1);
+    const [event] = events;
+    expect([event.start_time, event.peak_time, event.end_time].map(formatTimestamp)).toEqual([
+      hour(6),
+      hour(9),
+      hour(12),
+    ]);
+    // Values come from the observed series, not the detrended one
+    expect([event.start_value, event.peak_value, event.end_value]).toEqual([101, 109, 101]);
+    expect([event.rise_time, event.fall_time]).toEqual([3, 3]);
+  });
+
+  it('reports plateau peaks at their left edge and honours maxPlateau', () => {
+    const values = [...BACKGROUND, 5, 9, 9, 9, 5, 1, 2, 1, 2, 1, 2];
+    const [event] = extractEvents(series(values)).events;
+    expect(formatTimestamp(event.peak_time)).toBe(hour(9));
+    expect(event.fall_time).toBe(4);
+
+    expect(extractEvents(series(values), { maxPlateau: 2 }).events).toEqual([]);
+  });
+
+  it('keeps the highest of several peaks that share a start and end', () => {
+    const { events, stats } = extractEvents(
+      series([...BACKGROUND, 5, 9, 6, 8, 5, 1, 2, 1, 2, 1, 2, 1, 2]),
+    );
+    expect(events).toHaveLength(1);
+    expect(formatTimestamp(events[0].peak_time)).toBe(hour(9));
+    expect(stats.mergedPeaks).toBe(1);
+  });
+
+  it('counts peaks without a crossing before a gap or the series edge as incomplete', () => {
+    const { events, stats } = extractEvents(
+      series([2, 9, 5, 1, ...BACKGROUND, 1, null, 5, 9, 5, 1, 2, 1, 2, 1, 2, 1, 2, 1]),
+    );
+    // The first peak has no P50 crossing before it; the second runs into the gap
+    expect(stats.peaksAboveP75).toBe(2);
+    expect(stats.incompleteEvents).toBe(2);
+    expect(events).toEqual([]);
+  });
+
+  it('drops events rising less than minRise only when it is set', () => {
+    const values = [...BACKGROUND, 3, 1, 2, 1, 2, 5, 9, 5, 1, 2, 1, 2];
+    expect(extractEvents(series(values)).events).toHaveLength(2);
+
+    const { events, stats } = extractEvents(series(values), { minRise: 2.5 });
+    expect(events.map((event) => formatTimestamp(event.peak_time))).toEqual([hour(14)]);
+    expect(stats.belowThreshold).toBe(1);
+  });
+
+  it('uses the requested percentiles', () => {
+    const values = [...BACKGROUND, 5, 9, 5, 2, 1, 2, 1, 2];
+    const sorted = values.slice().sort((a, b) => a - b);
+    const { stats } = extractEvents(series(values), { peakPercentile: 90, boundaryPercentile: 40 });
+    expect(stats.p75).toBe(percentile(sorted, 90));
+    expect(stats.p50).toBe(percentile(sorted, 40));
+  });
+
+  it('takes supplied thresholds over the percentiles of the records', () => {
+    const values = [...BACKGROUND, 5, 9, 5, 2, 1, 2, 1, 2];
+    const { events, stats } = extractEvents(series(values), {
+      peakPercentile: 90,
+      thresholds: { p50: 6, p75: 8 },
+    });
+    expect([stats.p50, stats.p75]).toEqual([6, 8]);
+    // Bounded by the readings below 6 on either side of the 9
+    expect([events[0].start_time, events[0].end_time].map(formatTimestamp)).toEqual([
+      hour(8),
+      hour(10),
+    ]);
+  });
+
+  it('returns no events for a series without valid values', () => {
+    const { events, stats } = extractEvents(series([null, null, null]));
+    expect(events).toEqual([]);
+    expect(stats.p50).toBeNull();
+    expect(stats.peakCandidates).toBe(0);
+  });
+
+  it('leaves a fixture peak with no P50 crossing before the series end incomplete', async () => {
+    const files = [
+      fixtureFile('shift_jis', '19980101_19980101.txt'),
+      fixtureFile('euc_jp', '19980102_19980102.txt'),
+      fixtureFile('utf8_bom', 'hirakata.txt'),
+    ];
+    const range = { start: jstDate(1998, 1, 1), end: jstDate(1998, 1, 4) };
+    const { records } = await cleanFiles(files, range, 'auto');
+    const { events, stats } = extractEvents(applyDetrend(records, 'skip').records);
+
+    const levels = records
+      .map((r) => r.waterLevel)
+      .filter((v): v is number => v !== null)
+      .sort((a, b) => a - b);
+    expect(stats.p50).toBe(percentile(levels, 50));
+    expect(stats.p75).toBe(percentile(levels, 75));
+    // Each day ramps up; the day boundaries give two peaks. 3.64 (01-02 00:00) is below P75,
+    // 5.24 (01-03 00:00) is above it but the series ends before falling back under P50.
+    expect(stats).toMatchObject({ peakCandidates: 2, peaksAboveP75: 1, incompleteEvents: 1 });
+    expect(events).toEqual([]);
+  });
+});
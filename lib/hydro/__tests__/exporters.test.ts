@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { interpolateGaps } from '../cleaner/interpolate';
+import { applyDetrend } from '../detrend/rollingMedian';
+import { buildCleanedCsv } from '../export/csvExporter';
+import { generateProcessingLog, type ProcessingLogInput } from '../export/logExporter';
+import type { CleanStats, HydroRecord } from '../types';
+import { jstDate, jstParts } from '../utils/jst';
+
+function hourly(levels: (number | null)[]): HydroRecord[] {
+  const start = jstDate(1998, 1, 1, 23);
+  return levels.map((waterLevel, i) => {
+    const dateTime = new Date(start.getTime() + i * 60 * 60 * 1000);
+    const { year, month, day } = jstParts(dateTime);
+    return {
+      dateTime,
+      waterLevel,
+      qualityFlag: waterLevel === null ? '欠測' : '',
+      year,
+      month,
+      day,
+    };
+  });
+}
+
+describe('buildCleanedCsv', () => {
+  it('writes one CRLF-separated row per record with blanks for missing values', () => {
+    expect(buildCleanedCsv(hourly([3.41, null, -0.5]))).toBe(
+      [
+        'Timestamp,WaterLevel',
+        '1998-01-01 23:00,3.41',
+        '1998-01-02 00:00,',
+        '1998-01-02 01:00,-0.5',
+      ].join('\r\n'),
+    );
+  });
+
+  it('adds the Interpolated column after gap filling', () => {
+    const { records } = interpolateGaps(hourly([1, null, 3, null]), 6);
+    expect(buildCleanedCsv(records).split('\r\n')).toEqual([
+      'Timestamp,WaterLevel,Interpolated',
+      '1998-01-01 23:00,1,0',
+      '1998-01-02 00:00,2,1',
+      '1998-01-02 01:00,3,0',
+      '1998-01-02 02:00,,0',
+    ]);
+  });
+
+  it('writes only the header for an empty series', () => {
+    expect(buildCleanedCsv([])).toBe('Timestamp,WaterLevel');
+  });
+});
+
+describe('generateProcessingLog', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(jstDate(2024, 6, 1, 9, 30, 5));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const cleanStats: CleanStats = {
+    totalRows: 4,
+    validRows: 3,
+    tentativeCount: 1,
+    missingCount: 1,
+    closedCount: 0,
+    unregisteredCount: 0,
+    errorRows: 2,
+    validRate: 0.75,
+    longestGapHours: 2,
+    resolutionMinutes: 60,
+  };
+
+  function input(overrides: Partial<ProcessingLogInput> = {}): ProcessingLogInput {
+    const records = hourly([1, null, 3, 4]);
+    const detrended = applyDetrend(records, 'full');
+    return {
+      stationId: '306041286606070',
+      selectedRange: { start: jstDate(1998, 1, 1), end: jstDate(1998, 12, 31, 23) },
+      cleanStats,
+      resample: { targetMinutes: null, method: 'mean' },
+      interpolation: { enabled: false, maxGapHours: 6 },
+      interpolationStats: null,
+      strategy: 'full',
+      windowSize: detrended.windowSize,
+      alignedYears: detrended.alignedYears,
+      sourceCount: records.length,
+      detrendedData: detrended.records,
+      ...overrides,
+    };
+  }
+
+  it('summarizes every stage', () => {
+    expect(generateProcessingLog(input())).toBe(
+      [
+        'HydroPrep Processing Log',
+        'GeneratedAt: 2024-06-01 09:30:05',
+        'StationId: 306041286606070',
+        'SelectedRange: 1998/01 - 1998/12',
+        '',
+        '[Cleaning]',
+        'TotalRows: 4',
+        'ValidRows: 3',
+        'TentativeRows: 1',
+        'MissingRows: 1',
+        'ClosedRows: 0',
+        'UnregisteredRows: 0',
+        'ErrorRows: 2',
+        'ValidRate: 0.7500',
+        'LongestGapHours: 2.0',
+        'ResolutionMinutes: 60',
+        '',
+        '[Preprocessing]',
+        'ResampleMinutes: -',
+        'ResampleMethod: -',
+        'GapFilling: no',
+        'MaxGapHours: -',
+        'FilledGaps: 0',
+        'FilledRows: 0',
+        'UnfilledGaps: 0',
+        '',
+        '[Detrend]',
+        'Strategy: full',
+        'Baseline: rolling median (window of 1/3 of the series)',
+        'WindowSize: 3',
+        'AlignedYears: 0',
+        'SourceRecords: 4',
+        'DetrendedRecords: 4',
+        'ValidDetrended: 3',
+        'ValidBaseline: 4',
+        'NullWaterLevelRows: 1',
+      ].join('\n'),
+    );
+  });
+
+  it('records resampling and gap filling when they ran', () => {
+    const filled = interpolateGaps(hourly([1, null, 3, 4]), 6);
+    const log = generateProcessingLog(
+      input({
+        resample: { targetMinutes: 180, method: 'max' },
+        interpolation: { enabled: true, maxGapHours: 6 },
+        interpolationStats: filled.stats,
+      }),
+    );
+    expect(log).toContain(
+      [
+        '[Preprocessing]',
+        'ResampleMinutes: 180',
+        'ResampleMethod: max',
+        'GapFilling: yes',
+        'MaxGapHours: 6',
+        'FilledGaps: 1',
+        'FilledRows: 1',
+        'UnfilledGaps: 0',
+      ].join('\n'),
+    );
+  });
+
+  it('falls back to placeholders before cleaning has run', () => {
+    const log = generateProcessingLog(
+      input({ stationId: '', selectedRange: null, cleanStats: null, detrendedData: [] }),
+    );
+    expect(log).toContain('StationId: -\nSelectedRange: -');
+    expect(log).toContain('TotalRows: 0');
+    expect(log).toContain('ValidRate: 0.0000');
+    expect(log).toContain('ResolutionMinutes: -');
+    expect(log).toContain('DetrendedRecords: 0');
+  });
+});
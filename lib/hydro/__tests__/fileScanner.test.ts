@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+
+import { getDateRange, scanFiles } from '../parser/fileScanner';
+import type { ScannedFile } from '../types';
+import { formatTimestamp } from '../utils/formatDate';
+import { fixtureFile } from './fixtures';
+
+function summarize(scanned: ScannedFile[]) {
+  return scanned.map((f) => ({
+    fileName: f.fileName,
+    format: f.format,
+    startDate: f.startDate && formatTimestamp(f.startDate),
+    endDate: f.endDate && formatTimestamp(f.endDate),
+    parseError: f.parseError,
+  }));
+}
+
+describe('scanFiles', () => {
+  it('takes the range from YYYYMMDD_YYYYMMDD file names', async () => {
+    const scanned = await scanFiles([
+      fixtureFile('euc_jp', '19980102_19980102.txt'),
+      fixtureFile('shift_jis', '19980101_19980101.txt'),
+    ]);
+    expect(summarize(scanned)).toEqual([
+      {
+        fileName: '19980101_19980101.txt',
+        format: 'river-txt',
+        startDate: '1998-01-01 00:00',
+        endDate: '1998-01-01 00:00',
+        parseError: null,
+      },
+      {
+        fileName: '19980102_19980102.txt',
+        format: 'river-txt',
+        startDate: '1998-01-02 00:00',
+        endDate: '1998-01-02 00:00',
+        parseError: null,
+      },
+    ]);
+  });
+
+  it('reads the range from the content when the name has no dates', async () => {
+    const [scanned] = await scanFiles([fixtureFile('utf8_bom', 'hirakata.txt')]);
+    // The last row is 1998/01/03 24:00, i.e. 1998/01/04 00:00
+    expect(summarize([scanned])[0]).toMatchObject({
+      startDate: '1998-01-02 00:00',
+      endDate: '1998-01-04 00:00',
+      parseError: null,
+    });
+  });
+
+  it('drops unsupported extensions and sorts failures last', async () => {
+    const scanned = await scanFiles([
+      fixtureFile('shift_jis', '19980230_19980301.txt'),
+      fixtureFile('shift_jis', '19980105_19980101.txt'),
+      new File(['not a data file'], 'notes.txt'),
+      fixtureFile('shift_jis', 'readme.md'),
+      fixtureFile('euc_jp', '19980102_19980102.txt'),
+    ]);
+    expect(summarize(scanned).map(({ fileName, parseError }) => [fileName, parseError])).toEqual([
+      ['19980102_19980102.txt', null],
+      ['19980230_19980301.txt', '文件名包含无效日期'],
+      ['19980105_19980101.txt', '起始日期晚于结束日期'],
+      ['notes.txt', '无法识别文件格式'],
+    ]);
+  });
+
+  it('uses the forced format instead of detecting one', async () => {
+    const [scanned] = await scanFiles([fixtureFile('shift_jis', 'hirakata.txt')], 'iso-csv');
+    expect(scanned.format).toBe('iso-csv');
+    expect(scanned.parseError).toBe('未找到可解析的数据行');
+  });
+});
+
+describe('getDateRange', () => {
+  it('spans the earliest start and the latest end of the parsed files', async () => {
+    const scanned = await scanFiles([
+      fixtureFile('utf8_bom', 'hirakata.txt'),
+      fixtureFile('shift_jis', '19980101_19980101.txt'),
+      fixtureFile('shift_jis', '19980230_19980301.txt'),
+    ]);
+    const range = getDateRange(scanned);
+    expect(range && [formatTimestamp(range.start), formatTimestamp(range.end)]).toEqual([
+      '1998-01-01 00:00',
+      '1998-01-04 00:00',
+    ]);
+  });
+
+  it('returns null when no file was parsed', async () => {
+    const scanned = await scanFiles([fixtureFile('shift_jis', '19981301_19981302.txt')]);
+    expect(getDateRange(scanned)).toBeNull();
+    expect(getDateRange([])).toBeNull();
+  });
+});
@@ -0,0 +1,22 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Water Info TXT downloads in the three encodings seen in the wild:
+ *   shift_jis — 1998/01/01 01:00-24:00, one row for each flag ($ # - *)
+ *   euc_jp    — 1998/01/02 01:00-24:00, 12:00 missing
+ *   utf8_bom  — 1998/01/02 23:00 - 1998/01/03 24:00, overlaps euc_jp by two rows
+ *               and has one unparsable value at 1998/01/03 13:00
+ */
+export type FixtureName = 'shift_jis' | 'euc_jp' | 'utf8_bom';
+
+export function fixtureBytes(name: FixtureName): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(
+    readFileSync(fileURLToPath(new URL(`./fixtures/${name}.txt`, import.meta.url))),
+  );
+}
+
+/** The fixture wrapped in a File, named like a download so scanFiles can use the fast path */
+export function fixtureFile(name: FixtureName, fileName: string): File {
+  return new File([fixtureBytes(name)], fileName);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyDetrend, rollingMedian } from '../detrend/rollingMedian';
+import type { HydroRecord } from '../types';
+import { jstDate, jstParts } from '../utils/jst';
+
+/** Re-sorts every window; the reference the sliding implementation must match */
+function naiveRollingMedian(values: (number | null)[], windowSize: number): (number | null)[] {
+  const atLeastThree = Math.max(3, Math.floor(windowSize));
+  const w = atLeastThree % 2 === 0 ? atLeastThree + 1 : atLeastThree;
+  const half = Math.floor(w / 2);
+
+  return values.map((_, i) => {
+    const window = values
+      .slice(Math.max(0, i - half), i + half + 1)
+      .filter((v): v is number => v !== null)
+      .sort((a, b) => a - b);
+    if (window.length === 0) return null;
+    const mid = Math.floor(window.length / 2);
+    return window.length % 2 === 0 ? (window[mid - 1] + window[mid]) / 2 : window[mid];
+  });
+}
+
+/** mulberry32: small seeded PRNG so failures are reproducible */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomSeries(next: () => number, length: number, nullShare: number, distinct: number) {
+  return Array.from({ length }, () =>
+    next() < nullShare ? null : Math.floor(next() * distinct) / 10 - 1,
+  );
+}
+
+function hourly(levels: (number | null)[], start = jstDate(1998, 1, 1, 1)): HydroRecord[] {
+  return levels.map((waterLevel, i) => {
+    const dateTime = new Date(start.getTime() + i * 60 * 60 * 1000);
+    const { year, month, day } = jstParts(dateTime);
+    return { dateTime, waterLevel, qualityFlag: '', year, month, day };
+  });
+}
+
+describe('rollingMedian', () => {
+  it('matches the naive median on random series', () => {
+    const next = random(20240601);
+    for (let run = 0; run < 300; run++) {
+      const length = Math.floor(next() * 120);
+      // Few distinct values force duplicate removals; nulls leave windows partly or fully empty
+      const values = randomSeries(next, length, next() * 0.6, 1 + Math.floor(next() * 40));
+      const windowSize = next() * 60;
+      expect(rollingMedian(values, windowSize), `run ${run}, window ${windowSize}`).toEqual(
+        naiveRollingMedian(values, windowSize),
+      );
+    }
+  });
+
+  it('matches the naive median when the window is wider than the series', () => {
+    const next = random(7);
+    for (let run = 0; run < 50; run++) {
+      const values = randomSeries(next, 1 + Math.floor(next() * 10), 0.2, 20);
+      expect(rollingMedian(values, 25)).toEqual(naiveRollingMedian(values, 25));
+    }
+  });
+
+  it('handles empty, single-value and all-null input', () => {
+    expect(rollingMedian([], 5)).toEqual([]);
+    expect(rollingMedian([2.5], 5)).toEqual([2.5]);
+    expect(rollingMedian([null, null, null], 3)).toEqual([null, null, null]);
+  });
+
+  it('shrinks the window at both edges', () => {
+    // Window 3: the first and last medians only see two values
+    expect(rollingMedian([1, 5, 2, 8, 3], 3)).toEqual([3, 2, 5, 3, 5.5]);
+  });
+
+  it('rounds even and too-small windows up to an odd size of at least three', () => {
+    const values = [4, 1, 3, 9, 2, 7];
+    expect(rollingMedian(values, 4)).toEqual(rollingMedian(values, 5));
+    expect(rollingMedian(values, 1)).toEqual(rollingMedian(values, 3));
+  });
+
+  it('reports progress up to 100', () => {
+    const progress: number[] = [];
+    rollingMedian(
+      Array.from({ length: 500 }, (_, i) => i % 7),
+      11,
+      (percent) => progress.push(percent),
+    );
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+});
+
+describe('applyDetrend', () => {
+  const records = hourly([1, 2, null, 4, 5, 6, 7]);
+
+  it('passes values through with skip', () => {
+    const result = applyDetrend(records, 'skip');
+    expect(result.windowSize).toBe(0);
+    expect(result.records.map((r) => [r.detrended, r.baseline])).toEqual(
+      records.map((r) => [r.waterLevel, null]),
+    );
+  });
+
+  it('sizes the local window to 30 days of samples', () => {
+    const result = applyDetrend(records, 'local');
+    expect(result.windowSize).toBe(720);
+    // The window covers the whole series, so the baseline is the overall median
+    expect(result.records.map((r) => r.baseline)).toEqual(Array(7).fill(4.5));
+    expect(result.records.map((r) => r.detrended)).toEqual([-3.5, -2.5, null, -0.5, 0.5, 1.5, 2.5]);
+  });
+
+  it('uses a third of the series as the full window', () => {
+    const long = hourly(Array.from({ length: 30 }, (_, i) => i));
+    const result = applyDetrend(long, 'full');
+    expect(result.windowSize).toBe(11);
+    expect(result.records.map((r) => r.baseline)).toEqual(
+      naiveRollingMedian(
+        long.map((r) => r.waterLevel),
+        11,
+      ),
+    );
+  });
+
+  it('aligns calendar years with yearly-mean', () => {
+    const span = hourly([1, 3, null, 10, 20], jstDate(1998, 12, 31, 22));
+    const result = applyDetrend(span, 'yearly-mean');
+    expect(result.alignedYears).toBe(2);
+    expect(result.records.map((r) => [r.year, r.baseline, r.detrended])).toEqual([
+      [1998, 2, -1],
+      [1998, 2, 1],
+      [1999, 15, null],
+      [1999, 15, -5],
+      [1999, 15, 5],
+    ]);
+  });
+});
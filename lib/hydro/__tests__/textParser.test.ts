@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { readFileAsText } from '../parser/encodingDetect';
+import { parseTextFile } from '../parser/textParser';
+import { formatTimestamp } from '../utils/formatDate';
+import { fixtureBytes } from './fixtures';
+
+function summarize(text: string) {
+  const { lines, errors, skippedLines } = parseTextFile(text);
+  return {
+    lines: lines.map((l) => [formatTimestamp(l.timestamp), l.waterLevel, l.qualityFlag]),
+    errors: errors.map((e) => [e.lineNumber, e.reason]),
+    skippedLines,
+  };
+}
+
+describe('parseTextFile', () => {
+  it('handles every quality flag', () => {
+    const result = summarize(
+      [
+        '1998/01/01,01:00,3.41,',
+        '1998/01/01,02:00,-9999.99,$',
+        '1998/01/01,03:00,-9999.99,#',
+        '1998/01/01,04:00,-',
+        '1998/01/01,05:00,1.55,*',
+        '1998/01/01,06:00,-0.12',
+      ].join('\n'),
+    );
+    expect(result.lines).toEqual([
+      ['1998-01-01 01:00', 3.41, ''],
+      ['1998-01-01 02:00', null, '$'],
+      ['1998-01-01 03:00', null, '#'],
+      ['1998-01-01 04:00', null, '-'],
+      ['1998-01-01 05:00', 1.55, '*'],
+      ['1998-01-01 06:00', -0.12, ''],
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('rolls 24:00 over to 00:00 of the next day, across month and year ends', () => {
+    const result = summarize(
+      [
+        '1998/01/31,24:00,1.00,',
+        '1998/12/31,24:00,2.00,',
+        '2000/02/28,24:00,3.00,',
+        '2000/02/29,24:00,4.00,',
+      ].join('\n'),
+    );
+    expect(result.lines.map(([timestamp]) => timestamp)).toEqual([
+      '1998-02-01 00:00',
+      '1999-01-01 00:00',
+      '2000-02-29 00:00',
+      '2000-03-01 00:00',
+    ]);
+  });
+
+  it('skips headers and blank lines and reports malformed rows', () => {
+    const result = summarize(
+      [
+        '観測所名,枚方',
+        '#日付,時刻,水位',
+        '',
+        '1998/01/01',
+        '1998/01/01,ab:cd,1.00,',
+        '1998/01/01,01:00,abc,',
+        '1998/01/01,02:00,abc,*',
+        '1998/01/01,03:00,1.00,',
+      ].join('\r\n'),
+    );
+    expect(result.skippedLines).toBe(4);
+    expect(result.errors).toEqual([
+      [5, '时间戳解析失败'],
+      [6, '数值解析失败: "abc"'],
+      [7, '暫定値行数值解析失败: "abc"'],
+    ]);
+    expect(result.lines).toEqual([['1998-01-01 03:00', 1, '']]);
+  });
+
+  it('parses the decoded Shift_JIS fixture', async () => {
+    const text = await readFileAsText(new Blob([fixtureBytes('shift_jis')]));
+    const result = summarize(text);
+    expect(result.lines).toHaveLength(24);
+    expect(result.errors).toEqual([]);
+    // 7 header lines plus the empty string after the final CRLF
+    expect(result.skippedLines).toBe(8);
+    expect(result.lines.slice(3, 8)).toEqual([
+      ['1998-01-01 04:00', 3.44, ''],
+      ['1998-01-01 05:00', null, '$'],
+      ['1998-01-01 06:00', null, '#'],
+      ['1998-01-01 07:00', null, '-'],
+      ['1998-01-01 08:00', 3.48, '*'],
+    ]);
+    expect(result.lines[23]).toEqual(['1998-01-02 00:00', 3.64, '']);
+  });
+});
@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { seriesToRecords } from '@/lib/reextract';
+
+import { cleanFiles } from '../cleaner/cleanPipeline';
+import { resampleRecords } from '../cleaner/resolution';
+import { computeYearlyCleanStats } from '../cleaner/yearlyStats';
+import { buildCleanedCsv } from '../export/csvExporter';
+import { parseIsoCsvFile } from '../parser/isoCsvParser';
+import { parseTextFile } from '../parser/textParser';
+import type { HydroRecord } from '../types';
+import {
+  formatDateTime,
+  formatExportTimestamp,
+  formatTimestamp,
+  formatYearMonth,
+} from '../utils/formatDate';
+import { jstDate, jstParts } from '../utils/jst';
+
+// Zones with DST transitions (including Lord Howe's 30-minute shift) and both signs of offset
+const ZONES = [
+  'Asia/Tokyo',
+  'UTC',
+  'America/New_York',
+  'America/Los_Angeles',
+  'Europe/London',
+  'Australia/Lord_Howe',
+];
+
+// 2021-03-14 02:00 does not exist in US zones; 2021-03-28 01:00 does not exist in London
+const TXT = [
+  '1998/12/31,23:00,1.20,',
+  '1998/12/31,24:00,1.30,',
+  '2021/03/14,02:00,2.00,*',
+  '2021/03/28,01:00,-9999.99,$',
+  '2021/10/31,01:30,3.10,',
+].join('\n');
+
+describe.each(ZONES)('TZ=%s', (zone) => {
+  const originalZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = zone;
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalZone;
+  });
+
+  it('runs under the requested zone', () => {
+    expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(zone);
+  });
+
+  it('parses TXT timestamps as JST instants', () => {
+    const { lines, errors } = parseTextFile(TXT);
+    expect(errors).toEqual([]);
+    expect(lines.map((l) => l.timestamp.toISOString())).toEqual([
+      '1998-12-31T14:00:00.000Z',
+      '1998-12-31T15:00:00.000Z',
+      '2021-03-13T17:00:00.000Z',
+      '2021-03-27T16:00:00.000Z',
+      '2021-10-30T16:30:00.000Z',
+    ]);
+  });
+
+  it('rolls 24:00 over into the next JST day', () => {
+    const [, midnight] = parseTextFile(TXT).lines;
+    expect(jstParts(midnight.timestamp)).toMatchObject({ year: 1999, month: 1, day: 1, hour: 0 });
+    expect(formatTimestamp(midnight.timestamp)).toBe('1999-01-01 00:00');
+  });
+
+  it('reads zone-less ISO timestamps as JST and honours explicit offsets', () => {
+    const { lines } = parseIsoCsvFile(
+      [
+        'timestamp,water_level',
+        '2021-03-14 02:00,1.0',
+        '2021-03-14T02:00:00Z,1.1',
+        '2021-03-14T02:00:00-05:00,1.2',
+      ].join('\n'),
+    );
+    expect(lines.map((l) => l.timestamp.toISOString())).toEqual([
+      '2021-03-13T17:00:00.000Z',
+      '2021-03-14T02:00:00.000Z',
+      '2021-03-14T07:00:00.000Z',
+    ]);
+  });
+
+  it('formats JST wall-clock fields', () => {
+    const date = jstDate(2021, 3, 14, 2, 30, 15);
+    expect(formatTimestamp(date)).toBe('2021-03-14 02:30');
+    expect(formatDateTime(date)).toBe('2021-03-14 02:30:15');
+    expect(formatYearMonth(date)).toBe('2021/03');
+  });
+
+  it('formats export timestamps in all three formats', () => {
+    const date = jstDate(1998, 1, 1, 1);
+    expect(formatExportTimestamp(date, 'jst')).toBe('1998-01-01 01:00');
+    expect(formatExportTimestamp(date, 'utc')).toBe('1997-12-31T16:00:00Z');
+    expect(formatExportTimestamp(date, 'iso')).toBe('1998-01-01T01:00:00+09:00');
+  });
+
+  it('writes the chosen timestamp format into the cleaned CSV', () => {
+    const records = seriesToRecords([
+      { observed_at: '1999-01-01 00:00:00', water_level: 1.3, quality_flag: '' },
+    ]);
+    expect(buildCleanedCsv(records).split('\r\n')[1]).toBe('1999-01-01 00:00,1.3');
+    expect(buildCleanedCsv(records, 'utc').split('\r\n')[1]).toBe('1998-12-31T15:00:00Z,1.3');
+    expect(buildCleanedCsv(records, 'iso').split('\r\n')[1]).toBe('1999-01-01T00:00:00+09:00,1.3');
+  });
+
+  it('round-trips stored observed_at strings', () => {
+    const observed = ['2021-03-14 02:00:00', '2021-03-28 01:00:00', '2021-11-07 01:30:00'];
+    const records = seriesToRecords(
+      observed.map((observed_at) => ({ observed_at, water_level: 1, quality_flag: '' })),
+    );
+    expect(records.map((r) => formatDateTime(r.dateTime))).toEqual(observed);
+    expect(records.map((r) => [r.year, r.month, r.day])).toEqual([
+      [2021, 3, 14],
+      [2021, 3, 28],
+      [2021, 11, 7],
+    ]);
+  });
+
+  it('assigns cleaned records to JST calendar fields', async () => {
+    const file = new File([TXT], '19981231_20211031.txt');
+    const result = await cleanFiles(
+      [file],
+      { start: jstDate(1998, 1, 1), end: jstDate(2021, 12, 31, 23) },
+      'auto',
+    );
+    expect(result.records.map((r) => [r.year, r.month, r.day])).toEqual([
+      [1998, 12, 31],
+      [1999, 1, 1],
+      [2021, 3, 14],
+      [2021, 3, 28],
+      [2021, 10, 31],
+    ]);
+  });
+
+  it('ends daily buckets at JST midnight', () => {
+    const records: HydroRecord[] = [1, 12, 24, 25].map((hour) => {
+      const dateTime = jstDate(2021, 3, 13, hour);
+      return { dateTime, waterLevel: hour, qualityFlag: '', ...pickDay(dateTime) };
+    });
+    const daily = resampleRecords(records, 1440, 'max');
+    expect(daily.map((r) => formatTimestamp(r.dateTime))).toEqual([
+      '2021-03-14 00:00',
+      '2021-03-15 00:00',
+    ]);
+    expect(daily.map((r) => r.waterLevel)).toEqual([24, 25]);
+  });
+
+  it('splits yearly statistics on JST year boundaries', () => {
+    const records = seriesToRecords([
+      { observed_at: '1998-12-31 23:00:00', water_level: 1, quality_flag: '' },
+      { observed_at: '1999-01-01 00:00:00', water_level: 1, quality_flag: '' },
+    ]);
+    const stats = computeYearlyCleanStats(records, {
+      start: jstDate(1998, 12, 31, 23),
+      end: jstDate(1999, 1, 1, 0),
+    });
+    expect(stats.map((s) => [s.year, s.validRows])).toEqual([
+      [1998, 1],
+      [1999, 1],
+    ]);
+  });
+});
+
+function pickDay(date: Date) {
+  const { year, month, day } = jstParts(date);
+  return { year, month, day };
+}
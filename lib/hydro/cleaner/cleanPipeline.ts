@@ -10,8 +10,10 @@
  */
 
 import { readFileAsText } from '../parser/encodingDetect';
-import { parseTextFile } from '../parser/textParser';
-import type { CleanStats, HydroRecord } from '../types';
+import { getRawFormatParser, parseRawText } from '../parser/registry';
+import type { CleanStats, HydroRecord, RawFormatChoice } from '../types';
+import { jstParts } from '../utils/jst';
+import { detectResolutionMinutes, formatResolution } from './resolution';
 
 export interface CleanResult {
   records: HydroRecord[];
@@ -21,17 +23,25 @@ export interface CleanResult {
 
 /**
  * Core cleaning function
- * @param files          Files to process (already filtered to .txt/.tst)
+ * @param files          Files to process (already filtered to supported extensions)
  * @param selectedRange  User-selected time range
+ * @param format         Raw format of every file, or 'auto' to detect per file
  * @param onProgress     Progress callback (0-100)
+ * @param onLog          Called with each log line as soon as it is produced
  */
 export async function cleanFiles(
   files: File[],
   selectedRange: { start: Date; end: Date },
+  format: RawFormatChoice,
   onProgress?: (percent: number) => void,
+  onLog?: (line: string) => void,
 ): Promise<CleanResult> {
   const allRecords: HydroRecord[] = [];
   const log: string[] = [];
+  const pushLog = (line: string) => {
+    log.push(line);
+    onLog?.(line);
+  };
 
   let totalRows = 0;
   let validRows = 0;
@@ -53,7 +63,8 @@ export async function cleanFiles(
       const text = await readFileAsText(file);
 
       // 2. Parse
-      const { lines, errors, skippedLines } = parseTextFile(text);
+      const parsed = parseRawText(text, format);
+      const { lines, errors, skippedLines } = parsed.result;
 
       // 3. Filter by time range
       const inRange = lines.filter((l) => {
@@ -65,8 +76,9 @@ export async function cleanFiles(
       // plus errors that couldn't be parsed at all (they might be in range)
       const inRangeErrorCount = errors.length;
 
-      log.push(
-        `[${file.name}] Read OK: ${lines.length} data lines, ` +
+      pushLog(
+        `[${file.name}] Read OK (${getRawFormatParser(parsed.format).label}): ` +
+        `${lines.length} data lines, ` +
         `${skippedLines} non-data lines skipped, ${errors.length} parse errors`,
       );
 
@@ -84,22 +96,23 @@ export async function cleanFiles(
         const isValid = parsedLine.waterLevel !== null;
         if (isValid) validRows++;
 
+        const { year, month, day } = jstParts(parsedLine.timestamp);
         allRecords.push({
           dateTime: parsedLine.timestamp,
           waterLevel: parsedLine.waterLevel,
           qualityFlag: flagToLabel(flag),
-          year: parsedLine.timestamp.getFullYear(),
-          month: parsedLine.timestamp.getMonth() + 1,
-          day: parsedLine.timestamp.getDate(),
+          year,
+          month,
+          day,
         });
       }
 
       errorRows += inRangeErrorCount;
       for (const err of errors) {
-        log.push(`  ! Line ${err.lineNumber}: ${err.reason} -- ${err.raw.slice(0, 60)}`);
+        pushLog(`  ! Line ${err.lineNumber}: ${err.reason} -- ${err.raw.slice(0, 60)}`);
       }
     } catch (e) {
-      log.push(`[${file.name}] Read failed: ${String(e)}`);
+      pushLog(`[${file.name}] Read failed: ${String(e)}`);
       errorRows++;
     }
   }
@@ -114,7 +127,7 @@ export async function cleanFiles(
 
   const duplicateCount = allRecords.length - deduplicated.length;
   if (duplicateCount > 0) {
-    log.push(`Dedup: removed ${duplicateCount} duplicate timestamps (kept last)`);
+    pushLog(`Dedup: removed ${duplicateCount} duplicate timestamps (kept last)`);
   }
 
   const validRate = totalRows > 0 ? validRows / totalRows : 0;
@@ -145,11 +158,13 @@ export async function cleanFiles(
     errorRows,
     validRate,
     longestGapHours,
+    resolutionMinutes: detectResolutionMinutes(deduplicated),
   };
 
-  log.push(
+  pushLog(
     `\nDone: total ${totalRows}, valid ${validRows}, ` +
-    `coverage ${(validRate * 100).toFixed(1)}%`,
+    `coverage ${(validRate * 100).toFixed(1)}%, ` +
+    `resolution ${formatResolution(stats.resolutionMinutes)}`,
   );
 
   onProgress?.(100);
@@ -0,0 +1,68 @@
+/**
+ * Gap filling between cleaning and detrending
+ *
+ * Runs of missing readings ($ / # / - rows) whose bounding valid readings are
+ * at most `maxGapHours` apart are filled by linear interpolation in time.
+ * Longer gaps, and runs at either end of the record that have no reading on
+ * one side, are left as nulls and reported as explicit segments.
+ */
+
+import type { GapSegment, HydroRecord, InterpolationStats } from '../types';
+
+export interface InterpolationResult {
+  records: HydroRecord[];
+  stats: InterpolationStats;
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+/** Limits accepted by the wizard's gap-filling control */
+export const MIN_INTERPOLATION_GAP_HOURS = 1;
+export const MAX_INTERPOLATION_GAP_HOURS = 72;
+
+/**
+ * Gap length follows CleanStats.longestGapHours: the time between the valid
+ * readings on either side, so a single missing hour is a 2-hour gap.
+ */
+export function interpolateGaps(records: HydroRecord[], maxGapHours: number): InterpolationResult {
+  const output: HydroRecord[] = records.map((record) => ({ ...record, interpolated: false }));
+  const gaps: GapSegment[] = [];
+  let filledGaps = 0;
+  let filledRows = 0;
+  let lastValid = -1;
+
+  const closeGap = (from: number, to: number) => {
+    // from / to: indices of the missing run, inclusive
+    const before = from > 0 ? output[from - 1] : null;
+    const after = to < output.length - 1 ? output[to + 1] : null;
+    const start = (before ?? output[from]).dateTime;
+    const end = (after ?? output[to]).dateTime;
+    const hours = (end.getTime() - start.getTime()) / HOUR_MS;
+
+    if (before && after && hours <= maxGapHours) {
+      const t0 = before.dateTime.getTime();
+      const span = end.getTime() - t0;
+      const v0 = before.waterLevel!;
+      const dv = after.waterLevel! - v0;
+      for (let i = from; i <= to; i++) {
+        const ratio = (output[i].dateTime.getTime() - t0) / span;
+        output[i].waterLevel = Math.round((v0 + dv * ratio) * 1000) / 1000;
+        output[i].interpolated = true;
+      }
+      filledGaps++;
+      filledRows += to - from + 1;
+      return;
+    }
+
+    gaps.push({ start, end, hours, missingRows: to - from + 1 });
+  };
+
+  for (let i = 0; i < output.length; i++) {
+    if (output[i].waterLevel === null) continue;
+    if (i - lastValid > 1) closeGap(lastValid + 1, i - 1);
+    lastValid = i;
+  }
+  if (lastValid < output.length - 1) closeGap(lastValid + 1, output.length - 1);
+
+  return { records: output, stats: { filledGaps, filledRows, gaps } };
+}
@@ -0,0 +1,40 @@
+/**
+ * Optional stages between cleaning and detrending:
+ *   1. resample to a coarser resolution
+ *   2. fill short gaps by linear interpolation
+ * Gap filling runs after resampling so its limit applies to the target steps.
+ */
+
+import type {
+  HydroRecord,
+  InterpolationConfig,
+  InterpolationStats,
+  ResampleConfig,
+} from '../types';
+import { interpolateGaps } from './interpolate';
+import { detectResolutionMinutes, resampleRecords } from './resolution';
+
+export interface PreprocessResult {
+  /** null when neither stage applies; detrending then uses the cleaned series as-is */
+  records: HydroRecord[] | null;
+  stats: InterpolationStats | null;
+}
+
+export function preprocessRecords(
+  records: HydroRecord[],
+  resample: ResampleConfig,
+  interpolation: InterpolationConfig,
+): PreprocessResult {
+  let prepared: HydroRecord[] | null = null;
+  if (
+    resample.targetMinutes !== null &&
+    resample.targetMinutes > detectResolutionMinutes(records)
+  ) {
+    prepared = resampleRecords(records, resample.targetMinutes, resample.method);
+  }
+
+  if (!interpolation.enabled) return { records: prepared, stats: null };
+
+  const filled = interpolateGaps(prepared ?? records, interpolation.maxGapHours);
+  return { records: filled.records, stats: filled.stats };
+}
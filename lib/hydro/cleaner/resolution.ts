@@ -0,0 +1,102 @@
+/**
+ * Series resolution: detection and resampling
+ *
+ * Resolution is the most common step between consecutive timestamps, so a
+ * few missing or duplicated rows do not change it. Resampling aggregates into
+ * right-closed buckets labelled by their end — (00:00, 01:00] becomes 01:00 —
+ * which matches how hourly observations are stamped, so `last` keeps exactly
+ * the on-the-hour readings of a 10-minute series.
+ */
+
+import type { HydroRecord, ResampleMethod } from '../types';
+import { JST_OFFSET_MS, jstParts } from '../utils/jst';
+
+const MINUTE_MS = 1000 * 60;
+
+/** Fallback when the series is too short to measure */
+export const DEFAULT_RESOLUTION_MINUTES = 60;
+
+/** Resampling targets offered by the wizard, in minutes */
+export const RESAMPLE_TARGETS = [10, 30, 60, 180, 360, 1440] as const;
+
+export function detectResolutionMinutes(records: HydroRecord[]): number {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < records.length; i++) {
+    const step = Math.round(
+      (records[i].dateTime.getTime() - records[i - 1].dateTime.getTime()) / MINUTE_MS,
+    );
+    if (step > 0) counts.set(step, (counts.get(step) ?? 0) + 1);
+  }
+
+  let best = DEFAULT_RESOLUTION_MINUTES;
+  let bestCount = 0;
+  for (const [step, count] of counts) {
+    if (count > bestCount || (count === bestCount && step < best)) {
+      best = step;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Also used for window lengths, so multi-day spans are rounded to whole days */
+export function formatResolution(minutes: number): string {
+  if (minutes >= 2 * 1440) return `${Math.round(minutes / 1440)} days`;
+  if (minutes === 1440) return '1 day';
+  if (minutes % 60 === 0) return `${minutes / 60} h`;
+  return `${minutes} min`;
+}
+
+function aggregate(values: number[], method: ResampleMethod): number {
+  if (method === 'last') return values[values.length - 1];
+  if (method === 'max') return Math.max(...values);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.round(mean * 1000) / 1000;
+}
+
+/**
+ * Aggregate sorted records into `targetMinutes` buckets. Buckets without a
+ * valid reading stay null and keep the last row's quality flag; a bucket with
+ * any tentative reading is marked tentative. Buckets with no rows at all are
+ * not created, so gaps remain gaps.
+ */
+export function resampleRecords(
+  records: HydroRecord[],
+  targetMinutes: number,
+  method: ResampleMethod,
+): HydroRecord[] {
+  const stepMs = targetMinutes * MINUTE_MS;
+  const result: HydroRecord[] = [];
+
+  let i = 0;
+  while (i < records.length) {
+    const first = records[i];
+    // Aligned on JST wall clock so day buckets end at JST midnight
+    const wallClock = first.dateTime.getTime() + JST_OFFSET_MS;
+    const bucketEnd = Math.ceil(wallClock / stepMs) * stepMs - JST_OFFSET_MS;
+
+    const values: number[] = [];
+    let tentative = false;
+    let lastFlag = '';
+    while (i < records.length && records[i].dateTime.getTime() <= bucketEnd) {
+      const record = records[i++];
+      lastFlag = record.qualityFlag;
+      if (record.waterLevel === null) continue;
+      values.push(record.waterLevel);
+      if (record.qualityFlag === '暫定値') tentative = true;
+    }
+
+    const dateTime = new Date(bucketEnd);
+    const { year, month, day } = jstParts(dateTime);
+    result.push({
+      dateTime,
+      waterLevel: values.length > 0 ? aggregate(values, method) : null,
+      qualityFlag: values.length > 0 ? (tentative ? '暫定値' : '') : lastFlag,
+      year,
+      month,
+      day,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,85 @@
+/**
+ * Per-year cleaning statistics
+ *
+ * Same counters as CleanStats, but per calendar year and measured against
+ * the slots (one per `resolutionMinutes`) the selected range covers, so a
+ * year whose files were never delivered shows up as 0% instead of disappearing.
+ */
+
+import type { HydroRecord, YearlyCleanStats } from '../types';
+import { jstDate, jstParts } from '../utils/jst';
+import { DEFAULT_RESOLUTION_MINUTES } from './resolution';
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export function computeYearlyCleanStats(
+  records: HydroRecord[],
+  selectedRange: { start: Date; end: Date },
+  resolutionMinutes: number = DEFAULT_RESOLUTION_MINUTES,
+): YearlyCleanStats[] {
+  const stepMs = resolutionMinutes * 60 * 1000;
+  const result: YearlyCleanStats[] = [];
+  const rangeStart = selectedRange.start.getTime();
+  const rangeEnd = selectedRange.end.getTime();
+  let cursor = 0;
+
+  for (
+    let year = jstParts(selectedRange.start).year;
+    year <= jstParts(selectedRange.end).year;
+    year++
+  ) {
+    const spanStart = Math.max(rangeStart, jstDate(year, 1, 1).getTime());
+    const spanEnd = Math.min(rangeEnd, jstDate(year + 1, 1, 1).getTime() - stepMs);
+    if (spanEnd < spanStart) continue;
+
+    const stats: YearlyCleanStats = {
+      year,
+      expectedRows: Math.floor((spanEnd - spanStart) / stepMs) + 1,
+      totalRows: 0,
+      validRows: 0,
+      tentativeCount: 0,
+      missingCount: 0,
+      closedCount: 0,
+      unregisteredCount: 0,
+      validRate: 0,
+      longestGapHours: 0,
+      longestGapStart: null,
+    };
+
+    // Gaps are measured between valid readings; the span edges act as readings so
+    // a leading/trailing outage (or a year with no data at all) is counted too.
+    let lastValid = spanStart;
+    const noteGap = (until: number) => {
+      const gapHours = (until - lastValid) / HOUR_MS;
+      if (gapHours > stats.longestGapHours) {
+        stats.longestGapHours = gapHours;
+        stats.longestGapStart = new Date(lastValid);
+      }
+    };
+
+    // records are sorted, so one forward pass covers every year.
+    while (cursor < records.length && records[cursor].dateTime.getTime() <= spanEnd) {
+      const record = records[cursor++];
+      const time = record.dateTime.getTime();
+      if (time < spanStart) continue;
+
+      stats.totalRows++;
+      if (record.qualityFlag === '欠測') stats.missingCount++;
+      else if (record.qualityFlag === '閉局') stats.closedCount++;
+      else if (record.qualityFlag === '未登録') stats.unregisteredCount++;
+      else if (record.qualityFlag === '暫定値') stats.tentativeCount++;
+
+      if (record.waterLevel !== null) {
+        stats.validRows++;
+        noteGap(time);
+        lastValid = time;
+      }
+    }
+    noteGap(spanEnd);
+
+    stats.validRate = stats.validRows / stats.expectedRows;
+    result.push(stats);
+  }
+
+  return result;
+}
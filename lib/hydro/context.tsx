@@ -8,8 +8,15 @@ import { createStore } from "zustand/vanilla";
 import type {
   CleanStats,
   DetrendedRecord,
+  ExtractStats,
+  FloodEvent,
   HydroRecord,
+  InterpolationConfig,
+  InterpolationStats,
+  RawFormatChoice,
+  ResampleConfig,
   ScannedFile,
+  TimestampFormat,
   WizardState,
   WizardStep,
 } from "./types";
@@ -18,32 +25,55 @@ const initialState: WizardState = {
   currentStep: 1,
   stationId: "",
   uploadedFiles: [],
+  rawFormat: "auto",
   scannedFiles: [],
   dateRange: null,
   selectedRange: null,
   isLocked: false,
   cleanedData: [],
   cleanStats: null,
+  resample: { targetMinutes: null, method: "mean" },
+  interpolation: { enabled: false, maxGapHours: 6 },
+  preparedData: null,
+  interpolationStats: null,
   detrendStrategy: "skip",
-  eventThreshold: 0.5,
+  eventThreshold: 0,
   processingProgress: 0,
+  processingLog: [],
   detrendedData: [],
+  exportTimeFormat: "jst",
+  extractedEvents: [],
+  extractStats: null,
 };
 
 export type WizardAction =
   | { type: "SET_STEP"; payload: WizardStep }
   | { type: "SET_STATION_ID"; payload: string }
   | { type: "SET_UPLOADED_FILES"; payload: File[] }
+  | { type: "SET_RAW_FORMAT"; payload: RawFormatChoice }
   | { type: "SET_SCANNED_FILES"; payload: ScannedFile[] }
   | { type: "SET_DATE_RANGE"; payload: { start: Date; end: Date } | null }
   | { type: "SET_SELECTED_RANGE"; payload: { start: Date; end: Date } | null }
   | { type: "LOCK_SETTINGS" }
   | { type: "SET_CLEANED_DATA"; payload: HydroRecord[] }
   | { type: "SET_CLEAN_STATS"; payload: CleanStats }
+  | {
+      type: "SET_PREPROCESSING";
+      payload: {
+        resample: ResampleConfig;
+        interpolation: InterpolationConfig;
+        records: HydroRecord[] | null;
+        stats: InterpolationStats | null;
+      };
+    }
   | { type: "SET_DETREND_STRATEGY"; payload: WizardState["detrendStrategy"] }
   | { type: "SET_DETRENDED_DATA"; payload: DetrendedRecord[] }
   | { type: "SET_EVENT_THRESHOLD"; payload: number }
+  | { type: "SET_EXPORT_TIME_FORMAT"; payload: TimestampFormat }
   | { type: "SET_PROCESSING_PROGRESS"; payload: number }
+  | { type: "APPEND_PROCESSING_LOG"; payload: string[] }
+  | { type: "CLEAR_PROCESSING_LOG" }
+  | { type: "SET_EXTRACTED_EVENTS"; payload: { events: FloodEvent[]; stats: ExtractStats } }
   | { type: "RESET" };
 
 function wizardReducer(state: WizardState, action: WizardAction): WizardState {
@@ -55,6 +85,9 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
       return { ...state, stationId: action.payload };
     case "SET_UPLOADED_FILES":
       return { ...state, uploadedFiles: action.payload };
+    case "SET_RAW_FORMAT":
+      if (state.isLocked) return state;
+      return { ...state, rawFormat: action.payload };
     case "SET_SCANNED_FILES":
       return { ...state, scannedFiles: action.payload };
     case "SET_DATE_RANGE":
@@ -66,17 +99,47 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
     case "LOCK_SETTINGS":
       return { ...state, isLocked: true };
     case "SET_CLEANED_DATA":
-      return { ...state, cleanedData: action.payload };
+      return {
+        ...state,
+        cleanedData: action.payload,
+        preparedData: null,
+        interpolationStats: null,
+      };
     case "SET_CLEAN_STATS":
       return { ...state, cleanStats: action.payload };
+    case "SET_PREPROCESSING":
+      // Detrending runs on the prepared series, so earlier detrend/extract results are stale.
+      return {
+        ...state,
+        resample: action.payload.resample,
+        interpolation: action.payload.interpolation,
+        preparedData: action.payload.records,
+        interpolationStats: action.payload.stats,
+        detrendedData: [],
+        extractedEvents: [],
+        extractStats: null,
+      };
     case "SET_DETREND_STRATEGY":
       return { ...state, detrendStrategy: action.payload };
     case "SET_DETRENDED_DATA":
-      return { ...state, detrendedData: action.payload };
+      // Events are derived from the detrended series, so any earlier extraction is stale.
+      return { ...state, detrendedData: action.payload, extractedEvents: [], extractStats: null };
     case "SET_EVENT_THRESHOLD":
       return { ...state, eventThreshold: action.payload };
+    case "SET_EXPORT_TIME_FORMAT":
+      return { ...state, exportTimeFormat: action.payload };
     case "SET_PROCESSING_PROGRESS":
       return { ...state, processingProgress: action.payload };
+    case "APPEND_PROCESSING_LOG":
+      return { ...state, processingLog: [...state.processingLog, ...action.payload] };
+    case "CLEAR_PROCESSING_LOG":
+      return { ...state, processingLog: [], processingProgress: 0 };
+    case "SET_EXTRACTED_EVENTS":
+      return {
+        ...state,
+        extractedEvents: action.payload.events,
+        extractStats: action.payload.stats,
+      };
     case "RESET":
       return initialState;
     default:
@@ -1,8 +1,17 @@
-import type { DetrendedRecord, HydroRecord } from '@/lib/hydro/types';
+import type { DetrendedRecord, DetrendStrategy, HydroRecord } from '@/lib/hydro/types';
+
+import { detectResolutionMinutes } from '../cleaner/resolution';
+import { alignYearlyMeans } from './yearlyMean';
+
+/** Baseline window of the 'local' strategy: 30 days, whatever the series resolution */
+export const LOCAL_WINDOW_HOURS = 720;
 
 export interface DetrendResult {
   records: DetrendedRecord[];
+  /** Window in samples; the 'local' window is converted from LOCAL_WINDOW_HOURS */
   windowSize: number;
+  /** Number of calendar years aligned (yearly-mean only, 0 otherwise) */
+  alignedYears: number;
 }
 
 function normalizeWindowSize(size: number): number {
@@ -26,10 +35,12 @@ function lowerBound(sorted: number[], val: number): number {
  * Sliding-window rolling median.
  * Maintains a sorted array with binary insertion/removal — O(n * w) total
  * instead of the naive O(n * w * log(w)) that re-sorts every window.
+ * `onProgress` (0-100) is reported roughly once per percent of the input.
  */
 export function rollingMedian(
   values: (number | null)[],
   windowSize: number,
+  onProgress?: (percent: number) => void,
 ): (number | null)[] {
   const n = values.length;
   if (n === 0) return [];
@@ -37,6 +48,7 @@ export function rollingMedian(
   const w = normalizeWindowSize(windowSize);
   const half = Math.floor(w / 2);
   const result: (number | null)[] = new Array(n);
+  const progressStep = Math.max(1, Math.floor(n / 100));
 
   // Sorted array of non-null values in the current window
   const sorted: number[] = [];
@@ -86,21 +98,27 @@ export function rollingMedian(
     }
 
     result[i] = getMedian();
+
+    if (onProgress && i % progressStep === 0) {
+      onProgress(Math.round((i / n) * 100));
+    }
   }
 
+  onProgress?.(100);
   return result;
 }
 
 export function getDetrendWindowSize(
   records: HydroRecord[],
-  strategy: 'skip' | 'local' | 'full',
+  strategy: DetrendStrategy,
 ): number {
-  if (strategy === 'skip') {
+  // yearly-mean uses calendar-year groups, not a sliding window
+  if (strategy === 'skip' || strategy === 'yearly-mean') {
     return 0;
   }
 
   if (strategy === 'local') {
-    return 720;
+    return Math.round((LOCAL_WINDOW_HOURS * 60) / detectResolutionMinutes(records));
   }
 
   return normalizeWindowSize(records.length / 3);
@@ -108,11 +126,13 @@ export function getDetrendWindowSize(
 
 export function applyDetrend(
   records: HydroRecord[],
-  strategy: 'skip' | 'local' | 'full',
+  strategy: DetrendStrategy,
+  onProgress?: (percent: number) => void,
 ): DetrendResult {
   if (strategy === 'skip') {
     return {
       windowSize: 0,
+      alignedYears: 0,
       records: records.map((record) => ({
         ...record,
         detrended: record.waterLevel,
@@ -121,14 +141,25 @@ export function applyDetrend(
     };
   }
 
+  if (strategy === 'yearly-mean') {
+    const aligned = alignYearlyMeans(records);
+    return {
+      windowSize: 0,
+      alignedYears: aligned.yearlyMeans.size,
+      records: aligned.records,
+    };
+  }
+
   const windowSize = getDetrendWindowSize(records, strategy);
   const baselines = rollingMedian(
     records.map((record) => record.waterLevel),
     windowSize,
+    onProgress,
   );
 
   return {
     windowSize,
+    alignedYears: 0,
     records: records.map((record, index) => {
       const baseline = baselines[index];
 
@@ -1,6 +1,7 @@
-import type { HydroRecord } from '@/lib/hydro/types';
+import type { DetrendStrategy, HydroRecord } from '@/lib/hydro/types';
+import { jstParts } from '@/lib/hydro/utils/jst';
 
-export type SuggestedDetrendStrategy = 'skip' | 'local' | 'full';
+export type SuggestedDetrendStrategy = DetrendStrategy;
 
 export interface DetrendSuggestion {
   strategy: SuggestedDetrendStrategy;
@@ -26,8 +27,9 @@ export function suggestDetrendStrategy(dataSpanMonths: number): DetrendSuggestio
   }
 
   return {
-    strategy: 'full',
-    reason: 'Spans over 2 years — a longer baseline is applied to highlight short-term changes.',
+    strategy: 'yearly-mean',
+    reason:
+      'Spans over 2 years — each year is aligned to a common mean, matching the production database.',
     dataSpanMonths,
   };
 }
@@ -46,8 +48,8 @@ export function getDataSpanMonths(records: HydroRecord[]): number {
     return 0;
   }
 
-  const start = new Date(timestamps[0]);
-  const end = new Date(timestamps[timestamps.length - 1]);
+  const start = jstParts(new Date(timestamps[0]));
+  const end = jstParts(new Date(timestamps[timestamps.length - 1]));
 
-  return (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth()) + 1;
+  return (end.year - start.year) * 12 + (end.month - start.month) + 1;
 }
@@ -0,0 +1,52 @@
+import type { DetrendedRecord, HydroRecord } from '@/lib/hydro/types';
+
+export interface YearlyMeanResult {
+  records: DetrendedRecord[];
+  /** Mean water level of every calendar year that had at least one valid reading */
+  yearlyMeans: Map<number, number>;
+}
+
+function meansByYear(records: HydroRecord[]): Map<number, number> {
+  const sums = new Map<number, { sum: number; count: number }>();
+
+  for (const record of records) {
+    if (record.waterLevel === null) continue;
+    const acc = sums.get(record.year) ?? { sum: 0, count: 0 };
+    acc.sum += record.waterLevel;
+    acc.count++;
+    sums.set(record.year, acc);
+  }
+
+  const yearlyMeans = new Map<number, number>();
+  for (const [year, { sum, count }] of sums) {
+    yearlyMeans.set(year, sum / count);
+  }
+  return yearlyMeans;
+}
+
+/**
+ * Yearly Mean Alignment.
+ * The baseline of each record is the mean of its calendar year's valid readings,
+ * so every year is shifted to a common zero reference: inter-annual offsets are
+ * removed while within-year variation and extremes keep their shape.
+ * `knownMeans` replaces the means of `records`, for a slice of a longer series
+ * whose first and last years are only partly loaded.
+ */
+export function alignYearlyMeans(
+  records: HydroRecord[],
+  knownMeans?: Map<number, number>,
+): YearlyMeanResult {
+  const yearlyMeans = knownMeans ?? meansByYear(records);
+  return {
+    yearlyMeans,
+    records: records.map((record) => {
+      const baseline = yearlyMeans.get(record.year) ?? null;
+      return {
+        ...record,
+        baseline,
+        detrended:
+          record.waterLevel !== null && baseline !== null ? record.waterLevel - baseline : null,
+      };
+    }),
+  };
+}
@@ -1,22 +1,34 @@
 /**
- * CSV export (cleaned + detrended)
+ * CSV export (cleaned + detrended + extracted events)
  *
  * Output format:
  *   Timestamp,WaterLevel
  *   1998-01-01 01:00,
  *   1998-01-01 07:00,3.41
+ *
+ * When gap filling ran, an Interpolated column (1 = filled value) is appended.
+ * Timestamps are JST by default; see formatExportTimestamp for UTC / ISO-8601.
  */
 
-import type { DetrendedRecord, HydroRecord } from '../types';
+import type { DetrendedRecord, FloodEvent, HydroRecord, TimestampFormat } from '../types';
 import { downloadTextFile } from '../utils/downloadFile';
-import { formatTimestamp, formatYYYYMM } from '../utils/formatDate';
+import { formatExportTimestamp, formatYYYYMM } from '../utils/formatDate';
+
+/** The flag is set on every record by interpolateGaps, so the first one is representative */
+function hasInterpolationFlag(records: HydroRecord[]): boolean {
+  return records.length > 0 && records[0].interpolated !== undefined;
+}
 
-export function buildCleanedCsv(records: HydroRecord[]): string {
-  const lines: string[] = ['Timestamp,WaterLevel'];
+export function buildCleanedCsv(
+  records: HydroRecord[],
+  timeFormat: TimestampFormat = 'jst',
+): string {
+  const withFlag = hasInterpolationFlag(records);
+  const lines: string[] = [withFlag ? 'Timestamp,WaterLevel,Interpolated' : 'Timestamp,WaterLevel'];
   for (const r of records) {
-    const ts = formatTimestamp(r.dateTime);
+    const ts = formatExportTimestamp(r.dateTime, timeFormat);
     const wl = r.waterLevel !== null ? String(r.waterLevel) : '';
-    lines.push(`${ts},${wl}`);
+    lines.push(withFlag ? `${ts},${wl},${r.interpolated ? 1 : 0}` : `${ts},${wl}`);
   }
   return lines.join('\r\n');
 }
@@ -25,20 +37,28 @@ export function downloadCleanedCsv(
   records: HydroRecord[],
   stationId: string,
   range: { start: Date; end: Date },
+  timeFormat: TimestampFormat = 'jst',
 ): void {
-  const csv = buildCleanedCsv(records);
+  const csv = buildCleanedCsv(records, timeFormat);
   const filename = `${stationId}_cleaned_${formatYYYYMM(range.start)}_${formatYYYYMM(range.end)}.csv`;
   downloadTextFile(csv, filename, 'text/csv;charset=utf-8;', true);
 }
 
-export function buildDetrendedCsv(records: DetrendedRecord[]): string {
-  const lines: string[] = ['Timestamp,WaterLevel,Detrended,Baseline'];
+/** Same columns for every strategy; the processing log says which baseline was used */
+export function buildDetrendedCsv(
+  records: DetrendedRecord[],
+  timeFormat: TimestampFormat = 'jst',
+): string {
+  const withFlag = hasInterpolationFlag(records);
+  const header = 'Timestamp,WaterLevel,Detrended,Baseline';
+  const lines: string[] = [withFlag ? `${header},Interpolated` : header];
   for (const r of records) {
-    const ts = formatTimestamp(r.dateTime);
+    const ts = formatExportTimestamp(r.dateTime, timeFormat);
     const wl = r.waterLevel !== null ? String(r.waterLevel) : '';
     const detrended = r.detrended !== null ? String(r.detrended) : '';
     const baseline = r.baseline !== null ? String(r.baseline) : '';
-    lines.push(`${ts},${wl},${detrended},${baseline}`);
+    const row = `${ts},${wl},${detrended},${baseline}`;
+    lines.push(withFlag ? `${row},${r.interpolated ? 1 : 0}` : row);
   }
   return lines.join('\r\n');
 }
@@ -47,8 +67,43 @@ export function downloadDetrendedCsv(
   records: DetrendedRecord[],
   stationId: string,
   range: { start: Date; end: Date },
+  timeFormat: TimestampFormat = 'jst',
 ): void {
-  const csv = buildDetrendedCsv(records);
+  const csv = buildDetrendedCsv(records, timeFormat);
   const filename = `${stationId}_detrended_${formatYYYYMM(range.start)}_${formatYYYYMM(range.end)}.csv`;
   downloadTextFile(csv, filename, 'text/csv;charset=utf-8;', true);
 }
+
+/** Column names follow the station_records table */
+export function buildEventsCsv(events: FloodEvent[], timeFormat: TimestampFormat = 'jst'): string {
+  const lines: string[] = [
+    'start_time,peak_time,end_time,start_value,peak_value,end_value,rise_time,fall_time',
+  ];
+  for (const e of events) {
+    const value = (v: number | null) => (v !== null ? String(v) : '');
+    lines.push(
+      [
+        formatExportTimestamp(e.start_time, timeFormat),
+        formatExportTimestamp(e.peak_time, timeFormat),
+        formatExportTimestamp(e.end_time, timeFormat),
+        value(e.start_value),
+        value(e.peak_value),
+        value(e.end_value),
+        String(e.rise_time),
+        String(e.fall_time),
+      ].join(','),
+    );
+  }
+  return lines.join('\r\n');
+}
+
+export function downloadEventsCsv(
+  events: FloodEvent[],
+  stationId: string,
+  range: { start: Date; end: Date },
+  timeFormat: TimestampFormat = 'jst',
+): void {
+  const csv = buildEventsCsv(events, timeFormat);
+  const filename = `${stationId}_events_${formatYYYYMM(range.start)}_${formatYYYYMM(range.end)}.csv`;
+  downloadTextFile(csv, filename, 'text/csv;charset=utf-8;', true);
+}
@@ -1,13 +1,32 @@
-import type { CleanStats, DetrendedRecord } from '@/lib/hydro/types';
+import type {
+  CleanStats,
+  DetrendedRecord,
+  DetrendStrategy,
+  InterpolationConfig,
+  InterpolationStats,
+  ResampleConfig,
+} from '@/lib/hydro/types';
 import { downloadTextFile } from '@/lib/hydro/utils/downloadFile';
 import { formatDateTime, formatYearMonth, formatYYYYMM } from '@/lib/hydro/utils/formatDate';
 
+/** What the Baseline column of the detrended CSV holds */
+const BASELINE_LABELS: Record<DetrendStrategy, string> = {
+  skip: 'none',
+  local: 'rolling median (30-day window)',
+  full: 'rolling median (window of 1/3 of the series)',
+  'yearly-mean': 'calendar-year mean',
+};
+
 export interface ProcessingLogInput {
   stationId: string;
   selectedRange: { start: Date; end: Date } | null;
   cleanStats: CleanStats | null;
-  strategy: 'skip' | 'local' | 'full';
+  resample: ResampleConfig;
+  interpolation: InterpolationConfig;
+  interpolationStats: InterpolationStats | null;
+  strategy: DetrendStrategy;
   windowSize: number;
+  alignedYears: number;
   sourceCount: number;
   detrendedData: DetrendedRecord[];
 }
@@ -17,8 +36,12 @@ export function generateProcessingLog(input: ProcessingLogInput): string {
     stationId,
     selectedRange,
     cleanStats,
+    resample,
+    interpolation,
+    interpolationStats,
     strategy,
     windowSize,
+    alignedYears,
     sourceCount,
     detrendedData,
   } = input;
@@ -43,10 +66,22 @@ export function generateProcessingLog(input: ProcessingLogInput): string {
     `ErrorRows: ${cleanStats?.errorRows ?? 0}`,
     `ValidRate: ${cleanStats ? cleanStats.validRate.toFixed(4) : '0.0000'}`,
     `LongestGapHours: ${cleanStats?.longestGapHours.toFixed(1) ?? 'NaN'}`,
+    `ResolutionMinutes: ${cleanStats?.resolutionMinutes ?? '-'}`,
+    '',
+    '[Preprocessing]',
+    `ResampleMinutes: ${resample.targetMinutes ?? '-'}`,
+    `ResampleMethod: ${resample.targetMinutes !== null ? resample.method : '-'}`,
+    `GapFilling: ${interpolationStats ? 'yes' : 'no'}`,
+    `MaxGapHours: ${interpolationStats ? interpolation.maxGapHours : '-'}`,
+    `FilledGaps: ${interpolationStats?.filledGaps ?? 0}`,
+    `FilledRows: ${interpolationStats?.filledRows ?? 0}`,
+    `UnfilledGaps: ${interpolationStats?.gaps.length ?? 0}`,
     '',
     '[Detrend]',
     `Strategy: ${strategy}`,
+    `Baseline: ${BASELINE_LABELS[strategy]}`,
     `WindowSize: ${windowSize}`,
+    `AlignedYears: ${alignedYears}`,
     `SourceRecords: ${sourceCount}`,
     `DetrendedRecords: ${detrendedData.length}`,
     `ValidDetrended: ${validDetrended}`,
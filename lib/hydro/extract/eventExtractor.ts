@@ -0,0 +1,191 @@
+/**
+ * Flash-flood event extraction (browser port of the offline pipeline)
+ *
+ * Runs on the detrended series:
+ *   1. P50 / P75 of all valid detrended values (percentiles are tunable)
+ *   2. Local maxima, plateau-aware (left edge of a flat top is the peak)
+ *   3. Keep peaks above P75
+ *   4. Scan backward / forward for the P50 crossings -> start / end
+ *   5. Map indices back to the observed water levels
+ */
+
+import type { DetrendedRecord, ExtractStats, FloodEvent } from '../types';
+
+export interface ExtractOptions {
+  /** Minimum rise (peak - start, in meters of the detrended series); 0 keeps every P75 peak */
+  minRise?: number;
+  /** Percentile a peak must exceed (default 75) */
+  peakPercentile?: number;
+  /** Percentile whose crossings mark start and end (default 50) */
+  boundaryPercentile?: number;
+  /** Flat tops longer than this many readings are not peaks (default: any length) */
+  maxPlateau?: number;
+  /**
+   * P50 / P75 taken from a longer series than `records` (e.g. the whole stored record
+   * when only a window is loaded); the percentile options are then ignored
+   */
+  thresholds?: { p50: number | null; p75: number | null };
+}
+
+export interface ExtractResult {
+  events: FloodEvent[];
+  stats: ExtractStats;
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ * (same definition as numpy's default), `sorted` must be ascending.
+ */
+export function percentile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  const pos = (sorted.length - 1) * (q / 100);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  if (lo === hi) return sorted[lo];
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Indices of local maxima. A run of equal values flanked by strictly lower
+ * values on both sides counts as one peak located at the run's left edge.
+ * Missing values never qualify as a flank, so peaks next to gaps are skipped.
+ * Runs longer than `maxPlateau` readings (e.g. a stuck gauge) are skipped too.
+ */
+export function findPeaks(values: (number | null)[], maxPlateau = Infinity): number[] {
+  const peaks: number[] = [];
+  let i = 1;
+
+  while (i < values.length - 1) {
+    const current = values[i];
+    const left = values[i - 1];
+
+    if (current === null || left === null || left >= current) {
+      i++;
+      continue;
+    }
+
+    // Walk to the right edge of the plateau
+    let right = i;
+    while (right + 1 < values.length && values[right + 1] === current) {
+      right++;
+    }
+
+    const after = right + 1 < values.length ? values[right + 1] : null;
+    if (after !== null && after < current && right - i + 1 <= maxPlateau) {
+      peaks.push(i);
+    }
+
+    i = right + 1;
+  }
+
+  return peaks;
+}
+
+/** Last index before `peak` whose value is below `threshold`; -1 if a gap or the series start is hit first */
+function findStart(values: (number | null)[], peak: number, threshold: number): number {
+  for (let k = peak - 1; k >= 0; k--) {
+    const v = values[k];
+    if (v === null) return -1;
+    if (v < threshold) return k;
+  }
+  return -1;
+}
+
+/** First index after `peak` whose value is below `threshold`; -1 if a gap or the series end is hit first */
+function findEnd(values: (number | null)[], peak: number, threshold: number): number {
+  for (let k = peak + 1; k < values.length; k++) {
+    const v = values[k];
+    if (v === null) return -1;
+    if (v < threshold) return k;
+  }
+  return -1;
+}
+
+function percentilesOf(values: (number | null)[], options: ExtractOptions) {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, options.boundaryPercentile ?? 50),
+    p75: percentile(sorted, options.peakPercentile ?? 75),
+  };
+}
+
+export function extractEvents(
+  records: DetrendedRecord[],
+  options: ExtractOptions = {},
+): ExtractResult {
+  const minRise = options.minRise ?? 0;
+  const values = records.map((record) => record.detrended);
+
+  const { p50, p75 } = options.thresholds ?? percentilesOf(values, options);
+
+  const stats: ExtractStats = {
+    p50,
+    p75,
+    peakCandidates: 0,
+    peaksAboveP75: 0,
+    incompleteEvents: 0,
+    belowThreshold: 0,
+    mergedPeaks: 0,
+  };
+
+  if (p50 === null || p75 === null) {
+    return { events: [], stats };
+  }
+
+  const candidates = findPeaks(values, options.maxPlateau);
+  stats.peakCandidates = candidates.length;
+
+  const confirmed = candidates.filter((idx) => (values[idx] as number) > p75);
+  stats.peaksAboveP75 = confirmed.length;
+
+  // Peaks that resolve to the same start/end belong to one event: keep the highest
+  const byBoundary = new Map<string, { start: number; peak: number; end: number }>();
+
+  for (const peak of confirmed) {
+    const start = findStart(values, peak, p50);
+    const end = findEnd(values, peak, p50);
+    if (start < 0 || end < 0) {
+      stats.incompleteEvents++;
+      continue;
+    }
+
+    const rise = (values[peak] as number) - (values[start] as number);
+    if (rise < minRise) {
+      stats.belowThreshold++;
+      continue;
+    }
+
+    const key = `${start}:${end}`;
+    const existing = byBoundary.get(key);
+    if (existing) {
+      stats.mergedPeaks++;
+      if ((values[peak] as number) > (values[existing.peak] as number)) {
+        existing.peak = peak;
+      }
+      continue;
+    }
+    byBoundary.set(key, { start, peak, end });
+  }
+
+  const events: FloodEvent[] = Array.from(byBoundary.values())
+    .sort((a, b) => a.peak - b.peak)
+    .map(({ start, peak, end }) => {
+      const startRecord = records[start];
+      const peakRecord = records[peak];
+      const endRecord = records[end];
+      return {
+        start_time: startRecord.dateTime,
+        peak_time: peakRecord.dateTime,
+        end_time: endRecord.dateTime,
+        start_value: startRecord.waterLevel,
+        peak_value: peakRecord.waterLevel,
+        end_value: endRecord.waterLevel,
+        rise_time: (peakRecord.dateTime.getTime() - startRecord.dateTime.getTime()) / HOUR_MS,
+        fall_time: (endRecord.dateTime.getTime() - peakRecord.dateTime.getTime()) / HOUR_MS,
+      };
+    });
+
+  return { events, stats };
+}
@@ -8,7 +8,7 @@
  * 简单探测 ArrayBuffer 的文字编码。
  * 优先级: UTF-8 BOM → UTF-8 (heuristic) → EUC-JP → Shift-JIS
  */
-function detectEncoding(buffer: ArrayBuffer): string {
+export function detectEncoding(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
 
   // 1. UTF-8 BOM (EF BB BF)
@@ -78,9 +78,9 @@ function detectEncoding(buffer: ArrayBuffer): string {
 }
 
 /**
- * 读取 File 对象，自动探测编码并返回解码后的字符串。
+ * 读取 File（或其 slice）对象，自动探测编码并返回解码后的字符串。
  */
-export async function readFileAsText(file: File): Promise<string> {
+export async function readFileAsText(file: Blob): Promise<string> {
   const buffer = await file.arrayBuffer();
   const encoding = detectEncoding(buffer);
   try {
@@ -1,78 +1,116 @@
-import type { ScannedFile } from '../types';
+import type { RawFormat, RawFormatChoice, ScannedFile } from '../types';
+import { jstDate, jstParts } from '../utils/jst';
+import { readFileAsText } from './encodingDetect';
+import { detectRawFormat, getRawFormatParser, SUPPORTED_FILE_RE } from './registry';
 
-// 只匹配 YYYYMMDD_YYYYMMDD.txt 格式
+// 文件名带日期范围的快速路径：YYYYMMDD_YYYYMMDD.txt
 const DATE_RANGE_RE = /^(\d{4})(\d{2})(\d{2})_(\d{4})(\d{2})(\d{2})\.txt$/i;
 
+/** 格式探测只读文件开头这么多字节 */
+const DETECT_SAMPLE_BYTES = 16 * 1024;
+
 function parseYMD(y: string, m: string, d: string): Date | null {
   const year = parseInt(y, 10);
-  const month = parseInt(m, 10) - 1; // JS months are 0-indexed
+  const month = parseInt(m, 10);
   const day = parseInt(d, 10);
-  const date = new Date(year, month, day);
+  const date = jstDate(year, month, day);
   // Validate: ensure the date didn't overflow (e.g. month 13)
-  if (
-    date.getFullYear() !== year ||
-    date.getMonth() !== month ||
-    date.getDate() !== day
-  ) {
+  const parts = jstParts(date);
+  if (parts.year !== year || parts.month !== month || parts.day !== day) {
     return null;
   }
   return date;
 }
 
+function failed(file: File, format: RawFormat | null, parseError: string): ScannedFile {
+  return { file, fileName: file.name, format, startDate: null, endDate: null, parseError };
+}
+
+/** 文件名不带日期时，解析全文，用首尾数据行的日期作为范围 */
+async function scanContent(file: File, format: RawFormat): Promise<ScannedFile> {
+  let text: string;
+  try {
+    text = await readFileAsText(file);
+  } catch (e) {
+    return failed(file, format, `读取失败: ${String(e)}`);
+  }
+
+  const { lines } = getRawFormatParser(format).parse(text);
+  if (lines.length === 0) return failed(file, format, '未找到可解析的数据行');
+
+  let min = lines[0].timestamp;
+  let max = lines[0].timestamp;
+  for (const line of lines) {
+    if (line.timestamp < min) min = line.timestamp;
+    if (line.timestamp > max) max = line.timestamp;
+  }
+  const first = jstParts(min);
+  const last = jstParts(max);
+  return {
+    file,
+    fileName: file.name,
+    format,
+    startDate: jstDate(first.year, first.month, first.day),
+    endDate: jstDate(last.year, last.month, last.day),
+    parseError: null,
+  };
+}
+
+async function scanFile(file: File, choice: RawFormatChoice): Promise<ScannedFile> {
+  let format: RawFormat | null;
+  try {
+    format =
+      choice === 'auto'
+        ? detectRawFormat(await readFileAsText(file.slice(0, DETECT_SAMPLE_BYTES)))
+        : choice;
+  } catch (e) {
+    return failed(file, null, `读取失败: ${String(e)}`);
+  }
+  if (!format) return failed(file, null, '无法识别文件格式');
+
+  const match = DATE_RANGE_RE.exec(file.name);
+  if (!match) return scanContent(file, format);
+
+  const [, y1, m1, d1, y2, m2, d2] = match;
+  const startDate = parseYMD(y1, m1, d1);
+  const endDate = parseYMD(y2, m2, d2);
+
+  if (!startDate || !endDate) {
+    return failed(file, format, `文件名包含无效日期`);
+  }
+
+  if (startDate > endDate) {
+    return failed(file, format, `起始日期晚于结束日期`);
+  }
+
+  return {
+    file,
+    fileName: file.name,
+    format,
+    startDate,
+    endDate,
+    parseError: null,
+  };
+}
+
 /**
- * 扫描文件列表，解析文件名中的双日期。
- * - 只保留 .txt 文件
- * - 文件名必须符合 YYYYMMDD_YYYYMMDD.txt 格式
- * - 不符合的记录 parseError，不丢弃
+ * 扫描文件列表，确定每个文件的格式与日期范围。
+ * - 只保留支持的扩展名（.txt/.tst/.csv/.tsv/.dat）
+ * - 格式按内容自动探测，或使用用户指定的格式
+ * - 文件名符合 YYYYMMDD_YYYYMMDD.txt 时直接用文件名中的日期，否则读取内容
+ * - 无法识别的记录 parseError，不丢弃
  * - 返回结果按 startDate 升序排列，解析失败的排在末尾
  */
-export function scanFiles(files: File[]): ScannedFile[] {
-  const txtFiles = files.filter((f) => /\.txt$/i.test(f.name));
-
-  const scanned: ScannedFile[] = txtFiles.map((file) => {
-    const match = DATE_RANGE_RE.exec(file.name);
-    if (!match) {
-      return {
-        file,
-        fileName: file.name,
-        startDate: null,
-        endDate: null,
-        parseError: `文件名格式不符合 YYYYMMDD_YYYYMMDD.txt`,
-      };
-    }
-
-    const [, y1, m1, d1, y2, m2, d2] = match;
-    const startDate = parseYMD(y1, m1, d1);
-    const endDate = parseYMD(y2, m2, d2);
-
-    if (!startDate || !endDate) {
-      return {
-        file,
-        fileName: file.name,
-        startDate: null,
-        endDate: null,
-        parseError: `文件名包含无效日期`,
-      };
-    }
-
-    if (startDate > endDate) {
-      return {
-        file,
-        fileName: file.name,
-        startDate: null,
-        endDate: null,
-        parseError: `起始日期晚于结束日期`,
-      };
-    }
-
-    return {
-      file,
-      fileName: file.name,
-      startDate,
-      endDate,
-      parseError: null,
-    };
-  });
+export async function scanFiles(
+  files: File[],
+  format: RawFormatChoice = 'auto',
+): Promise<ScannedFile[]> {
+  const supported = files.filter((f) => SUPPORTED_FILE_RE.test(f.name));
+
+  const scanned: ScannedFile[] = [];
+  for (const file of supported) {
+    scanned.push(await scanFile(file, format));
+  }
 
   // 成功解析的按 startDate 升序，失败的放末尾
   return scanned.sort((a, b) => {
@@ -0,0 +1,97 @@
+/**
+ * Generic two-column CSV/TSV parser
+ *
+ *   timestamp,water_level[,flag]
+ *   2020-07-04T01:00:00+09:00,3.41
+ *   2020-07-04 02:00,3.52,*
+ *   2020-07-04T03:00Z,
+ *
+ * Comma, tab and semicolon delimiters are detected from the first data row.
+ * Timestamps with an offset (or Z) are absolute; without one they are read
+ * as JST wall-clock time like the other formats. Seconds are dropped.
+ * An empty, NaN or null value marks the hour as missing (flag `$`).
+ */
+
+import type { ParsedLine, ParseError, ParseResult } from './textParser';
+import { makeTimestamp, parseReading } from './textParser';
+
+const ISO_TIMESTAMP_RE =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+const MISSING_VALUES = new Set(['', 'nan', 'null', 'na']);
+
+function detectDelimiter(line: string): string | null {
+  for (const delimiter of ['\t', ',', ';']) {
+    const first = line
+      .split(delimiter)[0]
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+    if (line.includes(delimiter) && ISO_TIMESTAMP_RE.test(first)) return delimiter;
+  }
+  return null;
+}
+
+function parseIsoTimestamp(value: string): Date | null {
+  const match = ISO_TIMESTAMP_RE.exec(value);
+  if (!match) return null;
+  const [, y, mo, d, h, m, offset] = match;
+
+  if (!offset) return makeTimestamp(Number(y), Number(mo), Number(d), Number(h), Number(m));
+
+  const utc = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(m));
+  if (offset === 'Z') return new Date(utc);
+  const sign = offset.startsWith('-') ? -1 : 1;
+  const digits = offset.slice(1).replace(':', '');
+  const offsetMinutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+  return new Date(utc - sign * offsetMinutes * 60 * 1000);
+}
+
+/** Share of sampled non-empty rows that start with an ISO timestamp and a delimiter */
+export function isoCsvShare(sample: string[]): number {
+  const rows = sample.filter((line) => line.trim() !== '');
+  if (rows.length === 0) return 0;
+  return rows.filter((line) => detectDelimiter(line.trim()) !== null).length / rows.length;
+}
+
+export function parseIsoCsvFile(text: string): ParseResult {
+  const rawLines = text.split(/\r?\n/);
+  const lines: ParsedLine[] = [];
+  const errors: ParseError[] = [];
+  let skippedLines = 0;
+  let delimiter: string | null = null;
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const rawLine = rawLines[i];
+    delimiter ??= detectDelimiter(rawLine.trim());
+
+    const cells = delimiter
+      ? rawLine.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'))
+      : [];
+    // Header rows, comments and blank lines
+    if (cells.length === 0 || !/^\d{4}-\d{2}-\d{2}/.test(cells[0])) {
+      skippedLines++;
+      continue;
+    }
+    if (cells.length < 2) {
+      errors.push({ lineNumber: i + 1, raw: rawLine, reason: '列数不足' });
+      continue;
+    }
+
+    const timestamp = parseIsoTimestamp(cells[0]);
+    if (!timestamp || isNaN(timestamp.getTime())) {
+      errors.push({ lineNumber: i + 1, raw: rawLine, reason: '时间戳解析失败' });
+      continue;
+    }
+
+    const reading = MISSING_VALUES.has(cells[1].toLowerCase())
+      ? { waterLevel: null, qualityFlag: cells[2] || '$' }
+      : parseReading(cells.slice(1, 3));
+    if ('error' in reading) {
+      errors.push({ lineNumber: i + 1, raw: rawLine, reason: reading.error });
+      continue;
+    }
+
+    lines.push({ timestamp, ...reading, rawLine, lineNumber: i + 1 });
+  }
+
+  return { lines, errors, skippedLines };
+}
@@ -0,0 +1,91 @@
+/**
+ * 水文水質DB daily-table CSV parser (時刻水位月表 download)
+ *
+ * One row per day, one column per hour; the flag is appended to the value:
+ *   年月日,1時,2時,...,24時
+ *   1998/01/01,3.41,3.40*,-9999.99$,$,...,3.38
+ *
+ * Hour columns are located from the header (`1時` or `01:00` labels);
+ * without a header the 24 columns after the date are taken as hours 1-24.
+ * A blank cell means no value was registered for that hour (flag `-`).
+ */
+
+import type { ParsedLine, ParseError, ParseResult } from './textParser';
+import { makeTimestamp, parseReading } from './textParser';
+
+const DATE_CELL_RE = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/;
+const HOUR_LABEL_RE = /^(\d{1,2})(?:時|:00)$/;
+const CELL_FLAG_RE = /^(.*?)\s*([*$#-])$/;
+
+function splitCells(line: string): string[] {
+  return line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+/** Column index -> hour (1-24) read from a header row, or null if the row is not a header */
+function readHourHeader(cells: string[]): Map<number, number> | null {
+  const hours = new Map<number, number>();
+  cells.forEach((cell, index) => {
+    const match = HOUR_LABEL_RE.exec(cell);
+    if (match && Number(match[1]) >= 1 && Number(match[1]) <= 24) {
+      hours.set(index, Number(match[1]));
+    }
+  });
+  return hours.size >= 24 ? hours : null;
+}
+
+const DEFAULT_HOURS = new Map(Array.from({ length: 24 }, (_, i) => [i + 1, i + 1] as const));
+
+/** 1 for a header with 24 hour columns, 0.7 for headerless wide date rows, else 0 */
+export function mlitCsvScore(sample: string[]): number {
+  let wideRows = 0;
+  for (const line of sample) {
+    const cells = splitCells(line);
+    if (readHourHeader(cells)) return 1;
+    if (DATE_CELL_RE.test(cells[0]) && cells.length >= 25) wideRows++;
+  }
+  return wideRows > 0 ? 0.7 : 0;
+}
+
+export function parseMlitCsvFile(text: string): ParseResult {
+  const rawLines = text.split(/\r?\n/);
+  const lines: ParsedLine[] = [];
+  const errors: ParseError[] = [];
+  let skippedLines = 0;
+  let hourColumns: Map<number, number> = DEFAULT_HOURS;
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const rawLine = rawLines[i];
+    const cells = splitCells(rawLine);
+    const dateMatch = DATE_CELL_RE.exec(cells[0]);
+
+    if (!dateMatch) {
+      hourColumns = readHourHeader(cells) ?? hourColumns;
+      skippedLines++;
+      continue;
+    }
+
+    const [, y, mo, d] = dateMatch.map(Number);
+    for (const [column, hour] of hourColumns) {
+      const cell = cells[column] ?? '';
+      const timestamp = makeTimestamp(y, mo, d, hour, 0);
+      if (!timestamp) {
+        errors.push({ lineNumber: i + 1, raw: rawLine, reason: '时间戳解析失败' });
+        break;
+      }
+
+      const flagMatch = CELL_FLAG_RE.exec(cell);
+      const reading =
+        cell === ''
+          ? { waterLevel: null, qualityFlag: '-' }
+          : parseReading(flagMatch ? [flagMatch[1], flagMatch[2]] : [cell]);
+      if ('error' in reading) {
+        errors.push({ lineNumber: i + 1, raw: rawLine, reason: `${hour}時: ${reading.error}` });
+        continue;
+      }
+
+      lines.push({ timestamp, ...reading, rawLine, lineNumber: i + 1 });
+    }
+  }
+
+  return { lines, errors, skippedLines };
+}
@@ -0,0 +1,98 @@
+/**
+ * Raw-format parser registry
+ *
+ * Every supported download format registers a parser that scores a sample of
+ * the file's first lines and turns the full text into the shared ParseResult.
+ * Auto-detection picks the highest score; the wizard can override it.
+ */
+
+import type { RawFormat, RawFormatChoice } from '../types';
+import { isoCsvShare, parseIsoCsvFile } from './isoCsvParser';
+import { mlitCsvScore, parseMlitCsvFile } from './mlitCsvParser';
+import { parseTenMinuteFile, subHourlyShare } from './tenMinuteParser';
+import type { ParseResult } from './textParser';
+import { parseTextFile } from './textParser';
+
+export interface RawFormatParser {
+  id: RawFormat;
+  label: string;
+  /** 0-1; 0 means the sample is not this format */
+  detect: (sample: string[]) => number;
+  parse: (text: string) => ParseResult;
+}
+
+const RIVER_LINE_RE = /^\d{4}\/\d{2}\/\d{2},\s*\d{1,2}:\d{2}/;
+
+/** Lines inspected by auto-detection */
+const SAMPLE_LINES = 60;
+
+/** Files the wizard accepts; content decides the format */
+export const SUPPORTED_FILE_RE = /\.(txt|tst|csv|tsv|dat)$/i;
+
+export const RAW_FORMAT_PARSERS: RawFormatParser[] = [
+  {
+    id: 'river-txt',
+    label: 'Water Info TXT (hourly)',
+    // Hourly rows score 0.9; 10-minute rows also parse here but lose to ten-minute
+    detect: (sample) =>
+      sample.some((line) => RIVER_LINE_RE.test(line.trim()))
+        ? 0.9 - 0.3 * subHourlyShare(sample)
+        : 0,
+    parse: parseTextFile,
+  },
+  {
+    id: 'mlit-csv',
+    label: 'MLIT daily table CSV',
+    detect: mlitCsvScore,
+    parse: parseMlitCsvFile,
+  },
+  {
+    id: 'ten-minute',
+    label: '10-minute TXT',
+    detect: (sample) => (subHourlyShare(sample) >= 0.5 ? 0.95 : 0),
+    parse: parseTenMinuteFile,
+  },
+  {
+    id: 'iso-csv',
+    label: 'ISO timestamp CSV/TSV',
+    detect: (sample) => 0.9 * isoCsvShare(sample),
+    parse: parseIsoCsvFile,
+  },
+];
+
+export function getRawFormatParser(id: RawFormat): RawFormatParser {
+  return RAW_FORMAT_PARSERS.find((parser) => parser.id === id)!;
+}
+
+function sampleLines(text: string): string[] {
+  const sample: string[] = [];
+  for (const line of text.split(/\r?\n/, SAMPLE_LINES * 4)) {
+    if (line.trim() === '') continue;
+    sample.push(line);
+    if (sample.length === SAMPLE_LINES) break;
+  }
+  return sample;
+}
+
+/** Best-scoring format for the text, or null when no parser recognises it */
+export function detectRawFormat(text: string): RawFormat | null {
+  const sample = sampleLines(text);
+  let best: { id: RawFormat; score: number } | null = null;
+  for (const parser of RAW_FORMAT_PARSERS) {
+    const score = parser.detect(sample);
+    if (score > 0 && (!best || score > best.score)) best = { id: parser.id, score };
+  }
+  return best?.id ?? null;
+}
+
+/**
+ * Parse a file's text with the chosen format. With 'auto', an unrecognised
+ * file falls back to the hourly TXT parser so its lines are reported as skipped.
+ */
+export function parseRawText(
+  text: string,
+  format: RawFormatChoice,
+): { format: RawFormat; result: ParseResult } {
+  const id = format === 'auto' ? (detectRawFormat(text) ?? 'river-txt') : format;
+  return { format: id, result: getRawFormatParser(id).parse(text) };
+}
@@ -0,0 +1,67 @@
+/**
+ * 10-minute interval parser
+ *
+ * Same value/flag columns as the hourly TXT, but rows every 10 minutes and
+ * the date and time may be separated by a space instead of a comma:
+ *   2019/10/12 00:10,3.21,
+ *   2019/10/12,00:20,-9999.99,$
+ *   2019/10/12 24:00,3.02,*        -> next day 00:00
+ */
+
+import type { ParsedLine, ParseError, ParseResult } from './textParser';
+import { makeTimestamp, parseReading } from './textParser';
+
+const DATA_LINE_RE = /^(\d{4})\/(\d{2})\/(\d{2})[ ,]\s*(\d{1,2}):(\d{2})\s*(?:,(.*))?$/;
+
+export const STEP_MINUTES = 10;
+
+/** Share of sampled data rows that fall off the hour; hourly files score 0 */
+export function subHourlyShare(sample: string[]): number {
+  let matched = 0;
+  let offHour = 0;
+  for (const line of sample) {
+    const match = DATA_LINE_RE.exec(line.trim());
+    if (!match) continue;
+    matched++;
+    if (Number(match[5]) !== 0) offHour++;
+  }
+  return matched > 0 ? offHour / matched : 0;
+}
+
+export function parseTenMinuteFile(text: string): ParseResult {
+  const rawLines = text.split(/\r?\n/);
+  const lines: ParsedLine[] = [];
+  const errors: ParseError[] = [];
+  let skippedLines = 0;
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const rawLine = rawLines[i];
+    const match = DATA_LINE_RE.exec(rawLine.trim());
+    if (!match) {
+      skippedLines++;
+      continue;
+    }
+
+    const [, y, mo, d, h, m, rest] = match;
+    if (Number(m) % STEP_MINUTES !== 0) {
+      errors.push({ lineNumber: i + 1, raw: rawLine, reason: '时间不在10分钟间隔上' });
+      continue;
+    }
+
+    const timestamp = makeTimestamp(Number(y), Number(mo), Number(d), Number(h), Number(m));
+    if (!timestamp) {
+      errors.push({ lineNumber: i + 1, raw: rawLine, reason: '时间戳解析失败' });
+      continue;
+    }
+
+    const reading = parseReading((rest ?? '').split(','));
+    if ('error' in reading) {
+      errors.push({ lineNumber: i + 1, raw: rawLine, reason: reading.error });
+      continue;
+    }
+
+    lines.push({ timestamp, ...reading, rawLine, lineNumber: i + 1 });
+  }
+
+  return { lines, errors, skippedLines };
+}
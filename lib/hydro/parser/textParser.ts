@@ -7,8 +7,12 @@
  *   2002/06/30,12:00,-             -> flag=-  -> waterLevel=null
  *   2002/07/01,12:00,1.55,*        -> flag=*  -> waterLevel=1.55 (kept)
  *   1998/01/01,24:00,-9999.99,$    -> 24:00   -> next day 00:00
+ *
+ * Timestamps are JST wall-clock times.
  */
 
+import { jstDate } from '../utils/jst';
+
 /** Flags that set waterLevel=null */
 const SKIP_FLAGS = new Set(['$', '#', '-']);
 /** Tentative flag: keep the numeric value */
@@ -38,10 +42,22 @@ export interface ParseResult {
 }
 
 /**
- * Merge date string "YYYY/MM/DD" and time string "HH:MM" into a Date.
+ * Build a Date from JST calendar fields, whatever the machine's timezone.
  * Special: 24:00 -> next day 00:00.
  */
-function parseTimestamp(dateStr: string, timeStr: string): Date | null {
+export function makeTimestamp(y: number, mo: number, d: number, h: number, m: number): Date | null {
+  if (isNaN(y) || isNaN(mo) || isNaN(d) || isNaN(h) || isNaN(m)) return null;
+
+  const date = h === 24 ? jstDate(y, mo, d + 1, 0, m) : jstDate(y, mo, d, h, m);
+
+  if (isNaN(date.getTime())) return null;
+  return date;
+}
+
+/**
+ * Merge date string "YYYY/MM/DD" and time string "HH:MM" into a Date.
+ */
+export function parseTimestamp(dateStr: string, timeStr: string): Date | null {
   const dateParts = dateStr.split('/');
   if (dateParts.length !== 3) return null;
   const [y, mo, d] = dateParts.map(Number);
@@ -50,17 +66,32 @@ function parseTimestamp(dateStr: string, timeStr: string): Date | null {
   if (timeParts.length !== 2) return null;
   const [h, m] = timeParts.map(Number);
 
-  if (isNaN(y) || isNaN(mo) || isNaN(d) || isNaN(h) || isNaN(m)) return null;
+  return makeTimestamp(y, mo, d, h, m);
+}
 
-  let date: Date;
-  if (h === 24) {
-    date = new Date(y, mo - 1, d + 1, 0, m, 0, 0);
-  } else {
-    date = new Date(y, mo - 1, d, h, m, 0, 0);
+export type Reading = { waterLevel: number | null; qualityFlag: string } | { error: string };
+
+/**
+ * Interpret the columns after the timestamp: "value,flag", "value," or a bare flag.
+ * The flag is taken from the last non-empty column.
+ */
+export function parseReading(columns: string[]): Reading {
+  const nonEmptyParts = columns.map((p) => p.trim()).filter((p) => p !== '');
+  const lastPart = nonEmptyParts[nonEmptyParts.length - 1] ?? '';
+
+  if (SKIP_FLAGS.has(lastPart)) {
+    return { waterLevel: null, qualityFlag: lastPart };
+  }
+  if (lastPart === TENTATIVE_FLAG) {
+    const valueStr = nonEmptyParts.length >= 2 ? nonEmptyParts[nonEmptyParts.length - 2] : '';
+    const val = parseFloat(valueStr);
+    if (isNaN(val)) return { error: `暫定値行数值解析失败: "${valueStr}"` };
+    return { waterLevel: val, qualityFlag: TENTATIVE_FLAG };
   }
 
-  if (isNaN(date.getTime())) return null;
-  return date;
+  const val = parseFloat(lastPart);
+  if (isNaN(val)) return { error: `数值解析失败: "${lastPart}"` };
+  return { waterLevel: val, qualityFlag: '' };
 }
 
 /**
@@ -104,34 +135,12 @@ export function parseTextFile(text: string): ParseResult {
       continue;
     }
 
-    // Determine flag from the last non-empty part
-    const nonEmptyParts = parts.map(p => p.trim()).filter(p => p !== '');
-    const lastPart = nonEmptyParts[nonEmptyParts.length - 1] ?? '';
-
-    let qualityFlag = '';
-    let waterLevel: number | null = null;
-
-    if (SKIP_FLAGS.has(lastPart)) {
-      qualityFlag = lastPart;
-      waterLevel = null;
-    } else if (lastPart === TENTATIVE_FLAG) {
-      qualityFlag = TENTATIVE_FLAG;
-      const valueStr = nonEmptyParts.length >= 2 ? nonEmptyParts[nonEmptyParts.length - 2] : '';
-      const val = parseFloat(valueStr);
-      if (isNaN(val)) {
-        errors.push({ lineNumber: i + 1, raw: rawLine, reason: `暫定値行数值解析失败: "${valueStr}"` });
-        continue;
-      }
-      waterLevel = val;
-    } else {
-      const val = parseFloat(lastPart);
-      if (isNaN(val)) {
-        errors.push({ lineNumber: i + 1, raw: rawLine, reason: `数值解析失败: "${lastPart}"` });
-        continue;
-      }
-      qualityFlag = '';
-      waterLevel = val;
+    const reading = parseReading(parts.slice(2));
+    if ('error' in reading) {
+      errors.push({ lineNumber: i + 1, raw: rawLine, reason: reading.error });
+      continue;
     }
+    const { waterLevel, qualityFlag } = reading;
 
     lines.push({
       timestamp,
@@ -1,11 +1,12 @@
 // --- Core data types ---
 export interface HydroRecord {
-  dateTime: Date;
+  dateTime: Date;               // instant; calendar fields below are JST
   waterLevel: number | null;    // null = missing
   qualityFlag: string;          // "暫定値" | "" | "欠測" | "閉局" | "未登録"
   year: number;
   month: number;
   day: number;
+  interpolated?: boolean;       // set by the gap-filling stage; absent when it was not run
 }
 
 export interface DetrendedRecord extends HydroRecord {
@@ -13,9 +14,27 @@ export interface DetrendedRecord extends HydroRecord {
   baseline: number | null;
 }
 
+/**
+ * skip        — no baseline correction
+ * local       — 30-day rolling median
+ * full        — rolling median over a third of the record
+ * yearly-mean — each calendar year shifted to a zero mean (production method)
+ */
+export type DetrendStrategy = 'skip' | 'local' | 'full' | 'yearly-mean';
+
+/**
+ * river-txt  — 水文水質DB text download: YYYY/MM/DD,HH:MM,value,flag
+ * mlit-csv   — 水文水質DB daily table CSV: one row per day, one column per hour
+ * ten-minute — YYYY/MM/DD HH:MM rows at 10-minute steps
+ * iso-csv    — two-column CSV/TSV with ISO-8601 timestamps
+ */
+export type RawFormat = 'river-txt' | 'mlit-csv' | 'ten-minute' | 'iso-csv';
+export type RawFormatChoice = RawFormat | 'auto';
+
 export interface ScannedFile {
   file: File;
   fileName: string;
+  format: RawFormat | null;     // detected (or overridden) format; null if the file was unreadable
   startDate: Date | null;       // parsed from filename
   endDate: Date | null;         // parsed from filename
   parseError: string | null;    // reason for filename parse failure
@@ -32,19 +51,85 @@ export interface CleanStats {
   errorRows: number;            // unparseable lines (within selected range files)
   validRate: number;            // valid data ratio (0-1)
   longestGapHours: number;      // longest consecutive gap in hours
+  resolutionMinutes: number;    // most common step between timestamps
+}
+
+/** Timestamp column of CSV exports: JST wall clock, UTC, or ISO-8601 with +09:00 */
+export type TimestampFormat = 'jst' | 'utc' | 'iso';
+
+// --- Preprocessing (resampling + gap filling) ---
+export type ResampleMethod = 'mean' | 'max' | 'last';
+
+export interface ResampleConfig {
+  targetMinutes: number | null; // null = keep the native resolution
+  method: ResampleMethod;
+}
+
+export interface InterpolationConfig {
+  enabled: boolean;
+  maxGapHours: number;          // gaps spanning at most this many hours are filled linearly
+}
+
+/** A run of missing readings left unfilled; bounded by the readings around it */
+export interface GapSegment {
+  start: Date;                  // last valid reading before the gap (first missing row at edges)
+  end: Date;                    // next valid reading after the gap (last missing row at edges)
+  hours: number;
+  missingRows: number;
 }
 
-// TODO: FloodEvent detection will be implemented in a future iteration
-// export interface FloodEvent { ... }
+export interface InterpolationStats {
+  filledGaps: number;
+  filledRows: number;
+  gaps: GapSegment[];           // gaps longer than maxGapHours, plus leading/trailing runs
+}
+
+/** CleanStats broken down by calendar year, clipped to the selected range */
+export interface YearlyCleanStats {
+  year: number;
+  expectedRows: number;         // slots (at the series resolution) of the year inside the range
+  totalRows: number;
+  validRows: number;
+  tentativeCount: number;
+  missingCount: number;
+  closedCount: number;
+  unregisteredCount: number;
+  validRate: number;            // validRows / expectedRows, so absent files count as gaps
+  longestGapHours: number;
+  longestGapStart: Date | null; // last valid reading (or range start) before the longest gap
+}
+
+// --- Extracted events (same fields as station_records) ---
+export interface FloodEvent {
+  start_time: Date;
+  peak_time: Date;
+  end_time: Date;
+  start_value: number | null;   // observed water level (not detrended)
+  peak_value: number | null;
+  end_value: number | null;
+  rise_time: number;            // hours, start -> peak
+  fall_time: number;            // hours, peak -> end
+}
+
+export interface ExtractStats {
+  p50: number | null;           // boundary threshold on the detrended series
+  p75: number | null;           // peak threshold on the detrended series
+  peakCandidates: number;       // local maxima (incl. plateaus) before P75 filter
+  peaksAboveP75: number;
+  incompleteEvents: number;     // no P50 crossing before/after the peak
+  belowThreshold: number;       // rise smaller than eventThreshold
+  mergedPeaks: number;          // peaks sharing boundaries with a higher peak
+}
 
 // --- Wizard state ---
-export type WizardStep = 1 | 2 | 3 | 4;
+export type WizardStep = 1 | 2 | 3 | 4 | 5;
 
 export interface WizardState {
   currentStep: WizardStep;
   // Step 1
   stationId: string;
   uploadedFiles: File[];
+  rawFormat: RawFormatChoice;
   // Step 2 (locked after confirmation)
   scannedFiles: ScannedFile[];
   dateRange: { start: Date; end: Date } | null;
@@ -53,9 +138,18 @@ export interface WizardState {
   // Step 3
   cleanedData: HydroRecord[];
   cleanStats: CleanStats | null;
+  resample: ResampleConfig;
+  interpolation: InterpolationConfig;
+  preparedData: HydroRecord[] | null;       // resampled / gap-filled series; null = neither applied
+  interpolationStats: InterpolationStats | null;
   // Step 4
-  detrendStrategy: 'skip' | 'local' | 'full';
-  eventThreshold: number;       // unit: meters
-  processingProgress: number;   // 0-100
+  detrendStrategy: DetrendStrategy;
+  eventThreshold: number;       // optional minimum rise in meters; 0 keeps every P75 peak
+  processingProgress: number;   // 0-100, streamed from the pipeline worker (steps 3 and 4)
+  processingLog: string[];      // log lines streamed from the pipeline worker
   detrendedData: DetrendedRecord[];
+  exportTimeFormat: TimestampFormat;
+  // Step 5
+  extractedEvents: FloodEvent[];
+  extractStats: ExtractStats | null;
 }
@@ -0,0 +1,57 @@
+/**
+ * Upload per-year cleaning statistics to POST /api/stations/[stationId]/quality
+ *
+ * Computed from the cleaned series of the selected range, so years the
+ * range only partly covers are measured against the covered hours, at the
+ * series' own resolution.
+ */
+
+import type { StationQualityUploadResponse, StationQualityUploadRow } from '@/types';
+
+import { detectResolutionMinutes } from '../cleaner/resolution';
+import { computeYearlyCleanStats } from '../cleaner/yearlyStats';
+import type { HydroRecord } from '../types';
+import { formatDateTime } from '../utils/formatDate';
+
+export function toQualityRows(
+  records: HydroRecord[],
+  range: { start: Date; end: Date },
+): StationQualityUploadRow[] {
+  const resolutionMinutes = detectResolutionMinutes(records);
+  return computeYearlyCleanStats(records, range, resolutionMinutes).map((stats) => ({
+    year: stats.year,
+    expected_rows: stats.expectedRows,
+    total_rows: stats.totalRows,
+    valid_rows: stats.validRows,
+    tentative_count: stats.tentativeCount,
+    missing_count: stats.missingCount,
+    closed_count: stats.closedCount,
+    unregistered_count: stats.unregisteredCount,
+    valid_rate: stats.validRate,
+    longest_gap_hours: stats.longestGapHours,
+    longest_gap_start: stats.longestGapStart ? formatDateTime(stats.longestGapStart) : null,
+  }));
+}
+
+export async function uploadStationQuality(options: {
+  stationId: string;
+  records: HydroRecord[];
+  range: { start: Date; end: Date };
+  secret: string;
+}): Promise<StationQualityUploadResponse> {
+  const { stationId, records, range, secret } = options;
+  const res = await fetch(`/api/stations/${encodeURIComponent(stationId)}/quality`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${secret}`,
+    },
+    body: JSON.stringify({ years: toQualityRows(records, range) }),
+  });
+
+  if (!res.ok) {
+    const data = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as StationQualityUploadResponse;
+}
@@ -0,0 +1,57 @@
+/**
+ * Upload extracted events to POST /api/stations/[stationId]/records
+ *
+ * The selected range is sent along so a re-upload replaces exactly the
+ * events of that period, including ones that no longer get extracted.
+ */
+
+import type { StationRecordsUploadResponse, StationRecordUploadRow } from '@/types';
+
+import type { FloodEvent } from '../types';
+import { formatDateTime, formatTimestamp } from '../utils/formatDate';
+
+export function toUploadRows(events: FloodEvent[]): StationRecordUploadRow[] {
+  return events.map((event) => ({
+    start_time: formatDateTime(event.start_time),
+    peak_time: formatDateTime(event.peak_time),
+    end_time: formatDateTime(event.end_time),
+    start_value: event.start_value,
+    peak_value: event.peak_value,
+    end_value: event.end_value,
+    rise_time: event.rise_time,
+    fall_time: event.fall_time,
+  }));
+}
+
+export async function uploadStationRecords(options: {
+  stationId: string;
+  events: FloodEvent[];
+  range: { start: Date; end: Date };
+  secret: string;
+  dryRun: boolean;
+}): Promise<StationRecordsUploadResponse> {
+  const { stationId, events, range, secret, dryRun } = options;
+  const res = await fetch(
+    `/api/stations/${encodeURIComponent(stationId)}/records?dryRun=${dryRun ? '1' : '0'}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${secret}`,
+      },
+      body: JSON.stringify({
+        range: {
+          start: formatTimestamp(range.start).slice(0, 10),
+          end: formatTimestamp(range.end).slice(0, 10),
+        },
+        records: toUploadRows(events),
+      }),
+    },
+  );
+
+  if (!res.ok) {
+    const data = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as StationRecordsUploadResponse;
+}
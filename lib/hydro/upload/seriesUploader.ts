@@ -0,0 +1,78 @@
+/**
+ * Upload the cleaned series to POST /api/stations/[stationId]/series
+ *
+ * Missing hours are sent with a null level and their quality flag so the
+ * stored series keeps the same gaps the extractor saw.
+ *
+ * Long series go out in chunks: the first request replaces the whole range,
+ * the rest only upsert their own rows, so a failed upload can simply be rerun.
+ */
+
+import type { StationSeriesUploadResponse, StationSeriesUploadRow } from '@/types';
+
+import type { HydroRecord } from '../types';
+import { formatDateTime, formatTimestamp } from '../utils/formatDate';
+
+/** Stays under the route's per-request row limit (~1.5 MB of JSON per request) */
+export const SERIES_UPLOAD_CHUNK = 20_000;
+
+export function toSeriesRows(records: HydroRecord[]): StationSeriesUploadRow[] {
+  return records.map((record) => ({
+    observed_at: formatDateTime(record.dateTime),
+    water_level: record.waterLevel,
+    quality_flag: record.qualityFlag,
+  }));
+}
+
+async function postSeriesChunk(
+  stationId: string,
+  secret: string,
+  body: { range: { start: string; end: string }; rows: StationSeriesUploadRow[]; replace: boolean },
+): Promise<StationSeriesUploadResponse> {
+  const res = await fetch(`/api/stations/${encodeURIComponent(stationId)}/series`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${secret}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const data = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Request failed with status ${res.status}`);
+  }
+  return (await res.json()) as StationSeriesUploadResponse;
+}
+
+export async function uploadStationSeries(options: {
+  stationId: string;
+  records: HydroRecord[];
+  range: { start: Date; end: Date };
+  secret: string;
+  onProgress?: (percent: number) => void;
+}): Promise<StationSeriesUploadResponse> {
+  const { stationId, records, range, secret, onProgress } = options;
+  const rows = toSeriesRows(records);
+  const uploadRange = {
+    start: formatTimestamp(range.start).slice(0, 10),
+    end: formatTimestamp(range.end).slice(0, 10),
+  };
+
+  if (rows.length === 0) throw new Error('No readings to upload.');
+
+  let deleted = 0;
+  let inserted = 0;
+  let last: StationSeriesUploadResponse | null = null;
+  for (let i = 0; i < rows.length; i += SERIES_UPLOAD_CHUNK) {
+    last = await postSeriesChunk(stationId, secret, {
+      range: uploadRange,
+      rows: rows.slice(i, i + SERIES_UPLOAD_CHUNK),
+      replace: i === 0,
+    });
+    deleted += last.deleted;
+    inserted += last.inserted;
+    onProgress?.(Math.min(100, Math.round(((i + SERIES_UPLOAD_CHUNK) / rows.length) * 100)));
+  }
+  return { ...last!, deleted, inserted };
+}
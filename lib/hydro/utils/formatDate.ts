@@ -1,26 +1,41 @@
-/** Shared date formatting utilities for the hydro module */
+/** Shared date formatting utilities for the hydro module (all wall-clock fields are JST) */
+
+import type { TimestampFormat } from '../types';
+import { jstParts } from './jst';
+
+const pad = (value: number) => String(value).padStart(2, '0');
 
 /** "YYYY/MM" */
 export function formatYearMonth(d: Date): string {
-  return `${d.getFullYear()}/${String(d.getMonth() + 1).padStart(2, '0')}`;
+  const { year, month } = jstParts(d);
+  return `${year}/${pad(month)}`;
 }
 
 /** "YYYY-MM-DD HH:MM" */
 export function formatTimestamp(d: Date): string {
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, '0');
-  const dd = String(d.getDate()).padStart(2, '0');
-  const hh = String(d.getHours()).padStart(2, '0');
-  const mi = String(d.getMinutes()).padStart(2, '0');
-  return `${yyyy}-${mm}-${dd} ${hh}:${mi}`;
+  const { year, month, day, hour, minute } = jstParts(d);
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`;
 }
 
 /** "YYYY-MM-DD HH:MM:SS" */
 export function formatDateTime(d: Date): string {
-  return `${formatTimestamp(d)}:${String(d.getSeconds()).padStart(2, '0')}`;
+  return `${formatTimestamp(d)}:${pad(jstParts(d).second)}`;
 }
 
 /** "YYYYMM" (for filenames) */
 export function formatYYYYMM(d: Date): string {
-  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}`;
+  const { year, month } = jstParts(d);
+  return `${year}${pad(month)}`;
+}
+
+/**
+ * Timestamp column of the CSV exports:
+ *   jst — "1998-01-01 01:00"
+ *   utc — "1997-12-31T16:00:00Z"
+ *   iso — "1998-01-01T01:00:00+09:00"
+ */
+export function formatExportTimestamp(d: Date, format: TimestampFormat): string {
+  if (format === 'utc') return `${d.toISOString().slice(0, 19)}Z`;
+  if (format === 'iso') return `${formatDateTime(d).replace(' ', 'T')}+09:00`;
+  return formatTimestamp(d);
 }
@@ -0,0 +1,43 @@
+/**
+ * Japan Standard Time calendar helpers
+ *
+ * Hydro observations are stamped in JST (UTC+9, no daylight saving). Dates in
+ * the pipeline are real instants; building and reading them through these
+ * helpers keeps the calendar fields independent of the machine's timezone.
+ */
+
+export const JST_OFFSET_MINUTES = 9 * 60;
+export const JST_OFFSET_MS = JST_OFFSET_MINUTES * 60 * 1000;
+
+export interface JstParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Out-of-range fields roll over like Date.UTC, so 24:00 becomes 00:00 of the next day */
+export function jstDate(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+): Date {
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second) - JST_OFFSET_MS);
+}
+
+export function jstParts(date: Date): JstParts {
+  const shifted = new Date(date.getTime() + JST_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds(),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Pipeline worker entry
+ *
+ * Runs parsing + cleaning and detrending off the main thread so the wizard
+ * stays responsive on multi-decade hourly records. Each request gets its own
+ * worker; cancelling a run terminates it.
+ */
+
+import { cleanFiles } from '../cleaner/cleanPipeline';
+import { applyDetrend } from '../detrend/rollingMedian';
+import type { PipelineMessage, PipelineRequest } from './protocol';
+
+function post(message: PipelineMessage) {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'clean') {
+      const result = await cleanFiles(
+        request.files,
+        request.selectedRange,
+        request.format,
+        (percent) => post({ type: 'progress', stage: 'clean', percent }),
+        (line) => post({ type: 'log', stage: 'clean', line }),
+      );
+      post({ type: 'clean-done', result });
+      return;
+    }
+
+    post({ type: 'log', stage: 'detrend', line: `Detrend: ${request.strategy}` });
+    const result = applyDetrend(request.records, request.strategy, (percent) =>
+      post({ type: 'progress', stage: 'detrend', percent }),
+    );
+    post({
+      type: 'log',
+      stage: 'detrend',
+      line: `Detrend done: ${result.records.length} records, window ${result.windowSize}`,
+    });
+    post({ type: 'detrend-done', result });
+  } catch (e) {
+    post({ type: 'error', stage: request.type, message: String(e) });
+  }
+});
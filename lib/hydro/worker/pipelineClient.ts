@@ -0,0 +1,124 @@
+/**
+ * Main-thread side of the pipeline worker.
+ * Spawns one worker per run, forwards progress/log messages, and
+ * terminates the worker when the caller aborts.
+ */
+
+import type { CleanResult } from '../cleaner/cleanPipeline';
+import type { DetrendResult } from '../detrend/rollingMedian';
+import type { DetrendStrategy, HydroRecord, RawFormatChoice } from '../types';
+import type { PipelineMessage, PipelineRequest } from './protocol';
+
+export interface PipelineRunOptions {
+  onProgress?: (percent: number) => void;
+  /** Receives log lines in batches (at most every LOG_FLUSH_MS) to keep re-renders cheap */
+  onLog?: (lines: string[]) => void;
+  signal?: AbortSignal;
+}
+
+const LOG_FLUSH_MS = 100;
+
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+function runInWorker<T>(
+  request: PipelineRequest,
+  doneType: 'clean-done' | 'detrend-done',
+  options: PipelineRunOptions,
+): Promise<T> {
+  const { onProgress, onLog, signal } = options;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new PipelineCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    let pendingLines: string[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flushLog = () => {
+      if (flushTimer !== null) clearTimeout(flushTimer);
+      flushTimer = null;
+      if (pendingLines.length === 0) return;
+      const lines = pendingLines;
+      pendingLines = [];
+      onLog?.(lines);
+    };
+
+    const finish = () => {
+      worker.terminate();
+      flushLog();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    function handleAbort() {
+      finish();
+      reject(new PipelineCancelledError());
+    }
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.addEventListener('message', (event: MessageEvent<PipelineMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.percent);
+          break;
+        case 'log':
+          pendingLines.push(message.line);
+          flushTimer ??= setTimeout(flushLog, LOG_FLUSH_MS);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+        default:
+          if (message.type === doneType) {
+            finish();
+            resolve(message.result as T);
+          }
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'Pipeline worker crashed'));
+    });
+
+    worker.postMessage(request);
+  });
+}
+
+export function cleanFilesInWorker(
+  files: File[],
+  selectedRange: { start: Date; end: Date },
+  format: RawFormatChoice,
+  options: PipelineRunOptions = {},
+): Promise<CleanResult> {
+  return runInWorker<CleanResult>(
+    { type: 'clean', files, selectedRange, format },
+    'clean-done',
+    options,
+  );
+}
+
+export function detrendInWorker(
+  records: HydroRecord[],
+  strategy: DetrendStrategy,
+  options: PipelineRunOptions = {},
+): Promise<DetrendResult> {
+  return runInWorker<DetrendResult>(
+    { type: 'detrend', records, strategy },
+    'detrend-done',
+    options,
+  );
+}
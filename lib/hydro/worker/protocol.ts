@@ -0,0 +1,26 @@
+/**
+ * Messages exchanged between the wizard and the pipeline worker.
+ * Everything here must survive structured cloning (File and Date do).
+ */
+
+import type { CleanResult } from '../cleaner/cleanPipeline';
+import type { DetrendResult } from '../detrend/rollingMedian';
+import type { DetrendStrategy, HydroRecord, RawFormatChoice } from '../types';
+
+export type PipelineStage = 'clean' | 'detrend';
+
+export type PipelineRequest =
+  | {
+      type: 'clean';
+      files: File[];
+      selectedRange: { start: Date; end: Date };
+      format: RawFormatChoice;
+    }
+  | { type: 'detrend'; records: HydroRecord[]; strategy: DetrendStrategy };
+
+export type PipelineMessage =
+  | { type: 'progress'; stage: PipelineStage; percent: number }
+  | { type: 'log'; stage: PipelineStage; line: string }
+  | { type: 'clean-done'; result: CleanResult }
+  | { type: 'detrend-done'; result: DetrendResult }
+  | { type: 'error'; stage: PipelineStage; message: string };
@@ -0,0 +1,81 @@
+import { getTableColumns } from 'drizzle-orm';
+
+import type { StationQualityUploadRow } from '../types';
+import { parseTimestamp } from './recordValidation';
+import { stationQuality } from './schema';
+
+type QualityParseResult =
+  | { ok: true; rows: StationQualityUploadRow[] }
+  | { ok: false; error: string };
+
+// station_id comes from the route and updated_at is stamped by the database.
+const SERVER_COLUMNS = new Set(['station_id', 'updated_at']);
+
+// 作用：按 stationQuality 的列定义校验 prep 向导上传的逐年清洗统计。
+// 输入：请求体里的 years（unknown）。
+// 输出：成功时返回规范化后的行；失败时返回第一处错误。
+// 为什么这样写：与 parseRecordBatch 相同，列名、类型、非空约束取自 schema；整数列额外要求整数，同一年份只能出现一次。
+export function parseQualityBatch(input: unknown): QualityParseResult {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, error: 'years must be a non-empty array.' };
+  }
+
+  const columns = Object.entries(getTableColumns(stationQuality)).filter(
+    ([key]) => !SERVER_COLUMNS.has(key),
+  );
+  const allowedKeys = new Set(columns.map(([key]) => key));
+  const rows: StationQualityUploadRow[] = [];
+  const seenYears = new Set<number>();
+
+  for (let i = 0; i < input.length; i++) {
+    const row = input[i];
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      return { ok: false, error: `years[${i}] must be an object.` };
+    }
+
+    const unknownKey = Object.keys(row).find((key) => !allowedKeys.has(key));
+    if (unknownKey) {
+      return { ok: false, error: `years[${i}].${unknownKey} is not a station_quality column.` };
+    }
+
+    const parsed: Record<string, string | number | null> = {};
+    for (const [key, column] of columns) {
+      const value = (row as Record<string, unknown>)[key] ?? null;
+
+      if (value === null) {
+        if (column.notNull) {
+          return { ok: false, error: `years[${i}].${key} is required.` };
+        }
+        parsed[key] = null;
+        continue;
+      }
+
+      if (column.dataType === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          return { ok: false, error: `years[${i}].${key} must be a non-negative number.` };
+        }
+        if (column.columnType === 'PgInteger' && !Number.isInteger(value)) {
+          return { ok: false, error: `years[${i}].${key} must be an integer.` };
+        }
+        parsed[key] = value;
+      } else if (column.columnType === 'PgTimestampString') {
+        const timestamp = parseTimestamp(value);
+        if (!timestamp) {
+          return { ok: false, error: `years[${i}].${key} must be "YYYY-MM-DD HH:MM:SS".` };
+        }
+        parsed[key] = timestamp;
+      } else {
+        return { ok: false, error: `years[${i}].${key} has an unsupported type.` };
+      }
+    }
+
+    const year = parsed.year as number;
+    if (seenYears.has(year)) {
+      return { ok: false, error: `Duplicate year in batch: ${year}.` };
+    }
+    seenYears.add(year);
+    rows.push(parsed as StationQualityUploadRow);
+  }
+
+  return { ok: true, rows };
+}
@@ -0,0 +1,41 @@
+import { and, asc, eq, isNotNull } from 'drizzle-orm';
+
+import { db } from '../db';
+import { stationRecords, stations } from '../schema';
+import { dateRange } from './events';
+
+export interface EpisodeFilter {
+  basinName: string;
+  startTs?: string | null;
+  endTs?: string | null;
+  /** Rows scanned at most; the caller reads one extra to detect truncation */
+  limit: number;
+}
+
+// 作用：取一个流域内所有测站的事件峰现时间，按时间升序，供 clusterEpisodes 聚类。
+// 输入：流域名、可选的 peak_time 起止时间和读取行数上限。
+// 输出：[{ id, station_id, station_name, peak_time, peak_value }]，peak_time 一定非空。
+// 为什么这样写：聚类是顺序扫描，只需要这几列；排序交给 idx_records_peak_time，Node 端不再排序。
+export async function queryBasinEpisodeEvents(filter: EpisodeFilter) {
+  const rows = await db
+    .select({
+      id: stationRecords.id,
+      station_id: stationRecords.station_id,
+      station_name: stations.station_name,
+      peak_time: stationRecords.peak_time,
+      peak_value: stationRecords.peak_value,
+    })
+    .from(stationRecords)
+    .innerJoin(stations, eq(stationRecords.station_id, stations.station_id))
+    .where(
+      and(
+        eq(stations.basin_name, filter.basinName),
+        isNotNull(stationRecords.peak_time),
+        ...dateRange(filter),
+      ),
+    )
+    .orderBy(asc(stationRecords.peak_time), asc(stationRecords.id))
+    .limit(filter.limit + 1);
+
+  return rows.map((row) => ({ ...row, peak_time: row.peak_time as string }));
+}
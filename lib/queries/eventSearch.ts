@@ -0,0 +1,130 @@
+import { and, asc, type Column, desc, eq, gte, inArray, lte, type SQL, sql } from 'drizzle-orm';
+
+import { db } from '../db';
+import { stationRecords, stations } from '../schema';
+import { dateRange, encodeEventCursor, type EventCursor, keysetAfter } from './events';
+
+export const EVENT_SORT_COLUMNS = {
+  id: stationRecords.id,
+  station_id: stationRecords.station_id,
+  start_time: stationRecords.start_time,
+  peak_time: stationRecords.peak_time,
+  end_time: stationRecords.end_time,
+  start_value: stationRecords.start_value,
+  peak_value: stationRecords.peak_value,
+  end_value: stationRecords.end_value,
+  rise_time: stationRecords.rise_time,
+  fall_time: stationRecords.fall_time,
+} as const;
+
+export type EventSortColumn = keyof typeof EVENT_SORT_COLUMNS;
+
+export interface NumberRange {
+  min?: number | null;
+  max?: number | null;
+}
+
+export interface EventSearchFilter {
+  startTs?: string | null;
+  endTs?: string | null;
+  peakValue?: NumberRange;
+  riseTime?: NumberRange;
+  fallTime?: NumberRange;
+  /** 1–12; matched against the month of peak_time */
+  months?: number[];
+  bbox?: { minLon: number; minLat: number; maxLon: number; maxLat: number } | null;
+  basins?: string[];
+  stationIds?: string[];
+  sort: EventSortColumn;
+  order: 'asc' | 'desc';
+  cursor?: EventCursor | null;
+  limit: number;
+}
+
+function numberRange(column: Column, range?: NumberRange) {
+  const clauses: SQL[] = [];
+  if (range?.min !== null && range?.min !== undefined) clauses.push(gte(column, range.min));
+  if (range?.max !== null && range?.max !== undefined) clauses.push(lte(column, range.max));
+  return clauses;
+}
+
+function searchWhere(filter: EventSearchFilter) {
+  const clauses: (SQL | undefined)[] = [
+    ...dateRange(filter),
+    ...numberRange(stationRecords.peak_value, filter.peakValue),
+    ...numberRange(stationRecords.rise_time, filter.riseTime),
+    ...numberRange(stationRecords.fall_time, filter.fallTime),
+  ];
+
+  if (filter.months && filter.months.length > 0) {
+    clauses.push(
+      inArray(sql<number>`extract(month from ${stationRecords.peak_time})::int`, filter.months),
+    );
+  }
+  if (filter.bbox) {
+    clauses.push(
+      gte(stations.longitude, filter.bbox.minLon),
+      lte(stations.longitude, filter.bbox.maxLon),
+      gte(stations.latitude, filter.bbox.minLat),
+      lte(stations.latitude, filter.bbox.maxLat),
+    );
+  }
+  if (filter.basins && filter.basins.length > 0) {
+    clauses.push(inArray(stations.basin_name, filter.basins));
+  }
+  if (filter.stationIds && filter.stationIds.length > 0) {
+    clauses.push(inArray(stationRecords.station_id, filter.stationIds));
+  }
+  if (filter.cursor) {
+    clauses.push(keysetAfter(EVENT_SORT_COLUMNS[filter.sort], filter.cursor, filter.order));
+  }
+
+  return and(...clauses);
+}
+
+// 作用：全国范围的事件检索，支持峰值/涨落时间区间、月份、经纬度框、流域/测站列表等组合过滤。
+// 输入：EventSearchFilter（由 /api/events 路由从查询参数解析而来）。
+// 输出：{ items, nextCursor }；nextCursor 为 null 表示没有下一页。
+// 为什么这样写：用 (排序列, id) 做 keyset 分页而不是 offset，深翻页时仍能走 station_records 上的索引；
+//   多取一行用来判断是否还有下一页，避免额外的 count 查询。
+export async function searchEvents(filter: EventSearchFilter) {
+  const column = EVENT_SORT_COLUMNS[filter.sort];
+  const direction = filter.order === 'asc' ? asc : desc;
+
+  const rows = await db
+    .select({
+      id: stationRecords.id,
+      station_id: stationRecords.station_id,
+      station_name: stations.station_name,
+      basin_name: stations.basin_name,
+      latitude: stations.latitude,
+      longitude: stations.longitude,
+      start_time: stationRecords.start_time,
+      peak_time: stationRecords.peak_time,
+      end_time: stationRecords.end_time,
+      start_value: stationRecords.start_value,
+      peak_value: stationRecords.peak_value,
+      end_value: stationRecords.end_value,
+      rise_time: stationRecords.rise_time,
+      fall_time: stationRecords.fall_time,
+    })
+    .from(stationRecords)
+    .innerJoin(stations, eq(stationRecords.station_id, stations.station_id))
+    .where(searchWhere(filter))
+    .orderBy(sql`${direction(column)} nulls last`, direction(stationRecords.id))
+    .limit(filter.limit + 1);
+
+  const items = rows.slice(0, filter.limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    rows.length > filter.limit && last
+      ? encodeEventCursor({
+          value: last[filter.sort],
+          id: last.id,
+          sort: filter.sort,
+          order: filter.order,
+        })
+      : null;
+
+  return { items, nextCursor };
+}
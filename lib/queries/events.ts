@@ -1,13 +1,39 @@
-import { and, asc, desc, eq, gte, lte, type SQL, sql } from 'drizzle-orm';
+import {
+  and,
+  asc,
+  type Column,
+  desc,
+  eq,
+  gt,
+  gte,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  type SQL,
+  sql,
+} from 'drizzle-orm';
 
 import { db } from '../db';
+import { parseTimestamp } from '../recordValidation';
 import { stationRecords, stations } from '../schema';
 
+/** sort / order are only set by /api/events, whose cursors belong to one ordering */
+export type EventCursor = {
+  value: string | number | null;
+  id: number;
+  sort?: string;
+  order?: 'asc' | 'desc';
+};
+
 export interface EventFilter {
   basinName: string;
   startTs?: string | null;
   endTs?: string | null;
   limit?: number;
+  /** Resume matched events after this (peak_time, id) */
+  cursor?: EventCursor | null;
 }
 
 export interface StationEventFilter {
@@ -15,15 +41,93 @@ export interface StationEventFilter {
   startTs?: string | null;
   endTs?: string | null;
   limit?: number;
+  cursor?: EventCursor | null;
+}
+
+/** Opaque page token: base64url of [sortValue, id] or [sortValue, id, sort, order] */
+export function encodeEventCursor(cursor: EventCursor): string {
+  const parts: unknown[] = [cursor.value, cursor.id];
+  if (cursor.sort && cursor.order) parts.push(cursor.sort, cursor.order);
+  return Buffer.from(JSON.stringify(parts)).toString('base64url');
+}
+
+export function decodeEventCursor(token: string): EventCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || (parsed.length !== 2 && parsed.length !== 4)) return null;
+    const [value, id, sort, order] = parsed;
+    if (!Number.isInteger(id)) return null;
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number') return null;
+    if (parsed.length === 2) return { value, id };
+    if (typeof sort !== 'string' || (order !== 'asc' && order !== 'desc')) return null;
+    return { value, id, sort, order };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The station and basin routes page by peak_time only, so their cursors must carry no sort of
+ * their own and a peak_time value (or null). /api/events cursors for other sorts fail this.
+ */
+export function isPeakTimeCursor(cursor: EventCursor): boolean {
+  if (cursor.sort !== undefined) return false;
+  return (
+    cursor.value === null ||
+    (typeof cursor.value === 'string' && parseTimestamp(cursor.value) !== null)
+  );
+}
+
+// Keyset condition for ORDER BY <column> <order> NULLS LAST, id <order>.
+// Rows with a NULL sort value come after every non-NULL row, so a cursor sitting on a NULL
+// can only advance through the remaining NULLs by id.
+export function keysetAfter(column: Column, cursor: EventCursor, order: 'asc' | 'desc') {
+  const beyond = order === 'asc' ? gt : lt;
+
+  if (cursor.value === null) {
+    return and(isNull(column), beyond(stationRecords.id, cursor.id))!;
+  }
+  return or(
+    beyond(column, cursor.value),
+    and(eq(column, cursor.value), beyond(stationRecords.id, cursor.id)),
+    isNull(column),
+  )!;
+}
+
+/** Rows are fetched one past the page size; returns the page plus the cursor of its last row */
+function toPage<T extends { id: number; peak_time: string | null }>(rows: T[], limit: number) {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    rows.length > limit && last ? encodeEventCursor({ value: last.peak_time, id: last.id }) : null;
+  return { items, nextCursor };
 }
 
-function dateRange(filter: { startTs?: string | null; endTs?: string | null }) {
+const MATCHED_EVENTS_ORDER = [
+  sql`${stationRecords.peak_time} asc nulls last`,
+  asc(stationRecords.id),
+];
+
+export function dateRange(filter: { startTs?: string | null; endTs?: string | null }) {
   const clauses: SQL[] = [];
   if (filter.startTs) clauses.push(gte(stationRecords.peak_time, filter.startTs));
   if (filter.endTs) clauses.push(lte(stationRecords.peak_time, filter.endTs));
   return clauses;
 }
 
+const yearExpr = sql<number>`extract(year from ${stationRecords.peak_time})::int`;
+
+// Per-year aggregates shared by the station and basin versions; the annual-max date is the
+// peak_time of the highest peak in that year (earliest one on ties).
+const yearlyStatsFields = {
+  year: yearExpr,
+  eventCount: sql<number>`count(${stationRecords.id})::int`,
+  maxPeakValue: sql<number | null>`max(${stationRecords.peak_value})`,
+  maxPeakTime: sql<string | null>`(array_agg(${stationRecords.peak_time} order by ${stationRecords.peak_value} desc nulls last, ${stationRecords.peak_time} asc))[1]`,
+  avgRiseTime: sql<number | null>`avg(${stationRecords.rise_time})`,
+  avgFallTime: sql<number | null>`avg(${stationRecords.fall_time})`,
+};
+
 function basinJoinWhere(filter: EventFilter) {
   return and(eq(stations.basin_name, filter.basinName), ...dateRange(filter));
 }
@@ -32,13 +136,17 @@ function stationWhere(filter: StationEventFilter) {
   return and(eq(stationRecords.station_id, filter.stationId), ...dateRange(filter));
 }
 
+function pagedWhere(where: SQL | undefined, cursor?: EventCursor | null) {
+  return cursor ? and(where, keysetAfter(stationRecords.peak_time, cursor, 'asc')) : where;
+}
+
 //SECTION basin queries
 // 查询函数,输入basinName,然后basinName 和stations.basin_name进行匹配到station_ids,
 // 再和stationRecords 中的station_id进行匹配,查询,返回处于此basin中的所有events的统计信息
 export async function queryBasinSummary(basinName: string) {
   const [row] = await db
     .select({
-      totalEvents: sql<number>`count(${stationRecords.id})`,
+      totalEvents: sql<number>`count(${stationRecords.id})::int`,
       firstStartTime: sql<string | null>`min(${stationRecords.start_time})`,
       lastEndTime: sql<string | null>`max(${stationRecords.end_time})`,
       minPeakTime: sql<string | null>`min(${stationRecords.peak_time})`,
@@ -54,7 +162,7 @@ export async function queryBasinSummary(basinName: string) {
 export async function queryFilteredSummary(filter: EventFilter) {
   const [row] = await db
     .select({
-      matchedEvents: sql<number>`count(${stationRecords.id})`,
+      matchedEvents: sql<number>`count(${stationRecords.id})::int`,
       maxPeakValue: sql<number | null>`max(${stationRecords.peak_value})`,
       avgPeakValue: sql<number | null>`avg(${stationRecords.peak_value})`,
       avgRiseTime: sql<number | null>`avg(${stationRecords.rise_time})`,
@@ -70,7 +178,10 @@ export async function queryMatchedSeries(filter: EventFilter) {
   return db
     .select({
       id: stationRecords.id,
+      station_id: stationRecords.station_id,
+      start_time: stationRecords.start_time,
       peak_time: stationRecords.peak_time,
+      end_time: stationRecords.end_time,
       peak_value: stationRecords.peak_value,
     })
     .from(stationRecords)
@@ -80,8 +191,13 @@ export async function queryMatchedSeries(filter: EventFilter) {
     .limit(filter.limit ?? 2000);
 }
 
+// 作用：分页返回流域内匹配的完整事件行，按 (peak_time, id) 升序。
+// 输入：EventFilter；limit 为页大小，cursor 为上一页返回的 nextCursor。
+// 输出：{ items, nextCursor }；nextCursor 为 null 表示已经是最后一页。
+// 为什么这样写：原先直接按 limit 截断，大流域导出会静默丢数据；keyset 分页让调用方可以逐页取完。
 export async function queryMatchedEvents(filter: EventFilter) {
-  return db
+  const limit = filter.limit ?? 2000;
+  const rows = await db
     .select({
       id: stationRecords.id,
       station_id: stationRecords.station_id,
@@ -97,15 +213,56 @@ export async function queryMatchedEvents(filter: EventFilter) {
     })
     .from(stationRecords)
     .innerJoin(stations, eq(stationRecords.station_id, stations.station_id))
-    .where(basinJoinWhere(filter))
-    .orderBy(asc(stationRecords.peak_time))
-    .limit(filter.limit ?? 2000);
+    .where(pagedWhere(basinJoinWhere(filter), filter.cursor))
+    .orderBy(...MATCHED_EVENTS_ORDER)
+    .limit(limit + 1);
+  return toPage(rows, limit);
+}
+
+// 作用：按年份聚合流域内全部事件：事件数、年最大峰值及其发生时间、平均涨/落时间。
+// 输入：EventFilter（basinName + 可选 peak_time 范围；limit 不参与）。
+// 输出：[{ year, eventCount, maxPeakValue, maxPeakTime, avgRiseTime, avgFallTime }]，按年份升序。
+// 为什么这样写：聚合在 SQL 中完成，覆盖完整记录，不受 matchedSeries 2000/5000 行上限截断的影响。
+export async function queryYearlyStats(filter: EventFilter) {
+  return db
+    .select(yearlyStatsFields)
+    .from(stationRecords)
+    .innerJoin(stations, eq(stationRecords.station_id, stations.station_id))
+    .where(and(basinJoinWhere(filter), isNotNull(stationRecords.peak_time)))
+    .groupBy(yearExpr)
+    .orderBy(asc(yearExpr));
+}
+
+// 作用：流域内逐站汇总：事件数、最大峰值、平均涨/落时间、首末峰值时间，用于找出拉高流域统计的测站。
+// 输入：EventFilter（basinName + 可选 peak_time 范围）。
+// 输出：流域内每个测站一行，含无事件的测站（eventCount 为 0），按事件数降序。
+// 为什么这样写：以 stations 为左表 left join，日期条件放在 join 上，这样范围内没有事件的测站也会列出，而不是被 where 过滤掉。
+export async function queryBasinStationBreakdown(filter: EventFilter) {
+  return db
+    .select({
+      station_id: stations.station_id,
+      station_name: stations.station_name,
+      eventCount: sql<number>`count(${stationRecords.id})::int`,
+      maxPeakValue: sql<number | null>`max(${stationRecords.peak_value})`,
+      avgRiseTime: sql<number | null>`avg(${stationRecords.rise_time})`,
+      avgFallTime: sql<number | null>`avg(${stationRecords.fall_time})`,
+      firstPeakTime: sql<string | null>`min(${stationRecords.peak_time})`,
+      lastPeakTime: sql<string | null>`max(${stationRecords.peak_time})`,
+    })
+    .from(stations)
+    .leftJoin(
+      stationRecords,
+      and(eq(stationRecords.station_id, stations.station_id), ...dateRange(filter)),
+    )
+    .where(eq(stations.basin_name, filter.basinName))
+    .groupBy(stations.station_id, stations.station_name)
+    .orderBy(desc(sql`count(${stationRecords.id})`), asc(stations.station_id));
 }
 
 export async function queryStationSummary(stationId: string) {
   const [row] = await db
     .select({
-      totalEvents: sql<number>`count(${stationRecords.id})`,
+      totalEvents: sql<number>`count(${stationRecords.id})::int`,
       firstStartTime: sql<string | null>`min(${stationRecords.start_time})`,
       lastEndTime: sql<string | null>`max(${stationRecords.end_time})`,
       minPeakTime: sql<string | null>`min(${stationRecords.peak_time})`,
@@ -122,7 +279,7 @@ export async function queryStationSummary(stationId: string) {
 export async function queryStationFilteredSummary(filter: StationEventFilter) {
   const [row] = await db
     .select({
-      matchedEvents: sql<number>`count(${stationRecords.id})`,
+      matchedEvents: sql<number>`count(${stationRecords.id})::int`,
       maxPeakValue: sql<number | null>`max(${stationRecords.peak_value})`,
       avgPeakValue: sql<number | null>`avg(${stationRecords.peak_value})`,
       avgRiseTime: sql<number | null>`avg(${stationRecords.rise_time})`,
@@ -137,7 +294,10 @@ export async function queryStationMatchedSeries(filter: StationEventFilter) {
   return db
     .select({
       id: stationRecords.id,
+      station_id: stationRecords.station_id,
+      start_time: stationRecords.start_time,
       peak_time: stationRecords.peak_time,
+      end_time: stationRecords.end_time,
       peak_value: stationRecords.peak_value,
     })
     .from(stationRecords)
@@ -165,8 +325,10 @@ export async function queryStationRecentEvents(stationId: string, limit: number)
     .limit(limit);
 }
 
+// 作用：测站版本的分页事件查询，分页方式与 queryMatchedEvents 相同。
 export async function queryStationMatchedEvents(filter: StationEventFilter) {
-  return db
+  const limit = filter.limit ?? 2000;
+  const rows = await db
     .select({
       id: stationRecords.id,
       station_id: stationRecords.station_id,
@@ -180,7 +342,18 @@ export async function queryStationMatchedEvents(filter: StationEventFilter) {
       fall_time: stationRecords.fall_time,
     })
     .from(stationRecords)
-    .where(stationWhere(filter))
-    .orderBy(asc(stationRecords.peak_time))
-    .limit(filter.limit ?? 2000);
+    .where(pagedWhere(stationWhere(filter), filter.cursor))
+    .orderBy(...MATCHED_EVENTS_ORDER)
+    .limit(limit + 1);
+  return toPage(rows, limit);
+}
+
+// 作用：测站版本的逐年统计，字段与 queryYearlyStats 相同。
+export async function queryStationYearlyStats(filter: StationEventFilter) {
+  return db
+    .select(yearlyStatsFields)
+    .from(stationRecords)
+    .where(and(stationWhere(filter), isNotNull(stationRecords.peak_time)))
+    .groupBy(yearExpr)
+    .orderBy(asc(yearExpr));
 }
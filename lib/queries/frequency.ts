@@ -0,0 +1,57 @@
+import { and, asc, eq, isNotNull, sql } from 'drizzle-orm';
+
+import { db } from '../db';
+import { stationRecords, stations } from '../schema';
+import { dateRange } from './events';
+
+export interface FrequencyFilter {
+  startTs?: string | null;
+  endTs?: string | null;
+}
+
+const yearExpr = sql<number>`extract(year from ${stationRecords.peak_time})::int`;
+
+// 作用：按年份取某测站 peak_value 的最大值，构成年最大值序列（AMS）。
+// 输入：stationId 与可选的 peak_time 起止时间。
+// 输出：[{ year, peak_value }]，按年份升序；没有事件的年份不会出现。
+// 为什么这样写：聚合放在数据库里做，只把几十行年最大值传回 Node，而不是整站的全部事件。
+export async function queryStationAnnualMaxima(stationId: string, filter: FrequencyFilter) {
+  return db
+    .select({
+      year: yearExpr,
+      peak_value: sql<number>`max(${stationRecords.peak_value})`,
+    })
+    .from(stationRecords)
+    .where(
+      and(
+        eq(stationRecords.station_id, stationId),
+        isNotNull(stationRecords.peak_value),
+        ...dateRange(filter),
+      ),
+    )
+    .groupBy(yearExpr)
+    .orderBy(asc(yearExpr));
+}
+
+// 作用：流域版本的年最大值序列，每年取流域内所有测站事件峰值的最大值。
+// 输入：basinName 与可选的 peak_time 起止时间。
+// 输出：同 queryStationAnnualMaxima。
+// 为什么这样写：流域没有单一水位基准，这里取“当年流域内出现过的最高峰值”，用于回答流域整体的极值水平。
+export async function queryBasinAnnualMaxima(basinName: string, filter: FrequencyFilter) {
+  return db
+    .select({
+      year: yearExpr,
+      peak_value: sql<number>`max(${stationRecords.peak_value})`,
+    })
+    .from(stationRecords)
+    .innerJoin(stations, eq(stationRecords.station_id, stations.station_id))
+    .where(
+      and(
+        eq(stations.basin_name, basinName),
+        isNotNull(stationRecords.peak_value),
+        ...dateRange(filter),
+      ),
+    )
+    .groupBy(yearExpr)
+    .orderBy(asc(yearExpr));
+}
@@ -0,0 +1,80 @@
+import { and, asc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+
+import type { StationQualityUploadRow } from '../../types';
+import { db } from '../db';
+import { stationQuality, stationRecords } from '../schema';
+
+// 作用：写入某测站的逐年清洗统计，同一年份已存在时整行覆盖。
+// 输入：测站 ID 和已校验的逐年统计。
+// 输出：写入的年份数。
+// 为什么这样写：统计以“站 + 年”为单位，重新清洗并上传同一年份时，最后一次上传就是这一年的现状。
+export async function upsertStationQuality(stationId: string, rows: StationQualityUploadRow[]) {
+  await db
+    .insert(stationQuality)
+    .values(rows.map((row) => ({ ...row, station_id: stationId })))
+    .onConflictDoUpdate({
+      target: [stationQuality.station_id, stationQuality.year],
+      set: {
+        expected_rows: sql`excluded.expected_rows`,
+        total_rows: sql`excluded.total_rows`,
+        valid_rows: sql`excluded.valid_rows`,
+        tentative_count: sql`excluded.tentative_count`,
+        missing_count: sql`excluded.missing_count`,
+        closed_count: sql`excluded.closed_count`,
+        unregistered_count: sql`excluded.unregistered_count`,
+        valid_rate: sql`excluded.valid_rate`,
+        longest_gap_hours: sql`excluded.longest_gap_hours`,
+        longest_gap_start: sql`excluded.longest_gap_start`,
+        updated_at: sql`now()`,
+      },
+    });
+  return rows.length;
+}
+
+const peakYearExpr = sql<number>`extract(year from ${stationRecords.peak_time})::int`;
+
+// 作用：读取测站的逐年清洗统计，并附上每年库中的事件数。
+// 输入：测站 ID。
+// 输出：按年份升序的统计行；没有上传过统计的年份不出现。
+// 为什么这样写：覆盖率和事件数放在一起，前端才能区分“这一年很平静”和“这一年数据缺失”。
+export async function queryStationQuality(stationId: string) {
+  const years = await db
+    .select({
+      year: stationQuality.year,
+      expected_rows: stationQuality.expected_rows,
+      total_rows: stationQuality.total_rows,
+      valid_rows: stationQuality.valid_rows,
+      tentative_count: stationQuality.tentative_count,
+      missing_count: stationQuality.missing_count,
+      closed_count: stationQuality.closed_count,
+      unregistered_count: stationQuality.unregistered_count,
+      valid_rate: stationQuality.valid_rate,
+      longest_gap_hours: stationQuality.longest_gap_hours,
+      longest_gap_start: stationQuality.longest_gap_start,
+      updated_at: stationQuality.updated_at,
+    })
+    .from(stationQuality)
+    .where(eq(stationQuality.station_id, stationId))
+    .orderBy(asc(stationQuality.year));
+  if (years.length === 0) {
+    return [];
+  }
+
+  const counts = await db
+    .select({ year: peakYearExpr, eventCount: sql<number>`count(*)::int` })
+    .from(stationRecords)
+    .where(
+      and(
+        eq(stationRecords.station_id, stationId),
+        isNotNull(stationRecords.peak_time),
+        inArray(
+          peakYearExpr,
+          years.map((row) => row.year),
+        ),
+      ),
+    )
+    .groupBy(peakYearExpr);
+  const countByYear = new Map(counts.map((row) => [row.year, row.eventCount]));
+
+  return years.map((row) => ({ ...row, eventCount: countByYear.get(row.year) ?? 0 }));
+}
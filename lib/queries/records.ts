@@ -0,0 +1,125 @@
+import { and, asc, eq, gte, lte } from 'drizzle-orm';
+
+import { db } from '../db';
+import type { RecordBatchRow } from '../recordValidation';
+import { stationRecords, stations } from '../schema';
+
+export interface RecordReplaceRange {
+  stationId: string;
+  startTs: string;
+  endTs: string;
+}
+
+// Postgres caps bind parameters at 65535; 9 columns per row keeps this well below it.
+const INSERT_CHUNK_SIZE = 1000;
+
+const COMPARED_COLUMNS = [
+  'start_time',
+  'end_time',
+  'start_value',
+  'peak_value',
+  'end_value',
+  'rise_time',
+  'fall_time',
+] as const;
+
+function rangeWhere(range: RecordReplaceRange) {
+  return and(
+    eq(stationRecords.station_id, range.stationId),
+    gte(stationRecords.peak_time, range.startTs),
+    lte(stationRecords.peak_time, range.endTs),
+  );
+}
+
+/** Smallest peak_time range that covers the whole batch */
+export function batchRange(stationId: string, records: RecordBatchRow[]): RecordReplaceRange {
+  const peakTimes = records.map((record) => record.peak_time).sort();
+  return { stationId, startTs: peakTimes[0], endTs: peakTimes[peakTimes.length - 1] };
+}
+
+export async function queryStationExists(stationId: string) {
+  const [row] = await db
+    .select({ station_id: stations.station_id })
+    .from(stations)
+    .where(eq(stations.station_id, stationId))
+    .limit(1);
+  return Boolean(row);
+}
+
+export async function queryRecordsInRange(range: RecordReplaceRange) {
+  return db
+    .select({
+      id: stationRecords.id,
+      start_time: stationRecords.start_time,
+      peak_time: stationRecords.peak_time,
+      end_time: stationRecords.end_time,
+      start_value: stationRecords.start_value,
+      peak_value: stationRecords.peak_value,
+      end_value: stationRecords.end_value,
+      rise_time: stationRecords.rise_time,
+      fall_time: stationRecords.fall_time,
+    })
+    .from(stationRecords)
+    .where(rangeWhere(range))
+    .orderBy(asc(stationRecords.peak_time));
+}
+
+// 作用：比较上传批次与库中同一站点、同一 peak_time 区间内的已有事件，供 dry-run 预览。
+// 输入：替换区间和已校验的批次。
+// 输出：added（库中没有的 peak_time）、removed（批次里没有的 peak_time）、changed（peak_time 相同但字段不同）以及 unchanged 计数。
+// 为什么这样写：事件在站内以 peak_time 为身份，和替换时的删除条件一致，预览结果就是真正写入时的效果。
+export async function diffStationRecords(range: RecordReplaceRange, records: RecordBatchRow[]) {
+  const existing = await queryRecordsInRange(range);
+  const existingByPeak = new Map(existing.map((row) => [row.peak_time, row]));
+  const incomingPeaks = new Set(records.map((record) => record.peak_time));
+
+  const added: RecordBatchRow[] = [];
+  const changed: { before: (typeof existing)[number]; after: RecordBatchRow }[] = [];
+  let unchanged = 0;
+
+  for (const record of records) {
+    const before = existingByPeak.get(record.peak_time);
+    if (!before) {
+      added.push(record);
+      continue;
+    }
+    const isSame = COMPARED_COLUMNS.every((key) => {
+      const next = record[key] ?? null;
+      const prev = before[key];
+      // real columns are float4, so compare at float4 precision
+      return typeof next === 'number' && typeof prev === 'number'
+        ? Math.fround(next) === Math.fround(prev)
+        : next === prev;
+    });
+    if (isSame) unchanged++;
+    else changed.push({ before, after: record });
+  }
+
+  const removed = existing.filter((row) => !incomingPeaks.has(row.peak_time as string));
+
+  return { added, removed, changed, unchanged };
+}
+
+// 作用：在一个事务里删除区间内旧事件、写入新批次并把站点标记为 has_data=1。
+// 输入：替换区间和已校验的批次。
+// 输出：删除和写入的行数。
+// 为什么这样写：同一站点同一区间重复上传时先删后插，结果只取决于最后一次上传，不会产生重复行；任何一步失败整体回滚。
+export async function replaceStationRecords(range: RecordReplaceRange, records: RecordBatchRow[]) {
+  return db.transaction(async (tx) => {
+    const deleted = await tx
+      .delete(stationRecords)
+      .where(rangeWhere(range))
+      .returning({ id: stationRecords.id });
+
+    for (let i = 0; i < records.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = records.slice(i, i + INSERT_CHUNK_SIZE);
+      await tx
+        .insert(stationRecords)
+        .values(chunk.map((record) => ({ ...record, station_id: range.stationId })));
+    }
+
+    await tx.update(stations).set({ has_data: 1 }).where(eq(stations.station_id, range.stationId));
+
+    return { deleted: deleted.length, inserted: records.length };
+  });
+}
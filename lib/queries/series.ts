@@ -0,0 +1,242 @@
+import { and, asc, eq, gte, isNotNull, lte, sql } from 'drizzle-orm';
+
+import type {
+  SeriesDownsampleMethod,
+  StationSeriesPoint,
+  StationSeriesUploadRow,
+} from '../../types';
+import { db } from '../db';
+import { downsampleSeries } from '../downsample';
+import { stations, stationSeries, stationSeriesStats } from '../schema';
+
+export interface SeriesRange {
+  stationId: string;
+  startTs: string;
+  endTs: string;
+}
+
+// 4 columns per row keeps each INSERT far below Postgres' 65535 bind-parameter cap.
+const INSERT_CHUNK_SIZE = 5000;
+
+/** LTTB / min-max run in Node on raw rows; wider windows fall back to SQL bucket averages */
+export const RAW_DOWNSAMPLE_LIMIT = 400_000;
+
+/**
+ * water_level as the client receives it: real's shortest text form read as float8. A plain
+ * ::float8 widens 3.2 to 3.2000000476837, which would no longer compare equal to the 3.2
+ * the extractor sees, and ties at the threshold decide event boundaries.
+ */
+const clientLevel = sql<number>`${stationSeries.water_level}::text::float8`;
+
+/** Calendar year of observed_at, which is stored as JST wall-clock time like the wizard's records */
+const seriesYear = sql<number>`extract(year from ${stationSeries.observed_at})::int`;
+
+function rangeWhere(range: SeriesRange) {
+  return and(
+    eq(stationSeries.station_id, range.stationId),
+    gte(stationSeries.observed_at, range.startTs),
+    lte(stationSeries.observed_at, range.endTs),
+  );
+}
+
+// 作用：在一个事务里写入某测站的逐时水位；replace 为 true 时先清空整个区间。
+// 输入：上传区间、已校验的序列行，以及是否替换区间。
+// 输出：删除和写入的行数。
+// 为什么这样写：与 station_records 的上传一致，以区间为替换单位，重复上传结果不变；
+//   大批量上传由向导分块发送，只有第一块清空区间，后续块按 (station_id, observed_at) upsert，中途失败可以从失败块重试。
+//   全记录的 P50/P75 在同一事务里重算并存入 station_series_stats，GET 时不必每次扫描整段历史；
+//   上传是低频的管理操作，每块多扫一遍可以接受。
+export async function writeStationSeries(
+  range: SeriesRange,
+  rows: StationSeriesUploadRow[],
+  options: { replace: boolean },
+) {
+  return db.transaction(async (tx) => {
+    const deleted = options.replace
+      ? await tx
+          .delete(stationSeries)
+          .where(rangeWhere(range))
+          .returning({ observed_at: stationSeries.observed_at })
+      : [];
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+      await tx
+        .insert(stationSeries)
+        .values(chunk.map((row) => ({ ...row, station_id: range.stationId })))
+        .onConflictDoUpdate({
+          target: [stationSeries.station_id, stationSeries.observed_at],
+          set: {
+            water_level: sql`excluded.water_level`,
+            quality_flag: sql`excluded.quality_flag`,
+          },
+        });
+    }
+
+    await tx.update(stations).set({ has_data: 1 }).where(eq(stations.station_id, range.stationId));
+
+    const [percentiles] = await tx
+      .select({
+        p50: sql<
+          number | null
+        >`percentile_cont(0.5) within group (order by ${stationSeries.water_level})`,
+        p75: sql<
+          number | null
+        >`percentile_cont(0.75) within group (order by ${stationSeries.water_level})`,
+      })
+      .from(stationSeries)
+      .where(
+        and(eq(stationSeries.station_id, range.stationId), isNotNull(stationSeries.water_level)),
+      );
+    await tx
+      .insert(stationSeriesStats)
+      .values({ station_id: range.stationId, ...percentiles })
+      .onConflictDoUpdate({
+        target: stationSeriesStats.station_id,
+        set: { p50: percentiles.p50, p75: percentiles.p75, updated_at: sql`now()` },
+      });
+
+    return { deleted: deleted.length, inserted: rows.length };
+  });
+}
+
+export async function queryStationSeriesCount(range: SeriesRange) {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(stationSeries)
+    .where(rangeWhere(range));
+  return row?.count ?? 0;
+}
+
+async function queryRawSeries(range: SeriesRange): Promise<StationSeriesPoint[]> {
+  return db
+    .select({
+      observed_at: stationSeries.observed_at,
+      water_level: stationSeries.water_level,
+    })
+    .from(stationSeries)
+    .where(rangeWhere(range))
+    .orderBy(asc(stationSeries.observed_at));
+}
+
+async function queryBucketAverages(range: SeriesRange, maxPoints: number) {
+  const spanSeconds = Math.max(
+    1,
+    (Date.parse(`${range.endTs.replace(' ', 'T')}Z`) -
+      Date.parse(`${range.startTs.replace(' ', 'T')}Z`)) /
+      1000,
+  );
+  const bucketSeconds = Math.ceil(spanSeconds / maxPoints);
+  const bucket = sql<string>`date_bin(make_interval(secs => ${bucketSeconds}), ${stationSeries.observed_at}, ${range.startTs}::timestamp)`;
+
+  const points = await db
+    .select({
+      observed_at: sql<string>`to_char(${bucket}, 'YYYY-MM-DD HH24:MI:SS')`,
+      water_level: sql<number | null>`avg(${stationSeries.water_level})`,
+    })
+    .from(stationSeries)
+    .where(rangeWhere(range))
+    .groupBy(bucket)
+    .orderBy(asc(bucket));
+  return { bucketSeconds, points };
+}
+
+// 作用：读取测站某时间窗口内的水位，超过 maxPoints 时按所选方法降采样。
+// 输入：时间窗口、原始行数（由 queryStationSeriesCount 得到）、最多返回的点数和降采样方法。
+// 输出：{ method, bucketSeconds, points }；method 为 null 表示返回的是原始读数，为实际使用的方法时可能与请求不同。
+// 为什么这样写：LTTB / min-max 只挑真实读数，洪峰不被平均削平，但要把原始行读进 Node；
+//   超过 RAW_DOWNSAMPLE_LIMIT 的窗口改用 date_bin 在数据库里分桶平均，只把几百个点传出来。
+export async function queryStationSeries(
+  range: SeriesRange,
+  rawCount: number,
+  maxPoints: number,
+  method: SeriesDownsampleMethod,
+) {
+  if (rawCount <= maxPoints) {
+    return { method: null, bucketSeconds: null, points: await queryRawSeries(range) };
+  }
+
+  if (method === 'avg' || rawCount > RAW_DOWNSAMPLE_LIMIT) {
+    const { bucketSeconds, points } = await queryBucketAverages(range, maxPoints);
+    return { method: 'avg' as const, bucketSeconds, points };
+  }
+
+  const raw = await queryRawSeries(range);
+  return { method, bucketSeconds: null, points: downsampleSeries(raw, maxPoints, method) };
+}
+
+/** Full readings (with quality flags) in extraction order */
+export async function queryStationSeriesRows(range: SeriesRange) {
+  return db
+    .select({
+      observed_at: stationSeries.observed_at,
+      water_level: stationSeries.water_level,
+      quality_flag: stationSeries.quality_flag,
+    })
+    .from(stationSeries)
+    .where(rangeWhere(range))
+    .orderBy(asc(stationSeries.observed_at));
+}
+
+export async function queryStationSeriesBounds(stationId: string) {
+  const [row] = await db
+    .select({
+      first: sql<string | null>`min(${stationSeries.observed_at})::text`,
+      last: sql<string | null>`max(${stationSeries.observed_at})::text`,
+    })
+    .from(stationSeries)
+    .where(eq(stationSeries.station_id, stationId));
+  return { first: row?.first ?? null, last: row?.last ?? null };
+}
+
+// P50/P75 of the raw stored levels over the whole record, as stored by writeStationSeries. These are
+// reference lines only: extraction takes its thresholds from the detrended series, so they can differ.
+export async function queryStationSeriesPercentiles(stationId: string) {
+  const [row] = await db
+    .select({ p50: stationSeriesStats.p50, p75: stationSeriesStats.p75 })
+    .from(stationSeriesStats)
+    .where(eq(stationSeriesStats.station_id, stationId));
+  return { p50: row?.p50 ?? null, p75: row?.p75 ?? null };
+}
+
+// 作用：按日历年求测站全记录的平均水位。
+// 输入：测站 ID。
+// 输出：Map<年份, 平均水位>；没有有效读数的年份不出现。
+// 为什么这样写：重新提取只载入窗口附近的读数，首尾两年往往不完整；yearly-mean 的基线要用整年均值，
+//   才与 prep 向导在完整序列上算出的一致。
+export async function queryStationSeriesYearlyMeans(stationId: string) {
+  const rows = await db
+    .select({ year: seriesYear, mean: sql<number>`avg(${clientLevel})` })
+    .from(stationSeries)
+    .where(and(eq(stationSeries.station_id, stationId), isNotNull(stationSeries.water_level)))
+    .groupBy(seriesYear)
+    .orderBy(asc(seriesYear));
+  return new Map(rows.map((row) => [row.year, row.mean]));
+}
+
+// 作用：在数据库里求测站全记录的起止阈值和峰值阈值，可选先按逐年均值去趋势。
+// 输入：测站 ID、起止与峰值百分位（0–100），以及 yearly-mean 的逐年均值（null 表示用原始水位）。
+// 输出：{ p50, p75 }，命名沿用提取统计，实际对应传入的两个百分位；没有有效读数时为 null。
+// 为什么这样写：percentile_cont 与 extractEvents 的 percentile 都是 (n-1)·q 线性插值，不必把整段历史读进 Node；
+//   逐年均值由调用方传入，Node 端去趋势用的是同一组数，阈值与窗口内的读数可以精确比较。
+export async function queryStationSeriesThresholds(
+  stationId: string,
+  percentiles: { boundary: number; peak: number },
+  yearlyMeans: Map<number, number> | null,
+) {
+  const means = yearlyMeans && [...yearlyMeans].map(([year, mean]) => ({ year, mean }));
+  const value = means ? sql`${clientLevel} - means.mean` : clientLevel;
+  const join = means
+    ? sql`join jsonb_to_recordset(${JSON.stringify(means)}::jsonb) as means(year int, mean float8)
+        on means.year = ${seriesYear}`
+    : sql``;
+
+  const [row] = await db.execute<{ p50: number | null; p75: number | null }>(sql`
+    select
+      percentile_cont(${percentiles.boundary / 100}::float8) within group (order by ${value}) as p50,
+      percentile_cont(${percentiles.peak / 100}::float8) within group (order by ${value}) as p75
+    from ${stationSeries} ${join}
+    where ${stationSeries.station_id} = ${stationId} and ${stationSeries.water_level} is not null
+  `);
+  return { p50: row?.p50 ?? null, p75: row?.p75 ?? null };
+}
@@ -1,7 +1,7 @@
-import { and, asc, desc, eq, like, or, sql } from 'drizzle-orm';
+import { and, asc, desc, eq, gte, like, lte, or, type SQL, sql } from 'drizzle-orm';
 
 import { db } from '../db';
-import { stations } from '../schema';
+import { stationRecords, stations } from '../schema';
 
 export interface StationFilter {
   q?: string;
@@ -40,7 +40,7 @@ export async function queryStations(filter: StationFilter) {
   const rows = await db
     .select({
       station: stations,
-      totalCount: sql<number>`count(*) over()`,
+      totalCount: sql<number>`(count(*) over())::int`,
     })
     .from(stations)
     .where(where)
@@ -53,7 +53,7 @@ export async function queryStations(filter: StationFilter) {
     rows[0]?.totalCount ??
     (
       await db
-        .select({ total: sql<number>`count(*)` })
+        .select({ total: sql<number>`count(*)::int` })
         .from(stations)
         .where(where)
     )[0]?.total ??
@@ -69,3 +69,46 @@ export async function queryStations(filter: StationFilter) {
     },
   };
 }
+
+export async function queryStationById(stationId: string) {
+  const [row] = await db
+    .select({
+      station_id: stations.station_id,
+      station_name: stations.station_name,
+      basin_name: stations.basin_name,
+    })
+    .from(stations)
+    .where(eq(stations.station_id, stationId))
+    .limit(1);
+  return row ?? null;
+}
+
+export interface StationStatsFilter {
+  startTs?: string | null;
+  endTs?: string | null;
+}
+
+// 作用：为地图的分级着色图层计算每个有数据测站的事件统计：事件数、最大峰值、平均涨水时间、年均事件数。
+// 输入：可选 peak_time 起止时间。
+// 输出：每个有事件的测站一行；没有事件的测站不返回，由前端按“无数据”绘制。
+// 为什么这样写：全国约两千个测站，一次 group by 就能拿到全部指标，前端不需要逐站请求 events 接口。
+//   年均事件数按该站首末事件所跨的自然年数计算，避免记录很短的测站被全局年份跨度稀释。
+export async function queryStationStats(filter: StationStatsFilter) {
+  const clauses: SQL[] = [];
+  if (filter.startTs) clauses.push(gte(stationRecords.peak_time, filter.startTs));
+  if (filter.endTs) clauses.push(lte(stationRecords.peak_time, filter.endTs));
+
+  const yearSpan = sql`(extract(year from max(${stationRecords.peak_time})) - extract(year from min(${stationRecords.peak_time})) + 1)`;
+
+  return db
+    .select({
+      station_id: stationRecords.station_id,
+      eventCount: sql<number>`count(${stationRecords.id})::int`,
+      maxPeakValue: sql<number | null>`max(${stationRecords.peak_value})`,
+      avgRiseTime: sql<number | null>`avg(${stationRecords.rise_time})`,
+      eventsPerYear: sql<number | null>`(count(${stationRecords.id}) / nullif(${yearSpan}, 0))::float8`,
+    })
+    .from(stationRecords)
+    .where(clauses.length > 0 ? and(...clauses) : undefined)
+    .groupBy(stationRecords.station_id);
+}
@@ -0,0 +1,46 @@
+import { and, asc, isNotNull, sql } from 'drizzle-orm';
+
+import { db } from '../db';
+import { stationRecords } from '../schema';
+import { dateRange } from './events';
+
+export type TimelinePeriod = 'month' | 'year';
+
+export interface TimelineFilter {
+  startTs: string;
+  endTs: string;
+  period: TimelinePeriod;
+  limit: number;
+}
+
+export async function queryPeakTimeSpan() {
+  const [row] = await db
+    .select({
+      minPeakTime: sql<string | null>`min(${stationRecords.peak_time})`,
+      maxPeakTime: sql<string | null>`max(${stationRecords.peak_time})`,
+    })
+    .from(stationRecords);
+  return row;
+}
+
+// 作用：把全国事件按月/年分桶，每个桶内每个测站只保留当期最高的一次峰值，供地图时间轴回放。
+// 输入：起止时间（必填）、分桶粒度 period、行数上限 limit。
+// 输出：[{ bucket: 'YYYY-MM' | 'YYYY', station_id, peak_time, peak_value }]，按 bucket 升序；多取一行用于判断截断。
+// 为什么这样写：回放只需要“这一期哪些站出过峰”，按 (bucket, station) 聚合后行数上限约为 测站数 × 期数，比逐事件返回小一个量级。
+export async function queryEventTimeline(filter: TimelineFilter) {
+  const format = filter.period === 'year' ? 'YYYY' : 'YYYY-MM';
+  const bucket = sql<string>`to_char(${stationRecords.peak_time}, ${sql.raw(`'${format}'`)})`;
+
+  return db
+    .select({
+      bucket,
+      station_id: stationRecords.station_id,
+      peak_time: sql<string>`(array_agg(${stationRecords.peak_time} order by ${stationRecords.peak_value} desc nulls last))[1]`,
+      peak_value: sql<number | null>`max(${stationRecords.peak_value})`,
+    })
+    .from(stationRecords)
+    .where(and(isNotNull(stationRecords.peak_time), ...dateRange(filter)))
+    .groupBy(bucket, stationRecords.station_id)
+    .orderBy(asc(bucket), asc(stationRecords.station_id))
+    .limit(filter.limit + 1);
+}
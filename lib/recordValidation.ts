@@ -0,0 +1,107 @@
+import { getTableColumns } from 'drizzle-orm';
+
+import { isCalendarDateTime } from './apiUtils';
+import { stationRecords } from './schema';
+
+export type RecordBatchRow = Omit<typeof stationRecords.$inferInsert, 'id' | 'station_id'> & {
+  peak_time: string;
+};
+
+type BatchParseResult = { ok: true; records: RecordBatchRow[] } | { ok: false; error: string };
+
+const TIMESTAMP_RE = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+// `id` is serial and `station_id` comes from the route, so neither is accepted in the body.
+const SERVER_COLUMNS = new Set(['id', 'station_id']);
+
+/** Normalizes "YYYY-MM-DDTHH:MM" / "YYYY-MM-DD HH:MM" to the "YYYY-MM-DD HH:MM:SS" form stored in Postgres */
+export function normalizeTimestamp(value: string): string {
+  const spaced = value.replace('T', ' ');
+  return spaced.length === 16 ? `${spaced}:00` : spaced;
+}
+
+/** Checks the shape and the calendar (no 2023-02-30 or 24:00) and returns the normalized form */
+export function parseTimestamp(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = TIMESTAMP_RE.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map((part) => Number(part ?? 0));
+  if (!isCalendarDateTime(year, month, day, hour, minute, second)) return null;
+  return normalizeTimestamp(value);
+}
+
+// 作用：按 stationRecords 的 Drizzle 列定义逐行校验上传批次，列名、类型、非空约束都以 schema 为准。
+// 输入：请求体里的 records（unknown），未经信任。
+// 输出：成功时返回规范化后的行（时间戳统一为 "YYYY-MM-DD HH:MM:SS"）；失败时返回第一处错误的描述。
+// 为什么这样写：列信息直接取自 getTableColumns，schema 改动后校验自动跟随，不需要再维护一份手写的字段表。
+export function parseRecordBatch(input: unknown): BatchParseResult {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, error: 'records must be a non-empty array.' };
+  }
+
+  const columns = Object.entries(getTableColumns(stationRecords)).filter(
+    ([key]) => !SERVER_COLUMNS.has(key),
+  );
+  const allowedKeys = new Set(columns.map(([key]) => key));
+  const records: RecordBatchRow[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const row = input[i];
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      return { ok: false, error: `records[${i}] must be an object.` };
+    }
+
+    const unknownKey = Object.keys(row).find((key) => !allowedKeys.has(key));
+    if (unknownKey) {
+      return { ok: false, error: `records[${i}].${unknownKey} is not a station_records column.` };
+    }
+
+    const parsed: Record<string, string | number | null> = {};
+    for (const [key, column] of columns) {
+      const value = (row as Record<string, unknown>)[key] ?? null;
+
+      if (value === null) {
+        if (column.notNull) {
+          return { ok: false, error: `records[${i}].${key} is required.` };
+        }
+        parsed[key] = null;
+        continue;
+      }
+
+      if (column.dataType === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return { ok: false, error: `records[${i}].${key} must be a finite number.` };
+        }
+        parsed[key] = value;
+      } else if (column.columnType === 'PgTimestampString') {
+        const timestamp = parseTimestamp(value);
+        if (!timestamp) {
+          return { ok: false, error: `records[${i}].${key} must be "YYYY-MM-DD HH:MM:SS".` };
+        }
+        parsed[key] = timestamp;
+      } else {
+        if (typeof value !== 'string') {
+          return { ok: false, error: `records[${i}].${key} must be a string.` };
+        }
+        parsed[key] = value;
+      }
+    }
+
+    // peak_time is the identity of an event inside a station, so it cannot be missing.
+    if (parsed.peak_time === null) {
+      return { ok: false, error: `records[${i}].peak_time is required.` };
+    }
+
+    records.push(parsed as RecordBatchRow);
+  }
+
+  const seen = new Set<string>();
+  for (const record of records) {
+    if (seen.has(record.peak_time)) {
+      return { ok: false, error: `Duplicate peak_time in batch: ${record.peak_time}.` };
+    }
+    seen.add(record.peak_time);
+  }
+
+  return { ok: true, records };
+}
@@ -0,0 +1,180 @@
+import type {
+  ExtractionParams,
+  ReextractDiff,
+  ReextractResponse,
+  ReextractShift,
+  StationRecentEvent,
+  StationRecordUploadRow,
+} from '../types';
+import { applyDetrend, LOCAL_WINDOW_HOURS } from './hydro/detrend/rollingMedian';
+import { alignYearlyMeans } from './hydro/detrend/yearlyMean';
+import { extractEvents } from './hydro/extract/eventExtractor';
+import type { HydroRecord } from './hydro/types';
+import { toUploadRows } from './hydro/upload/recordUploader';
+import { jstDate } from './hydro/utils/jst';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** The production settings (yearly-mean detrend, no minimum rise), so they reproduce the stored events */
+export const DEFAULT_EXTRACTION_PARAMS: ExtractionParams = {
+  peakPercentile: 75,
+  boundaryPercentile: 50,
+  maxPlateau: null,
+  minRise: 0,
+  detrend: 'yearly-mean',
+};
+
+/**
+ * Readings loaded on each side of the requested window: half of it covers the 'local'
+ * median window, so baselines inside the window match the whole series, and the rest
+ * lets events peaking near the window edges reach their boundary crossings.
+ */
+export const EXTRACTION_MARGIN_HOURS = LOCAL_WINDOW_HOURS;
+
+type SeriesRow = { observed_at: string; water_level: number | null; quality_flag: string };
+
+/**
+ * Rebuilds wizard records from stored rows. observed_at is JST wall-clock time,
+ * the same fields formatDateTime writes, so the round trip is exact whatever
+ * the server's zone.
+ */
+export function seriesToRecords(rows: SeriesRow[]): HydroRecord[] {
+  return rows.map((row) => {
+    const [date, time] = row.observed_at.split(' ');
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute, second] = time.split(':').map(Number);
+    return {
+      dateTime: jstDate(year, month, day, hour, minute, second ?? 0),
+      waterLevel: row.water_level,
+      qualityFlag: row.quality_flag,
+      year,
+      month,
+      day,
+    };
+  });
+}
+
+/** Zone-less "YYYY-MM-DD HH:MM:SS"; only differences are used, so UTC is fine */
+function toMillis(value: string): number {
+  return Date.parse(`${value.replace(' ', 'T')}Z`);
+}
+
+function shiftTimestamp(value: string, hours: number): string {
+  return new Date(toMillis(value) + hours * HOUR_MS).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/** The window widened by EXTRACTION_MARGIN_HOURS on both sides */
+export function extractionSpan<T extends { startTs: string; endTs: string }>(window: T): T {
+  return {
+    ...window,
+    startTs: shiftTimestamp(window.startTs, -EXTRACTION_MARGIN_HOURS),
+    endTs: shiftTimestamp(window.endTs, EXTRACTION_MARGIN_HOURS),
+  };
+}
+
+function shiftHours(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null;
+  return Math.round(((toMillis(to) - toMillis(from)) / HOUR_MS) * 100) / 100;
+}
+
+/** Whole-series values the loaded rows cannot provide; null where the strategy has none */
+export interface ExtractionReference {
+  /** From queryStationSeriesThresholds ('skip' and 'yearly-mean' only) */
+  thresholds: { p50: number | null; p75: number | null } | null;
+  /** From queryStationSeriesYearlyMeans ('yearly-mean' only) */
+  yearlyMeans: Map<number, number> | null;
+}
+
+/**
+ * Extracts over the rows passed in (the window plus margins) and keeps the candidates whose
+ * peak falls inside the window. With a reference the thresholds and yearly baselines are those
+ * of the whole series; 'local' and 'full' take them from the loaded rows instead.
+ */
+export function runExtraction(
+  rows: SeriesRow[],
+  params: ExtractionParams,
+  window: { startTs: string; endTs: string },
+  reference: ExtractionReference,
+) {
+  const records = seriesToRecords(rows);
+  const detrended =
+    params.detrend === 'yearly-mean' && reference.yearlyMeans
+      ? alignYearlyMeans(records, reference.yearlyMeans)
+      : applyDetrend(records, params.detrend);
+  const { events, stats } = extractEvents(detrended.records, {
+    minRise: params.minRise,
+    peakPercentile: params.peakPercentile,
+    boundaryPercentile: params.boundaryPercentile,
+    maxPlateau: params.maxPlateau ?? undefined,
+    thresholds: reference.thresholds ?? undefined,
+  });
+
+  const responseStats: ReextractResponse['stats'] = {
+    boundaryThreshold: stats.p50,
+    peakThreshold: stats.p75,
+    peakCandidates: stats.peakCandidates,
+    peaksAboveThreshold: stats.peaksAboveP75,
+    incompleteEvents: stats.incompleteEvents,
+    belowThreshold: stats.belowThreshold,
+    mergedPeaks: stats.mergedPeaks,
+  };
+  const candidates = toUploadRows(events).filter(
+    (row) => row.peak_time >= window.startTs && row.peak_time <= window.endTs,
+  );
+  return { candidates, stats: responseStats };
+}
+
+// 作用：比较重新提取的候选事件与库中已有事件，分为新增、消失、偏移和不变四类。
+// 输入：库中同区间的事件（按 peak_time 升序）、候选事件，以及判定为同一事件的峰值时间容差（小时）。
+// 输出：ReextractDiff；shifted 里带起点/峰值/终点各自移动的小时数。
+// 为什么这样写：参数一变峰值常会挪动一两个小时，按 peak_time 完全相等来匹配会把它们都算成“删一个加一个”；
+//   这里按峰值时间最近且在容差内的一对贪心配对，每个库中事件最多配一次。
+export function diffExtraction(
+  stored: StationRecentEvent[],
+  candidates: StationRecordUploadRow[],
+  toleranceHours: number,
+): ReextractDiff {
+  const toleranceMs = toleranceHours * HOUR_MS;
+  const storedPeaks = stored.map((event) => (event.peak_time ? toMillis(event.peak_time) : NaN));
+  const matched = new Set<number>();
+
+  const added: StationRecordUploadRow[] = [];
+  const shifted: ReextractShift[] = [];
+  let unchanged = 0;
+
+  for (const candidate of candidates) {
+    const peakMs = toMillis(candidate.peak_time);
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    storedPeaks.forEach((storedMs, index) => {
+      const distance = Math.abs(storedMs - peakMs);
+      if (!matched.has(index) && distance <= toleranceMs && distance < bestDistance) {
+        bestIndex = index;
+        bestDistance = distance;
+      }
+    });
+
+    if (bestIndex === -1) {
+      added.push(candidate);
+      continue;
+    }
+
+    matched.add(bestIndex);
+    const storedEvent = stored[bestIndex];
+    const shift: ReextractShift = {
+      stored: storedEvent,
+      candidate,
+      startShiftHours: shiftHours(storedEvent.start_time, candidate.start_time),
+      peakShiftHours: shiftHours(storedEvent.peak_time, candidate.peak_time) ?? 0,
+      endShiftHours: shiftHours(storedEvent.end_time, candidate.end_time),
+    };
+    if (shift.startShiftHours === 0 && shift.peakShiftHours === 0 && shift.endShiftHours === 0) {
+      unchanged++;
+    } else {
+      shifted.push(shift);
+    }
+  }
+
+  const removed = stored.filter((_, index) => !matched.has(index));
+  return { added, removed, shifted, unchanged };
+}
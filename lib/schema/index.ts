@@ -1,2 +1,5 @@
+export * from './stationQuality';
 export * from './stationRecords';
 export * from './stations';
+export * from './stationSeries';
+export * from './stationSeriesStats';
@@ -0,0 +1,27 @@
+import { integer, pgTable, primaryKey, real, text, timestamp } from 'drizzle-orm/pg-core';
+
+import { stations } from './stations';
+
+export const stationQuality = pgTable(
+  'station_quality',
+  {
+    station_id: text('station_id')
+      .notNull()
+      .references(() => stations.station_id),
+    year: integer('year').notNull(),
+    expected_rows: integer('expected_rows').notNull(), // hours of the year inside the cleaned range
+    total_rows: integer('total_rows').notNull(),
+    valid_rows: integer('valid_rows').notNull(),
+    tentative_count: integer('tentative_count').notNull(),
+    missing_count: integer('missing_count').notNull(),
+    closed_count: integer('closed_count').notNull(),
+    unregistered_count: integer('unregistered_count').notNull(),
+    valid_rate: real('valid_rate').notNull(), // valid_rows / expected_rows
+    longest_gap_hours: real('longest_gap_hours').notNull(),
+    longest_gap_start: timestamp('longest_gap_start', { mode: 'string' }),
+    updated_at: timestamp('updated_at', { mode: 'string' }).notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ name: 'station_quality_pk', columns: [table.station_id, table.year] }),
+  ],
+);
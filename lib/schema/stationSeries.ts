@@ -0,0 +1,19 @@
+import { pgTable, primaryKey, real, text, timestamp } from 'drizzle-orm/pg-core';
+
+import { stations } from './stations';
+
+export const stationSeries = pgTable(
+  'station_series',
+  {
+    station_id: text('station_id')
+      .notNull()
+      .references(() => stations.station_id),
+    observed_at: timestamp('observed_at', { mode: 'string' }).notNull(),
+    water_level: real('water_level'), // null = missing
+    quality_flag: text('quality_flag').notNull().default(''),
+  },
+  (table) => [
+    // One reading per station per timestamp; also serves every (station, time range) read.
+    primaryKey({ name: 'station_series_pk', columns: [table.station_id, table.observed_at] }),
+  ],
+);
@@ -0,0 +1,13 @@
+import { doublePrecision, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+
+import { stations } from './stations';
+
+// Whole-record percentiles of station_series, refreshed in the same transaction as every series write
+export const stationSeriesStats = pgTable('station_series_stats', {
+  station_id: text('station_id')
+    .primaryKey()
+    .references(() => stations.station_id),
+  p50: doublePrecision('p50'), // null = no valid readings
+  p75: doublePrecision('p75'),
+  updated_at: timestamp('updated_at', { mode: 'string' }).notNull().defaultNow(),
+});
@@ -0,0 +1,54 @@
+import type { StationSeriesUploadRow } from '../types';
+import { parseTimestamp } from './recordValidation';
+
+type SeriesParseResult =
+  | { ok: true; rows: StationSeriesUploadRow[] }
+  | { ok: false; error: string };
+
+/** Per request; the wizard sends longer series in chunks (see seriesUploader) */
+export const SERIES_BATCH_LIMIT = 50_000;
+
+// 作用：校验 prep 向导上传的清洗后逐时水位序列。
+// 输入：请求体里的 rows（unknown）。
+// 输出：成功时返回规范化后的行（observed_at 统一为 "YYYY-MM-DD HH:MM:SS"）；失败时返回第一处错误。
+// 为什么这样写：缺测时刻也要入库（water_level 为 null、带质量标记），后续重新提取事件时才能区分“缺测”和“没有数据”。
+export function parseSeriesBatch(input: unknown): SeriesParseResult {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, error: 'rows must be a non-empty array.' };
+  }
+  if (input.length > SERIES_BATCH_LIMIT) {
+    return { ok: false, error: `At most ${SERIES_BATCH_LIMIT} rows can be uploaded at once.` };
+  }
+
+  const rows: StationSeriesUploadRow[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < input.length; i++) {
+    const row = input[i] as Record<string, unknown> | null;
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      return { ok: false, error: `rows[${i}] must be an object.` };
+    }
+
+    const { observed_at, water_level, quality_flag } = row;
+    const normalized = parseTimestamp(observed_at);
+    if (!normalized) {
+      return { ok: false, error: `rows[${i}].observed_at must be "YYYY-MM-DD HH:MM:SS".` };
+    }
+    if (
+      water_level !== null &&
+      (typeof water_level !== 'number' || !Number.isFinite(water_level))
+    ) {
+      return { ok: false, error: `rows[${i}].water_level must be a finite number or null.` };
+    }
+    if (quality_flag !== undefined && typeof quality_flag !== 'string') {
+      return { ok: false, error: `rows[${i}].quality_flag must be a string.` };
+    }
+
+    if (seen.has(normalized)) {
+      return { ok: false, error: `Duplicate observed_at in batch: ${normalized}.` };
+    }
+    seen.add(normalized);
+    rows.push({ observed_at: normalized, water_level, quality_flag: quality_flag ?? '' });
+  }
+
+  return { ok: true, rows };
+}
@@ -39,10 +39,23 @@ export type StationRecentEvent = {
 
 export type StationMatchedPoint = {
   id: number;
+  station_id: string;
+  start_time: string | null;
   peak_time: string;
+  end_time: string | null;
   peak_value: number;
 };
 
+export type YearlyEventStats = {
+  year: number;
+  eventCount: number;
+  maxPeakValue: number | null;
+  /** peak_time of the year's highest peak */
+  maxPeakTime: string | null;
+  avgRiseTime: number | null;
+  avgFallTime: number | null;
+};
+
 export type StationEventsApiResponse = {
   stationId?: string;
   basinName?: string;
@@ -50,6 +63,9 @@ export type StationEventsApiResponse = {
   recentEvents: StationRecentEvent[];
   matchedSeries?: StationMatchedPoint[];
   matchedEventsDetail?: StationRecentEvent[];
+  /** Cursor for the next page of matchedEventsDetail; null when it is complete */
+  nextCursor?: string | null;
+  yearlyStats?: YearlyEventStats[];
 };
 
 export type StationEventsCountResponse = {
@@ -57,3 +73,302 @@ export type StationEventsCountResponse = {
   basinName?: string;
   matchedEvents: number;
 };
+
+export type StationRecordUploadRow = {
+  start_time: string | null;
+  peak_time: string;
+  end_time: string | null;
+  start_value: number | null;
+  peak_value: number | null;
+  end_value: number | null;
+  rise_time: number | null;
+  fall_time: number | null;
+};
+
+export type StationRecordsUploadRequest = {
+  /** Inclusive peak_time date range to replace ("YYYY-MM-DD"); defaults to the batch's own span */
+  range?: { start: string; end: string };
+  records: StationRecordUploadRow[];
+};
+
+export type StationRecordsDiff = {
+  added: StationRecordUploadRow[];
+  removed: StationRecentEvent[];
+  changed: { before: StationRecentEvent; after: StationRecordUploadRow }[];
+  unchanged: number;
+};
+
+export type StationRecordsUploadResponse = {
+  stationId: string;
+  dryRun: boolean;
+  range: { startTs: string; endTs: string };
+  diff?: StationRecordsDiff;
+  deleted?: number;
+  inserted?: number;
+};
+
+export type FrequencyDistribution = 'gumbel' | 'gev' | 'lp3';
+
+export type AnnualMaximum = {
+  year: number;
+  peak_value: number;
+};
+
+export type PlottingPosition = AnnualMaximum & {
+  rank: number;
+  exceedanceProbability: number;
+  returnPeriod: number;
+};
+
+export type ReturnPeriodEstimate = {
+  returnPeriod: number;
+  estimate: number;
+  lower: number | null;
+  upper: number | null;
+};
+
+export type FrequencyFit = {
+  distribution: FrequencyDistribution;
+  parameters: Record<string, number> | null;
+  quantiles: ReturnPeriodEstimate[];
+  error?: string;
+};
+
+export type FrequencyAnalysisResponse = {
+  stationId?: string;
+  basinName?: string;
+  years: number;
+  confidence: number;
+  annualMaxima: AnnualMaximum[];
+  plottingPositions: PlottingPosition[];
+  fits: FrequencyFit[];
+};
+
+export type EventSearchItem = StationRecentEvent & {
+  station_id: string;
+  station_name: string | null;
+  basin_name: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type EventSearchResponse = {
+  items: EventSearchItem[];
+  /** Pass back as `cursor` to fetch the next page; null on the last page */
+  nextCursor: string | null;
+  limit: number;
+};
+
+export type BasinStationSummary = {
+  station_id: string;
+  station_name: string | null;
+  eventCount: number;
+  maxPeakValue: number | null;
+  avgRiseTime: number | null;
+  avgFallTime: number | null;
+  firstPeakTime: string | null;
+  lastPeakTime: string | null;
+};
+
+export type BasinStationBreakdownResponse = {
+  basinName: string;
+  items: BasinStationSummary[];
+};
+
+export type StationStats = {
+  station_id: string;
+  eventCount: number;
+  maxPeakValue: number | null;
+  avgRiseTime: number | null;
+  eventsPerYear: number | null;
+};
+
+export type StationStatsApiResponse = {
+  items: StationStats[];
+};
+
+export type EventTimelinePoint = {
+  station_id: string;
+  peak_time: string;
+  peak_value: number | null;
+};
+
+export type EventTimelineBucket = {
+  /** "YYYY-MM" for monthly buckets, "YYYY" for yearly ones */
+  period: string;
+  events: EventTimelinePoint[];
+};
+
+export type EventTimelineResponse = {
+  period: 'month' | 'year';
+  buckets: EventTimelineBucket[];
+  /** True when the window held more rows than the endpoint returns */
+  truncated: boolean;
+};
+
+export type PeakTimeSpanResponse = {
+  minPeakTime: string | null;
+  maxPeakTime: string | null;
+};
+
+export type EpisodeEventInput = {
+  id: number;
+  station_id: string;
+  station_name: string | null;
+  peak_time: string;
+  peak_value: number | null;
+};
+
+export type EpisodeMember = EpisodeEventInput & {
+  /** 1 = the leading (first-peaking) station */
+  order: number;
+  /** Hours after the leading peak */
+  lagHours: number;
+  /** Hours after the previous member's peak */
+  stepLagHours: number;
+};
+
+export type BasinEpisode = {
+  leadEventId: number;
+  startPeakTime: string;
+  endPeakTime: string;
+  durationHours: number;
+  stationCount: number;
+  maxPeakValue: number | null;
+  members: EpisodeMember[];
+};
+
+export type BasinEpisodesResponse = {
+  basinName: string;
+  windowHours: number;
+  minStations: number;
+  /** Events scanned for clustering */
+  totalEvents: number;
+  episodes: BasinEpisode[];
+  /** True when the scan stopped at the row limit */
+  truncated: boolean;
+};
+
+export type StationSeriesUploadRow = {
+  /** "YYYY-MM-DD HH:MM:SS" */
+  observed_at: string;
+  water_level: number | null;
+  quality_flag: string;
+};
+
+export type StationSeriesUploadResponse = {
+  stationId: string;
+  range: { startTs: string; endTs: string };
+  deleted: number;
+  inserted: number;
+};
+
+export type StationSeriesPoint = {
+  observed_at: string;
+  water_level: number | null;
+};
+
+/** lttb / minmax pick real readings; avg returns fixed-width bucket means */
+export type SeriesDownsampleMethod = 'lttb' | 'minmax' | 'avg';
+
+export type StationSeriesResponse = {
+  stationId: string;
+  from: string;
+  to: string;
+  /** Rows stored in the window before downsampling */
+  rawCount: number;
+  /** Method actually applied; null when the points are raw readings */
+  method: SeriesDownsampleMethod | null;
+  /** Bucket width in seconds for avg; null otherwise */
+  bucketSeconds: number | null;
+  points: StationSeriesPoint[];
+  /** Percentiles of every stored reading of the station (observed level, not detrended) */
+  p50: number | null;
+  p75: number | null;
+};
+
+/** Mirrors the prep wizard's detrend strategies */
+export type ExtractionDetrend = 'skip' | 'local' | 'full' | 'yearly-mean';
+
+export type ExtractionParams = {
+  peakPercentile: number;
+  boundaryPercentile: number;
+  /** Longest flat top (in readings) still treated as a peak; null = any length */
+  maxPlateau: number | null;
+  /** Minimum rise in meters of the detrended series */
+  minRise: number;
+  detrend: ExtractionDetrend;
+};
+
+export type ReextractShift = {
+  stored: StationRecentEvent;
+  candidate: StationRecordUploadRow;
+  /** Hours the candidate moved relative to the stored event (positive = later) */
+  startShiftHours: number | null;
+  peakShiftHours: number;
+  endShiftHours: number | null;
+};
+
+export type ReextractDiff = {
+  added: StationRecordUploadRow[];
+  removed: StationRecentEvent[];
+  shifted: ReextractShift[];
+  unchanged: number;
+};
+
+export type ReextractResponse = {
+  stationId: string;
+  range: { startTs: string; endTs: string };
+  params: ExtractionParams;
+  /** Hourly readings the extraction ran on: the range plus a margin on each side */
+  readings: number;
+  /** Stored and candidate peaks closer than this are treated as the same event */
+  toleranceHours: number;
+  /**
+   * Thresholds are over the whole series (over the loaded readings for local / full detrend),
+   * counts over the loaded readings; candidates and diff only cover peaks inside range
+   */
+  stats: {
+    boundaryThreshold: number | null;
+    peakThreshold: number | null;
+    peakCandidates: number;
+    peaksAboveThreshold: number;
+    incompleteEvents: number;
+    belowThreshold: number;
+    mergedPeaks: number;
+  };
+  candidates: StationRecordUploadRow[];
+  diff: ReextractDiff;
+};
+
+export type StationQualityUploadRow = {
+  year: number;
+  expected_rows: number;
+  total_rows: number;
+  valid_rows: number;
+  tentative_count: number;
+  missing_count: number;
+  closed_count: number;
+  unregistered_count: number;
+  valid_rate: number;
+  longest_gap_hours: number;
+  /** "YYYY-MM-DD HH:MM:SS" */
+  longest_gap_start: string | null;
+};
+
+export type StationQualityUploadResponse = {
+  stationId: string;
+  years: number;
+};
+
+export type StationQualityYear = StationQualityUploadRow & {
+  updated_at: string;
+  /** Stored events whose peak falls in the year */
+  eventCount: number;
+};
+
+export type StationQualityResponse = {
+  stationId: string;
+  /** Years with uploaded cleaning statistics, ascending */
+  items: StationQualityYear[];
+};